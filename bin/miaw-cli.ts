@@ -89,10 +89,15 @@ COMMANDS:
   send        Send messages (text, image, document)
   group       Group management (list, info, participants, invite, settings)
   check       Check if phone numbers are on WhatsApp
-  contact     Contact management (list, info, business, picture, add, remove)
+  contact     Contact management (list, info, business, picture, add, remove, block)
   profile     Profile management (picture, name, status)
+  privacy     Privacy settings (show, set)
+  call        Calls (link, reject)
   label       Label management - WhatsApp Business (list, chats, add, chat)
   catalog     Catalog management - WhatsApp Business (list, collections, product)
+  campaign    Broadcast campaigns (run, status, pause)
+  newsletter  Scheduled newsletter posts (schedule add, list, cancel)
+  serve       Start the REST API server (--port, --host, --api-key)
 
 COMMON OPTIONS:
   --limit N                                   Limit number of results
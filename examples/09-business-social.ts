@@ -260,7 +260,7 @@ client.on("message", async (message) => {
     const newsletterId = text.substring(16).trim();
     const messages = await client.fetchNewsletterMessages(newsletterId, 10);
 
-    if (messages.messages.length > 0) {
+    if (messages.messages && messages.messages.length > 0) {
       let response = `*Newsletter Messages*\n\n`;
       for (const msg of messages.messages) {
         response += `*${msg.text || "[Media]"}*\n`;
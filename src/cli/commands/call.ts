@@ -0,0 +1,79 @@
+/**
+ * Call Commands
+ *
+ * Commands for calls (call links, rejecting incoming calls)
+ */
+
+import { MiawClient } from "../../index.js";
+import { ensureConnected } from "../utils/session.js";
+import { formatJson, formatMessage } from "../utils/formatter.js";
+
+/**
+ * Create a call link
+ */
+export async function cmdCallLink(
+  client: MiawClient,
+  args: { type?: string; at?: string },
+  jsonOutput: boolean
+): Promise<boolean> {
+  const type = args.type || "video";
+  if (type !== "audio" && type !== "video") {
+    console.log("❌ Usage: call link [audio|video] [--at <datetime>]");
+    return false;
+  }
+
+  let startTime: Date | undefined;
+  if (args.at) {
+    startTime = new Date(args.at);
+    if (isNaN(startTime.getTime())) {
+      console.log(`❌ Invalid date: ${args.at} (use e.g. 2026-01-31T15:00)`);
+      return false;
+    }
+  }
+
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  const linkResult = await client.createCallLink(type, startTime);
+
+  if (jsonOutput) {
+    console.log(formatJson(linkResult));
+    return linkResult.success;
+  }
+
+  if (linkResult.success) {
+    console.log(`📞 ${type === "audio" ? "Voice" : "Video"} call link:`);
+    console.log(linkResult.link);
+    return true;
+  }
+
+  console.log(formatMessage(false, "Failed to create call link", linkResult.error));
+  return false;
+}
+
+/**
+ * Reject an incoming call
+ */
+export async function cmdCallReject(
+  client: MiawClient,
+  args: { callId: string; from: string }
+): Promise<boolean> {
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  const rejectResult = await client.rejectCall(args.callId, args.from);
+
+  if (rejectResult.success) {
+    console.log(formatMessage(true, "Call rejected", args.callId));
+    return true;
+  }
+
+  console.log(formatMessage(false, "Failed to reject call", rejectResult.error));
+  return false;
+}
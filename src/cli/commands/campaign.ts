@@ -0,0 +1,345 @@
+/**
+ * Campaign Commands
+ *
+ * Commands for running and monitoring broadcast campaigns
+ */
+
+import * as fs from "fs";
+import { MiawClient, JsonFileStore, CampaignManager } from "../../index.js";
+import type { CampaignInfo, CampaignMedia, CreateCampaignOptions } from "../../index.js";
+import { ensureConnected } from "../utils/session.js";
+import { formatTable } from "../utils/formatter.js";
+import { resolveMediaSource } from "../utils/media.js";
+
+/**
+ * Where campaigns are persisted, for reading them without connecting
+ */
+interface CampaignStoreConfig {
+  instanceId: string;
+  sessionPath: string;
+}
+
+/**
+ * Run a campaign (new or stored) and wait for it to finish
+ *
+ * Usage:
+ *   campaign run <file.json>                   Options from a CreateCampaignOptions JSON file
+ *   campaign run <id>                          Resume a stored campaign
+ *   campaign run --template <text> --recipients <phones|file> [--name N]
+ *                [--image|--video|--document <path>] [--delay MS] [--detach]
+ */
+export async function cmdCampaignRun(
+  client: MiawClient,
+  args: {
+    source?: string;
+    template?: string;
+    recipients?: string;
+    name?: string;
+    image?: string;
+    video?: string;
+    document?: string;
+    delay?: number;
+    detach?: boolean;
+  },
+  jsonOutput: boolean
+): Promise<boolean> {
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  let campaign = args.source ? client.getCampaign(args.source) : undefined;
+
+  if (!campaign) {
+    let options: CreateCampaignOptions;
+    try {
+      options = buildCampaignOptions(args);
+      campaign = client.createCampaign(options);
+    } catch (error) {
+      console.log(`❌ ${(error as Error).message}`);
+      return false;
+    }
+    console.log(`📣 Created campaign ${campaign.id} (${campaign.getInfo().stats.total} recipients)`);
+  }
+
+  const status = campaign.getInfo().status;
+  if (status === "completed" || status === "cancelled") {
+    console.log(`❌ Campaign ${campaign.id} is already ${status}`);
+    return false;
+  }
+  campaign.start();
+
+  if (args.detach) {
+    console.log(`✅ Campaign ${campaign.id} is running (check with: campaign status ${campaign.id})`);
+    return true;
+  }
+
+  const id = campaign.id;
+  const onUpdate = (info: CampaignInfo) => {
+    if (info.id !== id || jsonOutput) return;
+    const { stats } = info;
+    const done = stats.total - stats.pending;
+    process.stdout.write(
+      `\r📤 ${done}/${stats.total} processed | sent ${stats.sent + stats.delivered + stats.read} | failed ${stats.failed} | opted out ${stats.optedOut}   `
+    );
+  };
+  client.on("campaign_update", onUpdate);
+
+  let info: CampaignInfo;
+  try {
+    info = await campaign.waitForCompletion();
+  } finally {
+    client.removeListener("campaign_update", onUpdate);
+  }
+
+  if (jsonOutput) {
+    console.log(JSON.stringify(info, null, 2));
+    return true;
+  }
+
+  console.log(`\n\n✅ Campaign ${info.id} ${info.status}`);
+  printStats(info);
+  return true;
+}
+
+/**
+ * Show campaign progress (all campaigns, or one with its recipients)
+ *
+ * Usage: campaign status [id]
+ */
+export async function cmdCampaignStatus(
+  client: MiawClient,
+  args: { id?: string } & CampaignStoreConfig,
+  jsonOutput: boolean
+): Promise<boolean> {
+  const campaigns = await loadCampaigns(client, args);
+
+  if (args.id) {
+    const info = campaigns.find((c) => c.id === args.id);
+    if (!info) {
+      console.log(`❌ Campaign not found: ${args.id}`);
+      return false;
+    }
+    if (jsonOutput) {
+      console.log(JSON.stringify(info, null, 2));
+      return true;
+    }
+
+    console.log(`\n📣 ${info.name} (${info.id}) — ${info.status}\n`);
+    printStats(info);
+    console.log(
+      "\n" +
+        formatTable(
+          info.recipients.map((r) => ({
+            phone: r.phone,
+            status: r.status,
+            error: r.error || "-",
+          })),
+          [
+            { key: "phone", label: "Phone", width: 20 },
+            { key: "status", label: "Status", width: 12 },
+            { key: "error", label: "Error", width: 40 },
+          ]
+        )
+    );
+    return true;
+  }
+
+  if (jsonOutput) {
+    console.log(JSON.stringify(campaigns, null, 2));
+    return true;
+  }
+
+  if (campaigns.length === 0) {
+    console.log("📣 No campaigns found");
+    return true;
+  }
+
+  const tableData = campaigns.map((c) => ({
+    id: c.id,
+    name: c.name,
+    status: c.status,
+    progress: `${c.stats.total - c.stats.pending}/${c.stats.total}`,
+    read: String(c.stats.read),
+    failed: String(c.stats.failed),
+  }));
+
+  console.log(`\n📣 Campaigns (${campaigns.length}):\n`);
+  console.log(
+    formatTable(tableData, [
+      { key: "id", label: "ID", width: 38 },
+      { key: "name", label: "Name", width: 20 },
+      { key: "status", label: "Status", width: 10 },
+      { key: "progress", label: "Progress", width: 10 },
+      { key: "read", label: "Read", width: 6 },
+      { key: "failed", label: "Failed", width: 6 },
+    ])
+  );
+  return true;
+}
+
+/**
+ * Pause a campaign running in this session, or one left "running" by a
+ * process that has exited. A campaign whose sending process is still alive
+ * (e.g. `serve` or another REPL) is not paused: that process would overwrite
+ * the stored state with its own on the next save.
+ *
+ * Usage: campaign pause <id>
+ */
+export async function cmdCampaignPause(
+  client: MiawClient,
+  args: { id: string } & CampaignStoreConfig,
+  jsonOutput: boolean
+): Promise<boolean> {
+  const campaign = client.getCampaign(args.id);
+  let info: CampaignInfo | undefined =
+    campaign?.getInfo() ?? (await loadCampaigns(client, args)).find((c) => c.id === args.id);
+
+  if (!info) {
+    console.log(`❌ Campaign not found: ${args.id}`);
+    return false;
+  }
+
+  if (info.status === "running") {
+    if (!campaign?.isActive() && isProcessAlive(info.ownerPid)) {
+      const error =
+        `Campaign is being sent by process ${info.ownerPid}; pause it there, ` +
+        `or stop that process and take the campaign over with: campaign run ${info.id}`;
+      if (jsonOutput) {
+        console.log(JSON.stringify({ id: info.id, status: info.status, error }, null, 2));
+      } else {
+        console.log(`❌ ${error}`);
+      }
+      return false;
+    }
+    if (campaign) {
+      campaign.pause();
+      info = campaign.getInfo();
+    } else {
+      info = await pauseStored(args);
+    }
+  }
+
+  if (jsonOutput) {
+    console.log(JSON.stringify({ id: info.id, status: info.status }, null, 2));
+    return info.status === "paused";
+  }
+
+  if (info.status !== "paused") {
+    console.log(`❌ Campaign ${info.id} is ${info.status}, not running`);
+    return false;
+  }
+  console.log(`⏸️  Campaign ${info.id} paused (resume with: campaign run ${info.id})`);
+  return true;
+}
+
+/**
+ * Pause a campaign in the store while offline, once its owner has exited
+ */
+async function pauseStored(config: { id: string } & CampaignStoreConfig): Promise<CampaignInfo> {
+  const store = new JsonFileStore(config.sessionPath, config.instanceId);
+  const campaigns = await store.loadCampaigns();
+  const data = campaigns.find((c) => c.id === config.id)!;
+  data.status = "paused";
+  await store.saveCampaigns(campaigns);
+  return CampaignManager.toInfo(data);
+}
+
+/**
+ * Whether the process that owns a campaign is still running. Campaigns saved
+ * without an owner, or owned by a previous process with this process's PID,
+ * count as abandoned.
+ */
+function isProcessAlive(pid: number | undefined): boolean {
+  if (!pid || pid === process.pid) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Campaigns of the connected client, or straight from the store when offline
+ */
+async function loadCampaigns(
+  client: MiawClient,
+  config: CampaignStoreConfig
+): Promise<CampaignInfo[]> {
+  if (client.getConnectionState() === "connected") {
+    return client.getCampaigns();
+  }
+  const store = new JsonFileStore(config.sessionPath, config.instanceId);
+  return (await store.loadCampaigns()).map((data) => CampaignManager.toInfo(data));
+}
+
+/**
+ * Campaign options from a JSON file or from command flags
+ */
+function buildCampaignOptions(args: {
+  source?: string;
+  template?: string;
+  recipients?: string;
+  name?: string;
+  image?: string;
+  video?: string;
+  document?: string;
+  delay?: number;
+}): CreateCampaignOptions {
+  if (args.source) {
+    if (!fs.existsSync(args.source)) {
+      throw new Error(`Campaign not found and no such file: ${args.source}`);
+    }
+    const options = JSON.parse(fs.readFileSync(args.source, "utf8")) as CreateCampaignOptions;
+    if (options.media?.source) {
+      options.media = { ...options.media, source: resolveMediaSource(options.media.source) };
+    }
+    return options;
+  }
+
+  if (!args.template || !args.recipients) {
+    throw new Error(
+      "Usage: campaign run <file.json|id> or campaign run --template <text> --recipients <phones|file>"
+    );
+  }
+
+  // A file with one phone per line (or comma-separated), or an inline list
+  const recipientList = fs.existsSync(args.recipients)
+    ? fs.readFileSync(args.recipients, "utf8")
+    : args.recipients;
+
+  let media: CampaignMedia | undefined;
+  if (args.image) {
+    media = { type: "image", source: resolveMediaSource(args.image) };
+  } else if (args.video) {
+    media = { type: "video", source: resolveMediaSource(args.video) };
+  } else if (args.document) {
+    media = {
+      type: "document",
+      source: resolveMediaSource(args.document),
+      fileName: args.document.split(/[\\/]/).pop(),
+    };
+  }
+
+  return {
+    name: args.name,
+    template: args.template,
+    recipients: recipientList.split(/[\s,;]+/).filter(Boolean),
+    media,
+    delayMs: args.delay,
+  };
+}
+
+function printStats(info: CampaignInfo): void {
+  const { stats } = info;
+  console.log(`   Total:      ${stats.total}`);
+  console.log(`   Pending:    ${stats.pending}`);
+  console.log(`   Sent:       ${stats.sent}`);
+  console.log(`   Delivered:  ${stats.delivered}`);
+  console.log(`   Read:       ${stats.read}`);
+  console.log(`   Failed:     ${stats.failed}`);
+  console.log(`   Opted out:  ${stats.optedOut}`);
+}
@@ -326,3 +326,97 @@ export async function cmdCatalogProductDelete(
 
   return deleteResult.success;
 }
+
+/**
+ * Sync the catalog with a CSV or JSON product feed
+ *
+ * Usage: catalog sync <file> [--dry-run] [--on-missing hide|delete|keep]
+ *   [--delay <ms>] [--format csv|json]
+ */
+export async function cmdCatalogSync(
+  client: MiawClient,
+  args: {
+    file: string;
+    dryRun?: boolean;
+    onMissing?: string;
+    delay?: number;
+    format?: string;
+  },
+  jsonOutput: boolean
+): Promise<boolean> {
+  if (!fs.existsSync(args.file)) {
+    console.log(`❌ File not found: ${args.file}`);
+    return false;
+  }
+
+  if (args.onMissing && !["hide", "delete", "keep"].includes(args.onMissing)) {
+    console.log(`❌ Invalid --on-missing: ${args.onMissing} (use hide, delete or keep)`);
+    return false;
+  }
+
+  if (args.format && !["csv", "json"].includes(args.format)) {
+    console.log(`❌ Invalid --format: ${args.format} (use csv or json)`);
+    return false;
+  }
+
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  const syncResult = await client.syncCatalog(args.file, {
+    dryRun: args.dryRun,
+    onMissing: args.onMissing as "hide" | "delete" | "keep" | undefined,
+    delayMs: args.delay,
+    format: args.format as "csv" | "json" | undefined,
+  });
+
+  if (jsonOutput) {
+    console.log(JSON.stringify(syncResult, null, 2));
+    return syncResult.success;
+  }
+
+  if (syncResult.report.length === 0 && syncResult.error) {
+    console.log(`❌ Failed to sync catalog: ${syncResult.error}`);
+    return false;
+  }
+
+  const changed = syncResult.report.filter((entry) => entry.action !== "unchanged");
+  const { summary } = syncResult;
+  console.log(
+    `\n📦 Catalog sync${syncResult.dryRun ? " (dry run)" : ""}: ` +
+      `${summary.create} to create, ${summary.update} to update, ` +
+      `${summary.hide} to hide, ${summary.delete} to delete, ${summary.unchanged} unchanged\n`
+  );
+
+  if (changed.length > 0) {
+    const tableData = changed.map((entry) => ({
+      retailerId: entry.retailerId,
+      name: entry.name || "-",
+      action: entry.action,
+      changes: entry.changes?.join(", ") || "-",
+      status: syncResult.dryRun ? "planned" : entry.success ? "✅" : `❌ ${entry.error}`,
+    }));
+
+    console.log(
+      formatTable(tableData, [
+        { key: "retailerId", label: "Retailer ID", width: 18, truncate: 15 },
+        { key: "name", label: "Name", width: 25, truncate: 22 },
+        { key: "action", label: "Action", width: 10 },
+        { key: "changes", label: "Changes", width: 25, truncate: 22 },
+        { key: "status", label: "Status", width: 30 },
+      ])
+    );
+  }
+
+  if (syncResult.dryRun) {
+    console.log("\nDry run: no changes made. Run without --dry-run to apply.");
+  } else if (!syncResult.success) {
+    console.log(`\n❌ ${syncResult.error}`);
+  } else {
+    console.log(`\n✅ Catalog in sync`);
+  }
+
+  return syncResult.success;
+}
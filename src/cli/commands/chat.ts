@@ -1,12 +1,23 @@
 /**
  * Chat Management Commands (v1.7.0)
  *
- * Archive, pin, mute, mark read/unread, clear, and delete chats via chatModify.
+ * Archive, pin, mute, mark read/unread, clear, and delete chats via chatModify,
+ * set a chat's disappearing-messages timer, and pin messages in a chat.
  */
 
 import { MiawClient } from "../../index.js";
+import type { PinDuration } from "../../index.js";
 import { ensureConnected } from "../utils/session.js";
 import { formatMessage } from "../utils/formatter.js";
+import { EPHEMERAL_PRESETS } from "./group.js";
+
+/** Pin duration presets (seconds); "off" unpins */
+const PIN_PRESETS: Record<string, PinDuration | 0> = {
+  off: 0,
+  "24h": 86400,
+  "7d": 604800,
+  "30d": 2592000,
+};
 
 /** Run a chat-management operation and report the result. */
 async function runChatOp(
@@ -61,3 +72,62 @@ export const cmdChatClear = (client: MiawClient, args: { jid: string }) =>
 
 export const cmdChatDelete = (client: MiawClient, args: { jid: string }) =>
   runChatOp(client, args.jid, "Deleting", () => client.deleteChat(args.jid));
+
+/**
+ * Set a chat's disappearing-messages timer
+ *
+ * Usage: chat ephemeral <jid|phone> <off|24h|7d|90d|seconds>
+ */
+export async function cmdChatEphemeral(
+  client: MiawClient,
+  args: { jid: string; timer: string }
+): Promise<boolean> {
+  const seconds =
+    EPHEMERAL_PRESETS[args.timer] ?? (/^\d+$/.test(args.timer ?? "") ? Number(args.timer) : undefined);
+  if (seconds === undefined) {
+    console.log("❌ Usage: chat ephemeral <jid|phone> <off|24h|7d|90d|seconds>");
+    return false;
+  }
+  const gerund = seconds ? "Turning on disappearing messages for" : "Turning off disappearing messages for";
+  return runChatOp(client, args.jid, gerund, () => client.setChatEphemeral(args.jid, seconds));
+}
+
+/**
+ * Pin (or unpin) a message in a chat
+ *
+ * Usage: chat pin-message <jid|phone> <messageId> [24h|7d|30d|off]
+ */
+export async function cmdChatPinMessage(
+  client: MiawClient,
+  args: { jid: string; messageId: string; duration?: string }
+): Promise<boolean> {
+  const duration = PIN_PRESETS[args.duration || "24h"];
+  if (!args.messageId || duration === undefined) {
+    console.log("❌ Usage: chat pin-message <jid|phone> <messageId> [24h|7d|30d|off]");
+    return false;
+  }
+
+  const conn = await ensureConnected(client);
+  if (!conn.success) {
+    console.log(`❌ Not connected: ${conn.reason}`);
+    return false;
+  }
+
+  const fetchResult = await client.getChatMessages(args.jid);
+  const message = fetchResult.messages?.find((m) => m.id === args.messageId);
+  if (!message) {
+    console.log(`❌ Message not found: ${args.messageId}`);
+    console.log(`   Tip: Use 'get messages ${args.jid}' to see available messages`);
+    return false;
+  }
+
+  const res = duration ? await client.pinMessage(message, duration) : await client.unpinMessage(message);
+  const action = duration ? `Pinned for ${args.duration || "24h"}` : "Unpinned";
+
+  if (res.success) {
+    console.log(formatMessage(true, action, args.messageId));
+    return true;
+  }
+  console.log(formatMessage(false, `Failed to ${duration ? "pin" : "unpin"} message`, res.error));
+  return false;
+}
@@ -24,6 +24,8 @@ export {
   cmdGetLabels,
 } from "./get.js";
 
+export { cmdSearch } from "./search.js";
+
 export {
   cmdSendText,
   cmdSendImage,
@@ -34,6 +36,10 @@ export {
   cmdSendContact,
   cmdSendPoll,
   cmdSendSticker,
+  cmdSendInvite,
+  cmdSendEvent,
+  cmdSendProduct,
+  cmdSendCatalog,
 } from "./send.js";
 
 export {
@@ -47,6 +53,8 @@ export {
   cmdChatUnread,
   cmdChatClear,
   cmdChatDelete,
+  cmdChatEphemeral,
+  cmdChatPinMessage,
 } from "./chat.js";
 
 export { cmdStatusText, cmdStatusImage, cmdStatusVideo } from "./status.js";
@@ -77,6 +85,9 @@ export {
   cmdCommunityInviteRevoke,
   cmdCommunityInviteAccept,
   cmdCommunityInviteInfo,
+  cmdCommunitySettings,
+  cmdCommunityRequests,
+  cmdCommunityRequestsUpdate,
 } from "./community.js";
 
 export { cmdMediaDownload } from "./media.js";
@@ -98,6 +109,9 @@ export {
   cmdGroupNameSet,
   cmdGroupDescriptionSet,
   cmdGroupPictureSet,
+  cmdGroupSettings,
+  cmdGroupRequests,
+  cmdGroupRequestsUpdate,
 } from "./group.js";
 
 export {
@@ -111,8 +125,14 @@ export {
   cmdContactPicture,
   cmdContactAdd,
   cmdContactRemove,
+  cmdContactBlock,
+  cmdContactBlocklist,
 } from "./contact.js";
 
+export { cmdPrivacyShow, cmdPrivacySet } from "./privacy.js";
+
+export { cmdCallLink, cmdCallReject } from "./call.js";
+
 export {
   cmdProfilePictureSet,
   cmdProfilePictureRemove,
@@ -133,4 +153,19 @@ export {
   cmdCatalogProductCreate,
   cmdCatalogProductUpdate,
   cmdCatalogProductDelete,
+  cmdCatalogSync,
 } from "./catalog.js";
+
+export {
+  cmdCampaignRun,
+  cmdCampaignStatus,
+  cmdCampaignPause,
+} from "./campaign.js";
+
+export {
+  cmdNewsletterScheduleAdd,
+  cmdNewsletterScheduleList,
+  cmdNewsletterScheduleCancel,
+} from "./newsletter.js";
+
+export { cmdServe } from "./serve.js";
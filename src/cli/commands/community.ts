@@ -1,12 +1,14 @@
 /**
  * Community Commands (v1.9.0)
  *
- * Manage WhatsApp communities: lifecycle, linking groups, participants, invites.
+ * Manage WhatsApp communities: lifecycle, linking groups, participants, invites,
+ * settings and join requests.
  */
 
 import { MiawClient } from "../../index.js";
 import { ensureConnected } from "../utils/session.js";
 import { formatTable, formatKeyValue, formatMessage, formatJson } from "../utils/formatter.js";
+import { cmdGroupSettings, cmdGroupRequests, cmdGroupRequestsUpdate } from "./group.js";
 
 async function requireConn(client: MiawClient): Promise<boolean> {
   const r = await ensureConnected(client);
@@ -291,3 +293,24 @@ export async function cmdCommunityInviteInfo(
   console.log(formatKeyValue(info, `🏘️  Community: ${info.name}`));
   return true;
 }
+
+export async function cmdCommunitySettings(
+  client: MiawClient,
+  args: { jid: string; changes: string[]; json?: boolean }
+): Promise<boolean> {
+  return cmdGroupSettings(client, { jid: args.jid, changes: args.changes, target: "community" }, !!args.json);
+}
+
+export async function cmdCommunityRequests(
+  client: MiawClient,
+  args: { jid: string; json?: boolean }
+): Promise<boolean> {
+  return cmdGroupRequests(client, { jid: args.jid, target: "community" }, !!args.json);
+}
+
+export async function cmdCommunityRequestsUpdate(
+  client: MiawClient,
+  args: { jid: string; action: "approve" | "reject"; phones: string[] }
+): Promise<boolean> {
+  return cmdGroupRequestsUpdate(client, { ...args, target: "community" });
+}
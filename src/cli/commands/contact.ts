@@ -1,7 +1,8 @@
 /**
  * Contact Commands
  *
- * Commands for managing contacts (list, info, business profile, picture, add, remove)
+ * Commands for managing contacts (list, info, business profile, picture, add, remove,
+ * block, unblock, blocklist)
  */
 
 import { MiawClient } from "../../index.js";
@@ -244,3 +245,74 @@ export async function cmdContactRemove(
   console.log(formatMessage(false, "Failed to remove contact", removeResult.error));
   return false;
 }
+
+/**
+ * Block or unblock a contact
+ */
+export async function cmdContactBlock(
+  client: MiawClient,
+  args: { phone: string; unblock?: boolean }
+): Promise<boolean> {
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  const action = args.unblock ? "unblock" : "block";
+  if (!args.phone) {
+    console.log(`❌ Usage: contact ${action} <phone>`);
+    return false;
+  }
+
+  console.log(`🚫 ${args.unblock ? "Unblocking" : "Blocking"} ${args.phone}...`);
+
+  const blockResult = args.unblock
+    ? await client.unblockContact(args.phone)
+    : await client.blockContact(args.phone);
+
+  if (blockResult.success) {
+    console.log(formatMessage(true, args.unblock ? "Contact unblocked" : "Contact blocked", args.phone));
+    return true;
+  }
+
+  console.log(formatMessage(false, `Failed to ${action} contact`, blockResult.error));
+  return false;
+}
+
+/**
+ * List blocked contacts
+ */
+export async function cmdContactBlocklist(
+  client: MiawClient,
+  jsonOutput: boolean
+): Promise<boolean> {
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  const blocklist = await client.getBlocklist();
+  if (!blocklist) {
+    console.log("❌ Failed to get blocklist");
+    return false;
+  }
+
+  if (jsonOutput) {
+    console.log(formatJson(blocklist));
+    return true;
+  }
+
+  console.log(`\n🚫 Blocked contacts (${blocklist.length}):\n`);
+  console.log(
+    formatTable(
+      blocklist.map((jid) => ({ jid, phone: client.getPhoneFromJid(jid) || "-" })),
+      [
+        { key: "jid", label: "JID", width: 40 },
+        { key: "phone", label: "Phone", width: 16 },
+      ]
+    )
+  );
+  return true;
+}
@@ -1,7 +1,8 @@
 /**
  * Group Commands
  *
- * Commands for group management (info, participants, invite-link, create, list)
+ * Commands for group management (info, participants, invite-link, create, list,
+ * settings, join requests)
  */
 
 import { MiawClient } from "../../index.js";
@@ -597,3 +598,217 @@ export async function cmdGroupPictureSet(
   console.log(formatMessage(false, "Failed to update group picture", updateResult.error));
   return false;
 }
+
+/** Disappearing-message timers offered by WhatsApp, by CLI name */
+export const EPHEMERAL_PRESETS: Record<string, number> = {
+  off: 0,
+  "24h": 86_400,
+  "7d": 604_800,
+  "90d": 7_776_000,
+};
+
+/** CLI setting name → client setter, for groups and communities */
+const SETTINGS: Record<
+  string,
+  {
+    usage: string;
+    parse: (value: string) => unknown;
+    apply: (
+      client: MiawClient,
+      target: "group" | "community",
+      jid: string,
+      value: any
+    ) => Promise<{ success: boolean; error?: string }>;
+  }
+> = {
+  announce: {
+    usage: "announce on|off",
+    parse: (v) => (v === "on" ? true : v === "off" ? false : undefined),
+    apply: (c, t, jid, v) => (t === "group" ? c.setGroupAnnounceOnly(jid, v) : c.setCommunityAnnounceOnly(jid, v)),
+  },
+  restrict: {
+    usage: "restrict on|off",
+    parse: (v) => (v === "on" ? true : v === "off" ? false : undefined),
+    apply: (c, t, jid, v) => (t === "group" ? c.setGroupRestrictInfo(jid, v) : c.setCommunityRestrictInfo(jid, v)),
+  },
+  add: {
+    usage: "add admin|all",
+    parse: (v) => (v === "admin" ? "admin_add" : v === "all" ? "all_member_add" : undefined),
+    apply: (c, t, jid, v) => (t === "group" ? c.setGroupMemberAddMode(jid, v) : c.setCommunityMemberAddMode(jid, v)),
+  },
+  approval: {
+    usage: "approval on|off",
+    parse: (v) => (v === "on" ? true : v === "off" ? false : undefined),
+    apply: (c, t, jid, v) => (t === "group" ? c.setGroupJoinApproval(jid, v) : c.setCommunityJoinApproval(jid, v)),
+  },
+  ephemeral: {
+    usage: "ephemeral off|24h|7d|90d|<seconds>",
+    parse: (v) => EPHEMERAL_PRESETS[v] ?? (/^\d+$/.test(v) ? Number(v) : undefined),
+    apply: (c, t, jid, v) => (t === "group" ? c.setGroupEphemeral(jid, v) : c.setCommunityEphemeral(jid, v)),
+  },
+};
+
+const GROUP_SETTINGS_USAGE = Object.values(SETTINGS).map((s) => s.usage);
+
+/**
+ * Show or change admin settings of a group (or community)
+ *
+ * Usage: group settings <jid> [announce on|off] [restrict on|off] [add admin|all]
+ *        [approval on|off] [ephemeral off|24h|7d|90d|<seconds>]
+ */
+export async function cmdGroupSettings(
+  client: MiawClient,
+  args: { jid: string; changes: string[]; target?: "group" | "community" },
+  jsonOutput: boolean
+): Promise<boolean> {
+  const target = args.target ?? "group";
+
+  // Parse all name/value pairs before changing anything
+  const changes: { name: string; value: unknown }[] = [];
+  for (let i = 0; i < args.changes.length; i += 2) {
+    const [name, raw] = [args.changes[i], args.changes[i + 1]];
+    const setting = SETTINGS[name];
+    const value = setting && raw !== undefined ? setting.parse(raw) : undefined;
+    if (value === undefined) {
+      console.log(setting ? `❌ Usage: ${setting.usage}` : `❌ Unknown setting: ${name}`);
+      console.log(`   Settings: ${GROUP_SETTINGS_USAGE.join(", ")}`);
+      return false;
+    }
+    changes.push({ name, value });
+  }
+
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  if (changes.length === 0) {
+    const info = target === "group" ? await client.getGroupInfo(args.jid) : await client.getCommunityInfo(args.jid);
+    if (!info) {
+      console.log(`❌ Failed to get ${target} info for ${args.jid}`);
+      return false;
+    }
+    const settings = {
+      announce: info.announce,
+      restrict: info.restrict,
+      memberAddMode: info.memberAddMode,
+      joinApproval: info.joinApproval,
+      ephemeralDuration: info.ephemeralDuration ?? 0,
+    };
+    if (jsonOutput) {
+      console.log(formatJson(settings));
+      return true;
+    }
+    console.log(formatKeyValue(settings, `⚙️  Settings: ${info.name}`));
+    return true;
+  }
+
+  let ok = true;
+  for (const { name, value } of changes) {
+    const update = await SETTINGS[name].apply(client, target, args.jid, value);
+    if (update.success) {
+      console.log(formatMessage(true, `${name} set to ${String(value)}`));
+    } else {
+      console.log(formatMessage(false, `Failed to set ${name}`, update.error));
+      ok = false;
+    }
+  }
+  return ok;
+}
+
+/**
+ * List pending join requests of a group (or community)
+ */
+export async function cmdGroupRequests(
+  client: MiawClient,
+  args: { jid: string; target?: "group" | "community" },
+  jsonOutput: boolean
+): Promise<boolean> {
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  const requests =
+    args.target === "community"
+      ? await client.getCommunityJoinRequests(args.jid)
+      : await client.getGroupJoinRequests(args.jid);
+  if (!requests) {
+    console.log(`❌ Failed to get join requests for ${args.jid}`);
+    return false;
+  }
+
+  if (jsonOutput) {
+    console.log(formatJson(requests));
+    return true;
+  }
+
+  console.log(`\n🙋 Join requests (${requests.length}):\n`);
+  console.log(
+    formatTable(
+      requests.map((r) => ({
+        jid: r.jid,
+        phone: r.phone || "-",
+        method: r.method || "-",
+        requested: r.requestedAt ? new Date(r.requestedAt * 1000).toLocaleString() : "-",
+      })),
+      [
+        { key: "jid", label: "JID", width: 40 },
+        { key: "phone", label: "Phone", width: 16 },
+        { key: "method", label: "Method", width: 20 },
+        { key: "requested", label: "Requested", width: 24 },
+      ]
+    )
+  );
+  return true;
+}
+
+/**
+ * Approve or reject join requests (all pending ones when no phones are given)
+ */
+export async function cmdGroupRequestsUpdate(
+  client: MiawClient,
+  args: { jid: string; action: "approve" | "reject"; phones: string[]; target?: "group" | "community" }
+): Promise<boolean> {
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  const community = args.target === "community";
+  let participants = args.phones;
+  if (participants.length === 0) {
+    const pending = community
+      ? await client.getCommunityJoinRequests(args.jid)
+      : await client.getGroupJoinRequests(args.jid);
+    if (!pending) {
+      console.log(`❌ Failed to get join requests for ${args.jid}`);
+      return false;
+    }
+    if (pending.length === 0) {
+      console.log("ℹ️  No pending join requests");
+      return true;
+    }
+    participants = pending.map((r) => r.jid);
+  }
+
+  const verb = args.action === "approve" ? "Approving" : "Rejecting";
+  console.log(`🙋 ${verb} ${participants.length} join request(s) for ${args.jid}...`);
+
+  const results =
+    args.action === "approve"
+      ? community
+        ? await client.approveCommunityJoinRequest(args.jid, participants)
+        : await client.approveGroupJoinRequest(args.jid, participants)
+      : community
+      ? await client.rejectCommunityJoinRequest(args.jid, participants)
+      : await client.rejectGroupJoinRequest(args.jid, participants);
+
+  for (const r of results) {
+    console.log(`  ${r.success ? "✅" : "❌"} ${r.jid}${r.success ? "" : ` (status: ${r.status})`}`);
+  }
+  return results.every((r) => r.success);
+}
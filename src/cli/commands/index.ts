@@ -23,6 +23,8 @@ import {
   cmdGetMessages,
   cmdLoadMoreMessages,
   cmdGetLabels,
+  // Search command
+  cmdSearch,
   // Send commands
   cmdSendText,
   cmdSendImage,
@@ -33,6 +35,10 @@ import {
   cmdSendContact,
   cmdSendPoll,
   cmdSendSticker,
+  cmdSendInvite,
+  cmdSendEvent,
+  cmdSendProduct,
+  cmdSendCatalog,
   // Chat management commands
   cmdChatArchive,
   cmdChatUnarchive,
@@ -44,6 +50,8 @@ import {
   cmdChatUnread,
   cmdChatClear,
   cmdChatDelete,
+  cmdChatEphemeral,
+  cmdChatPinMessage,
   // Status commands
   cmdStatusText,
   cmdStatusImage,
@@ -72,6 +80,9 @@ import {
   cmdCommunityInviteRevoke,
   cmdCommunityInviteAccept,
   cmdCommunityInviteInfo,
+  cmdCommunitySettings,
+  cmdCommunityRequests,
+  cmdCommunityRequestsUpdate,
   // Media commands
   cmdMediaDownload,
   // Group commands
@@ -91,6 +102,9 @@ import {
   cmdGroupNameSet,
   cmdGroupDescriptionSet,
   cmdGroupPictureSet,
+  cmdGroupSettings,
+  cmdGroupRequests,
+  cmdGroupRequestsUpdate,
   // Misc commands
   cmdCheck,
   // Contact commands
@@ -100,6 +114,12 @@ import {
   cmdContactPicture,
   cmdContactAdd,
   cmdContactRemove,
+  cmdContactBlock,
+  cmdContactBlocklist,
+  cmdPrivacyShow,
+  cmdPrivacySet,
+  cmdCallLink,
+  cmdCallReject,
   // Profile commands
   cmdProfilePictureSet,
   cmdProfilePictureRemove,
@@ -116,6 +136,17 @@ import {
   cmdCatalogProductCreate,
   cmdCatalogProductUpdate,
   cmdCatalogProductDelete,
+  cmdCatalogSync,
+  // Campaign commands
+  cmdCampaignRun,
+  cmdCampaignStatus,
+  cmdCampaignPause,
+  // Newsletter commands
+  cmdNewsletterScheduleAdd,
+  cmdNewsletterScheduleList,
+  cmdNewsletterScheduleCancel,
+  // REST API server
+  cmdServe,
 } from "./commands-index.js";
 
 export interface CommandContext {
@@ -138,8 +169,12 @@ export async function runCommand(
 ): Promise<boolean | { success: boolean; switchToInstance?: string }> {
   const { clientConfig, jsonOutput = false } = context;
 
-  // Parse flags from args
-  const parsedArgs = parseCommandArgs(args);
+  // Parse flags from args. In one-shot mode the entry point has already
+  // split the flags off into context.flags, so add them back first.
+  const flagArgs = Object.entries(context.flags ?? {}).flatMap(([name, value]) =>
+    value === true ? [`--${name}`] : [`--${name}`, String(value)]
+  );
+  const parsedArgs = parseCommandArgs([...args, ...flagArgs]);
 
   // Instance commands (don't require connection)
   if (command === "instance") {
@@ -206,6 +241,20 @@ export async function runCommand(
     }
   }
 
+  // REST API server (creates its own clients)
+  if (command === "serve") {
+    return await cmdServe(
+      clientConfig,
+      {
+        port: parsedArgs.port,
+        host: parsedArgs.host,
+        apiKey: parsedArgs["api-key"],
+        instances: parsedArgs.instances,
+      },
+      jsonOutput
+    );
+  }
+
   // Create or get cached client for commands that need connection
   const client = getOrCreateClient(clientConfig);
 
@@ -345,13 +394,63 @@ export async function runCommand(
           phone: parsedArgs._[1],
           path: parsedArgs._[2],
         });
+      case "invite":
+        if (parsedArgs._.length < 3) {
+          console.log("❌ Usage: miaw-cli send invite <phone> <groupJid> [--caption <text>]");
+          return false;
+        }
+        return await cmdSendInvite(client, {
+          phone: parsedArgs._[1],
+          groupJid: parsedArgs._[2],
+          caption: parsedArgs.caption,
+        });
+      case "event":
+        if (parsedArgs._.length < 4) {
+          console.log(
+            "❌ Usage: miaw-cli send event <phone> <name> <start> [--end <datetime>] [--description <text>] [--call audio|video]"
+          );
+          return false;
+        }
+        return await cmdSendEvent(client, {
+          phone: parsedArgs._[1],
+          name: parsedArgs._[2],
+          start: parsedArgs._[3],
+          end: parsedArgs.end,
+          description: parsedArgs.description,
+          call: parsedArgs.call,
+        });
+      case "product":
+        if (parsedArgs._.length < 3) {
+          console.log(
+            "❌ Usage: miaw-cli send product <phone> <retailerId|productId> [--business <phone>] [--body <text>] [--footer <text>] [--image <path>]"
+          );
+          return false;
+        }
+        return await cmdSendProduct(client, {
+          phone: parsedArgs._[1],
+          product: parsedArgs._[2],
+          business: parsedArgs.business,
+          body: parsedArgs.body,
+          footer: parsedArgs.footer,
+          image: parsedArgs.image,
+        });
+      case "catalog":
+        if (parsedArgs._.length < 2) {
+          console.log("❌ Usage: miaw-cli send catalog <phone> [--business <phone>] [--text <text>]");
+          return false;
+        }
+        return await cmdSendCatalog(client, {
+          phone: parsedArgs._[1],
+          business: parsedArgs.business,
+          text: parsedArgs.text,
+        });
       default:
         if (!subCommand) {
           console.log("Usage: send <command> <phone> <message|path>");
-          console.log("Commands: text, image, document, video, audio, location, contact, poll, sticker");
+          console.log("Commands: text, image, document, video, audio, location, contact, poll, sticker, invite, event, product, catalog");
         } else {
           console.log(`❌ Unknown send command: ${subCommand}`);
-          console.log("Commands: text, image, document, video, audio, location, contact, poll, sticker");
+          console.log("Commands: text, image, document, video, audio, location, contact, poll, sticker, invite, event, product, catalog");
         }
         return false;
     }
@@ -393,6 +492,14 @@ export async function runCommand(
         return await cmdChatClear(client, { jid });
       case "delete":
         return await cmdChatDelete(client, { jid });
+      case "ephemeral":
+        return await cmdChatEphemeral(client, { jid, timer: parsedArgs._[2] || "" });
+      case "pin-message":
+        return await cmdChatPinMessage(client, {
+          jid,
+          messageId: parsedArgs._[2] || "",
+          duration: parsedArgs._[3],
+        });
       default:
         if (subCommand) {
           console.log(`❌ Unknown chat command: ${subCommand}`);
@@ -400,7 +507,7 @@ export async function runCommand(
           console.log("Usage: chat <command> <jid|phone> [--duration <ms> for mute]");
         }
         console.log(
-          "Commands: archive, unarchive, pin, unpin, mute, unmute, read, unread, clear, delete"
+          "Commands: archive, unarchive, pin, unpin, mute, unmute, read, unread, clear, delete, ephemeral, pin-message"
         );
         return false;
     }
@@ -649,18 +756,69 @@ export async function runCommand(
         console.log("❌ Usage: miaw-cli group picture set <jid> <path>");
         return false;
 
+      case "settings":
+        if (!parsedArgs._[1]) {
+          console.log("❌ Usage: miaw-cli group settings <jid> [announce on|off] [restrict on|off] [add admin|all] [approval on|off] [ephemeral off|24h|7d|90d|<seconds>]");
+          return false;
+        }
+        return await cmdGroupSettings(
+          client,
+          { jid: parsedArgs._[1], changes: parsedArgs._.slice(2).map(String) },
+          jsonOutput
+        );
+
+      // Join requests (join approval on)
+      case "requests":
+        if (subSubCommand === "approve" || subSubCommand === "reject") {
+          if (!parsedArgs._[2]) {
+            console.log(`❌ Usage: miaw-cli group requests ${subSubCommand} <jid> [phone1] [phone2] ...`);
+            return false;
+          }
+          return await cmdGroupRequestsUpdate(client, {
+            jid: parsedArgs._[2],
+            action: subSubCommand,
+            phones: parsedArgs._.slice(3).map(String),
+          });
+        }
+        if (!subSubCommand) {
+          console.log("❌ Usage: miaw-cli group requests <jid> | requests approve|reject <jid> [phones...]");
+          return false;
+        }
+        return await cmdGroupRequests(client, { jid: subSubCommand }, jsonOutput);
+
       default:
         if (!subCommand) {
           console.log("Usage: group <command>");
-          console.log("Commands: list, info, create, leave, participants, invite, invite-link, name, description, picture");
+          console.log("Commands: list, info, create, leave, participants, invite, invite-link, name, description, picture, settings, requests");
         } else {
           console.log(`❌ Unknown group command: ${subCommand}`);
-          console.log("Commands: list, info, create, leave, participants, invite, invite-link, name, description, picture");
+          console.log("Commands: list, info, create, leave, participants, invite, invite-link, name, description, picture, settings, requests");
         }
         return false;
     }
   }
 
+  // Search command
+  if (command === "search") {
+    return await cmdSearch(
+      client,
+      {
+        query: parsedArgs._.join(" ") || undefined,
+        chat: parsedArgs.chat,
+        from: parsedArgs.from,
+        type: parsedArgs.type,
+        sent: parsedArgs.sent,
+        received: parsedArgs.received,
+        media: parsedArgs.media,
+        before: parsedArgs.before,
+        after: parsedArgs.after,
+        limit: parsedArgs.limit,
+        cursor: parsedArgs.cursor,
+      },
+      jsonOutput
+    );
+  }
+
   // Check command
   if (command === "check") {
     if (parsedArgs._.length === 0) {
@@ -719,13 +877,74 @@ export async function runCommand(
         }
         return await cmdContactRemove(client, { phone: parsedArgs._[1] });
 
+      case "block":
+      case "unblock":
+        if (!parsedArgs._[1]) {
+          console.log(`❌ Usage: miaw-cli contact ${subCommand} <phone>`);
+          return false;
+        }
+        return await cmdContactBlock(client, { phone: parsedArgs._[1], unblock: subCommand === "unblock" });
+
+      case "blocklist":
+        return await cmdContactBlocklist(client, jsonOutput);
+
       default:
         if (!subCommand) {
           console.log("Usage: contact <command>");
         } else {
           console.log(`❌ Unknown contact command: ${subCommand}`);
         }
-        console.log("Commands: list, info, business, picture, add, remove");
+        console.log("Commands: list, info, business, picture, add, remove, block, unblock, blocklist");
+        return false;
+    }
+  }
+
+  // Privacy commands
+  if (command === "privacy") {
+    const subCommand = parsedArgs._[0] || "";
+
+    switch (subCommand) {
+      case "":
+      case "show":
+        return await cmdPrivacyShow(client, jsonOutput);
+
+      case "set":
+        if (parsedArgs._.length < 3) {
+          console.log("❌ Usage: miaw-cli privacy set <setting> <value>");
+          console.log("   Settings: lastseen, online, profile, status, readreceipts, groupsadd, calls, messages, disappearing");
+          return false;
+        }
+        return await cmdPrivacySet(client, { setting: parsedArgs._[1], value: parsedArgs._[2] });
+
+      default:
+        console.log(`❌ Unknown privacy command: ${subCommand}`);
+        console.log("Commands: show, set");
+        return false;
+    }
+  }
+
+  // Call commands
+  if (command === "call") {
+    const subCommand = parsedArgs._[0] || "";
+
+    switch (subCommand) {
+      case "link":
+        return await cmdCallLink(client, { type: parsedArgs._[1], at: parsedArgs.at }, jsonOutput);
+
+      case "reject":
+        if (parsedArgs._.length < 3) {
+          console.log("❌ Usage: miaw-cli call reject <callId> <phone>");
+          return false;
+        }
+        return await cmdCallReject(client, { callId: parsedArgs._[1], from: parsedArgs._[2] });
+
+      default:
+        if (!subCommand) {
+          console.log("Usage: call <command>");
+        } else {
+          console.log(`❌ Unknown call command: ${subCommand}`);
+        }
+        console.log("Commands: link, reject");
         return false;
     }
   }
@@ -962,13 +1181,40 @@ export async function runCommand(
             console.log("❌ Usage: miaw-cli community invite link|accept|revoke|info ...");
             return false;
         }
+      case "settings":
+        if (!parsedArgs._[1]) {
+          console.log("❌ Usage: miaw-cli community settings <jid> [announce on|off] [restrict on|off] [add admin|all] [approval on|off] [ephemeral off|24h|7d|90d|<seconds>]");
+          return false;
+        }
+        return await cmdCommunitySettings(client, {
+          jid: parsedArgs._[1],
+          changes: parsedArgs._.slice(2).map(String),
+          json: jsonOutput,
+        });
+      case "requests":
+        if (subSubCommand === "approve" || subSubCommand === "reject") {
+          if (!parsedArgs._[2]) {
+            console.log(`❌ Usage: miaw-cli community requests ${subSubCommand} <jid> [phones...]`);
+            return false;
+          }
+          return await cmdCommunityRequestsUpdate(client, {
+            jid: parsedArgs._[2],
+            action: subSubCommand,
+            phones: parsedArgs._.slice(3).map(String),
+          });
+        }
+        if (!subSubCommand) {
+          console.log("❌ Usage: miaw-cli community requests <jid> | requests approve|reject <jid> [phones...]");
+          return false;
+        }
+        return await cmdCommunityRequests(client, { jid: subSubCommand, json: jsonOutput });
       default:
         if (subCommand) {
           console.log(`❌ Unknown community command: ${subCommand}`);
         } else {
           console.log("Usage: community <command> ...");
         }
-        console.log("Commands: list, info, create, leave, name, description, linked, link, unlink, group, members, invite");
+        console.log("Commands: list, info, create, leave, name, description, linked, link, unlink, group, members, invite, settings, requests");
         return false;
     }
   }
@@ -1034,6 +1280,24 @@ export async function runCommand(
           jsonOutput
         );
 
+      case "sync":
+        if (!parsedArgs._[1]) {
+          console.log("❌ Usage: miaw-cli catalog sync <file> [--dry-run]");
+          console.log("   Options: --on-missing hide|delete|keep, --delay <ms>, --format csv|json");
+          return false;
+        }
+        return await cmdCatalogSync(
+          client,
+          {
+            file: parsedArgs._[1],
+            dryRun: parsedArgs["dry-run"] === true,
+            onMissing: parsedArgs["on-missing"],
+            delay: parsedArgs.delay,
+            format: parsedArgs.format,
+          },
+          jsonOutput
+        );
+
       case "product":
         switch (subSubCommand) {
           case "create":
@@ -1104,7 +1368,115 @@ export async function runCommand(
         } else {
           console.log(`❌ Unknown catalog command: ${subCommand}`);
         }
-        console.log("Commands: list, collections, product (create|update|delete)");
+        console.log("Commands: list, collections, product (create|update|delete), sync");
+        return false;
+    }
+  }
+
+  // Campaign commands
+  if (command === "campaign") {
+    const subCommand = parsedArgs._[0] || "";
+    const storeConfig = {
+      instanceId: clientConfig.instanceId,
+      sessionPath: clientConfig.sessionPath,
+    };
+
+    switch (subCommand) {
+      case "run":
+        return await cmdCampaignRun(
+          client,
+          {
+            source: parsedArgs._[1],
+            template: parsedArgs.template,
+            recipients: parsedArgs.recipients,
+            name: parsedArgs.name,
+            image: parsedArgs.image,
+            video: parsedArgs.video,
+            document: parsedArgs.document,
+            delay: parsedArgs.delay,
+            detach: parsedArgs.detach === true,
+          },
+          jsonOutput
+        );
+      case "status":
+        return await cmdCampaignStatus(client, { id: parsedArgs._[1], ...storeConfig }, jsonOutput);
+      case "pause":
+        if (!parsedArgs._[1]) {
+          console.log("❌ Usage: miaw-cli campaign pause <id>");
+          return false;
+        }
+        return await cmdCampaignPause(client, { id: parsedArgs._[1], ...storeConfig }, jsonOutput);
+      default:
+        if (!subCommand) {
+          console.log("Usage: campaign <command>");
+        } else {
+          console.log(`❌ Unknown campaign command: ${subCommand}`);
+        }
+        console.log("Commands: run, status, pause");
+        return false;
+    }
+  }
+
+  // Newsletter commands
+  if (command === "newsletter") {
+    const subCommand = parsedArgs._[0] || "";
+    const action = parsedArgs._[1] || "";
+    const storeConfig = {
+      instanceId: clientConfig.instanceId,
+      sessionPath: clientConfig.sessionPath,
+    };
+
+    if (subCommand !== "schedule") {
+      if (!subCommand) {
+        console.log("Usage: newsletter <command>");
+      } else {
+        console.log(`❌ Unknown newsletter command: ${subCommand}`);
+      }
+      console.log("Commands: schedule (add|list|cancel)");
+      return false;
+    }
+
+    switch (action) {
+      case "add":
+        if (!parsedArgs._[2]) {
+          console.log(
+            "❌ Usage: miaw-cli newsletter schedule add <newsletterId> --at <time> (--text <text> | --image <path> | --video <path> | --poll <question> <option1> <option2> ...)"
+          );
+          return false;
+        }
+        return await cmdNewsletterScheduleAdd(
+          client,
+          {
+            newsletterId: parsedArgs._[2],
+            at: parsedArgs.at,
+            tz: parsedArgs.tz,
+            missed: parsedArgs.missed,
+            id: parsedArgs.id,
+            text: parsedArgs.text,
+            image: parsedArgs.image,
+            video: parsedArgs.video,
+            caption: parsedArgs.caption,
+            poll: parsedArgs.poll,
+            pollOptions: parsedArgs._.slice(3),
+            ...storeConfig,
+          },
+          jsonOutput
+        );
+      case "list":
+        return await cmdNewsletterScheduleList(client, { newsletterId: parsedArgs._[2], ...storeConfig }, jsonOutput);
+      case "cancel":
+        if (!parsedArgs._[2]) {
+          console.log("❌ Usage: miaw-cli newsletter schedule cancel <id>");
+          return false;
+        }
+        return await cmdNewsletterScheduleCancel(client, { id: parsedArgs._[2], ...storeConfig }, jsonOutput);
+      default:
+        if (!action) {
+          console.log("Usage: newsletter schedule <command>");
+        } else {
+          console.log(`❌ Unknown newsletter schedule command: ${action}`);
+        }
+        console.log("Commands: add, list, cancel");
         return false;
     }
   }
@@ -1144,7 +1516,7 @@ export async function runCommand(
  * Parse command arguments.
  * Only auto-converts known numeric flags to numbers; all others stay as strings.
  */
-const NUMERIC_FLAGS = new Set(["limit", "count", "cursor"]);
+const NUMERIC_FLAGS = new Set(["limit", "count", "cursor", "delay", "port"]);
 
 function parseCommandArgs(args: string[]): any {
   const parsed: any = { _: [] };
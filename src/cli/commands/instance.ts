@@ -293,7 +293,7 @@ export async function cmdInstanceLogout(
 
   // Always attempt logout to send remove-companion-device request
   // (will attempt reconnect if disconnected)
-  // Note: client.logout() already clears the session directory via authHandler.clearSession()
+  // Note: client.logout() already clears the session via the auth state provider
   try {
     await client.logout();
 
@@ -0,0 +1,217 @@
+/**
+ * Newsletter Commands
+ *
+ * Commands for scheduling newsletter/channel posts
+ */
+
+import { MiawClient, JsonFileStore, NewsletterScheduler, formatZonedTime } from "../../index.js";
+import type { ScheduledPost, ScheduledPostContent, MissedPostPolicy } from "../../index.js";
+import { formatTable } from "../utils/formatter.js";
+import { resolveMediaSource } from "../utils/media.js";
+
+/**
+ * Where the schedule is persisted, for editing it without connecting
+ */
+interface ScheduleStoreConfig {
+  instanceId: string;
+  sessionPath: string;
+}
+
+/**
+ * Schedule a newsletter post
+ *
+ * Usage:
+ *   newsletter schedule add <newsletterId> --at <time> [--tz <zone>] [--missed publish|skip] [--id <id>]
+ *     --text <text>
+ *     --image <path|url> [--caption <text>]
+ *     --video <path|url> [--caption <text>]
+ *     --poll <question> <option1> <option2> [...]
+ */
+export async function cmdNewsletterScheduleAdd(
+  client: MiawClient,
+  args: {
+    newsletterId: string;
+    at?: string;
+    tz?: string;
+    missed?: string;
+    id?: string;
+    text?: string;
+    image?: string;
+    video?: string;
+    caption?: string;
+    poll?: string;
+    pollOptions: string[];
+  } & ScheduleStoreConfig,
+  jsonOutput: boolean
+): Promise<boolean> {
+  let post: ScheduledPost;
+  try {
+    if (!args.at) {
+      throw new Error("Missing --at <time> (e.g. --at \"2026-11-01 09:00\")");
+    }
+    const options = {
+      id: args.id,
+      newsletterId: args.newsletterId,
+      content: buildContent(args),
+      publishAt: args.at,
+      timeZone: args.tz,
+      missedPolicy: args.missed as MissedPostPolicy | undefined,
+    };
+
+    if (client.getConnectionState() === "connected") {
+      post = client.scheduleNewsletterPost(options);
+    } else {
+      const store = new JsonFileStore(args.sessionPath, args.instanceId);
+      const posts = await store.loadNewsletterSchedule();
+      post = NewsletterScheduler.createPost(options);
+      if (posts.some((p) => p.id === post.id)) {
+        throw new Error(`Scheduled post "${post.id}" already exists`);
+      }
+      posts.push(post);
+      await store.saveNewsletterSchedule(posts);
+    }
+  } catch (error) {
+    console.log(`❌ ${(error as Error).message}`);
+    return false;
+  }
+
+  if (jsonOutput) {
+    console.log(JSON.stringify(post, null, 2));
+    return true;
+  }
+
+  console.log(`✅ Scheduled ${post.content.type} post ${post.id}`);
+  console.log(`   Newsletter: ${post.newsletterId}`);
+  console.log(`   Publish at: ${formatZonedTime(post.publishAt, post.timeZone)} (${post.timeZone})`);
+  if (client.getConnectionState() !== "connected") {
+    console.log("   Published while this instance is connected (REPL or `serve`; running ones pick it up within a minute)");
+  }
+  return true;
+}
+
+/**
+ * List scheduled newsletter posts
+ *
+ * Usage: newsletter schedule list [newsletterId]
+ */
+export async function cmdNewsletterScheduleList(
+  client: MiawClient,
+  args: { newsletterId?: string } & ScheduleStoreConfig,
+  jsonOutput: boolean
+): Promise<boolean> {
+  const posts = await loadSchedule(client, args);
+
+  if (jsonOutput) {
+    console.log(JSON.stringify(posts, null, 2));
+    return true;
+  }
+
+  if (posts.length === 0) {
+    console.log("🗓️  No scheduled posts found");
+    return true;
+  }
+
+  const tableData = posts.map((p) => ({
+    id: p.id,
+    publishAt: `${formatZonedTime(p.publishAt, p.timeZone)} ${p.timeZone}`,
+    type: p.content.type,
+    status: p.status,
+    result: p.messageId || p.error || "-",
+  }));
+
+  console.log(`\n🗓️  Scheduled posts (${posts.length}):\n`);
+  console.log(
+    formatTable(tableData, [
+      { key: "id", label: "ID", width: 38 },
+      { key: "publishAt", label: "Publish At", width: 34 },
+      { key: "type", label: "Type", width: 6 },
+      { key: "status", label: "Status", width: 11 },
+      { key: "result", label: "Message ID / Error", width: 30 },
+    ])
+  );
+  return true;
+}
+
+/**
+ * Cancel a scheduled newsletter post. Posts of the connected client are
+ * cancelled directly; otherwise the stored post is marked cancelled.
+ *
+ * Usage: newsletter schedule cancel <id>
+ */
+export async function cmdNewsletterScheduleCancel(
+  client: MiawClient,
+  args: { id: string } & ScheduleStoreConfig,
+  jsonOutput: boolean
+): Promise<boolean> {
+  let post: ScheduledPost | undefined;
+  let cancelled: boolean;
+
+  if (client.getConnectionState() === "connected") {
+    cancelled = client.cancelScheduledNewsletterPost(args.id);
+    post = client.getScheduledNewsletterPosts().find((p) => p.id === args.id);
+  } else {
+    const store = new JsonFileStore(args.sessionPath, args.instanceId);
+    const posts = await store.loadNewsletterSchedule();
+    post = posts.find((p) => p.id === args.id);
+    cancelled = post?.status === "scheduled";
+    if (post && cancelled) {
+      post.status = "cancelled";
+      post.updatedAt = Date.now();
+      await store.saveNewsletterSchedule(posts);
+    }
+  }
+
+  if (!post) {
+    console.log(`❌ Scheduled post not found: ${args.id}`);
+    return false;
+  }
+
+  if (jsonOutput) {
+    console.log(JSON.stringify({ id: post.id, status: post.status }, null, 2));
+    return cancelled;
+  }
+
+  if (!cancelled) {
+    console.log(`❌ Post ${post.id} is ${post.status}, not scheduled`);
+    return false;
+  }
+  console.log(`🗑️  Post ${post.id} cancelled`);
+  return true;
+}
+
+/**
+ * Schedule of the connected client, or straight from the store when offline
+ */
+async function loadSchedule(
+  client: MiawClient,
+  config: { newsletterId?: string } & ScheduleStoreConfig
+): Promise<ScheduledPost[]> {
+  if (client.getConnectionState() === "connected") {
+    return client.getScheduledNewsletterPosts(config.newsletterId);
+  }
+  const store = new JsonFileStore(config.sessionPath, config.instanceId);
+  return (await store.loadNewsletterSchedule())
+    .filter((p) => !config.newsletterId || p.newsletterId === config.newsletterId)
+    .sort((a, b) => a.publishAt - b.publishAt);
+}
+
+/**
+ * Post content from command flags (exactly one of --text, --image, --video, --poll)
+ */
+function buildContent(args: {
+  text?: string;
+  image?: string;
+  video?: string;
+  caption?: string;
+  poll?: string;
+  pollOptions: string[];
+}): ScheduledPostContent {
+  const given = [args.text, args.image, args.video, args.poll].filter((v) => v !== undefined);
+  if (given.length !== 1) {
+    throw new Error("Pass exactly one of --text, --image, --video or --poll");
+  }
+  if (args.image) return { type: "image", source: resolveMediaSource(args.image), caption: args.caption };
+  if (args.video) return { type: "video", source: resolveMediaSource(args.video), caption: args.caption };
+  if (args.poll) return { type: "poll", name: args.poll, options: args.pollOptions };
+  return { type: "text", text: args.text ?? "" };
+}
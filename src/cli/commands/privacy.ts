@@ -0,0 +1,99 @@
+/**
+ * Privacy Commands
+ *
+ * Commands for reading and changing privacy settings
+ */
+
+import { MiawClient } from "../../index.js";
+import type { PrivacySettingKey } from "../../index.js";
+import { ensureConnected } from "../utils/session.js";
+import { formatKeyValue, formatJson, formatMessage } from "../utils/formatter.js";
+import { EPHEMERAL_PRESETS } from "./group.js";
+
+/** CLI setting name → privacy setting and the values it accepts */
+const PRIVACY_SETTINGS: Record<string, { key: PrivacySettingKey; values: string }> = {
+  lastseen: { key: "lastSeen", values: "all|contacts|contact_blacklist|none" },
+  online: { key: "online", values: "all|match_last_seen" },
+  profile: { key: "profilePicture", values: "all|contacts|contact_blacklist|none" },
+  status: { key: "status", values: "all|contacts|contact_blacklist|none" },
+  readreceipts: { key: "readReceipts", values: "all|none" },
+  groupsadd: { key: "groupsAdd", values: "all|contacts|contact_blacklist" },
+  calls: { key: "calls", values: "all|known" },
+  messages: { key: "messages", values: "all|contacts" },
+  disappearing: { key: "defaultDisappearingMode", values: "off|24h|7d|90d|<seconds>" },
+};
+
+/**
+ * Show privacy settings
+ */
+export async function cmdPrivacyShow(
+  client: MiawClient,
+  jsonOutput: boolean
+): Promise<boolean> {
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  const settings = await client.getPrivacySettings();
+  if (!settings) {
+    console.log("❌ Failed to get privacy settings");
+    return false;
+  }
+
+  if (jsonOutput) {
+    console.log(formatJson(settings));
+    return true;
+  }
+
+  console.log(formatKeyValue(settings, "🔒 Privacy Settings"));
+  return true;
+}
+
+/**
+ * Change a privacy setting
+ *
+ * Usage: privacy set <setting> <value>
+ */
+export async function cmdPrivacySet(
+  client: MiawClient,
+  args: { setting: string; value: string }
+): Promise<boolean> {
+  const setting = PRIVACY_SETTINGS[args.setting?.toLowerCase()];
+  if (!setting || !args.value) {
+    if (setting) {
+      console.log(`❌ Usage: privacy set ${args.setting.toLowerCase()} ${setting.values}`);
+    } else {
+      console.log(`❌ Unknown privacy setting: ${args.setting}`);
+      console.log(`   Settings: ${Object.keys(PRIVACY_SETTINGS).join(", ")}`);
+    }
+    return false;
+  }
+
+  let value: string | number = args.value;
+  if (setting.key === "defaultDisappearingMode") {
+    const seconds = EPHEMERAL_PRESETS[args.value] ?? (/^\d+$/.test(args.value) ? Number(args.value) : undefined);
+    if (seconds === undefined) {
+      console.log(`❌ Usage: privacy set disappearing ${setting.values}`);
+      return false;
+    }
+    value = seconds;
+  }
+
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  const updateResult = await client.updatePrivacySetting(setting.key, value as never);
+
+  if (updateResult.success) {
+    console.log(formatMessage(true, `${setting.key} set to ${String(value)}`));
+    return true;
+  }
+
+  console.log(formatMessage(false, `Failed to set ${setting.key}`, updateResult.error));
+  return false;
+}
@@ -0,0 +1,111 @@
+/**
+ * Search Commands
+ *
+ * Full-text search over the local message store
+ */
+
+import { MiawClient } from "../../index.js";
+import type { MiawMessage, SearchMessagesOptions } from "../../index.js";
+import { ensureConnected } from "../utils/session.js";
+import { formatTable, formatJson } from "../utils/formatter.js";
+
+/**
+ * Search stored messages
+ *
+ * Usage: search [query] [--chat <jid>] [--from <phone>] [--type <t1,t2>]
+ *   [--sent|--received] [--media] [--before <date>] [--after <date>]
+ *   [--limit N] [--cursor C]
+ */
+export async function cmdSearch(
+  client: MiawClient,
+  args: {
+    query?: string;
+    chat?: string;
+    from?: string;
+    type?: string;
+    sent?: boolean;
+    received?: boolean;
+    media?: boolean;
+    before?: string;
+    after?: string;
+    limit?: number;
+    cursor?: string | number;
+  },
+  jsonOutput: boolean
+): Promise<boolean> {
+  const options: SearchMessagesOptions = {
+    query: args.query,
+    chat: args.chat,
+    from: args.from,
+    type: args.type ? (args.type.split(",") as MiawMessage["type"][]) : undefined,
+    fromMe: args.sent ? true : args.received ? false : undefined,
+    hasMedia: args.media ? true : undefined,
+    limit: args.limit,
+    cursor: args.cursor !== undefined ? String(args.cursor) : undefined,
+  };
+
+  for (const bound of ["before", "after"] as const) {
+    const value = args[bound];
+    if (!value) continue;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      console.log(`❌ Invalid date: ${value} (use e.g. 2026-01-31 or 2026-01-31T15:00)`);
+      return false;
+    }
+    options[bound] = date;
+  }
+
+  const { limit: _limit, cursor: _cursor, ...criteria } = options;
+  if (Object.values(criteria).every((value) => value === undefined)) {
+    console.log("❌ Usage: miaw-cli search <query> [--chat JID] [--from PHONE] [--type TYPE] [--before DATE] [--after DATE]");
+    return false;
+  }
+
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  const searchResult = await client.searchMessages(options);
+  if (!searchResult.success) {
+    console.log(`❌ Search failed: ${searchResult.error}`);
+    return false;
+  }
+
+  if (jsonOutput) {
+    console.log(formatJson(searchResult));
+    return true;
+  }
+
+  const hits = searchResult.hits || [];
+  const queryInfo = options.query ? ` for "${options.query}"` : "";
+  console.log(`\n🔍 ${searchResult.total} message(s) found${queryInfo}:\n`);
+  if (hits.length === 0) {
+    return true;
+  }
+
+  const tableData = hits.map(({ message: m, snippet }) => ({
+    id: m.id,
+    chat: m.from,
+    from: m.fromMe ? "Me" : m.senderName || m.senderPhone || m.participant || m.from,
+    text: snippet || m.text || `[${m.type}]`,
+    time: new Date(m.timestamp * 1000).toLocaleString(),
+  }));
+
+  console.log(
+    formatTable(tableData, [
+      { key: "id", label: "ID", width: 15, truncate: 12 },
+      { key: "chat", label: "Chat", width: 25, truncate: 22 },
+      { key: "from", label: "From", width: 18, truncate: 15 },
+      { key: "text", label: "Match", width: 45 },
+      { key: "time", label: "Time", width: 22 },
+    ])
+  );
+
+  if (searchResult.nextCursor) {
+    console.log(`\nMore results: add --cursor ${searchResult.nextCursor}`);
+  }
+
+  return true;
+}
@@ -355,3 +355,159 @@ export async function cmdSendSticker(
   console.log(formatMessage(false, "Failed to send sticker", sendResult.error));
   return false;
 }
+
+/**
+ * Send a group invite
+ */
+export async function cmdSendInvite(
+  client: MiawClient,
+  args: { phone: string; groupJid: string; caption?: string }
+): Promise<boolean> {
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  console.log(`📤 Sending invite to ${args.phone}...`);
+
+  const sendResult = await client.sendGroupInvite(args.phone, args.groupJid, {
+    caption: args.caption,
+  });
+
+  if (sendResult.success) {
+    console.log(
+      formatMessage(true, "Invite sent successfully", `Message ID: ${sendResult.messageId}`)
+    );
+    return true;
+  }
+
+  console.log(formatMessage(false, "Failed to send invite", sendResult.error));
+  return false;
+}
+
+/**
+ * Send an event
+ */
+export async function cmdSendEvent(
+  client: MiawClient,
+  args: {
+    phone: string;
+    name: string;
+    start: string;
+    end?: string;
+    description?: string;
+    call?: string;
+  }
+): Promise<boolean> {
+  const startTime = new Date(args.start);
+  const endTime = args.end ? new Date(args.end) : undefined;
+  if (isNaN(startTime.getTime()) || (endTime && isNaN(endTime.getTime()))) {
+    console.log(`❌ Invalid date: ${isNaN(startTime.getTime()) ? args.start : args.end} (use e.g. 2026-01-31T15:00)`);
+    return false;
+  }
+  if (args.call && args.call !== "audio" && args.call !== "video") {
+    console.log("❌ --call must be audio or video");
+    return false;
+  }
+
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  console.log(`📤 Sending event to ${args.phone}...`);
+
+  const sendResult = await client.sendEvent(args.phone, args.name, startTime, {
+    endTime,
+    description: args.description,
+    call: args.call as "audio" | "video" | undefined,
+  });
+
+  if (sendResult.success) {
+    console.log(
+      formatMessage(true, "Event sent successfully", `Message ID: ${sendResult.messageId}`)
+    );
+    return true;
+  }
+
+  console.log(formatMessage(false, "Failed to send event", sendResult.error));
+  return false;
+}
+
+/**
+ * Send a catalog product
+ */
+export async function cmdSendProduct(
+  client: MiawClient,
+  args: {
+    phone: string;
+    product: string;
+    business?: string;
+    body?: string;
+    footer?: string;
+    image?: string;
+  }
+): Promise<boolean> {
+  if (args.image && !args.image.startsWith("http") && !fs.existsSync(args.image)) {
+    console.log(`❌ File not found: ${args.image}`);
+    return false;
+  }
+
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  console.log(`📤 Sending product ${args.product} to ${args.phone}...`);
+
+  const sendResult = await client.sendProduct(args.phone, args.product, {
+    businessJid: args.business,
+    body: args.body,
+    footer: args.footer,
+    image: args.image,
+  });
+
+  if (sendResult.success) {
+    console.log(
+      formatMessage(true, "Product sent successfully", `Message ID: ${sendResult.messageId}`)
+    );
+    return true;
+  }
+
+  console.log(formatMessage(false, "Failed to send product", sendResult.error));
+  return false;
+}
+
+/**
+ * Send a catalog link
+ */
+export async function cmdSendCatalog(
+  client: MiawClient,
+  args: { phone: string; business?: string; text?: string }
+): Promise<boolean> {
+  const result = await ensureConnected(client);
+  if (!result.success) {
+    console.log(`❌ Not connected: ${result.reason}`);
+    return false;
+  }
+
+  console.log(`📤 Sending catalog link to ${args.phone}...`);
+
+  const sendResult = await client.sendCatalogLink(args.phone, {
+    businessJid: args.business,
+    text: args.text,
+  });
+
+  if (sendResult.success) {
+    console.log(
+      formatMessage(true, "Catalog link sent successfully", `Message ID: ${sendResult.messageId}`)
+    );
+    return true;
+  }
+
+  console.log(formatMessage(false, "Failed to send catalog link", sendResult.error));
+  return false;
+}
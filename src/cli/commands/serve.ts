@@ -0,0 +1,82 @@
+/**
+ * Serve Command
+ *
+ * Starts the REST API server for the instances in the session directory
+ */
+
+import { createMiawServer, MiawServer } from "../../index.js";
+import { getOrCreateClient } from "../utils/client-cache.js";
+import { listInstances, type ClientConfig } from "../utils/session.js";
+import { getErrorMessage } from "../../utils/type-guards.js";
+
+/** Server started by this process (REPL mode keeps it running in the background) */
+let activeServer: { server: MiawServer; url: string } | null = null;
+
+/**
+ * Start the REST API server. Every instance with a saved session is exposed
+ * and connected; the current instance is exposed even without a session so it
+ * can be logged in via POST /instances/{id}/connect.
+ *
+ * Usage: serve [--port N] [--host H] [--api-key KEY] [--instances a,b]
+ */
+export async function cmdServe(
+  clientConfig: ClientConfig,
+  args: { port?: number; host?: string; apiKey?: string; instances?: string },
+  jsonOutput: boolean
+): Promise<boolean> {
+  if (activeServer) {
+    console.log(`ℹ️  REST API already running at ${activeServer.url}`);
+    return true;
+  }
+
+  const host = args.host || "127.0.0.1";
+  const apiKey = args.apiKey || process.env.MIAW_API_KEY;
+  const isLoopback = host === "127.0.0.1" || host === "localhost" || host === "::1";
+  if (!apiKey && !isLoopback) {
+    console.log(`❌ An API key (--api-key or MIAW_API_KEY) is required to listen on ${host}`);
+    return false;
+  }
+
+  const instanceIds = args.instances
+    ? args.instances.split(",").map((id) => id.trim()).filter(Boolean)
+    : [...new Set([clientConfig.instanceId, ...listInstances(clientConfig.sessionPath)])];
+  const registered = new Set(listInstances(clientConfig.sessionPath));
+
+  const clients = instanceIds.map((instanceId) => getOrCreateClient({ ...clientConfig, instanceId }));
+  const server = createMiawServer({ clients, apiKey, host, port: args.port ?? 3000 });
+
+  let address: { host: string; port: number };
+  try {
+    address = await server.listen();
+  } catch (error) {
+    console.log(`❌ Failed to start REST API: ${getErrorMessage(error)}`);
+    return false;
+  }
+
+  const url = `http://${address.host.includes(":") ? `[${address.host}]` : address.host}:${address.port}`;
+  activeServer = { server, url };
+
+  // Connect instances that already have a session; others wait for POST /connect
+  for (const client of clients) {
+    const state = client.getConnectionState();
+    if (registered.has(client.getInstanceId()) && state !== "connected" && state !== "connecting") {
+      client.connect().catch((error) => {
+        console.log(`⚠️  ${client.getInstanceId()}: connect failed: ${getErrorMessage(error)}`);
+      });
+    }
+  }
+
+  if (jsonOutput) {
+    console.log(JSON.stringify({ url, instances: instanceIds }, null, 2));
+    return true;
+  }
+
+  console.log(`\n🌐 REST API listening on ${url}`);
+  console.log(`   Instances: ${instanceIds.join(", ")}`);
+  console.log(`   OpenAPI:   ${url}/openapi.json`);
+  if (!apiKey) {
+    console.log("   ⚠️  No API key set: any local process can use the API");
+  }
+  console.log("\n   Press Ctrl+C to stop.\n");
+  return true;
+}
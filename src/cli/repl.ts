@@ -35,7 +35,7 @@ interface CommandNode {
 const commandTree: Record<string, CommandNode> = {
   // REPL-specific commands
   help: {
-    subcommands: ["instance", "get", "load", "send", "media", "chat", "story", "group", "community", "check", "contact", "profile", "label", "business", "catalog"],
+    subcommands: ["instance", "get", "load", "search", "send", "media", "chat", "story", "group", "community", "check", "contact", "profile", "privacy", "call", "label", "business", "catalog", "campaign", "newsletter", "serve"],
   },
   status: {},
   exit: { aliases: ["quit"] },
@@ -55,8 +55,8 @@ const commandTree: Record<string, CommandNode> = {
     flags: ["--limit", "--json", "--filter"],
   },
   send: {
-    subcommands: ["text", "image", "document", "video", "audio", "location", "contact", "poll", "sticker"],
-    flags: ["--caption", "--gif", "--ptv", "--ptt", "--name", "--address", "--org", "--select"],
+    subcommands: ["text", "image", "document", "video", "audio", "location", "contact", "poll", "sticker", "invite", "event", "product", "catalog"],
+    flags: ["--caption", "--gif", "--ptv", "--ptt", "--name", "--address", "--org", "--select", "--end", "--description", "--call", "--business", "--body", "--footer", "--image", "--text"],
   },
   media: {
     subcommands: ["download"],
@@ -64,7 +64,7 @@ const commandTree: Record<string, CommandNode> = {
   chat: {
     subcommands: [
       "archive", "unarchive", "pin", "unpin", "mute", "unmute",
-      "read", "unread", "clear", "delete",
+      "read", "unread", "clear", "delete", "ephemeral", "pin-message",
     ],
     flags: ["--duration"],
   },
@@ -82,18 +82,19 @@ const commandTree: Record<string, CommandNode> = {
   community: {
     subcommands: [
       "list", "info", "create", "leave", "name", "description",
-      "linked", "link", "unlink", "group", "members", "invite",
+      "linked", "link", "unlink", "group", "members", "invite", "settings", "requests",
     ],
     nestedSubcommands: {
       members: ["add", "remove", "promote", "demote"],
       invite: ["link", "accept", "revoke", "info"],
+      requests: ["approve", "reject"],
     },
     flags: ["--json"],
   },
   group: {
     subcommands: [
       "list", "ls", "info", "participants", "invite-link", "invite", "create", "leave",
-      "name", "description", "picture"
+      "name", "description", "picture", "settings", "requests"
     ],
     nestedSubcommands: {
       participants: ["add", "remove", "promote", "demote"],
@@ -101,6 +102,7 @@ const commandTree: Record<string, CommandNode> = {
       name: ["set"],
       description: ["set"],
       picture: ["set"],
+      requests: ["approve", "reject"],
     },
     flags: ["--limit", "--filter", "--json"],
   },
@@ -108,9 +110,12 @@ const commandTree: Record<string, CommandNode> = {
     subcommands: ["messages"],
     flags: ["--count"],
   },
+  search: {
+    flags: ["--chat", "--from", "--type", "--sent", "--received", "--media", "--before", "--after", "--limit", "--cursor", "--json"],
+  },
   check: {},
   contact: {
-    subcommands: ["list", "ls", "info", "business", "picture", "add", "remove"],
+    subcommands: ["list", "ls", "info", "business", "picture", "add", "remove", "block", "unblock", "blocklist"],
     flags: ["--limit", "--filter", "--json", "--high", "--first", "--last"],
   },
   profile: {
@@ -121,6 +126,20 @@ const commandTree: Record<string, CommandNode> = {
       status: ["set"],
     },
   },
+  privacy: {
+    subcommands: ["show", "set"],
+    nestedSubcommands: {
+      set: ["lastseen", "online", "profile", "status", "readreceipts", "groupsadd", "calls", "messages", "disappearing"],
+    },
+    flags: ["--json"],
+  },
+  call: {
+    subcommands: ["link", "reject"],
+    nestedSubcommands: {
+      link: ["audio", "video"],
+    },
+    flags: ["--at", "--json"],
+  },
   label: {
     subcommands: ["list", "chats", "add", "chat"],
     nestedSubcommands: {
@@ -128,11 +147,25 @@ const commandTree: Record<string, CommandNode> = {
     },
   },
   catalog: {
-    subcommands: ["list", "collections", "product"],
+    subcommands: ["list", "collections", "product", "sync"],
     nestedSubcommands: {
       product: ["create", "update", "delete"],
     },
-    flags: ["--phone", "--limit", "--cursor", "--image", "--url", "--retailerId", "--hidden", "--json"],
+    flags: ["--phone", "--limit", "--cursor", "--image", "--url", "--retailerId", "--hidden", "--dry-run", "--on-missing", "--delay", "--format", "--json"],
+  },
+  serve: {
+    flags: ["--port", "--host", "--api-key", "--instances"],
+  },
+  campaign: {
+    subcommands: ["run", "status", "pause"],
+    flags: ["--template", "--recipients", "--name", "--image", "--video", "--document", "--delay", "--detach", "--json"],
+  },
+  newsletter: {
+    subcommands: ["schedule"],
+    nestedSubcommands: {
+      schedule: ["add", "list", "cancel"],
+    },
+    flags: ["--at", "--tz", "--missed", "--id", "--text", "--image", "--video", "--caption", "--poll", "--json"],
   },
 };
 
@@ -639,6 +672,9 @@ function showReplHelp(topic: string = ""): void {
     case "load":
       showHelpLoad();
       return;
+    case "search":
+      showHelpSearch();
+      return;
     case "send":
       showHelpSend();
       return;
@@ -657,18 +693,33 @@ function showReplHelp(topic: string = ""): void {
     case "profile":
       showHelpProfile();
       return;
+    case "privacy":
+      showHelpPrivacy();
+      return;
+    case "call":
+      showHelpCall();
+      return;
     case "label":
       showHelpLabel();
       return;
     case "catalog":
       showHelpCatalog();
       return;
+    case "campaign":
+      showHelpCampaign();
+      return;
+    case "newsletter":
+      showHelpNewsletter();
+      return;
+    case "serve":
+      showHelpServe();
+      return;
     case "":
       // Show full help
       break;
     default:
       console.log(`❌ Unknown help topic: ${topic}`);
-      console.log(`Available topics: instance, get, load, send, media, group, check, contact, profile, label, catalog`);
+      console.log(`Available topics: instance, get, load, search, send, media, group, check, contact, profile, privacy, call, label, catalog, campaign, newsletter, serve`);
       console.log(`Usage: help [topic]`);
       return;
   }
@@ -680,7 +731,7 @@ function showReplHelp(topic: string = ""): void {
 ╚════════════════════════════════════════════════════════════════════════╝
 
 REPL-SPECIFIC:
-  help [topic]                                Show help (topics: instance, get, send, group, contact, profile, label, catalog)
+  help [topic]                                Show help (topics: instance, get, search, send, group, contact, profile, privacy, call, label, catalog, campaign, newsletter, serve)
   status                                      Show connection status
   use <instance-id>                           Switch active instance
   connect [id]                                Connect to WhatsApp
@@ -694,23 +745,30 @@ COMMANDS (use "help <command>" for details):
   instance    Manage WhatsApp instances (create, connect, disconnect, etc.)
   get         Fetch data (profile, contacts, groups, chats, messages, labels)
   load        Load older messages from chat history
-  send        Send messages (text, image, document, video, audio, location, contact, poll, sticker)
+  search      Search stored messages (text, sender, type, date)
+  send        Send messages (text, image, document, video, audio, location, contact, poll, sticker, invite, event)
   media       Media operations (download)
-  chat        Chat management (archive, pin, mute, read, clear, delete)
+  chat        Chat management (archive, pin, mute, read, clear, delete, ephemeral, pin-message)
   story       Post status/story (text, image, video)
   group       Group management (info, participants, invites, settings)
-  community   Community management (create, link groups, members, invites)
+  community   Community management (create, link groups, members, settings)
   check       Check if phone numbers are on WhatsApp
-  contact     Contact management (list, info, add, remove)
+  contact     Contact management (list, info, add, remove, block)
   profile     Profile management (picture, name, status)
+  privacy     Privacy settings (show, set)
+  call        Calls (link, reject)
   label       Label management (WhatsApp Business)
   business    Business profile & cover photo (WhatsApp Business)
   catalog     Catalog management (WhatsApp Business)
+  campaign    Broadcast campaigns (run, status, pause)
+  newsletter  Scheduled newsletter posts (schedule add, list, cancel)
+  serve       Start the REST API server
 
 QUICK EXAMPLES:
   get groups --limit 5                        List first 5 groups
   send text 6281234567890 "Hello"             Send a text message
   contact list --filter john                  Find contacts named john
+  search "INV-2024" --after 2026-01-01        Find messages mentioning INV-2024
   group info 120363039902323086@g.us          Get group details
 
 Type "help <command>" for detailed help on each command.
@@ -814,6 +872,10 @@ COMMANDS:
   send document <phone> <path> [caption]      Send document
   send video <phone> <path> [options]         Send video
   send audio <phone> <path> [options]         Send audio
+  send invite <phone> <groupJid>              Send a group invite (admin only)
+  send event <phone> <name> <start> [options] Send an event
+  send product <phone> <retailerId|id> [opts] Send a catalog product
+  send catalog <phone> [options]              Send a catalog link
 
 VIDEO OPTIONS:
   --caption <text>                            Add caption to video
@@ -823,11 +885,29 @@ VIDEO OPTIONS:
 AUDIO OPTIONS:
   --ptt                                       Send as voice note (push-to-talk)
 
+INVITE OPTIONS:
+  --caption <text>                            Text shown with the invite
+
+EVENT OPTIONS:
+  --end <datetime>                            End time
+  --description <text>                        Event description
+  --call audio|video                          Attach a call link
+
+PRODUCT / CATALOG OPTIONS:
+  --business <phone>                          Catalog owner (default: you)
+  --body <text>                               (product) Text shown with the product
+  --footer <text>                             (product) Footer text
+  --image <path>                              (product) Image (default: catalog image)
+  --text <text>                               (catalog) Text sent before the link
+
 EXAMPLES:
   send image 6281234567890 ./photo.jpg "Caption"
   send video 6281234567890 ./video.mp4 --caption "Check this"
   send video 6281234567890 ./short.mp4 --gif
   send audio 6281234567890 ./voice.ogg --ptt
+  send invite 6281234567890 120363012345678@g.us
+  send event 120363012345678@g.us "Team sync" 2026-01-31T15:00 --call video
+  send product 6281234567890 SKU-001 --body "Back in stock!"
 
 NOTES:
   - Phone format: international without + (e.g., 6281234567890)
@@ -899,17 +979,65 @@ GROUP SETTINGS:
   group name set <jid> <name>                 Update group name
   group description set <jid> [desc]          Update group description
   group picture set <jid> <path>              Update group picture
+  group settings <jid>                        Show admin settings
+  group settings <jid> announce on|off        Only admins can send messages
+  group settings <jid> restrict on|off        Only admins can edit group info
+  group settings <jid> add admin|all          Who can add members
+  group settings <jid> approval on|off        Admins approve new members
+  group settings <jid> ephemeral <timer>      Disappearing messages (off|24h|7d|90d|seconds)
+
+JOIN REQUESTS:
+  group requests <jid>                        List pending join requests
+  group requests approve <jid> [phones]       Approve requests (all if no phones)
+  group requests reject <jid> [phones]        Reject requests (all if no phones)
 
 OPTIONS:
   --limit N                                   Limit number of results
   --filter TEXT                               Filter by name (case-insensitive)
 
-EXAMPLE:
+EXAMPLES:
   group participants add 120363xxx@g.us 628xxx 628yyy
+  group settings 120363xxx@g.us announce on approval on
 
 NOTES:
   - Group JID format: groupid@g.us
   - Admin rights required for participant/settings management
+  - The same settings/requests commands exist for communities:
+    community settings <jid> ..., community requests <jid>
+`);
+}
+
+/**
+ * Show help for search commands
+ */
+function showHelpSearch(): void {
+  console.log(`
+╔════════════════════════════════════════════════════════════════════════╗
+║                        Search Commands                                 ║
+╚════════════════════════════════════════════════════════════════════════╝
+
+COMMANDS:
+  search <query> [options]                    Search stored messages
+
+OPTIONS:
+  --chat JID                                  Only this chat (JID or phone)
+  --from PHONE                                Only messages from this sender
+  --type TYPES                                Only these types (e.g., text,document)
+  --sent / --received                         Only sent or received messages
+  --media                                     Only messages with media
+  --before DATE / --after DATE                Date range (e.g., 2026-01-31)
+  --limit N                                   Results per page (default: 20)
+  --cursor C                                  Next page (printed after results)
+  --json                                      Output as JSON
+
+EXAMPLE:
+  search "order 1042" --after 2026-01-01      Find an order number since January
+  search --from 6281234567890 --media         Media sent by a contact
+
+NOTES:
+  - Searches messages stored locally (see 'get messages' / 'load messages')
+  - All words must match; the last one also matches as a prefix
+  - The query can be left out when filtering by chat, sender, type or date
 `);
 }
 
@@ -954,6 +1082,9 @@ COMMANDS:
   contact picture <phone> [--high]            Get profile picture URL
   contact add <phone> <name> [options]        Add or edit contact
   contact remove <phone>                      Remove contact
+  contact block <phone>                       Block contact
+  contact unblock <phone>                     Unblock contact
+  contact blocklist                           List blocked contacts
 
 OPTIONS:
   --limit N                                   Limit number of results
@@ -992,6 +1123,59 @@ NOTES:
 `);
 }
 
+/**
+ * Show help for privacy commands
+ */
+function showHelpPrivacy(): void {
+  console.log(`
+╔════════════════════════════════════════════════════════════════════════╗
+║                        Privacy Commands                                ║
+╚════════════════════════════════════════════════════════════════════════╝
+
+COMMANDS:
+  privacy [show]                              Show privacy settings
+  privacy set <setting> <value>               Change a privacy setting
+
+SETTINGS:
+  lastseen, profile, status                   all|contacts|contact_blacklist|none
+  online                                      all|match_last_seen
+  readreceipts                                all|none
+  groupsadd                                   all|contacts|contact_blacklist
+  calls                                       all|known
+  messages                                    all|contacts
+  disappearing                                off|24h|7d|90d|<seconds>
+
+EXAMPLES:
+  privacy set lastseen contacts
+  privacy set disappearing 7d
+
+NOTES:
+  - Blocking contacts: contact block|unblock <phone>, contact blocklist
+`);
+}
+
+/**
+ * Show help for call commands
+ */
+function showHelpCall(): void {
+  console.log(`
+╔════════════════════════════════════════════════════════════════════════╗
+║                          Call Commands                                 ║
+╚════════════════════════════════════════════════════════════════════════╝
+
+COMMANDS:
+  call link [audio|video] [--at <datetime>]   Create a call link (default: video)
+  call reject <callId> <phone>                Reject an incoming call
+
+EXAMPLES:
+  call link audio
+  call link video --at 2026-01-31T15:00
+
+NOTES:
+  - To reject calls automatically, use the rejectCalls client option
+`);
+}
+
 /**
  * Show help for label commands
  */
@@ -1037,6 +1221,7 @@ COMMANDS:
   catalog product create <name> <desc> <price> <currency>
   catalog product update <productId> [options]
   catalog product delete <productIds...>      Delete products
+  catalog sync <file> [options]               Sync catalog with a CSV/JSON feed
 
 OPTIONS:
   --phone <phone>                             View another business's catalog
@@ -1046,9 +1231,14 @@ OPTIONS:
   --url <url>                                 Product landing page URL
   --retailerId <id>                           Your internal SKU/product ID
   --hidden                                    Mark product as hidden
+  --dry-run                                   (sync) Show the plan, change nothing
+  --on-missing hide|delete|keep               (sync) Products not in the feed (default: hide)
+  --delay <ms>                                (sync) Delay between changes (default: 1000)
+  --format csv|json                           (sync) Feed format (default: from extension)
 
-EXAMPLE:
+EXAMPLES:
   catalog product create "T-Shirt" "Cotton" 50000 IDR --image ./shirt.jpg
+  catalog sync ./products.csv --dry-run
 
 NOTES:
   - Catalog only available for WhatsApp Business accounts
@@ -1056,6 +1246,102 @@ NOTES:
 `);
 }
 
+/**
+ * Show help for campaign commands
+ */
+function showHelpCampaign(): void {
+  console.log(`
+╔════════════════════════════════════════════════════════════════════════╗
+║                          Campaign Commands                             ║
+╚════════════════════════════════════════════════════════════════════════╝
+
+COMMANDS:
+  campaign run <file.json>                    Run a campaign defined in a JSON file
+  campaign run <id>                           Resume a paused/stored campaign
+  campaign run --template <text> --recipients <phones|file> [options]
+  campaign status [id]                        List campaigns, or one with recipients
+  campaign pause <id>                         Pause a running campaign
+
+OPTIONS:
+  --template <text>                           Message with {{name}}, {{firstName}}, {{phone}}
+  --recipients <list|file>                    Comma-separated phones, or a file (one per line)
+  --name <name>                               Campaign name
+  --image|--video|--document <path>           Attach media (template becomes the caption)
+  --delay MS                                  Delay between messages (default: 3000)
+  --detach                                    Return immediately, keep sending in the background
+
+EXAMPLE:
+  campaign run --template "Hi {{firstName}}! Reply STOP to opt out" --recipients 628111,628222
+
+NOTES:
+  - Replies of STOP or UNSUBSCRIBE opt a recipient out of all campaigns
+  - Progress is saved; continue an interrupted campaign with: campaign run <id>
+`);
+}
+
+/**
+ * Show help for newsletter commands
+ */
+function showHelpNewsletter(): void {
+  console.log(`
+╔════════════════════════════════════════════════════════════════════════╗
+║                         Newsletter Commands                            ║
+╚════════════════════════════════════════════════════════════════════════╝
+
+COMMANDS:
+  newsletter schedule add <newsletterId> --at <time> <content> [options]
+  newsletter schedule list [newsletterId]     List scheduled posts with their outcome
+  newsletter schedule cancel <id>             Cancel a post that hasn't gone out
+
+CONTENT (one of):
+  --text <text>                               Text post
+  --image <path|url> [--caption <text>]       Image post
+  --video <path|url> [--caption <text>]       Video post
+  --poll <question> <option1> <option2> ...   Single-choice poll
+
+OPTIONS:
+  --at <time>                                 "2026-11-01 09:00", or ISO 8601 with an offset
+  --tz <zone>                                 IANA time zone for --at (default: system zone)
+  --missed publish|skip                       Publish late or skip if the time passes offline (default: publish)
+  --id <id>                                   Post ID (default: random UUID)
+
+EXAMPLE:
+  newsletter schedule add 1234567890@newsletter --at "2026-11-01 09:00" --tz Asia/Jakarta --image ./promo.jpg --caption "Sale starts now!"
+
+NOTES:
+  - The schedule is saved; posts are published while the instance is connected
+  - Message IDs of published posts are shown by schedule list
+`);
+}
+
+/**
+ * Show help for the serve command
+ */
+function showHelpServe(): void {
+  console.log(`
+╔════════════════════════════════════════════════════════════════════════╗
+║                          REST API Server                               ║
+╚════════════════════════════════════════════════════════════════════════╝
+
+COMMAND:
+  serve [options]                             Start the REST API (runs in the background)
+
+OPTIONS:
+  --port N                                    Port (default: 3000)
+  --host <host>                               Interface (default: 127.0.0.1)
+  --api-key <key>                             Required API key (or MIAW_API_KEY env var)
+  --instances a,b                             Instances to expose (default: all + current)
+
+EXAMPLE:
+  serve --port 8080 --api-key secret
+  curl -H "X-API-Key: secret" localhost:8080/instances
+
+NOTES:
+  - An API key is required when --host is not a loopback address
+  - API description: GET /openapi.json
+`);
+}
+
 /**
  * Get prompt string based on connection state
  */
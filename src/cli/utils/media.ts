@@ -0,0 +1,22 @@
+/**
+ * CLI Media Utilities
+ *
+ * Helpers for media referenced by commands that persist it for later sends
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Media URL as given, or a local file as an absolute path: scheduled posts
+ * and campaigns may be sent later by a process running in another directory
+ * @throws If the local file does not exist
+ */
+export function resolveMediaSource(source: string): string {
+  if (/^https?:\/\//i.test(source)) return source;
+  const filePath = path.resolve(source);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${source}`);
+  }
+  return filePath;
+}
@@ -7,7 +7,7 @@
 import * as fs from "fs";
 import * as path from "path";
 import qrcode from "qrcode-terminal";
-import { MiawClient } from "../../index.js";
+import { MiawClient, MiawManager } from "../../index.js";
 import { TIMEOUTS, THRESHOLDS } from "../../constants/timeouts.js";
 
 // Re-export prompt functions from shared utility
@@ -25,27 +25,7 @@ export interface ClientConfig {
  * Get list of existing instances from session directory
  */
 export function listInstances(sessionPath: string): string[] {
-  if (!fs.existsSync(sessionPath)) {
-    return [];
-  }
-
-  const items = fs.readdirSync(sessionPath);
-  const instances: string[] = [];
-
-  for (const item of items) {
-    const itemPath = path.join(sessionPath, item);
-    const stats = fs.statSync(itemPath);
-
-    if (stats.isDirectory()) {
-      // Check if it has creds.json (valid session)
-      const credsPath = path.join(itemPath, "creds.json");
-      if (fs.existsSync(credsPath)) {
-        instances.push(item);
-      }
-    }
-  }
-
-  return instances;
+  return MiawManager.listSessions(sessionPath);
 }
 
 /**
@@ -14,11 +14,38 @@ import makeWASocket, {
   downloadMediaMessage,
   jidNormalizedUser,
   getAggregateVotesInPollMessage,
+  BaileysEventMap,
+  WACallEvent,
+  MiscMessageGenerationOptions,
+  proto,
 } from "@whiskeysockets/baileys";
 import { Boom } from "@hapi/boom";
 import { EventEmitter } from "node:events";
+import { AsyncLocalStorage } from "node:async_hooks";
 import { MiawLogger } from "../types/logger.js";
+import type { MiawStore } from "../types/store.js";
+import type { AuthStateProvider } from "../types/auth.js";
+import type {
+  MiawMiddleware,
+  MessageContext,
+  CommandHandler,
+  CommandOptions,
+  CommandInfo,
+} from "../types/middleware.js";
+import type { CampaignData, CampaignInfo, CampaignMedia, CreateCampaignOptions } from "../types/campaign.js";
+import type { ScheduleNewsletterPostOptions, ScheduledPost } from "../types/newsletter-schedule.js";
+import { JsonFileStore } from "../store/JsonFileStore.js";
+import { CommandRouter } from "../handlers/CommandRouter.js";
+import { SendQueue } from "../handlers/SendQueue.js";
+import { Campaign, CampaignManager } from "../handlers/CampaignManager.js";
+import { NewsletterScheduler } from "../handlers/NewsletterScheduler.js";
 import { createFilteredLogger } from "../utils/filtered-logger.js";
+import {
+  loadCatalogFeed,
+  planCatalogSync,
+  validateCatalogFeed,
+  type CatalogSyncStep,
+} from "../utils/catalog-feed.js";
 import {
   enableConsoleFilter,
   disableConsoleFilter,
@@ -35,8 +62,13 @@ import {
   SendVideoOptions,
   SendAudioOptions,
   MiawMessage,
+  WaitForReplyOptions,
+  QueuedSend,
+  QueuedSendMethod,
   MessageEdit,
   MessageDelete,
+  MessagePin,
+  PinDuration,
   MessageReaction,
   MessageReceiptUpdate,
   CheckNumberResult,
@@ -45,6 +77,23 @@ import {
   BusinessProfile,
   GroupParticipant,
   GroupInfo,
+  GroupSettings,
+  GroupMemberAddMode,
+  GroupJoinRequest,
+  GroupJoinRequestUpdate,
+  PrivacySettingKey,
+  PrivacySettingValues,
+  PrivacySettings,
+  PrivacyOperationResult,
+  BlocklistUpdate,
+  CallEvent,
+  CallOperationResult,
+  CallLinkResult,
+  SendLiveLocationOptions,
+  LiveLocationPosition,
+  LiveLocationShare,
+  SendLiveLocationResult,
+  LiveLocationUpdate,
   PresenceStatus,
   PresenceUpdate,
   // v0.7.0 Group Management
@@ -67,6 +116,10 @@ import {
   ProductCatalog,
   ProductOperationResult,
   ProductOptions,
+  CatalogFeedItem,
+  CatalogSyncOptions,
+  CatalogSyncEntry,
+  CatalogSyncResult,
   ProductCollection,
   // v0.9.0 Newsletter/Channel
   NewsletterMetadata,
@@ -82,6 +135,8 @@ import {
   FetchAllGroupsResult,
   FetchAllLabelsResult,
   FetchChatMessagesResult,
+  SearchMessagesOptions,
+  SearchMessagesResult,
   FetchAllChatsResult,
   ChatInfo,
   // v1.7.0 Chat management
@@ -92,6 +147,10 @@ import {
   SendContactOptions,
   SendStickerOptions,
   SendPollOptions,
+  SendGroupInviteOptions,
+  SendEventOptions,
+  SendProductOptions,
+  SendCatalogLinkOptions,
   PollVoteUpdate,
   // v1.8.0 Status / Stories
   PostStatusOptions,
@@ -99,12 +158,17 @@ import {
   BusinessProfileUpdate,
   CoverPhotoResult,
   OrderInfo,
+  OrderMessageInfo,
+  OrderEvent,
+  OrderStatusUpdate,
+  ProductInquiry,
   QuickReplyInput,
 } from "../types/index.js";
+import type { BaileysBinaryNode, BaileysMessageContent } from "../types/baileys.js";
 import * as path from "node:path";
-import * as fs from "node:fs";
 import { AuthHandler } from "../handlers/AuthHandler.js";
 import { MessageHandler } from "../handlers/MessageHandler.js";
+import { MessageSearchIndex } from "../handlers/MessageSearchIndex.js";
 import { TIMEOUTS, THRESHOLDS } from "../constants/timeouts.js";
 import { CACHE_CONFIG } from "../constants/cache.js";
 import {
@@ -204,13 +268,54 @@ class LruCache {
   }
 }
 
+/** Privacy settings with a fixed set of values */
+type PrivacyChoiceKey = Exclude<PrivacySettingKey, "defaultDisappearingMode">;
+
+/** Privacy setting → category name in WhatsApp's privacy IQ */
+const PRIVACY_CATEGORIES: Record<PrivacyChoiceKey, string> = {
+  lastSeen: "last",
+  online: "online",
+  profilePicture: "profile",
+  status: "status",
+  readReceipts: "readreceipts",
+  groupsAdd: "groupadd",
+  calls: "calladd",
+  messages: "messages",
+};
+
+/** Allowed values per privacy setting (checked at runtime for JS/CLI callers) */
+const PRIVACY_VALUES: Record<PrivacyChoiceKey, readonly string[]> = {
+  lastSeen: ["all", "contacts", "contact_blacklist", "none"],
+  online: ["all", "match_last_seen"],
+  profilePicture: ["all", "contacts", "contact_blacklist", "none"],
+  status: ["all", "contacts", "contact_blacklist", "none"],
+  readReceipts: ["all", "none"],
+  groupsAdd: ["all", "contacts", "contact_blacklist"],
+  calls: ["all", "known"],
+  messages: ["all", "contacts"],
+};
+
+/** Allowed pin durations (24h, 7d, 30d) */
+const PIN_DURATIONS: readonly PinDuration[] = [86400, 604800, 2592000];
+
+/** How long an invite sent as a message stays valid (WhatsApp uses 3 days) */
+const GROUP_INVITE_MESSAGE_TTL = 3 * 24 * 60 * 60;
+
+/** Default and longest live location share, in seconds (1h / 8h) */
+const LIVE_LOCATION_DEFAULT_DURATION = 60 * 60;
+const LIVE_LOCATION_MAX_DURATION = 8 * 60 * 60;
+
+/** Products per page when reading a whole catalog (syncCatalog, sendProduct lookups) */
+const CATALOG_PAGE_SIZE = 100;
+
 /**
  * Main client class for interacting with WhatsApp
  */
 export class MiawClient extends EventEmitter {
-  private options: Required<Omit<MiawClientOptions, "proxy" | "agent" | "fetchAgent" | "usePairingCode" | "phoneNumber" | "browser">> & Pick<MiawClientOptions, "proxy" | "agent" | "fetchAgent" | "usePairingCode" | "phoneNumber" | "browser">;
+  private options: Required<Omit<MiawClientOptions, "proxy" | "agent" | "fetchAgent" | "usePairingCode" | "phoneNumber" | "browser" | "store" | "authState" | "retention" | "sendQueue" | "rejectCalls">> & Pick<MiawClientOptions, "proxy" | "agent" | "fetchAgent" | "usePairingCode" | "phoneNumber" | "browser" | "store" | "authState" | "retention" | "sendQueue" | "rejectCalls">;
+  private store: MiawStore;
   private socket: WASocket | null = null;
-  private authHandler: AuthHandler;
+  private authHandler: AuthStateProvider;
   private connectionState: ConnectionState = "disconnected";
   private connectionStateTimestamp: number = 0;
   private connectionWatchdogTimer: NodeJS.Timeout | null = null;
@@ -225,6 +330,8 @@ export class MiawClient extends EventEmitter {
   private contactsStore: Map<string, ContactInfo> = new Map();
   private chatsStore: Map<string, ChatInfo> = new Map();
   private messagesStore: Map<string, MiawMessage[]> = new Map();
+  // Full-text index over messagesStore (see searchMessages())
+  private searchIndex: MessageSearchIndex = new MessageSearchIndex();
   private labelsStore: Map<string, Label> = new Map();
   // Store label-chat associations (labelId -> Set of chatJids)
   private labelChatsStore: Map<string, Set<string>> = new Map();
@@ -241,6 +348,35 @@ export class MiawClient extends EventEmitter {
   private initialLabelSyncComplete = false;
   // Store auth state for logout access (needed when disconnected)
   private authState: { creds: any } | null = null;
+  // Message retention (see MessageRetentionOptions)
+  private retentionTimer: NodeJS.Timeout | null = null;
+  private retentionSweepTimer: NodeJS.Timeout | null = null;
+  // Chats changed by retention since the last persistRetention()
+  private retentionDirtyChats: Set<string> = new Set();
+  private messageSizes: WeakMap<MiawMessage, number> = new WeakMap();
+  // Oldest evicted message key per chat, so loadMoreMessages can keep paginating
+  private historyCursors: Map<string, { key: any; messageTimestamp: any }> = new Map();
+  // Message middleware pipeline and command router (see use() / command())
+  private middlewares: MiawMiddleware[] = [];
+  private commandRouter: CommandRouter = new CommandRouter((groupJid, participantJid) =>
+    this.isGroupAdmin(groupJid, participantJid)
+  );
+  // Outbound send queue (null when disabled). Sends executed by the queue run
+  // inside sendQueueBypass so they go straight to the socket.
+  private sendQueue: SendQueue | null = null;
+  private sendQueueSaveTimer: NodeJS.Timeout | null = null;
+  private sendQueueBypass = new AsyncLocalStorage<boolean>();
+  // Broadcast campaigns and opt-outs (progress persisted via the store)
+  private campaigns: CampaignManager = this.createCampaignManager();
+  private campaignSaveTimer: NodeJS.Timeout | null = null;
+  // Scheduled newsletter posts (persisted via the store)
+  private newsletterSchedule: NewsletterScheduler = this.createNewsletterScheduler();
+  // Catalogs read to resolve sendProduct() IDs, by owner JID (see TIMEOUTS.CATALOG_LOOKUP_TTL)
+  private catalogLookups: Map<string, { products: Promise<Product[]>; expiresAt: number }> = new Map();
+  // Ongoing incoming calls: call ID -> caller JID as sent by WhatsApp (may be a LID)
+  private activeCalls: Map<string, string> = new Map();
+  // Contacts' live locations: chat JID -> sender JID -> latest position
+  private liveLocations: Map<string, Map<string, LiveLocationUpdate>> = new Map();
 
   constructor(options: MiawClientOptions) {
     super();
@@ -268,6 +404,12 @@ export class MiawClient extends EventEmitter {
       usePairingCode: options.usePairingCode,
       phoneNumber: options.phoneNumber,
       browser: options.browser,
+      store: options.store,
+      authState: options.authState,
+      retention: options.retention,
+      sendQueue: options.sendQueue,
+      resumeCampaigns: options.resumeCampaigns || false,
+      rejectCalls: options.rejectCalls,
     };
 
     // Use the initialized logger
@@ -280,10 +422,23 @@ export class MiawClient extends EventEmitter {
     }
 
     // Initialize handlers
-    this.authHandler = new AuthHandler(
+    this.authHandler = options.authState || new AuthHandler(
       this.options.sessionPath,
       this.options.instanceId
     );
+    this.store = options.store || new JsonFileStore(
+      this.options.sessionPath,
+      this.options.instanceId,
+      logger
+    );
+
+    if (options.sendQueue) {
+      this.sendQueue = this.createSendQueue();
+    }
+
+    if (this.hasRetentionPolicy()) {
+      this.ensureRetentionSweep();
+    }
   }
 
   /**
@@ -314,11 +469,14 @@ export class MiawClient extends EventEmitter {
       // Load persisted stores from disk before connecting
       // This ensures data is available even if Baileys history sync doesn't fire
       // (Known Baileys v7 issue: history sync notification may be received but never processed)
-      this.loadLabelsFromFile();
-      this.loadContactsFromFile();
-      this.loadLidMappingsFromFile();  // Load LID mappings BEFORE chats for resolution
-      this.loadChatsFromFile();
-      this.loadMessagesFromFile();
+      await this.loadLabelsFromStore();
+      await this.loadContactsFromStore();
+      await this.loadLidMappingsFromStore();  // Load LID mappings BEFORE chats for resolution
+      await this.loadChatsFromStore();
+      await this.loadMessagesFromStore();
+      await this.loadSendQueueFromStore();
+      await this.loadCampaignsFromStore();
+      await this.loadNewsletterScheduleFromStore();
 
       // Load auth state
       const { state, saveCreds } = await this.authHandler.initialize();
@@ -548,6 +706,11 @@ export class MiawClient extends EventEmitter {
         this.emit("ready");
         this.logger.info("Connected to WhatsApp");
 
+        // Flush sends buffered while disconnected
+        this.sendQueue?.resume();
+        this.campaigns.resumeAll();
+        this.newsletterSchedule.resume();
+
         // Log store sizes after connection
         if (this.options.debug) {
           this.logger.debug(`[ready] Stores: contacts=${this.contactsStore.size}, chats=${this.chatsStore.size}, messages=${this.messagesStore.size}`);
@@ -695,12 +858,18 @@ export class MiawClient extends EventEmitter {
           this.logger.debug("=========================================\n");
         }
 
-        // Check for protocol messages (edits and deletes)
-        const protocolMessage = msg.message?.protocolMessage;
-        if (protocolMessage) {
-          this.handleProtocolMessage(msg, protocolMessage);
+        // Check for protocol messages (edits, deletes, disappearing-messages
+        // changes) and pin changes; in chats with a timer they arrive in an
+        // ephemeral wrapper
+        const content = MessageHandler.unwrapContent(msg.message as BaileysMessageContent).message;
+        if (content?.protocolMessage) {
+          this.handleProtocolMessage(msg, content.protocolMessage);
           continue; // Don't process as regular message
         }
+        if (content?.pinInChatMessage) {
+          this.handlePinMessage(msg, content);
+          continue;
+        }
 
         // Build LID<->PN mapping from incoming message keys. Baileys rc13 keys
         // carry the alternate JID (remoteJidAlt for DMs, participantAlt for
@@ -727,6 +896,7 @@ export class MiawClient extends EventEmitter {
           if (normalized.participant) {
             normalized.participant = this.resolveLidToJid(normalized.participant);
           }
+          this.resolveMessageContext(normalized);
 
           // Resolve senderPhone from LID if not available (WhatsApp privacy feature)
           if (!normalized.senderPhone) {
@@ -764,6 +934,17 @@ export class MiawClient extends EventEmitter {
             }
           }
 
+          // A live message carrying a timer tells us the chat's current one
+          if (normalized.ephemeralExpiration && m.type === "notify") {
+            this.updateChatEphemeral(normalized.from, normalized.ephemeralExpiration);
+          }
+
+          // Live location: the message starting a share is handled like any
+          // other; the position updates after it only go to `live_location`
+          if (normalized.type === "live_location" && this.trackLiveLocation(normalized)) {
+            continue;
+          }
+
           // Store message in messagesStore (deduped by id). Outbound messages
           // (fromMe) — our own sends and messages sent from the user's phone —
           // are stored so getChatMessages / CLI `get messages` include them,
@@ -772,7 +953,15 @@ export class MiawClient extends EventEmitter {
           // reconnect re-delivery of already-stored messages never re-fires.
           const isNew = this.storeMessage(normalized);
           if (isNew && !normalized.fromMe) {
+            this.campaigns.handleIncoming(normalized).catch((error) => {
+              this.logger.warn("Failed to process campaign opt-out:", error);
+            });
             this.emit("message", normalized);
+            void this.runMiddleware(normalized);
+            this.handleCommerceMessage(normalized);
+            if (normalized.from.endsWith("@newsletter")) {
+              this.emit("newsletter_message", MessageHandler.toNewsletterMessage(normalized));
+            }
           }
         }
       }
@@ -844,6 +1033,37 @@ export class MiawClient extends EventEmitter {
       }
     });
 
+    // Group setting changes: track the disappearing-messages timer so sends
+    // to the group carry it
+    this.socket.ev.on("groups.update", (updates) => {
+      for (const update of updates) {
+        if (update.id && update.ephemeralDuration !== undefined) {
+          this.updateChatEphemeral(update.id, update.ephemeralDuration || 0);
+        }
+      }
+    });
+
+    // Join requests for groups/communities we admin (join approval on)
+    this.socket.ev.on("group.join-request", (request) => {
+      this.handleJoinRequest(request);
+    });
+
+    // Incoming calls (auto-rejected when the rejectCalls policy says so)
+    this.socket.ev.on("call", (calls) => {
+      for (const call of calls) {
+        this.handleCall(call);
+      }
+    });
+
+    // Contacts blocked/unblocked (also from other devices)
+    this.socket.ev.on("blocklist.update", ({ blocklist, type }) => {
+      const update: BlocklistUpdate = {
+        jids: blocklist.map((jid) => this.resolveLidToJid(jid)),
+        action: type === "add" ? "block" : "unblock",
+      };
+      this.emit("blocklist_update", update);
+    });
+
     // Label updates (WhatsApp Business)
     this.socket.ev.on("labels.edit", (label: any) => {
       this.labelEventCount++;
@@ -870,7 +1090,7 @@ export class MiawClient extends EventEmitter {
         }
         // Persist labels to disk after every update
         // This ensures labels survive reconnections where resyncAppState returns only patches
-        this.saveLabelsToFile();
+        this.saveLabelsToStore();
       }
     });
 
@@ -919,12 +1139,16 @@ export class MiawClient extends EventEmitter {
     this.socket.ev.removeAllListeners("message-receipt.update");
     this.socket.ev.removeAllListeners("messages.update");
     this.socket.ev.removeAllListeners("presence.update");
+    this.socket.ev.removeAllListeners("group.join-request");
+    this.socket.ev.removeAllListeners("groups.update");
+    this.socket.ev.removeAllListeners("blocklist.update");
+    this.socket.ev.removeAllListeners("call");
     this.socket.ev.removeAllListeners("labels.edit");
     this.socket.ev.removeAllListeners("labels.association");
   }
 
   /**
-   * Handle protocol messages (edits, deletes)
+   * Handle protocol messages (edits, deletes, disappearing-messages changes)
    */
   private handleProtocolMessage(msg: any, protocolMessage: any): void {
     const type = protocolMessage.type;
@@ -949,6 +1173,11 @@ export class MiawClient extends EventEmitter {
       this.emit("message_delete", deletion);
     }
 
+    // Type 3 = EPHEMERAL_SETTING (disappearing messages turned on/off/changed)
+    if (type === 3 && msg.key?.remoteJid) {
+      this.updateChatEphemeral(msg.key.remoteJid, Number(protocolMessage.ephemeralExpiration) || 0);
+    }
+
     // Type 14 = MESSAGE_EDIT
     if (type === 14 && protocolMessage.editedMessage) {
       const editedMessage = protocolMessage.editedMessage;
@@ -978,6 +1207,43 @@ export class MiawClient extends EventEmitter {
     }
   }
 
+  /**
+   * Map a pin-in-chat message to a MessagePin and emit `message_pin`
+   */
+  private handlePinMessage(msg: any, content: BaileysMessageContent): void {
+    const pin = content.pinInChatMessage;
+    if (!pin || (pin.type !== 1 && pin.type !== 2)) return;
+
+    const fromMe = !!msg.key.fromMe;
+    const actor = fromMe
+      ? msg.key.participant || (this.socket?.user?.id ? jidNormalizedUser(this.socket.user.id) : "")
+      : msg.key.participant || msg.key.remoteJid || "";
+    const action = pin.type === 1 ? "pin" : "unpin";
+    const update: MessagePin = {
+      messageId: pin.key?.id || "",
+      chatId: this.resolveLidToJid(pin.key?.remoteJid || msg.key.remoteJid || ""),
+      action,
+      duration:
+        action === "pin"
+          ? (content.messageContextInfo?.messageAddOnDurationInSecs as PinDuration | null) || undefined
+          : undefined,
+      pinnedBy: this.resolveLidToJid(actor),
+      fromMe,
+      timestamp: pin.senderTimestampMs
+        ? Number(pin.senderTimestampMs)
+        : Number(msg.messageTimestamp || 0) * 1000 || Date.now(),
+      raw: msg,
+    };
+
+    if (this.options.debug) {
+      this.logger.debug("\n========== MESSAGE PIN ==========");
+      this.logger.debug(JSON.stringify(update, null, 2));
+      this.logger.debug("=================================\n");
+    }
+
+    this.emit("message_pin", update);
+  }
+
   /**
    * Add LID to JID mapping with normalized format and debug logging
    * Centralized helper for all LID mapping operations
@@ -1026,7 +1292,7 @@ export class MiawClient extends EventEmitter {
 
     // Persist to disk if this is a new mapping
     if (isNew) {
-      this.saveLidMappingsToFile();
+      this.saveLidMappingsToStore();
     }
   }
 
@@ -1364,7 +1630,7 @@ export class MiawClient extends EventEmitter {
     // Persist contacts to disk after every update
     // This ensures contacts survive reconnections where history sync may not fire
     if (contacts.length > 0) {
-      this.saveContactsToFile();
+      this.saveContactsToStore();
     }
   }
 
@@ -1408,6 +1674,11 @@ export class MiawClient extends EventEmitter {
         unreadCount: chat.unreadCount || undefined,
         isArchived: chat.archived || false,
         isPinned: !!chat.pinned,
+        // Partial updates (chats.update) only carry the timer when it changed
+        ephemeralExpiration:
+          chat.ephemeralExpiration !== undefined
+            ? chat.ephemeralExpiration || undefined
+            : this.chatsStore.get(jid)?.ephemeralExpiration,
       };
 
       // Update store with resolved JID as primary key
@@ -1422,7 +1693,7 @@ export class MiawClient extends EventEmitter {
     // Persist chats to disk after every update
     // This ensures chats survive reconnections where history sync may not fire
     if (chats.length > 0) {
-      this.saveChatsToFile();
+      this.saveChatsToStore();
     }
   }
 
@@ -1448,20 +1719,52 @@ export class MiawClient extends EventEmitter {
     if (normalized.participant) {
       normalized.participant = this.resolveLidToJid(normalized.participant);
     }
+    this.resolveMessageContext(normalized);
 
     // Store (deduped by id). The history-sync path never emits "message"; it
     // only populates the store.
     this.storeMessage(normalized);
   }
 
+  /**
+   * Resolve @lid JIDs in a message's reply/mention context and flag quotes of
+   * our own messages (quoted.fromMe)
+   */
+  private resolveMessageContext(normalized: MiawMessage): void {
+    if (normalized.mentions) {
+      normalized.mentions = normalized.mentions.map((jid) => this.resolveLidToJid(jid));
+    }
+
+    const quoted = normalized.quoted;
+    if (!quoted) return;
+    quoted.from = this.resolveLidToJid(quoted.from);
+    if (quoted.participant) {
+      quoted.fromMe = this.isOwnJid(quoted.participant);
+      quoted.participant = this.resolveLidToJid(quoted.participant);
+      quoted.senderPhone = quoted.senderPhone || this.getPhoneFromJid(quoted.participant);
+    }
+  }
+
+  /**
+   * Check whether a JID (phone or LID, any device) belongs to this account
+   */
+  private isOwnJid(jid: string): boolean {
+    const user = (value?: string | null) => value?.split("@")[0].split(":")[0];
+    const me = this.socket?.user as { id?: string; lid?: string } | undefined;
+    const mine = [user(me?.id), user(me?.lid)].filter(Boolean);
+    return [user(jid), user(this.resolveLidToJid(jid))].some((u) => !!u && mine.includes(u));
+  }
+
   /**
    * Clear session data for this instance.
-   * This will delete all stored authentication credentials.
+   * This will delete all stored authentication credentials and persisted
+   * store data (contacts, chats, messages, labels, LID mappings).
    * After calling this, the next connect() will require scanning a new QR code.
    * @returns true if session was cleared, false if no session existed
    */
   clearSession(): boolean {
-    return this.authHandler.clearSession();
+    this.clearStore();
+    return this.authHandler.clear();
   }
 
   /**
@@ -1480,6 +1783,38 @@ export class MiawClient extends EventEmitter {
     // Clear LID cache
     this.lidToJidMap.clear();
 
+    // Stop retention timers
+    if (this.retentionTimer) {
+      clearTimeout(this.retentionTimer);
+      this.retentionTimer = null;
+    }
+    if (this.retentionSweepTimer) {
+      clearInterval(this.retentionSweepTimer);
+      this.retentionSweepTimer = null;
+    }
+
+    // Stop sending queued messages, campaigns and scheduled posts (progress stays persisted)
+    this.sendQueue?.stop("Client disposed");
+    this.campaigns.stop();
+    this.newsletterSchedule.stop();
+    if (this.sendQueueSaveTimer) {
+      clearTimeout(this.sendQueueSaveTimer);
+      this.sendQueueSaveTimer = null;
+      await this.saveSendQueueToStore();
+    }
+    if (this.campaignSaveTimer) {
+      clearTimeout(this.campaignSaveTimer);
+      this.campaignSaveTimer = null;
+      await this.saveCampaignsToStore();
+    }
+
+    // Persist any buffered store writes
+    this.persistRetention();
+    await this.flushStore();
+
+    // Release auth state handles (e.g. SQLite database)
+    this.authHandler.close?.();
+
     // Remove all event listeners
     this.removeAllListeners();
 
@@ -1519,7 +1854,8 @@ export class MiawClient extends EventEmitter {
     // Don't reconnect if logged out - clear session for fresh QR code on next connect
     if (statusCode === DisconnectReason.loggedOut) {
       this.logger.info("Logged out, clearing session for fresh authentication");
-      this.authHandler.clearSession();
+      this.authHandler.clear();
+      this.clearStore();
       return false;
     }
 
@@ -1649,6 +1985,10 @@ export class MiawClient extends EventEmitter {
     text: string,
     options?: SendTextOptions
   ): Promise<SendMessageResult> {
+    if (this.shouldQueueSend()) {
+      return this.enqueueSend("sendText", [to, text, options]);
+    }
+
     try {
       if (!this.socket) {
         throw new Error("Not connected. Call connect() first.");
@@ -1682,10 +2022,8 @@ export class MiawClient extends EventEmitter {
 
       const jid = MessageHandler.formatPhoneToJid(to);
 
-      // Build send options (for quoting/replying)
-      const sendOptions = options?.quoted?.raw
-        ? { quoted: options.quoted.raw }
-        : undefined;
+      // Build send options (quoting/replying, disappearing-messages timer)
+      const sendOptions = this.buildSendOptions(jid, options?.quoted);
 
       const content = { text } as AnyMessageContent & { mentions?: string[] };
       if (options?.mentions?.length) {
@@ -1720,6 +2058,10 @@ export class MiawClient extends EventEmitter {
     image: MediaSource,
     options?: SendImageOptions
   ): Promise<SendMessageResult> {
+    if (this.shouldQueueSend()) {
+      return this.enqueueSend("sendImage", [to, image, options]);
+    }
+
     try {
       if (!this.socket) {
         throw new Error("Not connected. Call connect() first.");
@@ -1745,10 +2087,8 @@ export class MiawClient extends EventEmitter {
         );
       }
 
-      // Build send options (for quoting/replying)
-      const sendOptions = options?.quoted?.raw
-        ? { quoted: options.quoted.raw }
-        : undefined;
+      // Build send options (quoting/replying, disappearing-messages timer)
+      const sendOptions = this.buildSendOptions(jid, options?.quoted);
 
       const result = await this.socket.sendMessage(
         jid,
@@ -1780,6 +2120,10 @@ export class MiawClient extends EventEmitter {
     document: MediaSource,
     options?: SendDocumentOptions
   ): Promise<SendMessageResult> {
+    if (this.shouldQueueSend()) {
+      return this.enqueueSend("sendDocument", [to, document, options]);
+    }
+
     try {
       if (!this.socket) {
         throw new Error("Not connected. Call connect() first.");
@@ -1815,10 +2159,8 @@ export class MiawClient extends EventEmitter {
         caption: options?.caption,
       };
 
-      // Build send options (for quoting/replying)
-      const sendOptions = options?.quoted?.raw
-        ? { quoted: options.quoted.raw }
-        : undefined;
+      // Build send options (quoting/replying, disappearing-messages timer)
+      const sendOptions = this.buildSendOptions(jid, options?.quoted);
 
       const result = await this.socket.sendMessage(
         jid,
@@ -1850,6 +2192,10 @@ export class MiawClient extends EventEmitter {
     video: MediaSource,
     options?: SendVideoOptions
   ): Promise<SendMessageResult> {
+    if (this.shouldQueueSend()) {
+      return this.enqueueSend("sendVideo", [to, video, options]);
+    }
+
     try {
       if (!this.socket) {
         throw new Error("Not connected. Call connect() first.");
@@ -1877,10 +2223,8 @@ export class MiawClient extends EventEmitter {
         );
       }
 
-      // Build send options (for quoting/replying)
-      const sendOptions = options?.quoted?.raw
-        ? { quoted: options.quoted.raw }
-        : undefined;
+      // Build send options (quoting/replying, disappearing-messages timer)
+      const sendOptions = this.buildSendOptions(jid, options?.quoted);
 
       const result = await this.socket.sendMessage(
         jid,
@@ -1912,6 +2256,10 @@ export class MiawClient extends EventEmitter {
     audio: MediaSource,
     options?: SendAudioOptions
   ): Promise<SendMessageResult> {
+    if (this.shouldQueueSend()) {
+      return this.enqueueSend("sendAudio", [to, audio, options]);
+    }
+
     try {
       if (!this.socket) {
         throw new Error("Not connected. Call connect() first.");
@@ -1938,10 +2286,8 @@ export class MiawClient extends EventEmitter {
         ptt: options?.ptt,
       };
 
-      // Build send options (for quoting/replying)
-      const sendOptions = options?.quoted?.raw
-        ? { quoted: options.quoted.raw }
-        : undefined;
+      // Build send options (quoting/replying, disappearing-messages timer)
+      const sendOptions = this.buildSendOptions(jid, options?.quoted);
 
       const result = await this.socket.sendMessage(
         jid,
@@ -1975,6 +2321,10 @@ export class MiawClient extends EventEmitter {
     longitude: number,
     options?: SendLocationOptions
   ): Promise<SendMessageResult> {
+    if (this.shouldQueueSend()) {
+      return this.enqueueSend("sendLocation", [to, latitude, longitude, options]);
+    }
+
     try {
       if (!this.socket) {
         throw new Error("Not connected. Call connect() first.");
@@ -1994,9 +2344,7 @@ export class MiawClient extends EventEmitter {
           address: options?.address,
         },
       };
-      const sendOptions = options?.quoted?.raw
-        ? { quoted: options.quoted.raw }
-        : undefined;
+      const sendOptions = this.buildSendOptions(jid, options?.quoted);
 
       const result = await this.socket.sendMessage(jid, content, sendOptions);
       return { success: true, messageId: result?.key?.id || undefined };
@@ -2032,6 +2380,10 @@ export class MiawClient extends EventEmitter {
     contacts: ContactCard | ContactCard[],
     options?: SendContactOptions
   ): Promise<SendMessageResult> {
+    if (this.shouldQueueSend()) {
+      return this.enqueueSend("sendContact", [to, contacts, options]);
+    }
+
     try {
       if (!this.socket) {
         throw new Error("Not connected. Call connect() first.");
@@ -2055,9 +2407,7 @@ export class MiawClient extends EventEmitter {
           contacts: list.map((c) => ({ vcard: this.buildVCard(c) })),
         },
       };
-      const sendOptions = options?.quoted?.raw
-        ? { quoted: options.quoted.raw }
-        : undefined;
+      const sendOptions = this.buildSendOptions(jid, options?.quoted);
 
       const result = await this.socket.sendMessage(jid, content, sendOptions);
       return { success: true, messageId: result?.key?.id || undefined };
@@ -2078,6 +2428,10 @@ export class MiawClient extends EventEmitter {
     sticker: MediaSource,
     options?: SendStickerOptions
   ): Promise<SendMessageResult> {
+    if (this.shouldQueueSend()) {
+      return this.enqueueSend("sendSticker", [to, sticker, options]);
+    }
+
     try {
       if (!this.socket) {
         throw new Error("Not connected. Call connect() first.");
@@ -2092,9 +2446,7 @@ export class MiawClient extends EventEmitter {
       const content: AnyMessageContent = {
         sticker: Buffer.isBuffer(sticker) ? sticker : { url: sticker },
       };
-      const sendOptions = options?.quoted?.raw
-        ? { quoted: options.quoted.raw }
-        : undefined;
+      const sendOptions = this.buildSendOptions(jid, options?.quoted);
 
       const result = await this.socket.sendMessage(jid, content, sendOptions);
       return { success: true, messageId: result?.key?.id || undefined };
@@ -2117,6 +2469,10 @@ export class MiawClient extends EventEmitter {
     pollOptions: string[],
     options?: SendPollOptions
   ): Promise<SendMessageResult> {
+    if (this.shouldQueueSend()) {
+      return this.enqueueSend("sendPoll", [to, name, pollOptions, options]);
+    }
+
     try {
       if (!this.socket) {
         throw new Error("Not connected. Call connect() first.");
@@ -2138,9 +2494,7 @@ export class MiawClient extends EventEmitter {
           selectableCount: options?.selectableCount ?? 1,
         },
       };
-      const sendOptions = options?.quoted?.raw
-        ? { quoted: options.quoted.raw }
-        : undefined;
+      const sendOptions = this.buildSendOptions(jid, options?.quoted);
 
       const result = await this.socket.sendMessage(jid, content, sendOptions);
       return { success: true, messageId: result?.key?.id || undefined };
@@ -2201,6 +2555,295 @@ export class MiawClient extends EventEmitter {
     this.emit("poll_vote", vote);
   }
 
+  /**
+   * Send an invite to join a group as a message (shown as a "Join group"
+   * card). Uses the group's current invite code, so you must be a group admin.
+   * @param to - Recipient phone number or JID
+   * @param groupJid - Group JID (e.g., '123456789@g.us')
+   * @param options - Optional caption and quoting
+   */
+  async sendGroupInvite(
+    to: string,
+    groupJid: string,
+    options?: SendGroupInviteOptions
+  ): Promise<SendMessageResult> {
+    if (this.shouldQueueSend()) {
+      return this.enqueueSend("sendGroupInvite", [to, groupJid, options]);
+    }
+
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot send message. Connection state: ${this.connectionState}`
+        );
+      }
+      if (!groupJid.endsWith("@g.us")) {
+        throw new Error("Invalid group JID. Must end with @g.us");
+      }
+
+      const [inviteCode, metadata] = await Promise.all([
+        this.socket.groupInviteCode(groupJid),
+        this.socket.groupMetadata(groupJid),
+      ]);
+      if (!inviteCode) {
+        throw new Error("Could not get the group invite code");
+      }
+
+      const jid = MessageHandler.formatPhoneToJid(to);
+      const content: AnyMessageContent = {
+        groupInvite: {
+          jid: groupJid,
+          subject: metadata.subject,
+          inviteCode,
+          inviteExpiration: Math.floor(Date.now() / 1000) + GROUP_INVITE_MESSAGE_TTL,
+          text: options?.caption ?? "Invitation to join my WhatsApp group",
+        },
+      };
+      const sendOptions = this.buildSendOptions(jid, options?.quoted);
+
+      const result = await this.socket.sendMessage(jid, content, sendOptions);
+      return { success: true, messageId: result?.key?.id || undefined };
+    } catch (error) {
+      this.logger.error("Failed to send group invite:", error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Send an event (or, with `scheduledCall`, a scheduled call). Recipients can
+   * RSVP in WhatsApp; with `call` the event carries a call link.
+   * @param to - Recipient phone number, JID or group JID
+   * @param name - Event name
+   * @param startTime - When the event starts
+   * @param options - Description, end time, location, call link and quoting
+   */
+  async sendEvent(
+    to: string,
+    name: string,
+    startTime: Date,
+    options?: SendEventOptions
+  ): Promise<SendMessageResult> {
+    if (this.shouldQueueSend()) {
+      return this.enqueueSend("sendEvent", [to, name, startTime, options]);
+    }
+
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot send message. Connection state: ${this.connectionState}`
+        );
+      }
+      if (!name?.trim()) {
+        return { success: false, error: "An event needs a name" };
+      }
+
+      // Queued sends restored from the store carry their dates as strings
+      const startDate = new Date(startTime);
+      const endDate = options?.endTime ? new Date(options.endTime) : undefined;
+      if (isNaN(startDate.getTime()) || (endDate && isNaN(endDate.getTime()))) {
+        return { success: false, error: "Invalid event start or end time" };
+      }
+      if (endDate && endDate < startDate) {
+        return { success: false, error: "Event end time is before its start time" };
+      }
+      if (options?.scheduledCall && !options.call) {
+        return { success: false, error: "A scheduled call needs a call type (audio or video)" };
+      }
+
+      const jid = MessageHandler.formatPhoneToJid(to);
+      const location = options?.location;
+      const content: AnyMessageContent = {
+        event: {
+          name,
+          description: options?.description,
+          startDate,
+          endDate,
+          location: location
+            ? {
+                degreesLatitude: location.latitude,
+                degreesLongitude: location.longitude,
+                name: location.name,
+                address: location.address,
+              }
+            : undefined,
+          call: options?.call,
+          isScheduleCall: options?.scheduledCall,
+          extraGuestsAllowed: options?.extraGuestsAllowed,
+        },
+      };
+      const sendOptions = this.buildSendOptions(jid, options?.quoted);
+
+      const result = await this.socket.sendMessage(jid, content, sendOptions);
+      return { success: true, messageId: result?.key?.id || undefined };
+    } catch (error) {
+      this.logger.error("Failed to send event:", error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Send a catalog product as a product card
+   * @param to - Recipient phone number or JID
+   * @param product - A product from getCatalog(), or a retailer ID (SKU) or
+   *   product ID looked up in the catalog
+   * @param options - Catalog owner, body/footer text, image and quoting
+   * @note The product card needs an image; by default the catalog image is used
+   */
+  async sendProduct(
+    to: string,
+    product: Product | string,
+    options?: SendProductOptions
+  ): Promise<SendMessageResult> {
+    if (this.shouldQueueSend()) {
+      return this.enqueueSend("sendProduct", [to, product, options]);
+    }
+
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot send message. Connection state: ${this.connectionState}`
+        );
+      }
+
+      const resolved =
+        typeof product === "string"
+          ? await this.findCatalogProduct(product, options?.businessJid)
+          : product;
+      if (!resolved.id) {
+        throw new Error("Product has no ID");
+      }
+
+      const imageUrls = resolved.imageUrls || {};
+      const imageUrl = imageUrls.original || imageUrls.requested || Object.values(imageUrls)[0];
+      const image = options?.image ?? imageUrl;
+      if (!image) {
+        throw new Error("Product has no image. Pass options.image");
+      }
+
+      const jid = MessageHandler.formatPhoneToJid(to);
+      const content: AnyMessageContent = {
+        product: {
+          productId: resolved.id,
+          title: resolved.name,
+          description: resolved.description,
+          currencyCode: resolved.currency,
+          priceAmount1000:
+            resolved.price !== undefined ? Math.round(resolved.price * 1000) : undefined,
+          retailerId: resolved.retailerId ?? undefined,
+          url: resolved.url ?? undefined,
+          productImageCount: 1,
+          productImage: (Buffer.isBuffer(image) ? image : { url: image }) as WAMediaUpload,
+        },
+        businessOwnerJid: this.catalogOwnerJid(options?.businessJid),
+        body: options?.body,
+        footer: options?.footer,
+      };
+      const sendOptions = this.buildSendOptions(jid, options?.quoted);
+
+      const result = await this.socket.sendMessage(jid, content, sendOptions);
+      return { success: true, messageId: result?.key?.id || undefined };
+    } catch (error) {
+      this.logger.error("Failed to send product:", error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Send a link to a business catalog (wa.me/c/<phone>), shown with a
+   * catalog preview
+   * @param to - Recipient phone number or JID
+   * @param options - Catalog owner, leading text and quoting
+   */
+  async sendCatalogLink(
+    to: string,
+    options?: SendCatalogLinkOptions
+  ): Promise<SendMessageResult> {
+    if (this.shouldQueueSend()) {
+      return this.enqueueSend("sendCatalogLink", [to, options]);
+    }
+
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot send message. Connection state: ${this.connectionState}`
+        );
+      }
+
+      const phone = MessageHandler.formatJidToPhone(this.catalogOwnerJid(options?.businessJid));
+      if (!phone) {
+        throw new Error("Catalog owner must be a phone number or phone JID");
+      }
+
+      const link = `https://wa.me/c/${phone}`;
+      const jid = MessageHandler.formatPhoneToJid(to);
+      const content: AnyMessageContent = {
+        text: options?.text ? `${options.text}\n${link}` : link,
+      };
+      const sendOptions = this.buildSendOptions(jid, options?.quoted);
+
+      const result = await this.socket.sendMessage(jid, content, sendOptions);
+      return { success: true, messageId: result?.key?.id || undefined };
+    } catch (error) {
+      this.logger.error("Failed to send catalog link:", error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * JID of the business owning a catalog: the given phone/JID, or our own
+   */
+  private catalogOwnerJid(businessJid?: string): string {
+    if (businessJid) {
+      return MessageHandler.formatPhoneToJid(businessJid);
+    }
+    const ownJid = this.socket?.user?.id;
+    if (!ownJid) {
+      throw new Error("User ID not available");
+    }
+    return jidNormalizedUser(ownJid);
+  }
+
+  /**
+   * Look up a catalog product by retailer ID (SKU) or product ID. The catalog
+   * read is shared by lookups within TIMEOUTS.CATALOG_LOOKUP_TTL, so queued
+   * sends and campaigns don't page through it once per recipient.
+   */
+  private async findCatalogProduct(key: string, businessJid?: string): Promise<Product> {
+    const ownerJid = this.catalogOwnerJid(businessJid);
+    let cached = this.catalogLookups.get(ownerJid);
+    if (!cached || cached.expiresAt <= Date.now()) {
+      const entry = {
+        products: this.fetchFullCatalog(CATALOG_PAGE_SIZE, businessJid),
+        expiresAt: Date.now() + TIMEOUTS.CATALOG_LOOKUP_TTL,
+      };
+      entry.products.catch(() => {
+        if (this.catalogLookups.get(ownerJid) === entry) this.catalogLookups.delete(ownerJid);
+      });
+      this.catalogLookups.set(ownerJid, entry);
+      cached = entry;
+    }
+
+    const products = await cached.products;
+    const product =
+      products.find((p) => p.retailerId === key) ?? products.find((p) => p.id === key);
+    if (!product) {
+      throw new Error(`Product not found in catalog: ${key}`);
+    }
+    return product;
+  }
+
   /**
    * Map a Baileys message-receipt update to a MessageReceiptUpdate and emit
    * the `message_receipt` event. The receipt type is derived from which
@@ -2251,6 +2894,7 @@ export class MiawClient extends EventEmitter {
       this.logger.debug("=====================================\n");
     }
 
+    this.campaigns.handleReceipt(update);
     this.emit("message_receipt", update);
   }
 
@@ -2383,6 +3027,10 @@ export class MiawClient extends EventEmitter {
         );
       }
 
+      if (message.from.endsWith("@newsletter")) {
+        return await this.downloadNewsletterMedia(message);
+      }
+
       const buffer = await downloadMediaMessage(
         message.raw,
         "buffer",
@@ -2403,6 +3051,29 @@ export class MiawClient extends EventEmitter {
     }
   }
 
+  /**
+   * Newsletter media isn't encrypted (there's no media key), so it's fetched
+   * from the CDN as is
+   */
+  private async downloadNewsletterMedia(message: MiawMessage): Promise<Buffer> {
+    const raw = message.raw as { message?: BaileysMessageContent } | undefined;
+    const content = MessageHandler.unwrapContent(raw?.message).message as
+      | Record<string, { directPath?: string | null; url?: string | null } | undefined>
+      | null
+      | undefined;
+    const media = content?.[`${message.type}Message`];
+    const url = media?.directPath ? `https://mmg.whatsapp.net${media.directPath}` : media?.url;
+    if (!url) {
+      throw new Error("Newsletter message has no media URL.");
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Media download failed: HTTP ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
   // ============================================
   // Contact & Validation Methods (v0.4.0)
   // ============================================
@@ -2782,10 +3453,129 @@ export class MiawClient extends EventEmitter {
     }
   }
 
-  /** Add or edit a business quick reply. */
-  async addQuickReply(
-    quickReply: QuickReplyInput
-  ): Promise<ProfileOperationResult> {
+  /**
+   * Reply to a customer's order by accepting or declining it. The status
+   * message references the order, so the customer's app shows it on the cart.
+   * @param order - The order, as received on the `order` event
+   * @param status - "accepted" or "declined"
+   * @param note - Optional text shown with the status
+   * @example
+   * client.on("order", async (order) => {
+   *   await client.updateOrderStatus(order, "accepted", "Thanks! Shipping tomorrow.");
+   * });
+   */
+  async updateOrderStatus(
+    order: OrderEvent,
+    status: OrderStatusUpdate,
+    note?: string
+  ): Promise<SendMessageResult> {
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot update order status. Connection state: ${this.connectionState}`
+        );
+      }
+      if (!order.order.orderId) {
+        throw new Error("Order has no order ID");
+      }
+
+      const { total, currency } = order.order;
+      const expiration = this.getChatEphemeral(order.chatId);
+      const orderMessage: proto.Message.IOrderMessage = {
+        orderId: order.order.orderId,
+        token: order.order.token,
+        // OrderStatus: 2 = ACCEPTED, 3 = DECLINED; OrderSurface: 1 = CATALOG
+        status: status === "accepted" ? 2 : 3,
+        surface: 1,
+        orderTitle: order.order.title,
+        itemCount: order.order.itemCount,
+        sellerJid: order.order.sellerJid,
+        totalAmount1000: total !== undefined ? Math.round(total * 1000) : undefined,
+        totalCurrencyCode: currency,
+        message: note,
+        orderRequestMessageId: {
+          remoteJid: order.chatId,
+          fromMe: false,
+          id: order.messageId,
+          participant: order.chatId === order.sender ? undefined : order.sender,
+        },
+        ...(expiration ? { contextInfo: { expiration } } : {}),
+      };
+
+      const messageId = await this.socket.relayMessage(order.chatId, { orderMessage }, {});
+      return { success: true, messageId };
+    } catch (error) {
+      this.logger.error("Failed to update order status:", error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Emit `order` / `product_inquiry` for a new incoming order or shared
+   * product. Order messages carrying a status are a seller's reply (we're
+   * the customer) and aren't orders for us.
+   */
+  private handleCommerceMessage(message: MiawMessage): void {
+    if (message.type === "order" && message.order) {
+      if (message.order.status === "accepted" || message.order.status === "declined") {
+        return;
+      }
+      this.emitOrder(message, message.order).catch((error) => {
+        this.logger.warn("Failed to process incoming order:", error);
+      });
+    } else if (message.type === "product" && message.product) {
+      const inquiry: ProductInquiry = {
+        ...this.commerceSender(message),
+        product: message.product,
+        isOwnProduct: !!message.product.businessOwnerJid && this.isOwnJid(message.product.businessOwnerJid),
+        text: message.text,
+        timestamp: message.timestamp,
+        message,
+      };
+      this.emit("product_inquiry", inquiry);
+    }
+  }
+
+  /**
+   * Fetch an incoming order's lines (when it carries a token) and emit `order`
+   */
+  private async emitOrder(message: MiawMessage, order: OrderMessageInfo): Promise<void> {
+    const details =
+      order.orderId && order.token
+        ? await this.getOrderDetails(order.orderId, order.token)
+        : null;
+
+    const event: OrderEvent = {
+      ...this.commerceSender(message),
+      order,
+      details: details ?? undefined,
+      note: message.text,
+      timestamp: message.timestamp,
+      message,
+    };
+    this.emit("order", event);
+  }
+
+  /**
+   * Message, chat and customer fields shared by the commerce events
+   */
+  private commerceSender(message: MiawMessage) {
+    return {
+      messageId: message.id,
+      chatId: message.from,
+      sender: (message.isGroup ? message.participant : message.from) || message.from,
+      senderPhone: message.senderPhone,
+      senderName: message.senderName,
+    };
+  }
+
+  /** Add or edit a business quick reply. */
+  async addQuickReply(
+    quickReply: QuickReplyInput
+  ): Promise<ProfileOperationResult> {
     try {
       if (!this.socket) {
         throw new Error("Not connected. Call connect() first.");
@@ -2950,8 +3740,7 @@ export class MiawClient extends EventEmitter {
                 ? "admin"
                 : "member",
           })) || [],
-        announce: g.announce,
-        restrict: g.restrict,
+        ...this.mapGroupSettings(g),
       }));
 
       return {
@@ -3113,9 +3902,9 @@ export class MiawClient extends EventEmitter {
       // This handles reconnection scenarios where resyncAppState returns only patches
       if (this.labelsStore.size === 0) {
         this.logger.debug(
-          "Labels store still empty after sync, attempting to load from disk"
+          "Labels store still empty after sync, attempting to load from store"
         );
-        this.loadLabelsFromFile();
+        await this.loadLabelsFromStore();
       }
 
       const labels = Array.from(this.labelsStore.values());
@@ -3192,68 +3981,40 @@ export class MiawClient extends EventEmitter {
   // =============================================================================
 
   /**
-   * Get the path to the labels storage file
-   */
-  private getLabelsFilePath(): string {
-    return path.join(
-      this.options.sessionPath,
-      this.options.instanceId,
-      "labels.json"
-    );
-  }
-
-  /**
-   * Save labels to disk for persistence across reconnections
+   * Save labels to the store for persistence across reconnections
    * WhatsApp's resyncAppState only returns patches (not full snapshot) when version > 0,
    * so we need to persist labels locally to survive reconnections
    */
-  private saveLabelsToFile(): void {
-    try {
-      const labelsPath = this.getLabelsFilePath();
-      const labelsDir = path.dirname(labelsPath);
-
-      // Ensure directory exists
-      if (!fs.existsSync(labelsDir)) {
-        fs.mkdirSync(labelsDir, { recursive: true });
-      }
-
-      // Convert Map to array for JSON serialization
-      const labelsData = Array.from(this.labelsStore.values());
-
-      fs.writeFileSync(labelsPath, JSON.stringify(labelsData, null, 2), "utf8");
-      this.logger.debug(`Saved ${labelsData.length} labels to ${labelsPath}`);
-    } catch (error) {
-      this.logger.warn("Failed to save labels to file:", error);
-    }
+  private saveLabelsToStore(): void {
+    const labelsData = Array.from(this.labelsStore.values());
+    this.store.saveLabels(labelsData).catch((error) => {
+      this.logger.warn("Failed to save labels:", error);
+    });
   }
 
   /**
-   * Load labels from disk
+   * Load labels from the store
    * Called on connection to restore labels from previous session
    */
-  private loadLabelsFromFile(): void {
+  private async loadLabelsFromStore(): Promise<void> {
     try {
-      const labelsPath = this.getLabelsFilePath();
+      const labelsData = await this.store.loadLabels();
 
-      if (!fs.existsSync(labelsPath)) {
-        this.logger.debug("No labels file found, starting with empty store");
+      if (labelsData.length === 0) {
+        this.logger.debug("No persisted labels found, starting with empty store");
         return;
       }
 
-      const labelsData = JSON.parse(fs.readFileSync(labelsPath, "utf8"));
-
-      if (Array.isArray(labelsData)) {
-        // Clear existing store and populate from file
-        this.labelsStore.clear();
-        for (const label of labelsData) {
-          if (label.id) {
-            this.labelsStore.set(label.id, label as Label);
-          }
+      // Clear existing store and populate from the persisted copy
+      this.labelsStore.clear();
+      for (const label of labelsData) {
+        if (label.id) {
+          this.labelsStore.set(label.id, label);
         }
-        this.logger.info(`Loaded ${this.labelsStore.size} labels from disk`);
       }
+      this.logger.info(`Loaded ${this.labelsStore.size} labels from store`);
     } catch (error) {
-      this.logger.warn("Failed to load labels from file:", error);
+      this.logger.warn("Failed to load labels:", error);
     }
   }
 
@@ -3261,77 +4022,53 @@ export class MiawClient extends EventEmitter {
   // CONTACTS PERSISTENCE
   // ============================================
 
-  private getContactsFilePath(): string {
-    return path.join(
-      this.options.sessionPath,
-      this.options.instanceId,
-      "contacts.json"
-    );
-  }
-
   /**
-   * Save contacts to disk for persistence across reconnections
+   * Save contacts to the store for persistence across reconnections
    * Baileys v7 history sync doesn't always fire, so we persist contacts locally
    */
-  private saveContactsToFile(): void {
-    try {
-      const contactsPath = this.getContactsFilePath();
-      const contactsDir = path.dirname(contactsPath);
-
-      // Ensure directory exists
-      if (!fs.existsSync(contactsDir)) {
-        fs.mkdirSync(contactsDir, { recursive: true });
-      }
-
-      // Convert Map to array for JSON serialization
-      // Deduplicate by jid (Map may have same contact under multiple keys)
-      const uniqueContacts = new Map<string, ContactInfo>();
-      for (const contact of this.contactsStore.values()) {
-        if (!contact.jid) continue;
-        const existing = uniqueContacts.get(contact.jid);
-        if (!existing) {
-          uniqueContacts.set(contact.jid, contact);
-        } else if (!existing.name && contact.name) {
-          // Prefer entries with names
-          uniqueContacts.set(contact.jid, contact);
-        }
+  private saveContactsToStore(): void {
+    // Deduplicate by jid (Map may have same contact under multiple keys)
+    const uniqueContacts = new Map<string, ContactInfo>();
+    for (const contact of this.contactsStore.values()) {
+      if (!contact.jid) continue;
+      const existing = uniqueContacts.get(contact.jid);
+      if (!existing) {
+        uniqueContacts.set(contact.jid, contact);
+      } else if (!existing.name && contact.name) {
+        // Prefer entries with names
+        uniqueContacts.set(contact.jid, contact);
       }
-      const contactsData = Array.from(uniqueContacts.values());
-
-      fs.writeFileSync(contactsPath, JSON.stringify(contactsData, null, 2), "utf8");
-      this.logger.debug(`Saved ${contactsData.length} contacts to ${contactsPath}`);
-    } catch (error) {
-      this.logger.warn("Failed to save contacts to file:", error);
     }
+    const contactsData = Array.from(uniqueContacts.values());
+
+    this.store.saveContacts(contactsData).catch((error) => {
+      this.logger.warn("Failed to save contacts:", error);
+    });
   }
 
   /**
-   * Load contacts from disk
+   * Load contacts from the store
    * Called on connection to restore contacts from previous session
    */
-  private loadContactsFromFile(): void {
+  private async loadContactsFromStore(): Promise<void> {
     try {
-      const contactsPath = this.getContactsFilePath();
+      const contactsData = await this.store.loadContacts();
 
-      if (!fs.existsSync(contactsPath)) {
-        this.logger.debug("No contacts file found, starting with empty store");
+      if (contactsData.length === 0) {
+        this.logger.debug("No persisted contacts found, starting with empty store");
         return;
       }
 
-      const contactsData = JSON.parse(fs.readFileSync(contactsPath, "utf8"));
-
-      if (Array.isArray(contactsData)) {
-        // Clear existing store and populate from file
-        this.contactsStore.clear();
-        for (const contact of contactsData) {
-          if (contact.jid) {
-            this.contactsStore.set(contact.jid, contact as ContactInfo);
-          }
+      // Clear existing store and populate from the persisted copy
+      this.contactsStore.clear();
+      for (const contact of contactsData) {
+        if (contact.jid) {
+          this.contactsStore.set(contact.jid, contact);
         }
-        this.logger.info(`Loaded ${this.contactsStore.size} contacts from disk`);
       }
+      this.logger.info(`Loaded ${this.contactsStore.size} contacts from store`);
     } catch (error) {
-      this.logger.warn("Failed to load contacts from file:", error);
+      this.logger.warn("Failed to load contacts:", error);
     }
   }
 
@@ -3339,68 +4076,39 @@ export class MiawClient extends EventEmitter {
   // LID MAPPINGS PERSISTENCE
   // ============================================
 
-  private getLidMappingsFilePath(): string {
-    return path.join(
-      this.options.sessionPath,
-      this.options.instanceId,
-      "lid-mappings.json"
-    );
-  }
-
   /**
-   * Save LID-to-JID mappings to disk for persistence across reconnections
+   * Save LID-to-JID mappings to the store for persistence across reconnections
    * This ensures @lid JIDs can be resolved to phone numbers even after restart
    */
-  private saveLidMappingsToFile(): void {
-    try {
-      const mappingsPath = this.getLidMappingsFilePath();
-      const mappingsDir = path.dirname(mappingsPath);
-
-      // Ensure directory exists
-      if (!fs.existsSync(mappingsDir)) {
-        fs.mkdirSync(mappingsDir, { recursive: true });
-      }
-
-      // Get all mappings from the LRU cache
-      const mappings = this.getLidMappings();
-      const count = Object.keys(mappings).length;
-
-      if (count > 0) {
-        fs.writeFileSync(mappingsPath, JSON.stringify(mappings, null, 2), "utf8");
-        this.logger.debug(`Saved ${count} LID mappings to ${mappingsPath}`);
-      }
-    } catch (error) {
-      this.logger.warn("Failed to save LID mappings to file:", error);
-    }
+  private saveLidMappingsToStore(): void {
+    this.store.saveLidMappings(this.getLidMappings()).catch((error) => {
+      this.logger.warn("Failed to save LID mappings:", error);
+    });
   }
 
   /**
-   * Load LID-to-JID mappings from disk
+   * Load LID-to-JID mappings from the store
    * Called on connection BEFORE loading chats to ensure resolution works
    */
-  private loadLidMappingsFromFile(): void {
+  private async loadLidMappingsFromStore(): Promise<void> {
     try {
-      const mappingsPath = this.getLidMappingsFilePath();
+      const mappingsData = await this.store.loadLidMappings();
 
-      if (!fs.existsSync(mappingsPath)) {
-        this.logger.debug("No LID mappings file found, starting with empty cache");
-        return;
+      let count = 0;
+      for (const [lid, jid] of Object.entries(mappingsData)) {
+        if (typeof lid === "string" && typeof jid === "string") {
+          this.lidToJidMap.set(lid, jid);
+          count++;
+        }
       }
 
-      const mappingsData = JSON.parse(fs.readFileSync(mappingsPath, "utf8"));
-
-      if (typeof mappingsData === "object" && mappingsData !== null) {
-        let count = 0;
-        for (const [lid, jid] of Object.entries(mappingsData)) {
-          if (typeof lid === "string" && typeof jid === "string") {
-            this.lidToJidMap.set(lid, jid);
-            count++;
-          }
-        }
-        this.logger.info(`Loaded ${count} LID mappings from disk`);
+      if (count === 0) {
+        this.logger.debug("No persisted LID mappings found, starting with empty cache");
+        return;
       }
+      this.logger.info(`Loaded ${count} LID mappings from store`);
     } catch (error) {
-      this.logger.warn("Failed to load LID mappings from file:", error);
+      this.logger.warn("Failed to load LID mappings:", error);
     }
   }
 
@@ -3408,72 +4116,48 @@ export class MiawClient extends EventEmitter {
   // CHATS PERSISTENCE
   // ============================================
 
-  private getChatsFilePath(): string {
-    return path.join(
-      this.options.sessionPath,
-      this.options.instanceId,
-      "chats.json"
-    );
-  }
-
   /**
-   * Save chats to disk for persistence across reconnections
+   * Save chats to the store for persistence across reconnections
    * Baileys v7 history sync doesn't always fire, so we persist chats locally
    */
-  private saveChatsToFile(): void {
-    try {
-      const chatsPath = this.getChatsFilePath();
-      const chatsDir = path.dirname(chatsPath);
-
-      // Ensure directory exists
-      if (!fs.existsSync(chatsDir)) {
-        fs.mkdirSync(chatsDir, { recursive: true });
-      }
-
-      // Convert Map to array for JSON serialization
-      // Deduplicate by jid (Map may have same chat under multiple keys)
-      const uniqueChats = new Map<string, ChatInfo>();
-      for (const chat of this.chatsStore.values()) {
-        if (chat.jid && !uniqueChats.has(chat.jid)) {
-          uniqueChats.set(chat.jid, chat);
-        }
+  private saveChatsToStore(): void {
+    // Deduplicate by jid (Map may have same chat under multiple keys)
+    const uniqueChats = new Map<string, ChatInfo>();
+    for (const chat of this.chatsStore.values()) {
+      if (chat.jid && !uniqueChats.has(chat.jid)) {
+        uniqueChats.set(chat.jid, chat);
       }
-      const chatsData = Array.from(uniqueChats.values());
-
-      fs.writeFileSync(chatsPath, JSON.stringify(chatsData, null, 2), "utf8");
-      this.logger.debug(`Saved ${chatsData.length} chats to ${chatsPath}`);
-    } catch (error) {
-      this.logger.warn("Failed to save chats to file:", error);
     }
+    const chatsData = Array.from(uniqueChats.values());
+
+    this.store.saveChats(chatsData).catch((error) => {
+      this.logger.warn("Failed to save chats:", error);
+    });
   }
 
   /**
-   * Load chats from disk
+   * Load chats from the store
    * Called on connection to restore chats from previous session
    */
-  private loadChatsFromFile(): void {
+  private async loadChatsFromStore(): Promise<void> {
     try {
-      const chatsPath = this.getChatsFilePath();
+      const chatsData = await this.store.loadChats();
 
-      if (!fs.existsSync(chatsPath)) {
-        this.logger.debug("No chats file found, starting with empty store");
+      if (chatsData.length === 0) {
+        this.logger.debug("No persisted chats found, starting with empty store");
         return;
       }
 
-      const chatsData = JSON.parse(fs.readFileSync(chatsPath, "utf8"));
-
-      if (Array.isArray(chatsData)) {
-        // Clear existing store and populate from file
-        this.chatsStore.clear();
-        for (const chat of chatsData) {
-          if (chat.jid) {
-            this.chatsStore.set(chat.jid, chat as ChatInfo);
-          }
+      // Clear existing store and populate from the persisted copy
+      this.chatsStore.clear();
+      for (const chat of chatsData) {
+        if (chat.jid) {
+          this.chatsStore.set(chat.jid, chat);
         }
-        this.logger.info(`Loaded ${this.chatsStore.size} chats from disk`);
       }
+      this.logger.info(`Loaded ${this.chatsStore.size} chats from store`);
     } catch (error) {
-      this.logger.warn("Failed to load chats from file:", error);
+      this.logger.warn("Failed to load chats:", error);
     }
   }
 
@@ -3481,16 +4165,8 @@ export class MiawClient extends EventEmitter {
   // MESSAGES PERSISTENCE
   // ============================================
 
-  private getMessagesFilePath(): string {
-    return path.join(
-      this.options.sessionPath,
-      this.options.instanceId,
-      "messages.json"
-    );
-  }
-
   /**
-   * Store a normalized message in the in-memory store (and persist to disk),
+   * Store a normalized message in the in-memory store (and persist it),
    * deduplicating by message id.
    *
    * Both the live `messages.upsert` handler and the history-sync path funnel
@@ -3513,74 +4189,400 @@ export class MiawClient extends EventEmitter {
     } else {
       this.messagesStore.set(chatJid, [normalized]);
     }
+    this.searchIndex.add(chatJid, normalized);
 
-    this.saveMessagesToFile();
+    this.saveMessageToStore(chatJid, normalized);
+    this.scheduleRetention();
+    if (normalized.ephemeralExpiration) {
+      this.ensureRetentionSweep();
+    }
     return true;
   }
 
   /**
-   * Save messages to disk for persistence across reconnections
+   * Persist a newly-stored message. Uses the backend's incremental
+   * appendMessage() when available, otherwise saves the full snapshot.
+   */
+  private saveMessageToStore(chatJid: string, message: MiawMessage): void {
+    if (this.store.appendMessage) {
+      this.store.appendMessage(chatJid, message).catch((error) => {
+        this.logger.warn("Failed to save message:", error);
+      });
+      return;
+    }
+    this.saveMessagesToStore();
+  }
+
+  /**
+   * Save all messages to the store for persistence across reconnections
    * Baileys v7 history sync doesn't always fire, so we persist messages locally
    */
-  private saveMessagesToFile(): void {
+  private saveMessagesToStore(): void {
+    // Convert Map to object for serialization
+    // Structure: { "jid1": [msg1, msg2], "jid2": [msg3] }
+    const messagesData: Record<string, MiawMessage[]> = {};
+    for (const [jid, messages] of this.messagesStore.entries()) {
+      messagesData[jid] = messages;
+    }
+
+    this.store.saveMessages(messagesData).catch((error) => {
+      this.logger.warn("Failed to save messages:", error);
+    });
+  }
+
+  /**
+   * Load messages from the store
+   * Called on connection to restore messages from previous session
+   */
+  private async loadMessagesFromStore(): Promise<void> {
     try {
-      const messagesPath = this.getMessagesFilePath();
-      const messagesDir = path.dirname(messagesPath);
+      const messagesData = await this.store.loadMessages();
+      const chatJids = Object.keys(messagesData);
 
-      // Ensure directory exists
-      if (!fs.existsSync(messagesDir)) {
-        fs.mkdirSync(messagesDir, { recursive: true });
+      if (chatJids.length === 0) {
+        this.logger.debug("No persisted messages found, starting with empty store");
+        return;
       }
 
-      // Convert Map to object for JSON serialization
-      // Structure: { "jid1": [msg1, msg2], "jid2": [msg3] }
-      const messagesData: Record<string, MiawMessage[]> = {};
-      for (const [jid, messages] of this.messagesStore.entries()) {
-        messagesData[jid] = messages;
+      // Clear existing store and populate from the persisted copy
+      this.messagesStore.clear();
+      this.searchIndex.clear();
+      let totalMessages = 0;
+      let hasEphemeral = false;
+      for (const jid of chatJids) {
+        this.messagesStore.set(jid, messagesData[jid]);
+        for (const message of messagesData[jid]) {
+          this.searchIndex.add(jid, message);
+        }
+        totalMessages += messagesData[jid].length;
+        hasEphemeral ||= messagesData[jid].some((m) => !!m.ephemeralExpiration);
+      }
+      this.logger.info(`Loaded ${totalMessages} messages across ${this.messagesStore.size} chats from store`);
+      if (hasEphemeral) {
+        this.ensureRetentionSweep();
       }
 
-      // Count total messages
-      const totalMessages = Array.from(this.messagesStore.values()).reduce(
-        (sum, msgs) => sum + msgs.length,
-        0
-      );
-
-      fs.writeFileSync(messagesPath, JSON.stringify(messagesData, null, 2), "utf8");
-      this.logger.debug(`Saved ${totalMessages} messages across ${this.messagesStore.size} chats to ${messagesPath}`);
+      // Trim what a previous (unbounded or larger) run persisted
+      this.applyRetention();
+      this.persistRetention();
     } catch (error) {
-      this.logger.warn("Failed to save messages to file:", error);
+      this.logger.warn("Failed to load messages:", error);
     }
   }
 
+  // ============================================
+  // MESSAGE RETENTION
+  // ============================================
+
+  private hasRetentionPolicy(): boolean {
+    const r = this.options.retention;
+    return !!r && !!(r.maxMessagesPerChat || r.maxAge || r.maxMemoryMB || r.dropRawAfter);
+  }
+
   /**
-   * Load messages from disk
-   * Called on connection to restore messages from previous session
+   * Start the periodic sweep that enforces maxAge/dropRawAfter and purges
+   * expired disappearing messages even when no new messages arrive
    */
-  private loadMessagesFromFile(): void {
-    try {
-      const messagesPath = this.getMessagesFilePath();
+  private ensureRetentionSweep(): void {
+    if (this.retentionSweepTimer) return;
+    this.retentionSweepTimer = setInterval(() => {
+      this.applyRetention();
+      this.persistRetention();
+    }, TIMEOUTS.RETENTION_SWEEP_INTERVAL);
+    this.retentionSweepTimer.unref?.();
+  }
 
-      if (!fs.existsSync(messagesPath)) {
-        this.logger.debug("No messages file found, starting with empty store");
-        return;
+  /**
+   * Apply retention shortly after new messages arrive (debounced so bursts
+   * like history sync are handled in one pass)
+   */
+  private scheduleRetention(): void {
+    if (!this.hasRetentionPolicy() || this.retentionTimer) return;
+    this.retentionTimer = setTimeout(() => {
+      this.retentionTimer = null;
+      this.applyRetention();
+    }, TIMEOUTS.RETENTION_DEBOUNCE);
+    this.retentionTimer.unref?.();
+  }
+
+  /**
+   * Enforce the retention policy on messagesStore: purge expired disappearing
+   * messages (with or without a policy), evict by age and per-chat count, slim
+   * old messages, then enforce the memory budget (slim first, evict second).
+   * Oldest messages go first. Changes are persisted by persistRetention().
+   * @returns Number of evicted and slimmed messages
+   */
+  private applyRetention(now: number = Date.now()): { evicted: number; slimmed: number } {
+    const policy = this.options.retention ?? {};
+    let evicted = 0;
+    let slimmed = 0;
+
+    const nowSeconds = now / 1000;
+    for (const [chatJid, bucket] of this.messagesStore.entries()) {
+      const drop = new Set<MiawMessage>();
+      const changedBefore = evicted + slimmed;
+
+      for (const m of bucket) {
+        if (m.ephemeralExpiration && m.timestamp + m.ephemeralExpiration <= nowSeconds) {
+          drop.add(m);
+        }
       }
 
-      const messagesData = JSON.parse(fs.readFileSync(messagesPath, "utf8"));
+      if (policy.maxAge) {
+        const cutoff = nowSeconds - policy.maxAge / 1000;
+        for (const m of bucket) {
+          if (m.timestamp < cutoff) drop.add(m);
+        }
+      }
 
-      if (messagesData && typeof messagesData === "object") {
-        // Clear existing store and populate from file
-        this.messagesStore.clear();
-        let totalMessages = 0;
-        for (const [jid, messages] of Object.entries(messagesData)) {
-          if (Array.isArray(messages)) {
-            this.messagesStore.set(jid, messages as MiawMessage[]);
-            totalMessages += messages.length;
-          }
+      if (policy.maxMessagesPerChat && bucket.length - drop.size > policy.maxMessagesPerChat) {
+        // Pinned messages don't count towards the cap
+        const candidates = bucket
+          .filter((m) => !drop.has(m) && !this.isRetentionPinned(m))
+          .sort((a, b) => a.timestamp - b.timestamp);
+        const excess = candidates.length - policy.maxMessagesPerChat;
+        for (let i = 0; i < excess; i++) {
+          drop.add(candidates[i]);
+        }
+      }
+
+      let kept = bucket;
+      if (drop.size > 0) {
+        kept = bucket.filter((m) => !drop.has(m));
+        this.recordHistoryCursor(chatJid, drop);
+        this.unindexMessages(chatJid, drop);
+        evicted += drop.size;
+      }
+
+      if (policy.dropRawAfter) {
+        const cutoff = nowSeconds - policy.dropRawAfter / 1000;
+        kept = kept.map((m) => {
+          if (m.timestamp >= cutoff || !this.canSlim(m)) return m;
+          slimmed++;
+          return this.slimMessage(m);
+        });
+      }
+
+      if (kept.length === 0) {
+        this.messagesStore.delete(chatJid);
+      } else if (kept !== bucket) {
+        this.messagesStore.set(chatJid, kept);
+      }
+      if (evicted + slimmed > changedBefore) {
+        this.retentionDirtyChats.add(chatJid);
+      }
+    }
+
+    if (policy.maxMemoryMB) {
+      const budget = policy.maxMemoryMB * 1024 * 1024;
+      const result = this.enforceMemoryBudget(budget);
+      evicted += result.evicted;
+      slimmed += result.slimmed;
+    }
+
+    if (evicted > 0 || slimmed > 0) {
+      this.logger.debug(`Retention: evicted ${evicted}, slimmed ${slimmed} messages`);
+    }
+    return { evicted, slimmed };
+  }
+
+  /**
+   * Shrink messagesStore under `budget` bytes: slim the oldest messages, then
+   * evict the oldest if still over budget
+   */
+  private enforceMemoryBudget(budget: number): { evicted: number; slimmed: number } {
+    let evicted = 0;
+    let slimmed = 0;
+    let total = 0;
+    const entries: { chatJid: string; index: number; message: MiawMessage }[] = [];
+    for (const [chatJid, bucket] of this.messagesStore.entries()) {
+      bucket.forEach((message, index) => {
+        total += this.estimateMessageSize(message);
+        if (!this.isRetentionPinned(message)) {
+          entries.push({ chatJid, index, message });
         }
-        this.logger.info(`Loaded ${totalMessages} messages across ${this.messagesStore.size} chats from disk`);
+      });
+    }
+    if (total <= budget) {
+      return { evicted, slimmed };
+    }
+    entries.sort((a, b) => a.message.timestamp - b.message.timestamp);
+
+    // Pass 1: drop raw content, oldest first
+    for (const entry of entries) {
+      if (total <= budget) break;
+      if (!this.canSlim(entry.message)) continue;
+      const slim = this.slimMessage(entry.message);
+      this.messagesStore.get(entry.chatJid)![entry.index] = slim;
+      total -= this.estimateMessageSize(entry.message) - this.estimateMessageSize(slim);
+      entry.message = slim;
+      slimmed++;
+      this.retentionDirtyChats.add(entry.chatJid);
+    }
+
+    // Pass 2: evict, oldest first
+    const dropped = new Map<string, Set<MiawMessage>>();
+    for (const entry of entries) {
+      if (total <= budget) break;
+      const set = dropped.get(entry.chatJid) || new Set<MiawMessage>();
+      set.add(entry.message);
+      dropped.set(entry.chatJid, set);
+      total -= this.estimateMessageSize(entry.message);
+      evicted++;
+    }
+    for (const [chatJid, drop] of dropped) {
+      const kept = this.messagesStore.get(chatJid)!.filter((m) => !drop.has(m));
+      this.recordHistoryCursor(chatJid, drop);
+      this.unindexMessages(chatJid, drop);
+      this.retentionDirtyChats.add(chatJid);
+      if (kept.length === 0) {
+        this.messagesStore.delete(chatJid);
+      } else {
+        this.messagesStore.set(chatJid, kept);
+      }
+    }
+
+    return { evicted, slimmed };
+  }
+
+  /**
+   * Persist the chats retention changed. Backends with saveChatMessages()
+   * rewrite only those chats; others get a full snapshot, so they drop
+   * evicted messages too.
+   */
+  private persistRetention(): void {
+    if (this.retentionDirtyChats.size === 0) return;
+    const chatJids = [...this.retentionDirtyChats];
+    this.retentionDirtyChats.clear();
+
+    if (!this.store.saveChatMessages) {
+      this.saveMessagesToStore();
+      return;
+    }
+    for (const chatJid of chatJids) {
+      this.store.saveChatMessages(chatJid, this.messagesStore.get(chatJid) ?? []).catch((error) => {
+        this.logger.warn("Failed to save messages:", error);
+      });
+    }
+  }
+
+  /**
+   * Poll-creation messages keep their raw data (needed to decrypt votes) and
+   * are exempt from count/memory eviction, also when wrapped (e.g. ephemeral)
+   */
+  private isRetentionPinned(message: MiawMessage): boolean {
+    const content = MessageHandler.unwrapContent(message.raw?.message).message;
+    return !!(
+      content?.pollCreationMessage ||
+      content?.pollCreationMessageV2 ||
+      content?.pollCreationMessageV3
+    );
+  }
+
+  private canSlim(message: MiawMessage): boolean {
+    return !!message.raw?.message && !this.isRetentionPinned(message);
+  }
+
+  /**
+   * Copy of a message with raw reduced to its key and timestamp. A copy, so
+   * references handed out earlier (e.g. via the message event) keep full raw.
+   */
+  private slimMessage(message: MiawMessage): MiawMessage {
+    return {
+      ...message,
+      raw: { key: message.raw.key, messageTimestamp: message.raw.messageTimestamp },
+    };
+  }
+
+  /**
+   * Approximate in-memory size of a message (serialized UTF-16 length), cached
+   */
+  private estimateMessageSize(message: MiawMessage): number {
+    let size = this.messageSizes.get(message);
+    if (size === undefined) {
+      try {
+        size = JSON.stringify(message).length * 2;
+      } catch {
+        size = 1024;
+      }
+      this.messageSizes.set(message, size);
+    }
+    return size;
+  }
+
+  /**
+   * Raw message to quote in a reply. For messages slimmed by retention, a
+   * minimal quote is rebuilt from the kept key and the message text.
+   */
+  private getQuotedRaw(message?: MiawMessage): any {
+    if (!message?.raw?.key) return undefined;
+    if (message.raw.message) return message.raw;
+    return {
+      key: message.raw.key,
+      messageTimestamp: message.raw.messageTimestamp,
+      message: { conversation: message.text || "" },
+    };
+  }
+
+  /**
+   * Build the Baileys send options for a chat: the quoted message (if any) and
+   * the chat's disappearing-messages timer, so the message expires like the
+   * rest of the chat does.
+   */
+  private buildSendOptions(
+    jid: string,
+    quotedMessage?: MiawMessage
+  ): MiscMessageGenerationOptions | undefined {
+    const quoted = this.getQuotedRaw(quotedMessage);
+    const ephemeralExpiration = this.getChatEphemeral(jid);
+    if (!quoted && !ephemeralExpiration) return undefined;
+    return {
+      ...(quoted ? { quoted } : {}),
+      ...(ephemeralExpiration ? { ephemeralExpiration } : {}),
+    };
+  }
+
+  /**
+   * Drop evicted messages from the search index
+   */
+  private unindexMessages(chatJid: string, evicted: Iterable<MiawMessage>): void {
+    for (const m of evicted) {
+      this.searchIndex.remove(chatJid, m.id);
+    }
+  }
+
+  /**
+   * Remember the oldest evicted message key of a chat as its pagination cursor
+   */
+  private recordHistoryCursor(chatJid: string, evicted: Iterable<MiawMessage>): void {
+    for (const m of evicted) {
+      if (!m.raw?.key || !m.raw.messageTimestamp) continue;
+      const current = this.historyCursors.get(chatJid);
+      if (!current || Number(m.raw.messageTimestamp) < Number(current.messageTimestamp)) {
+        this.historyCursors.set(chatJid, { key: m.raw.key, messageTimestamp: m.raw.messageTimestamp });
       }
+    }
+  }
+
+  /**
+   * Delete all persisted store data (contacts, chats, messages, labels, LID
+   * mappings) for this instance. Failures are logged, never thrown.
+   */
+  private clearStore(): void {
+    this.store.clear?.().catch((error) => {
+      this.logger.warn("Failed to clear store:", error);
+    });
+  }
+
+  /**
+   * Write out anything the store has buffered (e.g. debounced message
+   * appends). Failures are logged, never thrown.
+   */
+  private async flushStore(): Promise<void> {
+    try {
+      await this.store.flush?.();
     } catch (error) {
-      this.logger.warn("Failed to load messages from file:", error);
+      this.logger.warn("Failed to flush store:", error);
     }
   }
 
@@ -3621,10 +4623,126 @@ export class MiawClient extends EventEmitter {
   }
 
   /**
-   * Load more (older) messages for a specific chat
-   * Uses Baileys fetchMessageHistory to fetch earlier messages
-   * @param jidOrPhone - Chat JID or phone number
-   * @param count - Number of messages to fetch (max 50)
+   * Search the in-memory message store across all chats. With a `query`,
+   * hits are ranked by relevance and carry a highlighted snippet; without
+   * one, the filters alone pick messages, newest first. Messages evicted by
+   * `retention` or never synced aren't found.
+   * @example
+   * const { hits } = await client.searchMessages({
+   *   query: "INV-2024-0042",
+   *   after: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+   * });
+   * hits?.forEach((hit) => console.log(hit.message.from, hit.snippet));
+   */
+  async searchMessages(options: SearchMessagesOptions = {}): Promise<SearchMessagesResult> {
+    try {
+      const limit = options.limit ?? 20;
+      const offset = options.cursor ? Number(options.cursor) : 0;
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error("limit must be a positive integer");
+      }
+      if (!Number.isInteger(offset) || offset < 0) {
+        throw new Error(`Invalid cursor: ${options.cursor}`);
+      }
+
+      const chatJid = options.chat ? MessageHandler.formatPhoneToJid(options.chat) : undefined;
+      const query = options.query?.trim();
+      const candidates: { message: MiawMessage; score: number }[] = [];
+
+      if (query) {
+        // Resolve index keys to stored messages, building one ID lookup per chat
+        const byId = new Map<string, Map<string, MiawMessage>>();
+        for (const [key, score] of this.searchIndex.match(query)) {
+          const [jid, id] = key.split("\n");
+          if (chatJid && jid !== chatJid) continue;
+          let messages = byId.get(jid);
+          if (!messages) {
+            messages = new Map((this.messagesStore.get(jid) || []).map((m) => [m.id, m]));
+            byId.set(jid, messages);
+          }
+          const message = messages.get(id);
+          if (message) {
+            candidates.push({ message, score });
+          }
+        }
+      } else {
+        const buckets = chatJid ? [this.messagesStore.get(chatJid) || []] : this.messagesStore.values();
+        for (const bucket of buckets) {
+          for (const message of bucket) {
+            candidates.push({ message, score: 0 });
+          }
+        }
+      }
+
+      const matches = candidates
+        .filter(({ message }) => this.matchesSearchFilters(message, options))
+        .sort((a, b) => b.score - a.score || b.message.timestamp - a.message.timestamp);
+      const { pre, post } = options.highlight ?? { pre: "**", post: "**" };
+
+      return {
+        success: true,
+        hits: matches.slice(offset, offset + limit).map(({ message, score }) => ({
+          message,
+          score,
+          snippet: query
+            ? MessageSearchIndex.snippet(MessageSearchIndex.searchableText(message), query, pre, post)
+            : undefined,
+        })),
+        total: matches.length,
+        nextCursor: offset + limit < matches.length ? String(offset + limit) : undefined,
+      };
+    } catch (error) {
+      this.logger.error("Failed to search messages:", error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Whether a message passes the non-text filters of a search
+   */
+  private matchesSearchFilters(message: MiawMessage, options: SearchMessagesOptions): boolean {
+    if (options.fromMe !== undefined && message.fromMe !== options.fromMe) {
+      return false;
+    }
+    if (options.hasMedia !== undefined && !!message.media !== options.hasMedia) {
+      return false;
+    }
+    if (options.type) {
+      const types = Array.isArray(options.type) ? options.type : [options.type];
+      if (!types.includes(message.type)) {
+        return false;
+      }
+    }
+    if (options.before && message.timestamp * 1000 >= options.before.getTime()) {
+      return false;
+    }
+    if (options.after && message.timestamp * 1000 <= options.after.getTime()) {
+      return false;
+    }
+    if (options.from) {
+      const senderJid = MessageHandler.formatPhoneToJid(options.from);
+      const senderPhone = MessageHandler.formatJidToPhone(senderJid);
+      // In DMs `from` and senderPhone name the chat, which is the sender only
+      // for received messages
+      if (!message.isGroup && message.fromMe) {
+        return false;
+      }
+      const sender = message.isGroup ? message.participant : message.from;
+      if (sender !== senderJid && !(senderPhone && message.senderPhone === senderPhone)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Load more (older) messages for a specific chat
+   * Uses Baileys fetchMessageHistory to fetch earlier messages
+   * @param jidOrPhone - Chat JID or phone number
+   * @param count - Number of messages to fetch (max 50)
    * @param timeoutMs - Timeout in milliseconds (default 30000)
    * @returns Result with number of messages loaded and whether more are available
    */
@@ -3644,8 +4762,10 @@ export class MiawClient extends EventEmitter {
 
       const jid = MessageHandler.formatPhoneToJid(jidOrPhone);
       const messages = this.messagesStore.get(jid) || [];
+      // Set when retention evicted older messages of this chat
+      const cursor = this.historyCursors.get(jid);
 
-      if (messages.length === 0) {
+      if (messages.length === 0 && !cursor) {
         return { success: false, error: "No messages in store to paginate from. Send or receive a message first." };
       }
 
@@ -3661,11 +4781,15 @@ export class MiawClient extends EventEmitter {
         }
       }
 
-      if (!oldestMessage || !oldestMessage.raw) {
+      // Prefer the retention cursor when it is older than anything still stored
+      const rawMsg = cursor && Number(cursor.messageTimestamp) < oldestTimestamp
+        ? cursor
+        : oldestMessage?.raw;
+
+      if (!rawMsg) {
         return { success: false, error: "Cannot find message with raw data for pagination cursor." };
       }
 
-      const rawMsg = oldestMessage.raw;
       const msgKey = rawMsg.key;
       const msgTimestamp = rawMsg.messageTimestamp;
 
@@ -3766,6 +4890,404 @@ export class MiawClient extends EventEmitter {
     }
   }
 
+  // ============================================
+  // Outbound Send Queue
+  // ============================================
+
+  /**
+   * Pending sends in the outbound queue (empty when the queue is disabled)
+   */
+  getQueuedSends(): QueuedSend[] {
+    return this.sendQueue?.list() ?? [];
+  }
+
+  /**
+   * Drop all pending sends. Callers awaiting them get `{ success: false }`.
+   * @returns Number of dropped sends
+   */
+  clearSendQueue(): number {
+    return this.sendQueue?.clear() ?? 0;
+  }
+
+  private createSendQueue(): SendQueue {
+    const options = typeof this.options.sendQueue === "object" ? this.options.sendQueue : {};
+    return new SendQueue(
+      {
+        execute: (item) =>
+          this.sendQueueBypass.run(true, () =>
+            (this[item.method] as (...args: unknown[]) => Promise<SendMessageResult>)(...item.args)
+          ),
+        isReady: () => this.connectionState === "connected",
+        onSent: (item, result) => this.emit("send_sent", item, result),
+        onFailed: (item, error) => {
+          this.logger.warn(`Queued ${item.method} to ${item.to} failed: ${error}`);
+          this.emit("send_failed", item, error);
+        },
+        onChange: () => {
+          if (options.persist !== false) {
+            this.scheduleSendQueueSave();
+          }
+        },
+      },
+      options
+    );
+  }
+
+  /**
+   * Whether a send call should go through the queue (queue enabled and not
+   * already executing from it)
+   */
+  private shouldQueueSend(): boolean {
+    return !!this.sendQueue && !this.sendQueueBypass.getStore();
+  }
+
+  /**
+   * Queue a send and wait for its final result
+   */
+  private enqueueSend(method: QueuedSendMethod, args: unknown[]): Promise<SendMessageResult> {
+    const { item, result } = this.sendQueue!.enqueue(method, args);
+    this.emit("send_queued", item);
+    return result;
+  }
+
+  /**
+   * Persist pending sends after a short debounce (a broadcast enqueues and
+   * settles many items in a row, each carrying its args and media)
+   */
+  private scheduleSendQueueSave(): void {
+    if (this.sendQueueSaveTimer) return;
+    this.sendQueueSaveTimer = setTimeout(() => {
+      this.sendQueueSaveTimer = null;
+      void this.saveSendQueueToStore();
+    }, TIMEOUTS.SEND_QUEUE_SAVE_DEBOUNCE);
+    this.sendQueueSaveTimer.unref?.();
+  }
+
+  private async saveSendQueueToStore(): Promise<void> {
+    if (!this.sendQueue) return;
+    try {
+      await this.store.saveSendQueue?.(this.sendQueue.list());
+    } catch (error) {
+      this.logger.warn("Failed to save send queue:", error);
+    }
+  }
+
+  private async loadSendQueueFromStore(): Promise<void> {
+    const options = this.options.sendQueue;
+    if (!this.sendQueue || !this.store.loadSendQueue) return;
+    if (typeof options === "object" && options.persist === false) return;
+
+    try {
+      const items = await this.store.loadSendQueue();
+      if (items.length > 0) {
+        this.sendQueue.restore(items);
+        this.logger.info(`Restored ${items.length} pending sends from store`);
+      }
+    } catch (error) {
+      this.logger.warn("Failed to load send queue:", error);
+    }
+  }
+
+  // ============================================
+  // Broadcast Campaigns
+  // ============================================
+
+  /**
+   * Create a broadcast campaign (in "draft" state; call start() on the
+   * returned handle). The template supports `{{name}}`, `{{firstName}}`,
+   * `{{phone}}` and custom variables. Recipients replying with an opt-out
+   * keyword are skipped by this and future campaigns. Progress is persisted
+   * through the store; campaigns that were running before a restart continue
+   * once resumed via getCampaign(id), or automatically with the
+   * `resumeCampaigns` option.
+   *
+   * @example
+   * const campaign = client.createCampaign({
+   *   recipients: ["6281234567890", { phone: "6289876543210", variables: { code: "VIP" } }],
+   *   template: "Hi {{firstName}}, our sale starts today! Reply STOP to opt out.",
+   * });
+   * campaign.start();
+   * const { stats } = await campaign.waitForCompletion();
+   *
+   * @throws If the template or recipients are missing, or the ID is taken
+   */
+  createCampaign(options: CreateCampaignOptions): Campaign {
+    return this.campaigns.create(options);
+  }
+
+  /**
+   * Get a handle to a campaign by ID (including campaigns restored from the store)
+   */
+  getCampaign(id: string): Campaign | undefined {
+    return this.campaigns.get(id);
+  }
+
+  /**
+   * All campaigns with their recipient stats
+   */
+  getCampaigns(): CampaignInfo[] {
+    return this.campaigns.list();
+  }
+
+  /**
+   * Whether a phone number opted out of campaigns
+   */
+  isOptedOut(phone: string): boolean {
+    return this.campaigns.isOptedOut(phone);
+  }
+
+  /**
+   * Phone numbers that opted out of campaigns
+   */
+  getOptOuts(): string[] {
+    return this.campaigns.getOptOuts();
+  }
+
+  /**
+   * Allow campaigns to message a phone number that opted out again
+   * @returns true if the number was opted out
+   */
+  removeOptOut(phone: string): boolean {
+    return this.campaigns.removeOptOut(phone);
+  }
+
+  private createCampaignManager(): CampaignManager {
+    return new CampaignManager({
+      send: (jid, text, media) => this.sendCampaignMessage(jid, text, media),
+      isReady: () => this.connectionState === "connected",
+      resolveName: (jid) => this.contactsStore.get(jid)?.name,
+      defaultDelayMs: () => (this.sendQueue ? 0 : TIMEOUTS.CAMPAIGN_SEND_DELAY),
+      onUpdate: (info) => this.emit("campaign_update", info),
+      onChange: () => this.scheduleCampaignSave(),
+    });
+  }
+
+  private sendCampaignMessage(jid: string, text: string, media?: CampaignMedia): Promise<SendMessageResult> {
+    switch (media?.type) {
+      case "image":
+        return this.sendImage(jid, media.source, { caption: text });
+      case "video":
+        return this.sendVideo(jid, media.source, { caption: text });
+      case "document":
+        return this.sendDocument(jid, media.source, {
+          caption: text,
+          fileName: media.fileName,
+          mimetype: media.mimetype,
+        });
+      default:
+        return this.sendText(jid, text);
+    }
+  }
+
+  /**
+   * Persist campaigns and opt-outs after a short debounce (receipts can
+   * arrive in bursts)
+   */
+  private scheduleCampaignSave(): void {
+    if (this.campaignSaveTimer) return;
+    this.campaignSaveTimer = setTimeout(() => {
+      this.campaignSaveTimer = null;
+      void this.saveCampaignsToStore();
+    }, TIMEOUTS.CAMPAIGN_SAVE_DEBOUNCE);
+    this.campaignSaveTimer.unref?.();
+  }
+
+  private async saveCampaignsToStore(): Promise<void> {
+    try {
+      await this.store.saveCampaigns?.(this.campaigns.exportCampaigns());
+      await this.store.saveOptOuts?.(this.campaigns.getOptOuts());
+    } catch (error) {
+      this.logger.warn("Failed to save campaigns:", error);
+    }
+  }
+
+  private async loadCampaignsFromStore(): Promise<void> {
+    try {
+      const campaigns: CampaignData[] = (await this.store.loadCampaigns?.()) ?? [];
+      const optOuts = (await this.store.loadOptOuts?.()) ?? [];
+      this.campaigns.restore(campaigns, optOuts, this.options.resumeCampaigns);
+      const running = campaigns.filter((c) => c.status === "running").length;
+      if (running > 0) {
+        this.logger.info(
+          this.options.resumeCampaigns
+            ? `Restored ${running} running campaigns from store`
+            : `Restored ${running} running campaigns from store (not resumed; see the resumeCampaigns option)`
+        );
+      }
+    } catch (error) {
+      this.logger.warn("Failed to load campaigns:", error);
+    }
+  }
+
+  // ============================================
+  // Message Middleware & Commands
+  // ============================================
+
+  /**
+   * Add a message middleware. Every incoming message (the same ones emitted on
+   * "message") runs through the middleware in registration order, then the
+   * command router. Call `next()` to continue; errors are emitted on "error".
+   * @param middleware - Middleware function `(ctx, next) => ...`
+   * @returns this (chainable)
+   * @example
+   * client.use(async (ctx, next) => {
+   *   if (blocked.has(ctx.message.senderPhone)) return; // stop here
+   *   await next();
+   * });
+   */
+  use(middleware: MiawMiddleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  /**
+   * Register a command, matched against the first word of incoming messages.
+   * Commands run after all middleware that call `next()`; the first matching
+   * command wins.
+   * @param name - Command name, e.g. "/help" (or "help" with `options.prefix`)
+   * @param handler - Handler receiving the context with parsed `args`
+   * @param options - Prefix, aliases and group/DM/admin-only guards
+   * @returns this (chainable)
+   * @example
+   * client.command("/kick", async (ctx) => {
+   *   await client.removeParticipants(ctx.message.from, ctx.args);
+   * }, { adminOnly: true, deniedMessage: "Admins only." });
+   */
+  command(name: string, handler: CommandHandler, options?: CommandOptions): this {
+    this.commandRouter.register(name, handler, options);
+    return this;
+  }
+
+  /**
+   * List commands registered via command()
+   */
+  getCommands(): CommandInfo[] {
+    return this.commandRouter.list();
+  }
+
+  /**
+   * Wait for the next incoming message in a chat, e.g. the answer to a
+   * question. Builds on the "message" event, so the reply is still emitted and
+   * run through middleware as usual. @lid senders are matched against phone
+   * JIDs via the LID mapping.
+   * @param chatJid - Chat to watch (phone number, JID or group JID)
+   * @param options - Sender, timeout and extra filter
+   * @returns The matching message, or null on timeout
+   * @example
+   * await client.sendText(msg.from, "What's your order number?");
+   * const answer = await client.waitForReply(msg.from, {
+   *   from: msg.participant,
+   *   filter: (m) => /^\d+$/.test(m.text ?? ""),
+   * });
+   */
+  waitForReply(
+    chatJid: string,
+    options: WaitForReplyOptions = {}
+  ): Promise<MiawMessage | null> {
+    const chat = MessageHandler.formatPhoneToJid(chatJid);
+    const from = options.from ? MessageHandler.formatPhoneToJid(options.from) : undefined;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.off("message", handler);
+        resolve(null);
+      }, options.timeoutMs ?? TIMEOUTS.WAIT_FOR_REPLY);
+
+      const handler = (message: MiawMessage) => {
+        try {
+          if (!this.isSameJid(message.from, chat)) return;
+          const sender = message.isGroup ? message.participant : message.from;
+          if (from && !(sender && this.isSameJid(sender, from))) return;
+          if (options.filter && !options.filter(message)) return;
+          clearTimeout(timer);
+          this.off("message", handler);
+          resolve(message);
+        } catch (error) {
+          clearTimeout(timer);
+          this.off("message", handler);
+          reject(error);
+        }
+      };
+
+      this.on("message", handler);
+    });
+  }
+
+  /**
+   * Compare two JIDs ignoring device suffixes, resolving @lid JIDs to phone JIDs
+   */
+  private isSameJid(a: string, b: string): boolean {
+    const normalize = (jid: string) => {
+      const [user, server] = this.resolveLidToJid(jid).split("@");
+      return `${user.split(":")[0]}@${server}`;
+    };
+    return normalize(a) === normalize(b);
+  }
+
+  /**
+   * Run an incoming message through the middleware pipeline and command router
+   */
+  private async runMiddleware(message: MiawMessage): Promise<void> {
+    if (this.middlewares.length === 0 && this.commandRouter.size === 0) {
+      return;
+    }
+
+    const ctx = this.createMessageContext(message);
+    let lastIndex = -1;
+    const dispatch = async (index: number): Promise<void> => {
+      if (index <= lastIndex) {
+        throw new Error("next() called multiple times");
+      }
+      lastIndex = index;
+      const middleware = this.middlewares[index];
+      if (middleware) {
+        await middleware(ctx, () => dispatch(index + 1));
+      } else {
+        await this.commandRouter.handle(ctx);
+      }
+    };
+
+    try {
+      await dispatch(0);
+    } catch (error) {
+      this.logger.error("Message middleware failed:", error);
+      // Never throw out of the message listener: emitting "error" without a
+      // listener would crash the process
+      if (this.listenerCount("error") > 0) {
+        this.emit("error", error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+
+  /**
+   * Build the middleware/command context for a message
+   */
+  private createMessageContext(message: MiawMessage): MessageContext {
+    return {
+      message,
+      client: this,
+      state: {},
+      reply: (text, options) => this.sendText(message.from, text, { ...options, quoted: message }),
+      react: (emoji) => this.sendReaction(message, emoji),
+      waitForReply: (options) =>
+        this.waitForReply(message.from, {
+          from: message.isGroup ? message.participant : undefined,
+          ...options,
+        }),
+    };
+  }
+
+  /**
+   * Check whether a participant is an admin (or superadmin) of a group
+   */
+  private async isGroupAdmin(groupJid: string, participantJid: string): Promise<boolean> {
+    const participants = await this.getGroupParticipants(groupJid);
+    if (!participants) return false;
+    const user = (jid: string) => this.resolveLidToJid(jid).split("@")[0].split(":")[0];
+    const participant = user(participantJid);
+    return participants.some((p) => p.role !== "member" && user(p.jid) === participant);
+  }
+
   // ============================================
   // Group Methods (v0.4.0)
   // ============================================
@@ -3814,8 +5336,7 @@ export class MiawClient extends EventEmitter {
         createdAt: metadata.creation,
         participantCount: metadata.participants.length,
         participants,
-        announce: metadata.announce,
-        restrict: metadata.restrict,
+        ...this.mapGroupSettings(metadata),
       };
     } catch (error) {
       this.logger.error("Failed to get group info:", error);
@@ -3921,17 +5442,19 @@ export class MiawClient extends EventEmitter {
         );
       }
 
-      if (!message.raw) {
+      if (!message.raw?.message) {
         throw new Error(
-          "Message does not contain raw Baileys data. Cannot forward."
+          "Message does not contain raw Baileys data (it may have been dropped by the retention policy). Cannot forward."
         );
       }
 
       const jid = MessageHandler.formatPhoneToJid(to);
 
-      const result = await this.socket.sendMessage(jid, {
-        forward: message.raw,
-      });
+      const result = await this.socket.sendMessage(
+        jid,
+        { forward: message.raw },
+        this.buildSendOptions(jid)
+      );
 
       return {
         success: true,
@@ -4046,15 +5569,34 @@ export class MiawClient extends EventEmitter {
   }
 
   /**
-   * Delete a message for yourself only (does not affect other participants)
-   * @param message - The MiawMessage to delete locally (must have raw field)
-   * @param deleteMedia - Whether to also delete associated media files (default: true)
-   * @returns boolean indicating success
+   * Pin a message in its chat for everyone. In groups that restrict info
+   * edits, only admins can pin.
+   * @param message - The MiawMessage to pin (must have raw field)
+   * @param duration - How long it stays pinned in seconds: 86400 (24h, default),
+   *   604800 (7d) or 2592000 (30d)
+   * @returns SendMessageResult
    */
-  async deleteMessageForMe(
+  async pinMessage(
     message: MiawMessage,
-    deleteMedia: boolean = true
-  ): Promise<boolean> {
+    duration: PinDuration = 86400
+  ): Promise<SendMessageResult> {
+    return this.sendPinChange(message, "pin", duration);
+  }
+
+  /**
+   * Unpin a pinned message
+   * @param message - The pinned MiawMessage (must have raw field)
+   * @returns SendMessageResult
+   */
+  async unpinMessage(message: MiawMessage): Promise<SendMessageResult> {
+    return this.sendPinChange(message, "unpin");
+  }
+
+  private async sendPinChange(
+    message: MiawMessage,
+    action: MessagePin["action"],
+    duration?: PinDuration
+  ): Promise<SendMessageResult> {
     try {
       if (!this.socket) {
         throw new Error("Not connected. Call connect() first.");
@@ -4062,13 +5604,13 @@ export class MiawClient extends EventEmitter {
 
       if (this.connectionState !== "connected") {
         throw new Error(
-          `Cannot delete message. Connection state: ${this.connectionState}`
+          `Cannot ${action} message. Connection state: ${this.connectionState}`
         );
       }
 
       if (!message.raw?.key) {
         throw new Error(
-          "Message does not contain raw Baileys key data. Cannot delete."
+          `Message does not contain raw Baileys key data. Cannot ${action}.`
         );
       }
 
@@ -4077,22 +5619,78 @@ export class MiawClient extends EventEmitter {
         throw new Error("Message does not have a valid chat JID.");
       }
 
-      await this.socket.chatModify(
-        {
-          deleteForMe: {
-            deleteMedia,
-            key: message.raw.key,
-            timestamp: message.timestamp,
-          },
-        },
-        jid
+      if (action === "pin" && !PIN_DURATIONS.includes(duration!)) {
+        throw new Error("Pin duration must be 86400 (24h), 604800 (7d) or 2592000 (30d)");
+      }
+
+      const result = await this.socket.sendMessage(
+        jid,
+        action === "pin"
+          ? { pin: message.raw.key, type: 1, time: duration }
+          : { pin: message.raw.key, type: 2 }
       );
 
-      return true;
+      return {
+        success: true,
+        messageId: result?.key?.id || undefined,
+      };
     } catch (error) {
-      this.logger.error("Failed to delete message for me:", error);
-      return false;
-    }
+      this.logger.error(`Failed to ${action} message:`, error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Delete a message for yourself only (does not affect other participants)
+   * @param message - The MiawMessage to delete locally (must have raw field)
+   * @param deleteMedia - Whether to also delete associated media files (default: true)
+   * @returns boolean indicating success
+   */
+  async deleteMessageForMe(
+    message: MiawMessage,
+    deleteMedia: boolean = true
+  ): Promise<boolean> {
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot delete message. Connection state: ${this.connectionState}`
+        );
+      }
+
+      if (!message.raw?.key) {
+        throw new Error(
+          "Message does not contain raw Baileys key data. Cannot delete."
+        );
+      }
+
+      const jid = message.raw.key.remoteJid;
+      if (!jid) {
+        throw new Error("Message does not have a valid chat JID.");
+      }
+
+      await this.socket.chatModify(
+        {
+          deleteForMe: {
+            deleteMedia,
+            key: message.raw.key,
+            timestamp: message.timestamp,
+          },
+        },
+        jid
+      );
+
+      return true;
+    } catch (error) {
+      this.logger.error("Failed to delete message for me:", error);
+      return false;
+    }
   }
 
   // ============================================
@@ -4133,6 +5731,31 @@ export class MiawClient extends EventEmitter {
     }
   }
 
+  /** Disappearing-messages timer of a chat in seconds (0 when off or unknown). */
+  private getChatEphemeral(jid: string): number {
+    return this.chatsStore.get(this.resolveLidToJid(jid))?.ephemeralExpiration ?? 0;
+  }
+
+  /**
+   * Record a chat's disappearing-messages timer (seconds, 0 = off). Unlike
+   * updateChatFlag, creates the chat entry if needed so the timer applies to
+   * the next send even before the chat list has synced.
+   */
+  private updateChatEphemeral(jid: string, seconds: number): void {
+    const chatJid = this.resolveLidToJid(jid);
+    const existing = this.chatsStore.get(chatJid);
+    if ((existing?.ephemeralExpiration ?? 0) === seconds) return;
+    this.chatsStore.set(chatJid, {
+      ...(existing ?? {
+        jid: chatJid,
+        phone: MessageHandler.formatJidToPhone(chatJid),
+        isGroup: chatJid.endsWith("@g.us"),
+      }),
+      ephemeralExpiration: seconds || undefined,
+    });
+    this.saveChatsToStore();
+  }
+
   /** Shared guard + chatModify runner for chat-level operations. */
   private async runChatModify(
     jidOrPhone: string,
@@ -4214,6 +5837,41 @@ export class MiawClient extends EventEmitter {
     return res;
   }
 
+  /**
+   * Turn disappearing messages on or off for a chat. Groups use the group
+   * setting (admin only when the group restricts info edits); DMs send the
+   * setting change to the contact. Later sends to the chat carry the timer.
+   * @param jidOrPhone - Chat JID or phone number
+   * @param seconds - Timer in seconds (WhatsApp offers 86400, 604800 and 7776000), 0 to turn off
+   */
+  async setChatEphemeral(
+    jidOrPhone: string,
+    seconds: number
+  ): Promise<ChatOperationResult> {
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot set disappearing messages. Connection state: ${this.connectionState}`
+        );
+      }
+      MiawClient.validateEphemeral(seconds);
+      const jid = MessageHandler.formatPhoneToJid(jidOrPhone);
+      if (jid.endsWith("@g.us")) {
+        await this.socket.groupToggleEphemeral(jid, seconds);
+      } else {
+        await this.socket.sendMessage(jid, { disappearingMessagesInChat: seconds || false });
+      }
+      this.updateChatEphemeral(jid, seconds);
+      return { success: true };
+    } catch (error) {
+      this.logger.error("Failed to set disappearing messages:", error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
   /**
    * Mark a whole chat as read (app-state level). Distinct from
    * {@link markAsRead}, which sends a read receipt for a single message.
@@ -4545,8 +6203,7 @@ export class MiawClient extends EventEmitter {
           createdAt: metadata.creation,
           participantCount: metadata.participants.length,
           participants: groupParticipants,
-          announce: metadata.announce,
-          restrict: metadata.restrict,
+          ...this.mapGroupSettings(metadata),
         },
       };
     } catch (error) {
@@ -4963,8 +6620,7 @@ export class MiawClient extends EventEmitter {
       createdAt: metadata.creation,
       participantCount: (metadata.participants || []).length,
       participants,
-      announce: metadata.announce,
-      restrict: metadata.restrict,
+      ...this.mapGroupSettings(metadata),
     };
   }
 
@@ -5394,6 +7050,341 @@ export class MiawClient extends EventEmitter {
     }
   }
 
+  // ============================================
+  // Group & Community Admin Settings
+  // ============================================
+
+  /**
+   * Map the settings of Baileys GroupMetadata (groups and communities)
+   */
+  private mapGroupSettings(metadata: any): GroupSettings {
+    return {
+      announce: metadata.announce,
+      restrict: metadata.restrict,
+      memberAddMode:
+        metadata.memberAddMode === undefined
+          ? undefined
+          : metadata.memberAddMode
+          ? "all_member_add"
+          : "admin_add",
+      joinApproval: metadata.joinApprovalMode,
+      ephemeralDuration: metadata.ephemeralDuration || undefined,
+    };
+  }
+
+  /**
+   * Shared runner for group/community admin operations
+   * @param action - What is being done, for error messages (e.g. "update group settings")
+   */
+  private async adminOperation(
+    jid: string,
+    action: string,
+    operation: (socket: WASocket) => Promise<unknown>
+  ): Promise<GroupOperationResult> {
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot ${action}. Connection state: ${this.connectionState}`
+        );
+      }
+      if (!jid.endsWith("@g.us")) {
+        throw new Error("Invalid group JID. Must end with @g.us");
+      }
+      await operation(this.socket);
+      return { success: true };
+    } catch (error) {
+      this.logger.error(`Failed to ${action}:`, error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Check a disappearing-messages timer (seconds, 0 = off)
+   */
+  private static validateEphemeral(seconds: number): void {
+    if (!Number.isInteger(seconds) || seconds < 0) {
+      throw new Error("Ephemeral duration must be a whole number of seconds (0 = off)");
+    }
+  }
+
+  /**
+   * Map a Baileys membership approval request
+   */
+  private mapJoinRequest(attrs: { [key: string]: string }): GroupJoinRequest {
+    const jid = attrs.phone_number || this.resolveLidToJid(attrs.jid);
+    return {
+      jid,
+      phone: this.getPhoneFromJid(jid),
+      method: attrs.request_method || undefined,
+      requestedAt: attrs.request_time ? Number(attrs.request_time) : undefined,
+    };
+  }
+
+  /**
+   * Map a Baileys `group.join-request` event and emit `group_join_request`.
+   * LID participants are resolved to phone JIDs when possible.
+   */
+  private handleJoinRequest(request: BaileysEventMap["group.join-request"]): void {
+    const participant = request.participantPn || this.resolveLidToJid(request.participant);
+    const update: GroupJoinRequestUpdate = {
+      groupJid: request.id,
+      participant,
+      phone: this.getPhoneFromJid(participant),
+      action: request.action,
+      method: request.method,
+      author: request.author ? request.authorPn || this.resolveLidToJid(request.author) : undefined,
+    };
+    this.emit("group_join_request", update);
+  }
+
+  /**
+   * Shared helper to list pending join requests
+   */
+  private async fetchJoinRequests(
+    jid: string,
+    kind: "group" | "community"
+  ): Promise<GroupJoinRequest[] | null> {
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot get join requests. Connection state: ${this.connectionState}`
+        );
+      }
+      if (!jid.endsWith("@g.us")) {
+        throw new Error("Invalid group JID. Must end with @g.us");
+      }
+      const requests =
+        kind === "group"
+          ? await this.socket.groupRequestParticipantsList(jid)
+          : await this.socket.communityRequestParticipantsList(jid);
+      return requests.map((attrs) => this.mapJoinRequest(attrs));
+    } catch (error) {
+      this.logger.error(`Failed to get ${kind} join requests:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Shared helper to approve or reject join requests
+   */
+  private async updateJoinRequests(
+    jid: string,
+    participants: string[],
+    action: "approve" | "reject",
+    kind: "group" | "community"
+  ): Promise<ParticipantOperationResult[]> {
+    const formatted = participants.map((p) => MessageHandler.formatPhoneToJid(p));
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot ${action} join requests. Connection state: ${this.connectionState}`
+        );
+      }
+      if (!jid.endsWith("@g.us")) {
+        throw new Error("Invalid group JID. Must end with @g.us");
+      }
+      const results =
+        kind === "group"
+          ? await this.socket.groupRequestParticipantsUpdate(jid, formatted, action)
+          : await this.socket.communityRequestParticipantsUpdate(jid, formatted, action);
+      return results.map((r) => ({
+        jid: r.jid || "",
+        status: r.status,
+        success: r.status === "200",
+      }));
+    } catch (error) {
+      this.logger.error(`Failed to ${action} ${kind} join requests:`, error);
+      return formatted.map((p) => ({ jid: p, status: "error", success: false }));
+    }
+  }
+
+  /**
+   * Allow only admins to send messages in a group (announcement mode)
+   * @param groupJid - Group JID (e.g., '123456789@g.us')
+   * @param enabled - true for admins only, false for everyone
+   */
+  async setGroupAnnounceOnly(
+    groupJid: string,
+    enabled: boolean
+  ): Promise<GroupOperationResult> {
+    return this.adminOperation(groupJid, "update group settings", (socket) =>
+      socket.groupSettingUpdate(groupJid, enabled ? "announcement" : "not_announcement")
+    );
+  }
+
+  /**
+   * Allow only admins to edit group info (name, description, picture)
+   * @param groupJid - Group JID (e.g., '123456789@g.us')
+   * @param enabled - true for admins only, false for everyone
+   */
+  async setGroupRestrictInfo(
+    groupJid: string,
+    enabled: boolean
+  ): Promise<GroupOperationResult> {
+    return this.adminOperation(groupJid, "update group settings", (socket) =>
+      socket.groupSettingUpdate(groupJid, enabled ? "locked" : "unlocked")
+    );
+  }
+
+  /**
+   * Set who can add members to a group
+   * @param groupJid - Group JID (e.g., '123456789@g.us')
+   * @param mode - 'admin_add' (admins only) or 'all_member_add'
+   */
+  async setGroupMemberAddMode(
+    groupJid: string,
+    mode: GroupMemberAddMode
+  ): Promise<GroupOperationResult> {
+    return this.adminOperation(groupJid, "update group member-add mode", (socket) =>
+      socket.groupMemberAddMode(groupJid, mode)
+    );
+  }
+
+  /**
+   * Require admin approval for new members (requests arrive as `group_join_request` events)
+   * @param groupJid - Group JID (e.g., '123456789@g.us')
+   * @param enabled - Whether join requests need approval
+   */
+  async setGroupJoinApproval(
+    groupJid: string,
+    enabled: boolean
+  ): Promise<GroupOperationResult> {
+    return this.adminOperation(groupJid, "update group join approval", (socket) =>
+      socket.groupJoinApprovalMode(groupJid, enabled ? "on" : "off")
+    );
+  }
+
+  /**
+   * Set the disappearing-messages timer of a group
+   * @param groupJid - Group JID (e.g., '123456789@g.us')
+   * @param seconds - Timer in seconds (WhatsApp offers 86400, 604800 and 7776000), 0 to turn off
+   */
+  async setGroupEphemeral(
+    groupJid: string,
+    seconds: number
+  ): Promise<GroupOperationResult> {
+    const result = await this.adminOperation(groupJid, "update group disappearing messages", (socket) => {
+      MiawClient.validateEphemeral(seconds);
+      return socket.groupToggleEphemeral(groupJid, seconds);
+    });
+    if (result.success) this.updateChatEphemeral(groupJid, seconds);
+    return result;
+  }
+
+  /**
+   * List pending requests to join a group
+   * @param groupJid - Group JID (e.g., '123456789@g.us')
+   * @returns Pending requests, or null on failure
+   */
+  async getGroupJoinRequests(groupJid: string): Promise<GroupJoinRequest[] | null> {
+    return this.fetchJoinRequests(groupJid, "group");
+  }
+
+  /**
+   * Approve requests to join a group
+   * @param groupJid - Group JID (e.g., '123456789@g.us')
+   * @param participants - Phone numbers or JIDs of the requesters
+   */
+  async approveGroupJoinRequest(
+    groupJid: string,
+    participants: string[]
+  ): Promise<ParticipantOperationResult[]> {
+    return this.updateJoinRequests(groupJid, participants, "approve", "group");
+  }
+
+  /**
+   * Reject requests to join a group
+   * @param groupJid - Group JID (e.g., '123456789@g.us')
+   * @param participants - Phone numbers or JIDs of the requesters
+   */
+  async rejectGroupJoinRequest(
+    groupJid: string,
+    participants: string[]
+  ): Promise<ParticipantOperationResult[]> {
+    return this.updateJoinRequests(groupJid, participants, "reject", "group");
+  }
+
+  /** Allow only admins to send messages in a community's announcement group. */
+  async setCommunityAnnounceOnly(
+    communityJid: string,
+    enabled: boolean
+  ): Promise<CommunityOperationResult> {
+    return this.adminOperation(communityJid, "update community settings", (socket) =>
+      socket.communitySettingUpdate(communityJid, enabled ? "announcement" : "not_announcement")
+    );
+  }
+
+  /** Allow only admins to edit community info. */
+  async setCommunityRestrictInfo(
+    communityJid: string,
+    enabled: boolean
+  ): Promise<CommunityOperationResult> {
+    return this.adminOperation(communityJid, "update community settings", (socket) =>
+      socket.communitySettingUpdate(communityJid, enabled ? "locked" : "unlocked")
+    );
+  }
+
+  /** Set who can add members to a community. */
+  async setCommunityMemberAddMode(
+    communityJid: string,
+    mode: GroupMemberAddMode
+  ): Promise<CommunityOperationResult> {
+    return this.adminOperation(communityJid, "update community member-add mode", (socket) =>
+      socket.communityMemberAddMode(communityJid, mode)
+    );
+  }
+
+  /** Require admin approval for new community members. */
+  async setCommunityJoinApproval(
+    communityJid: string,
+    enabled: boolean
+  ): Promise<CommunityOperationResult> {
+    return this.adminOperation(communityJid, "update community join approval", (socket) =>
+      socket.communityJoinApprovalMode(communityJid, enabled ? "on" : "off")
+    );
+  }
+
+  /** Set the disappearing-messages timer of a community (seconds, 0 = off). */
+  async setCommunityEphemeral(
+    communityJid: string,
+    seconds: number
+  ): Promise<CommunityOperationResult> {
+    return this.adminOperation(communityJid, "update community disappearing messages", (socket) => {
+      MiawClient.validateEphemeral(seconds);
+      return socket.communityToggleEphemeral(communityJid, seconds);
+    });
+  }
+
+  /** List pending requests to join a community (null on failure). */
+  async getCommunityJoinRequests(communityJid: string): Promise<GroupJoinRequest[] | null> {
+    return this.fetchJoinRequests(communityJid, "community");
+  }
+
+  /** Approve requests to join a community. */
+  async approveCommunityJoinRequest(
+    communityJid: string,
+    participants: string[]
+  ): Promise<ParticipantOperationResult[]> {
+    return this.updateJoinRequests(communityJid, participants, "approve", "community");
+  }
+
+  /** Reject requests to join a community. */
+  async rejectCommunityJoinRequest(
+    communityJid: string,
+    participants: string[]
+  ): Promise<ParticipantOperationResult[]> {
+    return this.updateJoinRequests(communityJid, participants, "reject", "community");
+  }
+
   // ============================================
   // Profile Management Methods (v0.8.0)
   // ============================================
@@ -5481,19 +7472,347 @@ export class MiawClient extends EventEmitter {
 
       if (this.connectionState !== "connected") {
         throw new Error(
-          `Cannot update profile name. Connection state: ${this.connectionState}`
+          `Cannot update profile name. Connection state: ${this.connectionState}`
+        );
+      }
+
+      if (!name || name.trim().length === 0) {
+        throw new Error("Profile name cannot be empty");
+      }
+
+      await this.socket.updateProfileName(name);
+
+      return { success: true };
+    } catch (error) {
+      this.logger.error("Failed to update profile name:", error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Update your profile status (About text)
+   * @param status - New status/about text
+   * @returns ProfileOperationResult indicating success or failure
+   */
+  async updateProfileStatus(status: string): Promise<ProfileOperationResult> {
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot update profile status. Connection state: ${this.connectionState}`
+        );
+      }
+
+      await this.socket.updateProfileStatus(status);
+
+      return { success: true };
+    } catch (error) {
+      this.logger.error("Failed to update profile status:", error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  // ============================================
+  // Privacy & Blocklist
+  // ============================================
+
+  /**
+   * Get your privacy settings (always fetched fresh from the server)
+   * @returns PrivacySettings, or null on failure
+   */
+  async getPrivacySettings(): Promise<PrivacySettings | null> {
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot get privacy settings. Connection state: ${this.connectionState}`
+        );
+      }
+
+      const raw = await this.socket.fetchPrivacySettings(true);
+      const settings: PrivacySettings = {};
+      for (const [key, category] of Object.entries(PRIVACY_CATEGORIES)) {
+        if (raw[category] !== undefined) {
+          (settings as Record<string, string>)[key] = raw[category];
+        }
+      }
+      settings.defaultDisappearingMode =
+        this.authState?.creds?.accountSettings?.defaultDisappearingMode?.ephemeralExpiration ?? 0;
+
+      return settings;
+    } catch (error) {
+      this.logger.error("Failed to get privacy settings:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Change one privacy setting
+   * @param key - Setting to change (e.g., 'lastSeen')
+   * @param value - New value (see PrivacySettingValues for the allowed values)
+   * @example
+   * await client.updatePrivacySetting("lastSeen", "contacts");
+   * await client.updatePrivacySetting("defaultDisappearingMode", 86400);
+   */
+  async updatePrivacySetting<K extends PrivacySettingKey>(
+    key: K,
+    value: PrivacySettingValues[K]
+  ): Promise<PrivacyOperationResult> {
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot update privacy settings. Connection state: ${this.connectionState}`
+        );
+      }
+
+      if (key === "defaultDisappearingMode") {
+        MiawClient.validateEphemeral(value as number);
+        await this.socket.updateDefaultDisappearingMode(value as number);
+        return { success: true };
+      }
+
+      const allowed = PRIVACY_VALUES[key as PrivacyChoiceKey];
+      if (!allowed) {
+        throw new Error(`Unknown privacy setting: ${key}`);
+      }
+      if (!allowed.includes(value as string)) {
+        throw new Error(`Invalid value for ${key}: ${String(value)} (allowed: ${allowed.join(", ")})`);
+      }
+
+      const socket = this.socket;
+      const setters: Record<PrivacyChoiceKey, (v: any) => Promise<void>> = {
+        lastSeen: (v) => socket.updateLastSeenPrivacy(v),
+        online: (v) => socket.updateOnlinePrivacy(v),
+        profilePicture: (v) => socket.updateProfilePicturePrivacy(v),
+        status: (v) => socket.updateStatusPrivacy(v),
+        readReceipts: (v) => socket.updateReadReceiptsPrivacy(v),
+        groupsAdd: (v) => socket.updateGroupsAddPrivacy(v),
+        calls: (v) => socket.updateCallPrivacy(v),
+        messages: (v) => socket.updateMessagesPrivacy(v),
+      };
+      await setters[key as PrivacyChoiceKey](value);
+
+      return { success: true };
+    } catch (error) {
+      this.logger.error("Failed to update privacy setting:", error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Block a contact
+   * @param phone - Phone number (with country code) or JID
+   */
+  async blockContact(phone: string): Promise<PrivacyOperationResult> {
+    return this.updateBlockStatus(phone, "block");
+  }
+
+  /**
+   * Unblock a contact
+   * @param phone - Phone number (with country code) or JID
+   */
+  async unblockContact(phone: string): Promise<PrivacyOperationResult> {
+    return this.updateBlockStatus(phone, "unblock");
+  }
+
+  /**
+   * Get the JIDs of all blocked contacts (phone JIDs when the LID mapping is known)
+   * @returns Blocked JIDs, or null on failure
+   */
+  async getBlocklist(): Promise<string[] | null> {
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot get blocklist. Connection state: ${this.connectionState}`
+        );
+      }
+
+      const blocklist = await this.socket.fetchBlocklist();
+      return blocklist
+        .filter((jid): jid is string => !!jid)
+        .map((jid) => this.resolveLidToJid(jid));
+    } catch (error) {
+      this.logger.error("Failed to get blocklist:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Shared helper to block or unblock a contact
+   */
+  private async updateBlockStatus(
+    phone: string,
+    action: "block" | "unblock"
+  ): Promise<PrivacyOperationResult> {
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot ${action} contact. Connection state: ${this.connectionState}`
+        );
+      }
+
+      const jid = MessageHandler.formatPhoneToJid(phone);
+      if (jid.endsWith("@g.us") || jid.endsWith("@newsletter") || jid.endsWith("@broadcast")) {
+        throw new Error("Only contacts can be blocked");
+      }
+
+      await this.socket.updateBlockStatus(jid, action);
+
+      return { success: true };
+    } catch (error) {
+      this.logger.error(`Failed to ${action} contact:`, error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  // ============================================
+  // Calls
+  // ============================================
+
+  /**
+   * Map a Baileys call update, apply the rejectCalls policy and emit `call`
+   */
+  private handleCall(call: WACallEvent): void {
+    if (call.callerPn && call.from.endsWith("@lid")) {
+      this.addLidMapping(call.from, call.callerPn, "BaileysEvent");
+    }
+    const from = call.callerPn || this.resolveLidToJid(call.from);
+
+    if (call.status === "offer") {
+      this.activeCalls.set(call.id, call.from);
+    } else if (["timeout", "reject", "accept", "terminate"].includes(call.status)) {
+      this.activeCalls.delete(call.id);
+    }
+
+    const event: CallEvent = {
+      id: call.id,
+      from,
+      phone: this.getPhoneFromJid(from),
+      chatId: this.resolveLidToJid(call.chatId),
+      isVideo: !!call.isVideo,
+      isGroup: !!call.isGroup,
+      groupJid: call.groupJid,
+      status: call.status,
+      offline: call.offline,
+      timestamp: Math.floor(new Date(call.date).getTime() / 1000),
+      autoRejected: false,
+    };
+    event.autoRejected = this.shouldRejectCall(event);
+    this.emit("call", event);
+
+    if (event.autoRejected) {
+      void this.autoRejectCall(event);
+    }
+  }
+
+  /**
+   * Whether the rejectCalls policy applies to a call update
+   */
+  private shouldRejectCall(call: CallEvent): boolean {
+    const policy = this.options.rejectCalls;
+    if (!policy || call.status !== "offer" || call.offline) {
+      return false;
+    }
+    if (policy === true) {
+      return true;
+    }
+    if (call.isGroup && policy.groupCalls === false) {
+      return false;
+    }
+    const allowed = (policy.allow || []).map((p) => MessageHandler.formatPhoneToJid(p));
+    if (allowed.includes(call.from)) {
+      return false;
+    }
+    if (!policy.filter) {
+      return true;
+    }
+    try {
+      return policy.filter(call) !== false;
+    } catch (error) {
+      // Runs inside the socket's event listener: a throwing filter lets the call ring
+      this.logger.error("rejectCalls filter failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Reject a call for the rejectCalls policy and send the configured reply
+   */
+  private async autoRejectCall(call: CallEvent): Promise<void> {
+    const result = await this.rejectCall(call.id);
+    if (!result.success) {
+      this.logger.warn(`Auto-reject of call ${call.id} from ${call.from} failed: ${result.error}`);
+      return;
+    }
+
+    const reply = typeof this.options.rejectCalls === "object" ? this.options.rejectCalls.reply : undefined;
+    if (reply) {
+      const sent = await this.sendText(call.from, reply);
+      if (!sent.success) {
+        this.logger.warn(`Call auto-reply to ${call.from} failed: ${sent.error}`);
+      }
+    }
+  }
+
+  /**
+   * Reject an incoming call
+   * @param callId - Call ID from the `call` event
+   * @param from - Caller phone number or JID (only needed for calls this client hasn't seen)
+   */
+  async rejectCall(callId: string, from?: string): Promise<CallOperationResult> {
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot reject call. Connection state: ${this.connectionState}`
         );
       }
 
-      if (!name || name.trim().length === 0) {
-        throw new Error("Profile name cannot be empty");
+      // Reject with the JID the call came from (may be a LID)
+      const caller = this.activeCalls.get(callId) || (from ? MessageHandler.formatPhoneToJid(from) : undefined);
+      if (!caller) {
+        throw new Error("Unknown call ID. Pass the caller's phone number or JID.");
       }
 
-      await this.socket.updateProfileName(name);
+      await this.socket.rejectCall(callId, caller);
+      this.activeCalls.delete(callId);
 
       return { success: true };
     } catch (error) {
-      this.logger.error("Failed to update profile name:", error);
+      this.logger.error("Failed to reject call:", error);
       return {
         success: false,
         error: (error as Error).message,
@@ -5502,11 +7821,16 @@ export class MiawClient extends EventEmitter {
   }
 
   /**
-   * Update your profile status (About text)
-   * @param status - New status/about text
-   * @returns ProfileOperationResult indicating success or failure
+   * Create a WhatsApp call link that anyone can join
+   * @param type - 'audio' or 'video' (default: 'video')
+   * @param startTime - Schedule the call as an event starting at this time
+   * @example
+   * const { link } = await client.createCallLink("video");
    */
-  async updateProfileStatus(status: string): Promise<ProfileOperationResult> {
+  async createCallLink(
+    type: "audio" | "video" = "video",
+    startTime?: Date
+  ): Promise<CallLinkResult> {
     try {
       if (!this.socket) {
         throw new Error("Not connected. Call connect() first.");
@@ -5514,15 +7838,25 @@ export class MiawClient extends EventEmitter {
 
       if (this.connectionState !== "connected") {
         throw new Error(
-          `Cannot update profile status. Connection state: ${this.connectionState}`
+          `Cannot create call link. Connection state: ${this.connectionState}`
         );
       }
 
-      await this.socket.updateProfileStatus(status);
+      const token = await this.socket.createCallLink(
+        type,
+        startTime ? { startTime: Math.floor(startTime.getTime() / 1000) } : undefined
+      );
+      if (!token) {
+        throw new Error("No call link returned");
+      }
 
-      return { success: true };
+      return {
+        success: true,
+        token,
+        link: `https://call.whatsapp.com/${type === "audio" ? "voice" : "video"}/${token}`,
+      };
     } catch (error) {
-      this.logger.error("Failed to update profile status:", error);
+      this.logger.error("Failed to create call link:", error);
       return {
         success: false,
         error: (error as Error).message,
@@ -5530,6 +7864,204 @@ export class MiawClient extends EventEmitter {
     }
   }
 
+  // ============================================
+  // Live Location
+  // ============================================
+
+  /**
+   * Start sharing a live location. Push new positions through the returned
+   * share's update() until its duration passes or stop() is called. Neither
+   * reaches recipients: the live location message has no duration or stop
+   * field, so they see the share as live until it goes stale. Not routed
+   * through the send queue, since the share needs a live connection.
+   * @example
+   * const { share } = await client.sendLiveLocation("6281234567890", {
+   *   lat: -6.2, lng: 106.8, durationSec: 900,
+   * });
+   * await share?.update({ lat: -6.21, lng: 106.81, speed: 8 });
+   * share?.stop();
+   */
+  async sendLiveLocation(
+    to: string,
+    options: SendLiveLocationOptions
+  ): Promise<SendLiveLocationResult> {
+    try {
+      const durationSec = options.durationSec ?? LIVE_LOCATION_DEFAULT_DURATION;
+      if (!Number.isInteger(durationSec) || durationSec <= 0 || durationSec > LIVE_LOCATION_MAX_DURATION) {
+        throw new Error(`durationSec must be between 1 and ${LIVE_LOCATION_MAX_DURATION} seconds`);
+      }
+
+      const jid = MessageHandler.formatPhoneToJid(to);
+      const startedAt = Date.now();
+      const messageId = await this.relayLiveLocation(jid, options, 0, 0, options.caption);
+
+      return {
+        success: true,
+        messageId,
+        share: this.createLiveLocationShare(jid, messageId, startedAt, durationSec, options.caption),
+      };
+    } catch (error) {
+      this.logger.error("Failed to send live location:", error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Latest live location of everyone sharing in a chat. Shares not updated
+   * for 8 hours are dropped.
+   * @param jidOrPhone - Chat JID or phone number
+   */
+  getLiveLocations(jidOrPhone: string): LiveLocationUpdate[] {
+    const chatJid = MessageHandler.formatPhoneToJid(jidOrPhone);
+    const positions = this.liveLocations.get(chatJid);
+    if (!positions) {
+      return [];
+    }
+
+    for (const [sender, update] of positions) {
+      if (!this.isLiveLocationFresh(update.timestamp)) {
+        positions.delete(sender);
+      }
+    }
+    if (positions.size === 0) {
+      this.liveLocations.delete(chatJid);
+    }
+    return [...positions.values()];
+  }
+
+  /**
+   * Handle for an ongoing share started by sendLiveLocation()
+   */
+  private createLiveLocationShare(
+    chatId: string,
+    messageId: string,
+    startedAt: number,
+    durationSec: number,
+    caption?: string
+  ): LiveLocationShare {
+    const expiresAt = startedAt + durationSec * 1000;
+    let stopped = false;
+    let sequenceNumber = 0;
+
+    return {
+      messageId,
+      chatId,
+      startedAt,
+      expiresAt,
+      get active() {
+        return !stopped && Date.now() < expiresAt;
+      },
+      update: async (position: LiveLocationPosition): Promise<SendMessageResult> => {
+        try {
+          if (stopped || Date.now() >= expiresAt) {
+            throw new Error("Live location share has ended");
+          }
+          sequenceNumber += 1;
+          const timeOffset = Math.floor((Date.now() - startedAt) / 1000);
+          const id = await this.relayLiveLocation(chatId, position, sequenceNumber, timeOffset, caption);
+          return { success: true, messageId: id };
+        } catch (error) {
+          this.logger.error("Failed to update live location:", error);
+          return { success: false, error: (error as Error).message };
+        }
+      },
+      stop: () => {
+        stopped = true;
+      },
+    };
+  }
+
+  /**
+   * Send one live location position. Baileys' sendMessage has no live
+   * location content, so the message is relayed as-is.
+   */
+  private async relayLiveLocation(
+    jid: string,
+    position: LiveLocationPosition,
+    sequenceNumber: number,
+    timeOffset: number,
+    caption?: string
+  ): Promise<string> {
+    if (!this.socket) {
+      throw new Error("Not connected. Call connect() first.");
+    }
+    if (this.connectionState !== "connected") {
+      throw new Error(
+        `Cannot send message. Connection state: ${this.connectionState}`
+      );
+    }
+    if (Math.abs(position.lat) > 90 || Math.abs(position.lng) > 180) {
+      throw new Error("Invalid coordinates");
+    }
+
+    const expiration = this.getChatEphemeral(jid);
+    const liveLocationMessage: proto.Message.ILiveLocationMessage = {
+      degreesLatitude: position.lat,
+      degreesLongitude: position.lng,
+      accuracyInMeters: position.accuracy,
+      speedInMps: position.speed,
+      degreesClockwiseFromMagneticNorth: position.heading,
+      caption,
+      sequenceNumber,
+      timeOffset,
+      ...(expiration ? { contextInfo: { expiration } } : {}),
+    };
+
+    return this.socket.relayMessage(jid, { liveLocationMessage }, {});
+  }
+
+  /**
+   * Record a contact's live location and emit `live_location`. Returns true
+   * when the message is a position update of a share already seen (a lower
+   * sequence number means the contact started a new share).
+   */
+  private trackLiveLocation(message: MiawMessage): boolean {
+    if (message.fromMe || !message.location || !this.isLiveLocationFresh(message.timestamp)) {
+      return false;
+    }
+
+    const sender = (message.isGroup ? message.participant : message.from) || message.from;
+    let positions = this.liveLocations.get(message.from);
+    if (!positions) {
+      positions = new Map();
+      this.liveLocations.set(message.from, positions);
+    }
+
+    const previous = positions.get(sender);
+    const isUpdate =
+      !!previous &&
+      previous.messageId !== message.id &&
+      this.isLiveLocationFresh(previous.timestamp) &&
+      (message.location.sequenceNumber ?? 0) >= (previous.location.sequenceNumber ?? 0);
+
+    const update: LiveLocationUpdate = {
+      messageId: isUpdate ? previous!.messageId : message.id,
+      chatId: message.from,
+      sender,
+      senderPhone: message.senderPhone,
+      location: message.location,
+      caption: message.text,
+      timestamp: message.timestamp,
+    };
+    positions.set(sender, update);
+
+    if (this.options.debug) {
+      this.logger.debug("\n========== LIVE LOCATION ==========");
+      this.logger.debug(JSON.stringify(update, null, 2));
+      this.logger.debug("===================================\n");
+    }
+
+    this.emit("live_location", update);
+    return isUpdate;
+  }
+
+  /**
+   * Whether a live location sent at `timestamp` (Unix seconds) can still be ongoing
+   */
+  private isLiveLocationFresh(timestamp: number): boolean {
+    return Date.now() - timestamp * 1000 < TIMEOUTS.LIVE_LOCATION_TTL;
+  }
+
   // ============================================
   // Label Methods (v0.9.0) - WhatsApp Business only
   // ============================================
@@ -5909,6 +8441,7 @@ export class MiawClient extends EventEmitter {
       }
 
       const result = await this.socket.productCreate(productData);
+      this.catalogLookups.clear();
 
       return {
         success: true,
@@ -5976,6 +8509,7 @@ export class MiawClient extends EventEmitter {
       }
 
       const result = await this.socket.productUpdate(productId, productData);
+      this.catalogLookups.clear();
 
       return {
         success: true,
@@ -6013,6 +8547,7 @@ export class MiawClient extends EventEmitter {
       }
 
       const result = await this.socket.productDelete(productIds);
+      this.catalogLookups.clear();
 
       return {
         success: true,
@@ -6027,6 +8562,179 @@ export class MiawClient extends EventEmitter {
     }
   }
 
+  /**
+   * Bring your catalog in line with a product feed. Products are matched by
+   * retailerId: new ones are created, changed ones updated, and catalog
+   * products missing from the feed hidden (or deleted / kept, see
+   * `onMissing`). Catalog writes are spaced `delayMs` apart.
+   * @param feed - Feed products, or the path of a CSV / JSON feed file
+   * @param options - Dry run, missing-product policy and pacing
+   * @returns Per-product report; on dry runs the plan without changes
+   * @example
+   * const plan = await client.syncCatalog("./products.csv", { dryRun: true });
+   * console.log(plan.summary); // { create: 3, update: 1, hide: 2, delete: 0, unchanged: 40, failed: 0 }
+   * @note Requires WhatsApp Business account with catalog enabled
+   */
+  async syncCatalog(
+    feed: CatalogFeedItem[] | string,
+    options: CatalogSyncOptions = {}
+  ): Promise<CatalogSyncResult> {
+    const dryRun = options.dryRun ?? false;
+    const summary = { create: 0, update: 0, hide: 0, delete: 0, unchanged: 0, failed: 0 };
+
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot sync catalog. Connection state: ${this.connectionState}`
+        );
+      }
+
+      const items =
+        typeof feed === "string" ? await loadCatalogFeed(feed, options.format) : validateCatalogFeed(feed);
+      const products = await this.fetchFullCatalog(options.pageSize ?? CATALOG_PAGE_SIZE);
+      const steps = planCatalogSync(items, products, options.onMissing ?? "hide");
+
+      const report: CatalogSyncEntry[] = steps.map((step) => ({
+        retailerId: step.retailerId,
+        name: step.item?.name ?? step.product?.name,
+        action: step.action,
+        productId: step.product?.id,
+        changes: step.changes,
+        success: true,
+      }));
+      for (const step of steps) {
+        summary[step.action]++;
+      }
+
+      if (!dryRun) {
+        await this.applyCatalogSync(steps, report, options.delayMs ?? TIMEOUTS.CATALOG_SYNC_DELAY);
+      }
+
+      summary.failed = report.filter((entry) => !entry.success).length;
+      return {
+        success: summary.failed === 0,
+        dryRun,
+        report,
+        summary,
+        error:
+          summary.failed > 0
+            ? `${summary.failed} of ${steps.length - summary.unchanged} catalog changes failed`
+            : undefined,
+      };
+    } catch (error) {
+      this.logger.error("Failed to sync catalog:", error);
+      return {
+        success: false,
+        dryRun,
+        report: [],
+        summary,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Read a whole catalog (default: yours), following nextCursor
+   */
+  private async fetchFullCatalog(pageSize: number, businessJidOrPhone?: string): Promise<Product[]> {
+    const products: Product[] = [];
+    const cursors = new Set<string>();
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.getCatalog(businessJidOrPhone, pageSize, cursor);
+      if (!page.success) {
+        throw new Error(`Failed to read catalog: ${page.error}`);
+      }
+      const pageProducts = page.products || [];
+      products.push(...pageProducts);
+
+      // Stop on an empty page or a cursor we've already followed
+      cursor = pageProducts.length > 0 ? page.nextCursor : undefined;
+      if (cursor && cursors.has(cursor)) {
+        break;
+      }
+      if (cursor) {
+        cursors.add(cursor);
+      }
+    } while (cursor);
+
+    return products;
+  }
+
+  /**
+   * Apply a catalog sync plan, one write at a time, recording each outcome
+   * in its report entry. Deletes go out as a single batch at the end.
+   */
+  private async applyCatalogSync(
+    steps: CatalogSyncStep[],
+    report: CatalogSyncEntry[],
+    delayMs: number
+  ): Promise<void> {
+    let writes = 0;
+    const pace = async () => {
+      if (writes++ > 0 && delayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    };
+
+    const deletes: number[] = [];
+    for (const [i, step] of steps.entries()) {
+      const entry = report[i];
+      if (step.action === "unchanged") continue;
+      if (step.action === "delete") {
+        deletes.push(i);
+        continue;
+      }
+
+      await pace();
+      let result: ProductOperationResult;
+      if (step.action === "create") {
+        result = await this.createProduct(this.feedItemToProductOptions(step.item!));
+        entry.productId = result.productId;
+      } else if (step.action === "update") {
+        result = await this.updateProduct(step.product!.id!, this.feedItemToProductOptions(step.item!));
+      } else {
+        const product = step.product!;
+        result = await this.updateProduct(product.id!, {
+          name: product.name ?? "",
+          description: product.description ?? "",
+          price: product.price ?? 0,
+          currency: product.currency ?? "",
+          retailerId: step.retailerId,
+          url: product.url ?? undefined,
+          isHidden: true,
+        });
+      }
+      entry.success = result.success;
+      entry.error = result.error;
+    }
+
+    if (deletes.length > 0) {
+      await pace();
+      const result = await this.deleteProducts(deletes.map((i) => steps[i].product!.id!));
+      for (const i of deletes) {
+        report[i].success = result.success;
+        report[i].error = result.error;
+      }
+    }
+  }
+
+  /**
+   * ProductOptions for a feed product (products back in the feed are unhidden)
+   */
+  private feedItemToProductOptions(item: CatalogFeedItem): ProductOptions {
+    return {
+      ...item,
+      description: item.description ?? "",
+      isHidden: item.isHidden ?? false,
+    };
+  }
+
   // ============================================
   // Newsletter/Channel Methods (v0.9.0)
   // ============================================
@@ -6167,6 +8875,55 @@ export class MiawClient extends EventEmitter {
     }
   }
 
+  /**
+   * Send a poll to a newsletter/channel (followers pick one option)
+   * @param newsletterId - Newsletter JID (e.g., '1234567890@newsletter')
+   * @param name - Poll question
+   * @param pollOptions - Answer options (2-12)
+   * @returns SendMessageResult
+   * @note You must be an admin/owner of the newsletter to send messages
+   */
+  async sendNewsletterPoll(
+    newsletterId: string,
+    name: string,
+    pollOptions: string[]
+  ): Promise<SendMessageResult> {
+    try {
+      if (!this.socket) {
+        throw new Error("Not connected. Call connect() first.");
+      }
+
+      if (this.connectionState !== "connected") {
+        throw new Error(
+          `Cannot send newsletter poll. Connection state: ${this.connectionState}`
+        );
+      }
+
+      if (!newsletterId.endsWith("@newsletter")) {
+        throw new Error("Invalid newsletter ID. Must end with @newsletter");
+      }
+
+      if (!pollOptions || pollOptions.length < 2) {
+        return { success: false, error: "A poll needs at least 2 options" };
+      }
+
+      const result = await this.socket.sendMessage(newsletterId, {
+        poll: { name, values: pollOptions, selectableCount: 1 },
+      });
+
+      return {
+        success: true,
+        messageId: result?.key?.id ?? undefined,
+      };
+    } catch (error) {
+      this.logger.error("Failed to send newsletter poll:", error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
   /**
    * Create a new newsletter/channel
    * @param name - Newsletter name
@@ -6585,18 +9342,18 @@ export class MiawClient extends EventEmitter {
   }
 
   /**
-   * Fetch messages from a newsletter
+   * Fetch posts from a newsletter, newest page first. Posts are normalized
+   * like incoming messages (text, media, quoted, ...) and carry their view
+   * and reaction counts.
    * @param newsletterId - Newsletter JID (e.g., '1234567890@newsletter')
-   * @param count - Number of messages to fetch (default: 50)
-   * @param since - Timestamp to fetch messages since (default: now, backward)
-   * @param after - Cursor for pagination (default: 0)
-   * @returns NewsletterMessagesResult
+   * @param count - Number of posts to fetch (default: 50)
+   * @param cursor - nextCursor of the previous page, to fetch older posts
+   * @returns NewsletterMessagesResult with posts oldest first
    */
   async fetchNewsletterMessages(
     newsletterId: string,
     count: number = 50,
-    since?: number,
-    after: number = 0
+    cursor?: string
   ): Promise<NewsletterMessagesResult> {
     try {
       if (!this.socket) {
@@ -6613,31 +9370,44 @@ export class MiawClient extends EventEmitter {
         throw new Error("Invalid newsletter ID. Must end with @newsletter");
       }
 
-      const messages = await this.socket.newsletterFetchMessages(
-        newsletterId,
-        count,
-        since || Date.now(),
-        after
-      );
+      // Cursors are server IDs, which count up from 1 per newsletter
+      if (cursor !== undefined && !/^[1-9]\d*$/.test(cursor)) {
+        throw new Error(`Invalid cursor: ${cursor}`);
+      }
 
-      const normalizedMessages = (messages || []).map((msg: any) => ({
-        id: msg.key?.id || "",
+      const response = await this.socket.query({
+        tag: "iq",
+        attrs: {
+          to: "s.whatsapp.net",
+          type: "get",
+          xmlns: "newsletter",
+        },
+        content: [
+          {
+            tag: "messages",
+            attrs: {
+              type: "jid",
+              jid: newsletterId,
+              count: String(count),
+              ...(cursor ? { before: cursor } : {}),
+            },
+          },
+        ],
+      });
+
+      const messages = MessageHandler.parseNewsletterMessages(
+        response as BaileysBinaryNode,
         newsletterId,
-        content:
-          msg.message?.conversation || msg.message?.extendedTextMessage?.text,
-        timestamp: msg.messageTimestamp || 0,
-        mediaUrl:
-          msg.message?.imageMessage?.url || msg.message?.videoMessage?.url,
-        mediaType: msg.message?.imageMessage
-          ? "image"
-          : msg.message?.videoMessage
-          ? "video"
-          : undefined,
-      }));
+        (bytes) => proto.Message.decode(bytes) as BaileysMessageContent,
+        this.logger
+      ).sort((a, b) => Number(a.serverId) - Number(b.serverId));
 
+      // Posts before the oldest one on this page; the first post has ID 1
+      const oldest = messages[0] ? Number(messages[0].serverId) : 0;
       return {
         success: true,
-        messages: normalizedMessages,
+        messages,
+        nextCursor: oldest > 1 ? String(oldest) : undefined,
       };
     } catch (error) {
       this.logger.error("Failed to fetch newsletter messages:", error);
@@ -6838,6 +9608,95 @@ export class MiawClient extends EventEmitter {
     }
   }
 
+  // ============================================
+  // Scheduled Newsletter Posts
+  // ============================================
+
+  /**
+   * Schedule a newsletter post (text, image, video or poll). The schedule is
+   * persisted through the store and survives restarts; posts are published
+   * while the client is connected. A post whose time passed while offline is
+   * published late or skipped per its `missedPolicy`. The outcome (message
+   * ID or error) is recorded on the post.
+   *
+   * @example
+   * client.scheduleNewsletterPost({
+   *   newsletterId: "1234567890@newsletter",
+   *   content: { type: "image", source: "./promo.jpg", caption: "Sale starts now!" },
+   *   publishAt: "2026-11-01T09:00",
+   *   timeZone: "Asia/Jakarta",
+   * });
+   *
+   * @throws If the newsletter ID, content, publish time or time zone is invalid, or the ID is taken
+   */
+  scheduleNewsletterPost(options: ScheduleNewsletterPostOptions): ScheduledPost {
+    return this.newsletterSchedule.schedule(options);
+  }
+
+  /**
+   * Scheduled newsletter posts (all, or one newsletter's) by publish time,
+   * including published, failed, skipped and cancelled ones
+   */
+  getScheduledNewsletterPosts(newsletterId?: string): ScheduledPost[] {
+    return this.newsletterSchedule.list(newsletterId);
+  }
+
+  /**
+   * Cancel a scheduled newsletter post
+   * @returns true if the post was still scheduled
+   */
+  cancelScheduledNewsletterPost(id: string): boolean {
+    return this.newsletterSchedule.cancel(id);
+  }
+
+  private createNewsletterScheduler(): NewsletterScheduler {
+    return new NewsletterScheduler({
+      publish: (post) => this.publishScheduledPost(post),
+      isReady: () => this.connectionState === "connected",
+      onUpdate: (post) => this.emit("newsletter_schedule_update", post),
+      onChange: () => void this.saveNewsletterScheduleToStore(),
+      load: async () => (await this.store.loadNewsletterSchedule?.()) ?? [],
+    });
+  }
+
+  private publishScheduledPost({ newsletterId, content }: ScheduledPost): Promise<SendMessageResult> {
+    switch (content.type) {
+      case "image":
+        return this.sendNewsletterImage(newsletterId, content.source, content.caption);
+      case "video":
+        return this.sendNewsletterVideo(newsletterId, content.source, content.caption);
+      case "poll":
+        return this.sendNewsletterPoll(newsletterId, content.name, content.options);
+      default:
+        return this.sendNewsletterMessage(newsletterId, content.text);
+    }
+  }
+
+  private async saveNewsletterScheduleToStore(): Promise<void> {
+    try {
+      // Keep posts other processes (e.g. the CLI) added or cancelled meanwhile
+      if (this.store.loadNewsletterSchedule) {
+        this.newsletterSchedule.merge(await this.store.loadNewsletterSchedule());
+      }
+      await this.store.saveNewsletterSchedule?.(this.newsletterSchedule.exportPosts());
+    } catch (error) {
+      this.logger.warn("Failed to save newsletter schedule:", error);
+    }
+  }
+
+  private async loadNewsletterScheduleFromStore(): Promise<void> {
+    try {
+      const posts: ScheduledPost[] = (await this.store.loadNewsletterSchedule?.()) ?? [];
+      this.newsletterSchedule.restore(posts);
+      const scheduled = posts.filter((p) => p.status === "scheduled").length;
+      if (scheduled > 0) {
+        this.logger.info(`Restored ${scheduled} scheduled newsletter posts from store`);
+      }
+    } catch (error) {
+      this.logger.warn("Failed to load newsletter schedule:", error);
+    }
+  }
+
   // ============================================
   // Contact Management Methods (v0.9.0)
   // ============================================
@@ -6983,6 +9842,10 @@ export class MiawClient extends EventEmitter {
       this.socket = null;
     }
 
+    // Persist any buffered store writes
+    this.persistRetention();
+    await this.flushStore();
+
     // Cleanup console filter if it was enabled (reference counted)
     if (!this.options.debug) {
       disableConsoleFilter();
@@ -7100,7 +9963,8 @@ export class MiawClient extends EventEmitter {
     }
 
     // Clear session files
-    this.authHandler.clearSession();
+    this.authHandler.clear();
+    this.clearStore();
 
     // Reset logout flag
     this.loggingOut = false;
@@ -7161,6 +10025,13 @@ export class MiawClient extends EventEmitter {
     return this.options.instanceId;
   }
 
+  /**
+   * Get the base session directory (instance data lives in `<sessionPath>/<instanceId>`)
+   */
+  getSessionPath(): string {
+    return this.options.sessionPath;
+  }
+
   /**
    * Check if connected
    */
@@ -0,0 +1,338 @@
+import { EventEmitter } from "events";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { MiawClient } from "./MiawClient.js";
+import type { MiawClientEvents } from "../types/index.js";
+import type {
+  InstanceConnectResult,
+  InstanceHealth,
+  MiawManagerEvents,
+  MiawManagerOptions,
+} from "../types/manager.js";
+import { TIMEOUTS, THRESHOLDS } from "../constants/timeouts.js";
+import { getErrorMessage } from "../utils/type-guards.js";
+
+/** Client events forwarded by the manager (a Record so new events can't be missed) */
+const FORWARDED_EVENTS: Record<keyof MiawClientEvents, true> = {
+  qr: true,
+  ready: true,
+  message: true,
+  message_edit: true,
+  message_delete: true,
+  message_pin: true,
+  message_reaction: true,
+  message_receipt: true,
+  poll_vote: true,
+  newsletter_message: true,
+  live_location: true,
+  order: true,
+  product_inquiry: true,
+  pairing_code: true,
+  presence: true,
+  group_join_request: true,
+  blocklist_update: true,
+  call: true,
+  connection: true,
+  disconnected: true,
+  reconnecting: true,
+  error: true,
+  session_saved: true,
+  send_queued: true,
+  send_sent: true,
+  send_failed: true,
+  campaign_update: true,
+  newsletter_schedule_update: true,
+};
+
+/** Events that end a connect attempt and free its slot */
+const CONNECT_SETTLED_EVENTS = ["ready", "qr", "pairing_code", "disconnected", "error"] as const;
+
+interface ManagedInstance {
+  client: MiawClient;
+  health: Omit<InstanceHealth, "instanceId" | "state">;
+  connecting: Promise<void> | null;
+}
+
+/**
+ * Manages many MiawClient instances sharing one session directory.
+ *
+ * Clients are created lazily by get() and connect(). Their events are
+ * re-emitted by the manager with the instance ID as first argument.
+ * Connects run through a bounded queue (see MiawManagerOptions) so that
+ * booting dozens of instances doesn't hit WhatsApp with simultaneous
+ * registrations.
+ *
+ * @example
+ * const manager = new MiawManager({ sessionPath: "./sessions", maxConcurrentConnects: 3 });
+ * manager.on("message", (instanceId, message) => console.log(instanceId, message.text));
+ * await manager.connectAll(); // Every instance with a saved session
+ */
+export class MiawManager extends EventEmitter {
+  private instances: Map<string, ManagedInstance> = new Map();
+  private sessionPath: string;
+  private maxConcurrentConnects: number;
+  private connectDelayMs: number;
+  private connectTimeoutMs: number;
+  private activeConnects = 0;
+  private connectWaiters: (() => void)[] = [];
+  private lastConnectStart = 0;
+
+  constructor(private options: MiawManagerOptions = {}) {
+    super();
+    this.sessionPath = options.sessionPath || "./sessions";
+    this.maxConcurrentConnects = Math.max(
+      1,
+      options.maxConcurrentConnects ?? THRESHOLDS.MANAGER_MAX_CONCURRENT_CONNECTS
+    );
+    this.connectDelayMs = options.connectDelayMs ?? TIMEOUTS.MANAGER_CONNECT_DELAY;
+    this.connectTimeoutMs = options.connectTimeoutMs ?? TIMEOUTS.CONNECTION_TIMEOUT;
+  }
+
+  /**
+   * Instance IDs with a saved session (a directory with creds.json) under a session path
+   */
+  static listSessions(sessionPath: string): string[] {
+    if (!fs.existsSync(sessionPath)) {
+      return [];
+    }
+    return fs
+      .readdirSync(sessionPath, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && fs.existsSync(path.join(sessionPath, entry.name, "creds.json")))
+      .map((entry) => entry.name);
+  }
+
+  /**
+   * Instance IDs with a saved session under this manager's session path
+   */
+  discover(): string[] {
+    return MiawManager.listSessions(this.sessionPath);
+  }
+
+  /**
+   * Get an instance's client, creating it (without connecting) if needed
+   */
+  get(instanceId: string): MiawClient {
+    const existing = this.instances.get(instanceId);
+    if (existing) return existing.client;
+
+    const clientOptions =
+      typeof this.options.clientOptions === "function"
+        ? this.options.clientOptions(instanceId)
+        : this.options.clientOptions;
+    const client = new MiawClient({ ...clientOptions, instanceId, sessionPath: this.sessionPath });
+
+    const instance: ManagedInstance = { client, health: { reconnectAttempts: 0 }, connecting: null };
+    this.instances.set(instanceId, instance);
+    this.track(instanceId, instance);
+    return client;
+  }
+
+  /**
+   * Whether a client has been created for the instance
+   */
+  has(instanceId: string): boolean {
+    return this.instances.has(instanceId);
+  }
+
+  /**
+   * IDs of the instances with a created client
+   */
+  getInstanceIds(): string[] {
+    return [...this.instances.keys()];
+  }
+
+  /**
+   * Connect an instance, waiting for a free connect slot first.
+   * Resolves once the instance is connected, needs a QR / pairing code,
+   * or the attempt failed (check getHealth() for the outcome).
+   * @throws If the client's connect() throws
+   */
+  connect(instanceId: string): Promise<void> {
+    this.get(instanceId);
+    const instance = this.instances.get(instanceId)!;
+    if (!instance.connecting) {
+      instance.connecting = this.runConnect(instanceId, instance).finally(() => {
+        instance.connecting = null;
+      });
+    }
+    return instance.connecting;
+  }
+
+  /**
+   * Connect several instances (default: every discovered session), at most
+   * `maxConcurrentConnects` at a time
+   */
+  async connectAll(instanceIds: string[] = this.discover()): Promise<InstanceConnectResult[]> {
+    return Promise.all(
+      instanceIds.map(async (instanceId): Promise<InstanceConnectResult> => {
+        try {
+          await this.connect(instanceId);
+          const state = this.get(instanceId).getConnectionState();
+          return { instanceId, success: state === "connected" || state === "qr_required", state };
+        } catch (error) {
+          return {
+            instanceId,
+            success: false,
+            state: this.get(instanceId).getConnectionState(),
+            error: getErrorMessage(error),
+          };
+        }
+      })
+    );
+  }
+
+  /**
+   * Disconnect an instance (the session and client are kept)
+   */
+  async disconnect(instanceId: string): Promise<void> {
+    await this.instances.get(instanceId)?.client.disconnect();
+  }
+
+  /**
+   * Dispose an instance's client and stop managing it. The session stays on disk.
+   * @returns true if the instance was managed
+   */
+  async remove(instanceId: string): Promise<boolean> {
+    const instance = this.instances.get(instanceId);
+    if (!instance) return false;
+    this.instances.delete(instanceId);
+    await instance.client.dispose();
+    return true;
+  }
+
+  /**
+   * Dispose all clients
+   */
+  async dispose(): Promise<void> {
+    await Promise.all(this.getInstanceIds().map((instanceId) => this.remove(instanceId)));
+  }
+
+  /**
+   * Health of one instance, or null if it is not managed
+   */
+  getHealth(instanceId: string): InstanceHealth | null {
+    const instance = this.instances.get(instanceId);
+    if (!instance) return null;
+    return { instanceId, state: instance.client.getConnectionState(), ...instance.health };
+  }
+
+  /**
+   * Health of all managed instances
+   */
+  getAllHealth(): InstanceHealth[] {
+    return this.getInstanceIds().map((instanceId) => this.getHealth(instanceId)!);
+  }
+
+  private async runConnect(instanceId: string, instance: ManagedInstance): Promise<void> {
+    await this.acquireConnectSlot();
+    try {
+      if (this.instances.get(instanceId) !== instance) return; // Removed while queued
+
+      const { client } = instance;
+      const settled = this.waitForConnectOutcome(client);
+      try {
+        await client.connect();
+      } catch (error) {
+        settled.cancel();
+        instance.health.lastError = getErrorMessage(error);
+        throw error;
+      }
+      // connect() returns early when already connected or connecting
+      if (client.getConnectionState() === "connected") {
+        settled.cancel();
+        return;
+      }
+      await settled.promise;
+    } finally {
+      this.releaseConnectSlot();
+    }
+  }
+
+  /**
+   * Resolves on the first event ending a connect attempt, or after connectTimeoutMs
+   */
+  private waitForConnectOutcome(client: MiawClient): { promise: Promise<void>; cancel: () => void } {
+    let cancel = () => {};
+    const promise = new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        for (const event of CONNECT_SETTLED_EVENTS) {
+          client.removeListener(event, done);
+        }
+        resolve();
+      };
+      const timer = setTimeout(done, this.connectTimeoutMs);
+      for (const event of CONNECT_SETTLED_EVENTS) {
+        client.on(event, done);
+      }
+      cancel = done;
+    });
+    return { promise, cancel };
+  }
+
+  private async acquireConnectSlot(): Promise<void> {
+    if (this.activeConnects >= this.maxConcurrentConnects) {
+      // The releasing connect hands over its slot
+      await new Promise<void>((resolve) => this.connectWaiters.push(resolve));
+    } else {
+      this.activeConnects++;
+    }
+
+    // Space out connect starts, even when slots are free
+    const wait = this.lastConnectStart + this.connectDelayMs - Date.now();
+    this.lastConnectStart = Math.max(Date.now(), this.lastConnectStart + this.connectDelayMs);
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+
+  private releaseConnectSlot(): void {
+    const next = this.connectWaiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.activeConnects--;
+    }
+  }
+
+  /**
+   * Update health from the client's events and re-emit them tagged with the instance ID
+   */
+  private track(instanceId: string, instance: ManagedInstance): void {
+    const { client, health } = instance;
+
+    client.on("ready", () => {
+      health.reconnectAttempts = 0;
+      health.lastConnectedAt = Date.now();
+    });
+    client.on("reconnecting", (attempt) => {
+      health.reconnectAttempts = attempt;
+    });
+    client.on("message", () => {
+      health.lastMessageAt = Date.now();
+    });
+    client.on("disconnected", (reason) => {
+      health.lastDisconnectReason = reason;
+    });
+    client.on("error", (error) => {
+      health.lastError = error.message;
+    });
+
+    for (const event of Object.keys(FORWARDED_EVENTS) as (keyof MiawClientEvents)[]) {
+      client.on(event, (...args: unknown[]) => {
+        // An unhandled "error" event would throw; the health record keeps it
+        if (event === "error" && this.listenerCount("error") === 0) return;
+        (this.emit as (event: string, ...args: unknown[]) => boolean)(event, instanceId, ...args);
+      });
+    }
+  }
+
+  // TypeScript event emitter type safety
+  on<K extends keyof MiawManagerEvents>(event: K, listener: MiawManagerEvents[K]): this {
+    return super.on(event, listener);
+  }
+
+  emit<K extends keyof MiawManagerEvents>(event: K, ...args: Parameters<MiawManagerEvents[K]>): boolean {
+    return super.emit(event, ...args);
+  }
+}
@@ -45,6 +45,63 @@ export const TIMEOUTS = {
 
   /** Final message pause (50 milliseconds) */
   FINAL_MESSAGE_PAUSE: 50,
+
+  /** Debounce before buffered messages are flushed to the journal (1 second) */
+  STORE_FLUSH_DELAY: 1_000,
+
+  /** Debounce before message retention is applied after new messages (1 second) */
+  RETENTION_DEBOUNCE: 1_000,
+
+  /** Interval of the periodic message retention sweep (60 seconds) */
+  RETENTION_SWEEP_INTERVAL: 60_000,
+
+  /** How long a contact's live location is kept after its last update (8 hours, the longest share) */
+  LIVE_LOCATION_TTL: 28_800_000,
+
+  /** Default waitForReply timeout (60 seconds) */
+  WAIT_FOR_REPLY: 60_000,
+
+  /** Default dialog inactivity timeout (5 minutes) */
+  DIALOG_TIMEOUT: 300_000,
+
+  /** Default max random delay added between queued sends (1 second) */
+  SEND_QUEUE_JITTER: 1_000,
+
+  /** Debounce before pending queued sends are persisted (1 second) */
+  SEND_QUEUE_SAVE_DEBOUNCE: 1_000,
+
+  /** Default min delay between queued sends to the same recipient (3 seconds) */
+  SEND_QUEUE_RECIPIENT_DELAY: 3_000,
+
+  /** Default backoff before the first retry of a queued send (2 seconds) */
+  SEND_QUEUE_RETRY_BACKOFF: 2_000,
+
+  /** Default delay between campaign messages without a send queue (3 seconds) */
+  CAMPAIGN_SEND_DELAY: 3_000,
+
+  /** Debounce before campaign progress is persisted (1 second) */
+  CAMPAIGN_SAVE_DEBOUNCE: 1_000,
+
+  /** Default timeout of a webhook request (10 seconds) */
+  WEBHOOK_TIMEOUT: 10_000,
+
+  /** Default backoff before the first webhook retry (1 second) */
+  WEBHOOK_RETRY_BACKOFF: 1_000,
+
+  /** Default min delay between MiawManager connect starts (1 second) */
+  MANAGER_CONNECT_DELAY: 1_000,
+
+  /** Default delay between catalog writes during syncCatalog() (1 second) */
+  CATALOG_SYNC_DELAY: 1_000,
+
+  /** How long sendProduct() reuses a catalog read to resolve product IDs (1 minute) */
+  CATALOG_LOOKUP_TTL: 60_000,
+
+  /** How late a scheduled newsletter post may go out before it counts as missed (5 minutes) */
+  NEWSLETTER_MISSED_GRACE: 300_000,
+
+  /** How often the newsletter schedule is re-read for posts edited by other processes (1 minute) */
+  NEWSLETTER_SCHEDULE_POLL: 60_000,
 } as const;
 
 /**
@@ -60,4 +117,22 @@ export const THRESHOLDS = {
    * storm when WhatsApp rejects the handshake (e.g. statusCode 428) before a QR.
    */
   PRELOGIN_MAX_RECONNECT_ATTEMPTS: 5,
+
+  /** Appends to a chat's message journal before it is compacted */
+  JOURNAL_COMPACT_APPENDS: 1_000,
+
+  /** Default max queued sends per minute */
+  SEND_QUEUE_MESSAGES_PER_MINUTE: 20,
+
+  /** Default retries of a queued send after transient failures */
+  SEND_QUEUE_MAX_RETRIES: 3,
+
+  /** Default retries of a failed webhook delivery */
+  WEBHOOK_MAX_RETRIES: 5,
+
+  /** Default max size of media inlined in webhook payloads (5 MB) */
+  WEBHOOK_MAX_MEDIA_BYTES: 5 * 1024 * 1024,
+
+  /** Default max MiawManager instances connecting at once */
+  MANAGER_MAX_CONCURRENT_CONNECTS: 3,
 } as const;
@@ -1,11 +1,13 @@
 import { useMultiFileAuthState } from "@whiskeysockets/baileys";
 import { join } from "node:path";
 import { rmSync, existsSync } from "node:fs";
+import type { AuthStateHandle, AuthStateProvider } from "../types/auth.js";
 
 /**
  * Handles authentication state management
+ * Default AuthStateProvider: one file per key under `sessionPath/instanceId`
  */
-export class AuthHandler {
+export class AuthHandler implements AuthStateProvider {
   private sessionPath: string;
   private instanceId: string;
 
@@ -18,7 +20,7 @@ export class AuthHandler {
    * Initialize and load auth state
    * Returns { state, saveCreds } from Baileys
    */
-  async initialize() {
+  async initialize(): Promise<AuthStateHandle> {
     const authPath = join(this.sessionPath, this.instanceId);
     return await useMultiFileAuthState(authPath);
   }
@@ -42,4 +44,11 @@ export class AuthHandler {
     }
     return false;
   }
+
+  /**
+   * AuthStateProvider alias for clearSession()
+   */
+  clear(): boolean {
+    return this.clearSession();
+  }
 }
@@ -0,0 +1,532 @@
+import { randomUUID } from "node:crypto";
+import type { MessageReceiptUpdate, MiawMessage, SendMessageResult } from "../types/index.js";
+import type {
+  CampaignData,
+  CampaignInfo,
+  CampaignMedia,
+  CampaignRecipient,
+  CampaignRecipientStatus,
+  CampaignStats,
+  CreateCampaignOptions,
+} from "../types/campaign.js";
+import { MessageHandler } from "./MessageHandler.js";
+import { getErrorMessage } from "../utils/type-guards.js";
+
+/** Opt-out keywords used when a campaign does not set its own */
+const DEFAULT_OPT_OUT_KEYWORDS = ["STOP", "UNSUBSCRIBE"];
+
+/** Template placeholder, e.g. `{{name}}` or `{{ name }}` */
+const TEMPLATE_VARIABLE = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/** Receipt progression; a recipient's status only ever moves forward */
+const STATUS_RANK: Partial<Record<CampaignRecipientStatus, number>> = {
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  played: 4,
+};
+
+/**
+ * Callbacks connecting a CampaignManager to its client
+ */
+export interface CampaignHooks {
+  /** Send one campaign message (text, or media with the text as caption) */
+  send: (jid: string, text: string, media?: CampaignMedia) => Promise<SendMessageResult>;
+
+  /** Whether messages can go out now (client connected) */
+  isReady: () => boolean;
+
+  /** Contact name for a recipient JID, if known */
+  resolveName: (jid: string) => string | undefined;
+
+  /** Delay between messages for campaigns without `delayMs` */
+  defaultDelayMs: () => number;
+
+  /** Called with a fresh snapshot whenever a campaign changes */
+  onUpdate: (info: CampaignInfo) => void;
+
+  /** Called whenever campaigns or opt-outs change (for persistence) */
+  onChange: () => void;
+}
+
+/**
+ * Handle to a campaign created via MiawClient.createCampaign()
+ */
+export class Campaign {
+  constructor(
+    /** Campaign ID */
+    readonly id: string,
+    private manager: CampaignManager
+  ) {}
+
+  /** Start sending (draft or paused campaigns) */
+  start(): void {
+    this.manager.start(this.id);
+  }
+
+  /** Pause after the message currently being sent */
+  pause(): void {
+    this.manager.pause(this.id);
+  }
+
+  /** Continue a paused campaign */
+  resume(): void {
+    this.manager.start(this.id);
+  }
+
+  /** Whether this process started or resumed the campaign (and so can pause it) */
+  isActive(): boolean {
+    return this.manager.isActive(this.id);
+  }
+
+  /** Stop for good; pending recipients are not messaged */
+  cancel(): void {
+    this.manager.cancel(this.id);
+  }
+
+  /** Current state and stats */
+  getInfo(): CampaignInfo {
+    return this.manager.getInfo(this.id)!;
+  }
+
+  /** Resolves once the campaign is completed or cancelled */
+  waitForCompletion(): Promise<CampaignInfo> {
+    return this.manager.waitForCompletion(this.id);
+  }
+}
+
+/**
+ * Runs broadcast campaigns: renders the template per recipient, sends one
+ * message at a time, tracks delivery through message receipts and handles
+ * opt-out replies.
+ *
+ * Campaigns run while the client is ready; after a disconnect, call
+ * resumeAll() once it is ready again. Recipients whose send failed because
+ * the connection dropped stay pending, so persisted campaigns continue where
+ * they stopped. Restored campaigns only run once resumed (or restored with
+ * `resumeRunning`), so another process loading the store doesn't send them.
+ */
+export class CampaignManager {
+  private campaigns: Map<string, CampaignData> = new Map();
+  private optOuts: Set<string> = new Set();
+  // Sent message ID -> campaign ID, for matching receipts
+  private messageIndex: Map<string, string> = new Map();
+  // Campaigns whose send loop is active
+  private looping: Set<string> = new Set();
+  // Campaigns started or resumed in this process (the ones resumeAll() runs)
+  private active: Set<string> = new Set();
+  // Pending delays between sends, by campaign ID (cut short by pause/cancel)
+  private sleepers: Map<string, { timer: NodeJS.Timeout; wake: () => void }> = new Map();
+  private completionWaiters: Map<string, ((info: CampaignInfo) => void)[]> = new Map();
+  private stopped = false;
+
+  constructor(private hooks: CampaignHooks) {}
+
+  /**
+   * Create a campaign in "draft" state
+   * @throws If the template or recipients are missing, or the ID is taken
+   */
+  create(options: CreateCampaignOptions): Campaign {
+    if (!options.template?.trim()) {
+      throw new Error("Campaign template is required");
+    }
+    const id = options.id || randomUUID();
+    if (this.campaigns.has(id)) {
+      throw new Error(`Campaign "${id}" already exists`);
+    }
+
+    const recipients: CampaignRecipient[] = [];
+    const seen = new Set<string>();
+    for (const input of options.recipients || []) {
+      const { phone, variables } = typeof input === "string" ? { phone: input, variables: undefined } : input;
+      if (!phone) continue;
+      const jid = MessageHandler.formatPhoneToJid(String(phone));
+      if (jid.startsWith("@") || seen.has(jid)) continue;
+      seen.add(jid);
+      recipients.push({ jid, phone: jid.split("@")[0], status: "pending", variables });
+    }
+    if (recipients.length === 0) {
+      throw new Error("Campaign needs at least one recipient");
+    }
+
+    const data: CampaignData = {
+      id,
+      name: options.name || id,
+      status: "draft",
+      template: options.template,
+      media: options.media,
+      variables: options.variables,
+      optOutKeywords: (options.optOutKeywords ?? DEFAULT_OPT_OUT_KEYWORDS).map((k) =>
+        k.trim().toUpperCase()
+      ),
+      optOutReply: options.optOutReply,
+      delayMs: options.delayMs,
+      recipients,
+      createdAt: Date.now(),
+    };
+    this.campaigns.set(id, data);
+    this.changed(data);
+    return new Campaign(id, this);
+  }
+
+  /**
+   * Get a handle to an existing campaign
+   */
+  get(id: string): Campaign | undefined {
+    return this.campaigns.has(id) ? new Campaign(id, this) : undefined;
+  }
+
+  /**
+   * Snapshot of one campaign with stats
+   */
+  getInfo(id: string): CampaignInfo | undefined {
+    const data = this.campaigns.get(id);
+    return data ? CampaignManager.toInfo(data) : undefined;
+  }
+
+  /**
+   * Snapshots of all campaigns, oldest first
+   */
+  list(): CampaignInfo[] {
+    return [...this.campaigns.values()].map((data) => CampaignManager.toInfo(data));
+  }
+
+  /**
+   * Raw campaign state for persistence
+   */
+  exportCampaigns(): CampaignData[] {
+    return [...this.campaigns.values()];
+  }
+
+  /**
+   * Start or resume a campaign
+   * @throws If the campaign does not exist or is already finished
+   */
+  start(id: string): void {
+    const data = this.require(id);
+    if (data.status === "completed" || data.status === "cancelled") {
+      throw new Error(`Campaign "${id}" is ${data.status}`);
+    }
+    if (data.status !== "running" || data.ownerPid !== process.pid) {
+      data.status = "running";
+      data.startedAt ??= Date.now();
+      data.ownerPid = process.pid;
+      this.changed(data);
+    }
+    this.active.add(id);
+    void this.run(data);
+  }
+
+  /**
+   * Whether a campaign was started or resumed in this process. A restored
+   * campaign that is "running" but not active is run by the process in its
+   * `ownerPid`, or was left running by a process that exited.
+   */
+  isActive(id: string): boolean {
+    return this.active.has(id);
+  }
+
+  /**
+   * Pause a running campaign. The message being sent (if any) still completes.
+   */
+  pause(id: string): void {
+    const data = this.require(id);
+    if (data.status !== "running") return;
+    data.status = "paused";
+    this.wake(id);
+    this.changed(data);
+  }
+
+  /**
+   * Cancel a campaign; recipients not yet messaged stay pending
+   */
+  cancel(id: string): void {
+    const data = this.require(id);
+    if (data.status === "completed" || data.status === "cancelled") return;
+    data.status = "cancelled";
+    data.completedAt = Date.now();
+    this.wake(id);
+    this.changed(data);
+    this.settle(data);
+  }
+
+  /**
+   * Resolves once the campaign is completed or cancelled
+   */
+  waitForCompletion(id: string): Promise<CampaignInfo> {
+    const data = this.require(id);
+    if (data.status === "completed" || data.status === "cancelled") {
+      return Promise.resolve(CampaignManager.toInfo(data));
+    }
+    return new Promise((resolve) => {
+      const waiters = this.completionWaiters.get(id) ?? [];
+      waiters.push(resolve);
+      this.completionWaiters.set(id, waiters);
+    });
+  }
+
+  /**
+   * Load campaigns and opt-outs persisted by a previous run. Campaigns that
+   * were running continue once resumed via their handle, or on the next
+   * resumeAll() when `resumeRunning` is set.
+   */
+  restore(campaigns: CampaignData[], optOuts: string[], resumeRunning: boolean = false): void {
+    for (const phone of optOuts) {
+      this.optOuts.add(phone);
+    }
+    for (const data of campaigns) {
+      if (!data?.id || !Array.isArray(data.recipients) || this.campaigns.has(data.id)) continue;
+      this.campaigns.set(data.id, data);
+      if (resumeRunning && data.status === "running") {
+        data.ownerPid = process.pid;
+        this.active.add(data.id);
+      }
+      for (const recipient of data.recipients) {
+        if (recipient.messageId) {
+          this.messageIndex.set(recipient.messageId, data.id);
+        }
+      }
+    }
+  }
+
+  /**
+   * (Re)start the send loop of every running campaign started or resumed in
+   * this process, e.g. once the client is ready again
+   */
+  resumeAll(): void {
+    this.stopped = false;
+    for (const data of this.campaigns.values()) {
+      if (data.status === "running" && this.active.has(data.id)) {
+        void this.run(data);
+      }
+    }
+  }
+
+  /**
+   * Stop all send loops without changing campaign states (used on dispose)
+   */
+  stop(): void {
+    this.stopped = true;
+    for (const id of [...this.sleepers.keys()]) {
+      this.wake(id);
+    }
+  }
+
+  /**
+   * Advance a recipient's status from a `message_receipt` update
+   */
+  handleReceipt(update: MessageReceiptUpdate): void {
+    if (!update.fromMe) return;
+    const data = this.campaigns.get(this.messageIndex.get(update.messageId) ?? "");
+    const recipient = data?.recipients.find((r) => r.messageId === update.messageId);
+    if (!data || !recipient) return;
+
+    const status: CampaignRecipientStatus = update.type === "delivery" ? "delivered" : update.type;
+    if ((STATUS_RANK[status] ?? 0) > (STATUS_RANK[recipient.status] ?? 0)) {
+      recipient.status = status;
+      recipient.updatedAt = Date.now();
+      this.changed(data);
+    }
+  }
+
+  /**
+   * Check an incoming message for an opt-out keyword. The sender must be a
+   * recipient of a campaign using that keyword; they are then opted out of
+   * all campaigns and get the campaign's `optOutReply`, if set.
+   * @returns true if the message opted the sender out
+   */
+  async handleIncoming(message: MiawMessage): Promise<boolean> {
+    if (message.fromMe || message.isGroup || !message.text) return false;
+    const keyword = message.text.trim().toUpperCase();
+    const phone = message.senderPhone || MessageHandler.formatPhoneToJid(message.from).split("@")[0];
+
+    const campaign = [...this.campaigns.values()].find(
+      (data) =>
+        data.optOutKeywords.includes(keyword) &&
+        data.recipients.some((r) => r.phone === phone || r.jid === message.from)
+    );
+    if (!campaign || this.optOuts.has(phone)) return false;
+
+    this.optOuts.add(phone);
+    for (const data of this.campaigns.values()) {
+      const recipient = data.recipients.find((r) => r.phone === phone || r.jid === message.from);
+      if (recipient?.status === "pending") {
+        recipient.status = "opted_out";
+        recipient.updatedAt = Date.now();
+        this.changed(data);
+      }
+    }
+    this.hooks.onChange();
+
+    if (campaign.optOutReply) {
+      await this.hooks.send(message.from, campaign.optOutReply);
+    }
+    return true;
+  }
+
+  /**
+   * Whether a phone number (or JID) opted out of campaigns
+   */
+  isOptedOut(phone: string): boolean {
+    return this.optOuts.has(MessageHandler.formatPhoneToJid(phone).split("@")[0]);
+  }
+
+  /**
+   * Phone numbers that opted out of campaigns
+   */
+  getOptOuts(): string[] {
+    return [...this.optOuts];
+  }
+
+  /**
+   * Allow campaigns to message a phone number again
+   * @returns true if it was opted out
+   */
+  removeOptOut(phone: string): boolean {
+    const removed = this.optOuts.delete(MessageHandler.formatPhoneToJid(phone).split("@")[0]);
+    if (removed) {
+      this.hooks.onChange();
+    }
+    return removed;
+  }
+
+  /**
+   * Render a template: `{{phone}}`, `{{name}}` and `{{firstName}}`, then the
+   * campaign's and the recipient's variables (later ones win)
+   */
+  render(data: CampaignData, recipient: CampaignRecipient): string {
+    const name = this.hooks.resolveName(recipient.jid) || recipient.phone;
+    const variables: Record<string, string> = {
+      phone: recipient.phone,
+      name,
+      firstName: name.split(/\s+/)[0],
+      ...data.variables,
+      ...recipient.variables,
+    };
+    return data.template.replace(TEMPLATE_VARIABLE, (_match, key: string) => variables[key] ?? "");
+  }
+
+  /**
+   * Snapshot of a campaign with recipient counts
+   */
+  static toInfo(data: CampaignData): CampaignInfo {
+    const stats: CampaignStats = {
+      total: data.recipients.length,
+      pending: 0,
+      sent: 0,
+      delivered: 0,
+      read: 0,
+      failed: 0,
+      optedOut: 0,
+    };
+    for (const { status } of data.recipients) {
+      if (status === "opted_out") stats.optedOut++;
+      else if (status === "played") stats.read++;
+      else stats[status]++;
+    }
+    return {
+      ...data,
+      recipients: data.recipients.map((r) => ({ ...r })),
+      stats,
+    };
+  }
+
+  /**
+   * Send loop: one pending recipient at a time until the campaign is done,
+   * paused or the client goes offline
+   */
+  private async run(data: CampaignData): Promise<void> {
+    if (this.looping.has(data.id)) return;
+    this.looping.add(data.id);
+
+    try {
+      while (data.status === "running" && !this.stopped && this.hooks.isReady()) {
+        const recipient = data.recipients.find((r) => r.status === "pending");
+        if (!recipient) {
+          data.status = "completed";
+          data.completedAt = Date.now();
+          this.changed(data);
+          this.settle(data);
+          return;
+        }
+
+        if (this.optOuts.has(recipient.phone)) {
+          recipient.status = "opted_out";
+          recipient.updatedAt = Date.now();
+          this.changed(data);
+          continue;
+        }
+
+        let result: SendMessageResult;
+        try {
+          result = await this.hooks.send(recipient.jid, this.render(data, recipient), data.media);
+        } catch (error) {
+          result = { success: false, error: getErrorMessage(error) };
+        }
+
+        if (result.success) {
+          recipient.status = "sent";
+          recipient.messageId = result.messageId;
+          recipient.error = undefined;
+          if (result.messageId) {
+            this.messageIndex.set(result.messageId, data.id);
+          }
+        } else if (!this.hooks.isReady()) {
+          // Connection dropped: not the recipient's fault, retry once ready
+          break;
+        } else {
+          recipient.status = "failed";
+          recipient.error = result.error || "Send failed";
+        }
+        recipient.updatedAt = Date.now();
+        this.changed(data);
+
+        const delayMs = data.delayMs ?? this.hooks.defaultDelayMs();
+        if (delayMs > 0 && data.recipients.some((r) => r.status === "pending")) {
+          await this.sleep(data.id, delayMs);
+        }
+      }
+    } finally {
+      this.looping.delete(data.id);
+    }
+  }
+
+  private sleep(id: string, ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.sleepers.delete(id);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      this.sleepers.set(id, { timer, wake });
+    });
+  }
+
+  private wake(id: string): void {
+    this.sleepers.get(id)?.wake();
+  }
+
+  private require(id: string): CampaignData {
+    const data = this.campaigns.get(id);
+    if (!data) {
+      throw new Error(`Campaign "${id}" not found`);
+    }
+    return data;
+  }
+
+  private settle(data: CampaignData): void {
+    const waiters = this.completionWaiters.get(data.id);
+    if (!waiters) return;
+    this.completionWaiters.delete(data.id);
+    const info = CampaignManager.toInfo(data);
+    for (const resolve of waiters) {
+      resolve(info);
+    }
+  }
+
+  private changed(data: CampaignData): void {
+    this.hooks.onUpdate(CampaignManager.toInfo(data));
+    this.hooks.onChange();
+  }
+}
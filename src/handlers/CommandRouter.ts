@@ -0,0 +1,133 @@
+import type {
+  CommandHandler,
+  CommandInfo,
+  CommandOptions,
+  MessageContext,
+} from "../types/middleware.js";
+
+interface RegisteredCommand {
+  name: string;
+  triggers: string[];
+  handler: CommandHandler;
+  options: CommandOptions;
+}
+
+/**
+ * Routes messages to command handlers by their first word
+ * (e.g. "/help", "!kick @user").
+ */
+export class CommandRouter {
+  private commands: RegisteredCommand[] = [];
+
+  /**
+   * @param isGroupAdmin - Resolves whether a participant is an admin of a group
+   *   (used by the `adminOnly` guard)
+   */
+  constructor(
+    private isGroupAdmin: (groupJid: string, participantJid: string) => Promise<boolean>
+  ) {}
+
+  /**
+   * Register a command
+   * @param name - Command name (with prefix unless `options.prefix` is set)
+   * @param handler - Handler run when the command matches
+   * @param options - Prefix, aliases and guards
+   */
+  register(name: string, handler: CommandHandler, options: CommandOptions = {}): void {
+    const prefixes =
+      options.prefix === undefined
+        ? [""]
+        : Array.isArray(options.prefix)
+        ? options.prefix
+        : [options.prefix];
+    const triggers = [name, ...(options.aliases ?? [])].flatMap((word) =>
+      prefixes.map((prefix) => prefix + word)
+    );
+    if (triggers.some((t) => !t.trim() || /\s/.test(t))) {
+      throw new Error(`Invalid command "${name}": triggers must be single words`);
+    }
+    this.commands.push({ name, triggers, handler, options });
+  }
+
+  /**
+   * List registered commands
+   */
+  list(): CommandInfo[] {
+    return this.commands.map(({ name, triggers, options }) => ({
+      name,
+      triggers: [...triggers],
+      description: options.description,
+    }));
+  }
+
+  /**
+   * Number of registered commands
+   */
+  get size(): number {
+    return this.commands.length;
+  }
+
+  /**
+   * Run the first command matching the message text, if any
+   * @returns true if a command matched (even when a guard rejected it)
+   */
+  async handle(ctx: MessageContext): Promise<boolean> {
+    const text = ctx.message.text?.trim();
+    if (!text) return false;
+
+    const [word] = text.split(/\s+/, 1);
+    for (const command of this.commands) {
+      const trigger = command.options.caseSensitive
+        ? command.triggers.find((t) => t === word)
+        : command.triggers.find((t) => t.toLowerCase() === word.toLowerCase());
+      if (!trigger) continue;
+
+      if (!(await this.passesGuards(ctx, command.options))) {
+        if (command.options.deniedMessage) {
+          await ctx.reply(command.options.deniedMessage);
+        }
+        return true;
+      }
+
+      const argText = text.slice(word.length).trim();
+      await command.handler({
+        ...ctx,
+        command: command.name,
+        trigger,
+        args: CommandRouter.parseArgs(argText),
+        argText,
+      });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Check the group/DM/admin guards of a command
+   */
+  private async passesGuards(ctx: MessageContext, options: CommandOptions): Promise<boolean> {
+    const { message } = ctx;
+    if ((options.groupOnly || options.adminOnly) && !message.isGroup) return false;
+    if (options.dmOnly && message.isGroup) return false;
+    if (options.adminOnly) {
+      if (!message.participant) return false;
+      return this.isGroupAdmin(message.from, message.participant);
+    }
+    return true;
+  }
+
+  /**
+   * Split command arguments on whitespace; single- or double-quoted strings
+   * are kept as one argument
+   * @example parseArgs('add "John Doe" 42') // ["add", "John Doe", "42"]
+   */
+  static parseArgs(argText: string): string[] {
+    const args: string[] = [];
+    const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(argText)) !== null) {
+      args.push(match[1] ?? match[2] ?? match[3]);
+    }
+    return args;
+  }
+}
@@ -0,0 +1,211 @@
+import type { MiawClient } from "../client/MiawClient.js";
+import type { MiawMessage } from "../types/index.js";
+import type { MiawMiddleware } from "../types/middleware.js";
+import type {
+  DialogControl,
+  DialogOptions,
+  DialogSession,
+  DialogStepHandler,
+  DialogStore,
+} from "../types/dialog.js";
+import { MemoryDialogStore } from "../store/MemoryDialogStore.js";
+import { TIMEOUTS } from "../constants/timeouts.js";
+
+/**
+ * Multi-step conversation state machine.
+ *
+ * Each user (chat + participant, with @lid resolved to the phone JID) has at
+ * most one session per DialogManager. While a session is active, the manager's
+ * middleware routes that user's messages to the handler of the current step
+ * instead of passing them down the pipeline.
+ *
+ * @example
+ * const signup = new DialogManager<{ name?: string }>(client)
+ *   .step("name", async (ctx, dialog) => {
+ *     dialog.data.name = ctx.message.text;
+ *     await ctx.reply("And your email?");
+ *     dialog.goto("email");
+ *   })
+ *   .step("email", async (ctx, dialog) => {
+ *     await ctx.reply(`Thanks ${dialog.data.name}!`);
+ *     dialog.end();
+ *   });
+ *
+ * client.use(signup.middleware());
+ * client.command("/signup", async (ctx) => {
+ *   await signup.start(ctx.message, "name");
+ *   await ctx.reply("What's your name?");
+ * });
+ */
+export class DialogManager<T extends object = Record<string, unknown>> {
+  private steps: Map<string, DialogStepHandler<T>> = new Map();
+  private store: DialogStore<T>;
+  private timeoutMs: number;
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(
+    private client: MiawClient,
+    private options: DialogOptions<T> = {}
+  ) {
+    this.store = options.store || new MemoryDialogStore<T>();
+    this.timeoutMs = options.timeoutMs ?? TIMEOUTS.DIALOG_TIMEOUT;
+  }
+
+  /**
+   * Register the handler for a step
+   * @returns this (chainable)
+   */
+  step(name: string, handler: DialogStepHandler<T>): this {
+    this.steps.set(name, handler);
+    return this;
+  }
+
+  /**
+   * Start (or restart) a dialog for the sender of a message
+   * @param message - Message from the user the dialog is with
+   * @param step - First step; its handler runs on the user's next message
+   * @param data - Initial data
+   */
+  async start(message: MiawMessage, step: string, data?: T): Promise<void> {
+    if (!this.steps.has(step)) {
+      throw new Error(`Unknown dialog step "${step}"`);
+    }
+    const key = await this.keyFor(message);
+    await this.save(key, { step, data: data ?? ({} as T), expiresAt: 0 });
+  }
+
+  /**
+   * Get the active (non-expired) session for the sender of a message
+   */
+  async get(message: MiawMessage): Promise<DialogSession<T> | undefined> {
+    return this.load(await this.keyFor(message));
+  }
+
+  /**
+   * End the sender's dialog, if any
+   */
+  async end(message: MiawMessage): Promise<void> {
+    await this.remove(await this.keyFor(message));
+  }
+
+  /**
+   * Middleware that routes messages of users with an active dialog to the
+   * current step handler. Other messages continue down the pipeline.
+   */
+  middleware(): MiawMiddleware {
+    return async (ctx, next) => {
+      const key = await this.keyFor(ctx.message);
+      const session = await this.load(key);
+      if (!session) {
+        await next();
+        return;
+      }
+
+      const handler = this.steps.get(session.step);
+      if (!handler) {
+        await this.remove(key);
+        throw new Error(`Unknown dialog step "${session.step}"`);
+      }
+
+      let ended = false;
+      const dialog: DialogControl<T> = {
+        key,
+        step: session.step,
+        data: session.data,
+        goto: (step) => {
+          if (!this.steps.has(step)) {
+            throw new Error(`Unknown dialog step "${step}"`);
+          }
+          dialog.step = step;
+        },
+        end: () => {
+          ended = true;
+        },
+      };
+
+      await handler(ctx, dialog);
+
+      if (ended) {
+        await this.remove(key);
+      } else {
+        await this.save(key, { step: dialog.step, data: dialog.data, expiresAt: 0 });
+      }
+    };
+  }
+
+  /**
+   * Session key for a message's sender: `<chat JID>|<sender JID>`, with @lid
+   * JIDs resolved to phone JIDs and device suffixes removed
+   */
+  async keyFor(message: MiawMessage): Promise<string> {
+    const chat = await this.normalizeJid(message.from);
+    const sender = message.isGroup
+      ? await this.normalizeJid(message.participant ?? "")
+      : chat;
+    return `${chat}|${sender}`;
+  }
+
+  /**
+   * Stop all timeout timers (sessions stay in the store)
+   */
+  dispose(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  private async normalizeJid(jid: string): Promise<string> {
+    const resolved = await this.client.resolveLidToJidAsync(jid);
+    const [user, server] = resolved.split("@");
+    return server ? `${user.split(":")[0]}@${server}` : resolved;
+  }
+
+  /**
+   * Load a session, dropping it if it has expired
+   */
+  private async load(key: string): Promise<DialogSession<T> | undefined> {
+    const session = await this.store.get(key);
+    if (session && session.expiresAt <= Date.now()) {
+      await this.remove(key);
+      return undefined;
+    }
+    return session;
+  }
+
+  /**
+   * Save a session with a fresh expiry and (re)arm its timeout timer
+   */
+  private async save(key: string, session: DialogSession<T>): Promise<void> {
+    session.expiresAt = Date.now() + this.timeoutMs;
+    await this.store.set(key, session);
+
+    clearTimeout(this.timers.get(key));
+    const timer = setTimeout(() => void this.expire(key), this.timeoutMs);
+    timer.unref?.();
+    this.timers.set(key, timer);
+  }
+
+  private async remove(key: string): Promise<void> {
+    clearTimeout(this.timers.get(key));
+    this.timers.delete(key);
+    await this.store.delete(key);
+  }
+
+  /**
+   * Timeout timer callback: drop the session if it was not renewed meanwhile
+   */
+  private async expire(key: string): Promise<void> {
+    this.timers.delete(key);
+    try {
+      const session = await this.store.get(key);
+      if (!session || session.expiresAt > Date.now()) return;
+      await this.store.delete(key);
+      await this.options.onTimeout?.(key, session);
+    } catch (error) {
+      if (this.client.listenerCount("error") > 0) {
+        this.client.emit("error", error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+}
@@ -1,4 +1,14 @@
-import { MiawMessage, MediaInfo } from "../types/index.js";
+import {
+  MiawMessage,
+  MediaInfo,
+  ContactCard,
+  LocationInfo,
+  PollInfo,
+  OrderMessageInfo,
+  QuotedMessage,
+  NewsletterMessage,
+  NewsletterReactionCount,
+} from "../types/index.js";
 import type { MiawLogger } from "../types/logger.js";
 import {
   BaileysMessageUpsert,
@@ -7,6 +17,19 @@ import {
   BaileysDocumentMessage,
   BaileysAudioMessage,
   BaileyStickerMessage,
+  BaileysLocationMessage,
+  BaileysLiveLocationMessage,
+  BaileysContactMessage,
+  BaileysPollCreationMessage,
+  BaileysGroupInviteMessage,
+  BaileysProductMessage,
+  BaileysOrderMessage,
+  BaileysEventMessage,
+  BaileysScheduledCallMessage,
+  BaileysMessageContent,
+  BaileysContextInfo,
+  BaileysBinaryNode,
+  Long,
 } from "../types/baileys.js";
 import { isBaileysMessageUpsert, getErrorMessage } from "../utils/type-guards.js";
 
@@ -53,49 +76,12 @@ export class MessageHandler {
           MessageHandler.formatJidToPhone(message.key.remoteJidAlt ?? "");
       const senderName = message.pushName;
 
-      // Extract text content and type based on message type
-      let text: string | undefined;
-      let type: MiawMessage["type"] = "unknown";
-      let media: MediaInfo | undefined;
-
-      // Check for view-once messages first
-      const viewOnceMessage =
-        message.message?.viewOnceMessage?.message ||
-        message.message?.viewOnceMessageV2?.message ||
-        message.message?.viewOnceMessageV2Extension?.message;
-      const actualMessage = viewOnceMessage || message.message;
-      const isViewOnce = !!viewOnceMessage;
-
-      if (actualMessage?.conversation) {
-        text = actualMessage.conversation;
-        type = "text";
-      } else if (actualMessage?.extendedTextMessage?.text) {
-        text = actualMessage.extendedTextMessage.text;
-        type = "text";
-      } else if (actualMessage?.imageMessage) {
-        const imgMsg = actualMessage.imageMessage;
-        text = imgMsg.caption;
-        type = "image";
-        media = this.extractImageMetadata(imgMsg, isViewOnce);
-      } else if (actualMessage?.videoMessage) {
-        const vidMsg = actualMessage.videoMessage;
-        text = vidMsg.caption;
-        type = "video";
-        media = this.extractVideoMetadata(vidMsg, isViewOnce);
-      } else if (actualMessage?.documentMessage) {
-        const docMsg = actualMessage.documentMessage;
-        text = docMsg.caption;
-        type = "document";
-        media = this.extractDocumentMetadata(docMsg);
-      } else if (actualMessage?.audioMessage) {
-        const audMsg = actualMessage.audioMessage;
-        type = "audio";
-        media = this.extractAudioMetadata(audMsg);
-      } else if (actualMessage?.stickerMessage) {
-        const stkMsg = actualMessage.stickerMessage;
-        type = "sticker";
-        media = this.extractStickerMetadata(stkMsg);
-      }
+      // Extract text content, type and payload based on message type
+      const { type, text, media, payload } = this.extractContent(message.message);
+
+      // Reply / mention / forward context
+      const contextInfo = this.extractContextInfo(message.message);
+      const chatJid = message.key.remoteJid ?? "";
 
       const normalized: MiawMessage = {
         id: message.key.id || "",
@@ -111,6 +97,12 @@ export class MessageHandler {
         fromMe: message.key.fromMe ?? false,
         type,
         media,
+        ...payload,
+        quoted: contextInfo ? this.extractQuoted(contextInfo, chatJid) : undefined,
+        mentions: contextInfo?.mentionedJid?.length ? [...contextInfo.mentionedJid] : undefined,
+        isForwarded: contextInfo?.isForwarded || undefined,
+        forwardingScore: contextInfo?.forwardingScore || undefined,
+        ephemeralExpiration: contextInfo?.expiration || undefined,
         raw: message,
       };
 
@@ -127,6 +119,248 @@ export class MessageHandler {
     }
   }
 
+  /**
+   * Peel the containers WhatsApp wraps message content in: the ephemeral
+   * wrapper used in chats with disappearing messages on, and the view-once
+   * wrappers (which may sit inside an ephemeral one).
+   * @param content - Baileys message content
+   * @returns The inner content and whether it was view-once
+   */
+  static unwrapContent(content: BaileysMessageContent | null | undefined): {
+    message: BaileysMessageContent | null | undefined;
+    isViewOnce: boolean;
+  } {
+    const inner = content?.ephemeralMessage?.message || content;
+    const viewOnceMessage =
+      inner?.viewOnceMessage?.message ||
+      inner?.viewOnceMessageV2?.message ||
+      inner?.viewOnceMessageV2Extension?.message;
+    return { message: viewOnceMessage || inner, isViewOnce: !!viewOnceMessage };
+  }
+
+  /**
+   * Newsletter post from a normalized message. Reaction and view counts are
+   * only known for fetched posts.
+   * @param message - Normalized message from a newsletter JID
+   * @param stats - Server ID, counts and edit state from the fetch response
+   */
+  static toNewsletterMessage(
+    message: MiawMessage,
+    stats: {
+      serverId?: string;
+      views?: number;
+      reactions?: NewsletterReactionCount[];
+      isEdited?: boolean;
+    } = {}
+  ): NewsletterMessage {
+    const raw = message.raw as { key?: { server_id?: string | null }; message?: BaileysMessageContent } | undefined;
+    const content = this.unwrapContent(raw?.message).message as
+      | Record<string, { url?: string | null } | undefined>
+      | null
+      | undefined;
+    const media = message.media ? content?.[`${message.type}Message`] : undefined;
+
+    return {
+      ...message,
+      newsletterId: message.from,
+      serverId: stats.serverId ?? raw?.key?.server_id ?? message.id,
+      views: stats.views,
+      reactions: stats.reactions ?? [],
+      isEdited: stats.isEdited ?? false,
+      content: message.text,
+      mediaUrl: media?.url ?? undefined,
+      mediaType: message.media ? message.type : undefined,
+    };
+  }
+
+  /**
+   * Parse the posts in a newsletter `messages` query response. Posts are sent
+   * unencrypted: each `<message>` carries the serialized message in
+   * `<plaintext>`, plus `<views_count>` and `<reactions>`. Posts that fail to
+   * decode are skipped.
+   * @param response - The query's response node
+   * @param newsletterId - Newsletter JID
+   * @param decode - Decodes a serialized message (proto.Message.decode)
+   * @param logger - Optional logger for skipped posts
+   */
+  static parseNewsletterMessages(
+    response: BaileysBinaryNode,
+    newsletterId: string,
+    decode: (bytes: Uint8Array) => BaileysMessageContent,
+    logger?: MiawLogger
+  ): NewsletterMessage[] {
+    const posts: NewsletterMessage[] = [];
+    const messagesNode =
+      this.childNode(response, "messages") ??
+      this.childNode(this.childNode(response, "message_updates"), "messages");
+
+    for (const node of this.childNodes(messagesNode, "message")) {
+      const serverId = node.attrs.server_id;
+      const plaintext = this.childNode(node, "plaintext")?.content;
+      // Updates-only entries (view/reaction counts) carry no content
+      if (!plaintext || Array.isArray(plaintext)) continue;
+
+      try {
+        let content = decode(
+          typeof plaintext === "string" ? Buffer.from(plaintext, "binary") : plaintext
+        );
+        // edit="1" marks an edited post; the content may still be the edit itself
+        let isEdited = node.attrs.edit === "1";
+        const edited = content.protocolMessage?.editedMessage;
+        if (content.protocolMessage?.type === 14 && edited) {
+          content = edited;
+          isEdited = true;
+        }
+
+        const message = this.normalize(
+          {
+            messages: [
+              {
+                key: { remoteJid: newsletterId, id: node.attrs.id || serverId, fromMe: false },
+                message: content,
+                messageTimestamp: Number(node.attrs.t) || undefined,
+              },
+            ],
+            type: "notify",
+          },
+          logger
+        );
+        if (!message) continue;
+
+        const views = this.childNode(node, "views_count")?.attrs.count;
+        const reactions = this.childNodes(this.childNode(node, "reactions"), "reaction").map(
+          (reaction) => ({ emoji: reaction.attrs.code ?? "", count: Number(reaction.attrs.count) || 0 })
+        );
+        posts.push(
+          this.toNewsletterMessage(message, {
+            serverId,
+            views: views !== undefined ? Number(views) : undefined,
+            reactions,
+            isEdited,
+          })
+        );
+      } catch (error: unknown) {
+        logger?.warn(`Failed to decode newsletter post ${serverId}: ${getErrorMessage(error)}`);
+      }
+    }
+
+    return posts;
+  }
+
+  /**
+   * First child of a response node with the given tag
+   */
+  private static childNode(node: BaileysBinaryNode | undefined, tag: string): BaileysBinaryNode | undefined {
+    return this.childNodes(node, tag)[0];
+  }
+
+  /**
+   * Children of a response node with the given tag
+   */
+  private static childNodes(node: BaileysBinaryNode | undefined, tag: string): BaileysBinaryNode[] {
+    return Array.isArray(node?.content) ? node.content.filter((child) => child.tag === tag) : [];
+  }
+
+  /**
+   * Extract type, text, media metadata and typed payload from message content
+   * (ephemeral and view-once wrappers are unwrapped)
+   * @param content - Baileys message content
+   */
+  private static extractContent(content: BaileysMessageContent | null | undefined): {
+    type: MiawMessage["type"];
+    text?: string;
+    media?: MediaInfo;
+    payload: Partial<MiawMessage>;
+  } {
+    let text: string | undefined;
+    let type: MiawMessage["type"] = "unknown";
+    let media: MediaInfo | undefined;
+    // Typed payload for non-media message types (location, poll, ...)
+    let payload: Partial<MiawMessage> = {};
+
+    const { message: actualMessage, isViewOnce } = this.unwrapContent(content);
+
+    if (actualMessage?.conversation) {
+      text = actualMessage.conversation;
+      type = "text";
+    } else if (actualMessage?.extendedTextMessage?.text) {
+      text = actualMessage.extendedTextMessage.text;
+      type = "text";
+    } else if (actualMessage?.imageMessage) {
+      const imgMsg = actualMessage.imageMessage;
+      text = imgMsg.caption;
+      type = "image";
+      media = this.extractImageMetadata(imgMsg, isViewOnce);
+    } else if (actualMessage?.videoMessage) {
+      const vidMsg = actualMessage.videoMessage;
+      text = vidMsg.caption;
+      type = "video";
+      media = this.extractVideoMetadata(vidMsg, isViewOnce);
+    } else if (actualMessage?.documentMessage) {
+      const docMsg = actualMessage.documentMessage;
+      text = docMsg.caption;
+      type = "document";
+      media = this.extractDocumentMetadata(docMsg);
+    } else if (actualMessage?.audioMessage) {
+      const audMsg = actualMessage.audioMessage;
+      type = "audio";
+      media = this.extractAudioMetadata(audMsg);
+    } else if (actualMessage?.stickerMessage) {
+      const stkMsg = actualMessage.stickerMessage;
+      type = "sticker";
+      media = this.extractStickerMetadata(stkMsg);
+    } else if (actualMessage) {
+      ({ type, text, payload } = this.extractPayload(actualMessage));
+    }
+
+    return { type, text, media, payload };
+  }
+
+  /**
+   * Find the contextInfo (reply/mention/forward data) of a message. WhatsApp
+   * attaches it to the inner content (extendedTextMessage, imageMessage, ...).
+   */
+  private static extractContextInfo(
+    content: BaileysMessageContent | null | undefined
+  ): BaileysContextInfo | undefined {
+    const { message } = this.unwrapContent(content);
+    if (!message) return undefined;
+    for (const value of Object.values(message)) {
+      const contextInfo = (value as { contextInfo?: BaileysContextInfo } | null)?.contextInfo;
+      if (contextInfo) {
+        return contextInfo;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Build the quoted message of a reply from its contextInfo
+   * @param contextInfo - The reply's contextInfo
+   * @param chatJid - Chat the reply was sent in (the quoted message's chat unless contextInfo says otherwise)
+   */
+  private static extractQuoted(
+    contextInfo: BaileysContextInfo,
+    chatJid: string
+  ): QuotedMessage | undefined {
+    if (!contextInfo.stanzaId) return undefined;
+
+    const participant = contextInfo.participant ?? undefined;
+    const { type, text, media, payload } = this.extractContent(contextInfo.quotedMessage);
+    return {
+      id: contextInfo.stanzaId,
+      from: contextInfo.remoteJid || chatJid,
+      participant,
+      senderPhone: participant ? this.formatJidToPhone(participant) : undefined,
+      // Resolved against our own JID by MiawClient
+      fromMe: false,
+      text,
+      type,
+      media,
+      ...payload,
+    };
+  }
+
   /**
    * Extract metadata from image message
    * @param imgMsg - Baileys image message
@@ -208,6 +442,313 @@ export class MessageHandler {
     };
   }
 
+  /**
+   * Map non-media message types to a MiawMessage type plus typed payload
+   * @param content - Baileys message content (view-once already unwrapped)
+   * @returns Type, optional text (caption / selection text) and payload fields
+   */
+  private static extractPayload(content: BaileysMessageContent): {
+    type: MiawMessage["type"];
+    text?: string;
+    payload: Partial<MiawMessage>;
+  } {
+    const pollMsg =
+      content.pollCreationMessage ||
+      content.pollCreationMessageV2 ||
+      content.pollCreationMessageV3;
+
+    if (content.locationMessage) {
+      const locMsg = content.locationMessage;
+      return {
+        type: "location",
+        text: locMsg.comment ?? undefined,
+        payload: { location: this.extractLocation(locMsg) },
+      };
+    }
+    if (content.liveLocationMessage) {
+      const liveMsg = content.liveLocationMessage;
+      return {
+        type: "live_location",
+        text: liveMsg.caption ?? undefined,
+        payload: { location: this.extractLiveLocation(liveMsg) },
+      };
+    }
+    if (content.contactMessage) {
+      return {
+        type: "contact",
+        payload: { contacts: [this.extractContactCard(content.contactMessage)] },
+      };
+    }
+    if (content.contactsArrayMessage) {
+      const cards = content.contactsArrayMessage.contacts || [];
+      return {
+        type: "contact",
+        payload: { contacts: cards.map((c) => this.extractContactCard(c)) },
+      };
+    }
+    if (pollMsg) {
+      return { type: "poll", payload: { poll: this.extractPoll(pollMsg) } };
+    }
+    if (content.groupInviteMessage) {
+      const invMsg = content.groupInviteMessage;
+      return {
+        type: "group_invite",
+        text: invMsg.caption ?? undefined,
+        payload: { groupInvite: this.extractGroupInvite(invMsg) },
+      };
+    }
+    if (content.productMessage) {
+      const prodMsg = content.productMessage;
+      return {
+        type: "product",
+        text: prodMsg.body ?? undefined,
+        payload: { product: this.extractProduct(prodMsg) },
+      };
+    }
+    if (content.orderMessage) {
+      const ordMsg = content.orderMessage;
+      return {
+        type: "order",
+        text: ordMsg.message ?? undefined,
+        payload: { order: this.extractOrder(ordMsg) },
+      };
+    }
+    if (content.eventMessage) {
+      return { type: "event", payload: { event: this.extractEvent(content.eventMessage) } };
+    }
+    if (content.scheduledCallCreationMessage) {
+      return {
+        type: "event",
+        payload: { event: this.extractScheduledCall(content.scheduledCallCreationMessage) },
+      };
+    }
+    if (content.buttonsResponseMessage) {
+      const btn = content.buttonsResponseMessage;
+      const text = btn.selectedDisplayText ?? undefined;
+      return {
+        type: "button_response",
+        text,
+        payload: { response: { id: btn.selectedButtonId ?? "", text } },
+      };
+    }
+    if (content.templateButtonReplyMessage) {
+      const btn = content.templateButtonReplyMessage;
+      const text = btn.selectedDisplayText ?? undefined;
+      return {
+        type: "button_response",
+        text,
+        payload: { response: { id: btn.selectedId ?? "", text } },
+      };
+    }
+    if (content.interactiveResponseMessage) {
+      const interactive = content.interactiveResponseMessage;
+      const text = interactive.body?.text ?? undefined;
+      return {
+        type: "button_response",
+        text,
+        payload: { response: { id: this.parseNativeFlowId(interactive.nativeFlowResponseMessage?.paramsJson), text } },
+      };
+    }
+    if (content.listResponseMessage) {
+      const list = content.listResponseMessage;
+      const text = list.title ?? undefined;
+      return {
+        type: "list_response",
+        text,
+        payload: {
+          response: {
+            id: list.singleSelectReply?.selectedRowId ?? "",
+            text,
+            description: list.description ?? undefined,
+          },
+        },
+      };
+    }
+    return { type: "unknown", payload: {} };
+  }
+
+  /**
+   * Extract a location payload from a location message
+   */
+  private static extractLocation(locMsg: BaileysLocationMessage): LocationInfo {
+    return {
+      latitude: locMsg.degreesLatitude ?? 0,
+      longitude: locMsg.degreesLongitude ?? 0,
+      name: locMsg.name ?? undefined,
+      address: locMsg.address ?? undefined,
+      url: locMsg.url ?? undefined,
+      accuracy: locMsg.accuracyInMeters ?? undefined,
+      speed: locMsg.speedInMps ?? undefined,
+      heading: locMsg.degreesClockwiseFromMagneticNorth ?? undefined,
+      live: locMsg.isLive ?? false,
+    };
+  }
+
+  /**
+   * Extract a location payload from a live location update
+   */
+  private static extractLiveLocation(liveMsg: BaileysLiveLocationMessage): LocationInfo {
+    return {
+      latitude: liveMsg.degreesLatitude ?? 0,
+      longitude: liveMsg.degreesLongitude ?? 0,
+      accuracy: liveMsg.accuracyInMeters ?? undefined,
+      speed: liveMsg.speedInMps ?? undefined,
+      heading: liveMsg.degreesClockwiseFromMagneticNorth ?? undefined,
+      live: true,
+      sequenceNumber: this.toNumber(liveMsg.sequenceNumber),
+    };
+  }
+
+  /**
+   * Extract a contact card from a contact message by parsing its vCard
+   */
+  private static extractContactCard(contactMsg: BaileysContactMessage): ContactCard {
+    const vcard = contactMsg.vcard ?? "";
+    const fields = this.parseVCard(vcard);
+    return {
+      fullName: fields.fullName || contactMsg.displayName || "",
+      phone: fields.phone || "",
+      organization: fields.organization,
+      vcard: vcard || undefined,
+    };
+  }
+
+  /**
+   * Parse name, phone (prefers the WhatsApp `waid`) and organization from a vCard
+   */
+  private static parseVCard(vcard: string): { fullName?: string; phone?: string; organization?: string } {
+    const result: { fullName?: string; phone?: string; organization?: string } = {};
+    for (const line of vcard.split(/\r?\n/)) {
+      const sep = line.indexOf(":");
+      if (sep < 0) continue;
+      const name = line.slice(0, sep).toUpperCase();
+      const value = line.slice(sep + 1).trim();
+      if (name === "FN" || name.startsWith("FN;")) {
+        result.fullName = value;
+      } else if (name === "ORG" || name.startsWith("ORG;")) {
+        result.organization = value.replace(/;+$/, "") || undefined;
+      } else if ((name === "TEL" || name.startsWith("TEL;")) && !result.phone) {
+        const waid = /waid=(\d+)/i.exec(name);
+        result.phone = waid ? waid[1] : value.replace(/\D/g, "") || undefined;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Extract the poll definition from a poll creation message
+   */
+  private static extractPoll(pollMsg: BaileysPollCreationMessage): PollInfo {
+    return {
+      name: pollMsg.name ?? "",
+      options: (pollMsg.options || []).map((o) => o.optionName ?? ""),
+      selectableCount: pollMsg.selectableOptionsCount ?? 0,
+    };
+  }
+
+  /**
+   * Extract the invite details from a group invite message
+   */
+  private static extractGroupInvite(invMsg: BaileysGroupInviteMessage): NonNullable<MiawMessage["groupInvite"]> {
+    return {
+      groupJid: invMsg.groupJid ?? "",
+      groupName: invMsg.groupName ?? undefined,
+      inviteCode: invMsg.inviteCode ?? "",
+      inviteExpiration: this.toNumber(invMsg.inviteExpiration),
+    };
+  }
+
+  /**
+   * Extract the product from a shared product message
+   */
+  private static extractProduct(prodMsg: BaileysProductMessage): NonNullable<MiawMessage["product"]> {
+    const product = prodMsg.product || {};
+    const price = this.toNumber(product.priceAmount1000);
+    const salePrice = this.toNumber(product.salePriceAmount1000);
+    return {
+      productId: product.productId ?? "",
+      title: product.title ?? undefined,
+      description: product.description ?? undefined,
+      price: price !== undefined ? price / 1000 : undefined,
+      salePrice: salePrice !== undefined ? salePrice / 1000 : undefined,
+      currency: product.currencyCode ?? undefined,
+      retailerId: product.retailerId ?? undefined,
+      url: product.url ?? undefined,
+      businessOwnerJid: prodMsg.businessOwnerJid ?? undefined,
+    };
+  }
+
+  /**
+   * Extract the order summary from an order message
+   */
+  private static extractOrder(ordMsg: BaileysOrderMessage): OrderMessageInfo {
+    const statuses: Record<number, OrderMessageInfo["status"]> = {
+      1: "inquiry",
+      2: "accepted",
+      3: "declined",
+    };
+    const total = this.toNumber(ordMsg.totalAmount1000);
+    return {
+      orderId: ordMsg.orderId ?? "",
+      token: ordMsg.token ?? undefined,
+      title: ordMsg.orderTitle ?? undefined,
+      itemCount: ordMsg.itemCount ?? undefined,
+      status: ordMsg.status ? statuses[ordMsg.status] : undefined,
+      sellerJid: ordMsg.sellerJid ?? undefined,
+      total: total !== undefined ? total / 1000 : undefined,
+      currency: ordMsg.totalCurrencyCode ?? undefined,
+    };
+  }
+
+  /**
+   * Extract the event details from an event message
+   */
+  private static extractEvent(evtMsg: BaileysEventMessage): NonNullable<MiawMessage["event"]> {
+    return {
+      name: evtMsg.name ?? "",
+      description: evtMsg.description ?? undefined,
+      location: evtMsg.location ? this.extractLocation(evtMsg.location) : undefined,
+      joinLink: evtMsg.joinLink ?? undefined,
+      startTime: this.toNumber(evtMsg.startTime),
+      endTime: this.toNumber(evtMsg.endTime),
+      isCanceled: evtMsg.isCanceled ?? false,
+      isScheduledCall: evtMsg.isScheduleCall || undefined,
+    };
+  }
+
+  /**
+   * Extract a scheduled call as an event
+   */
+  private static extractScheduledCall(callMsg: BaileysScheduledCallMessage): NonNullable<MiawMessage["event"]> {
+    const startMs = this.toNumber(callMsg.scheduledTimestampMs);
+    return {
+      name: callMsg.title ?? "",
+      startTime: startMs !== undefined ? Math.floor(startMs / 1000) : undefined,
+      isCanceled: false,
+      isScheduledCall: true,
+    };
+  }
+
+  /**
+   * Get the selected id from a native flow response (`paramsJson` carries `{"id": ...}`)
+   */
+  private static parseNativeFlowId(paramsJson?: string | null): string {
+    if (!paramsJson) return "";
+    try {
+      const params = JSON.parse(paramsJson);
+      return typeof params?.id === "string" ? params.id : "";
+    } catch {
+      return "";
+    }
+  }
+
+  /**
+   * Convert a protobuf number/Long to a number (undefined when missing)
+   */
+  private static toNumber(value: number | Long | null | undefined): number | undefined {
+    return value === null || value === undefined ? undefined : Number(value);
+  }
+
   /**
    * Extract chat ID from message
    */
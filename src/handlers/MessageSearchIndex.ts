@@ -0,0 +1,247 @@
+import type { MiawMessage } from "../types/index.js";
+
+/** Word characters: letters and digits in any script */
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/** BM25 term-frequency saturation and length normalization */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Characters of context kept before the first match in a snippet */
+const SNIPPET_LEAD = 30;
+
+/** Default snippet length (characters of the original text) */
+const SNIPPET_LENGTH = 100;
+
+/**
+ * Inverted index over the searchable text of stored messages (text,
+ * captions, file names, poll/event/location names, contact names), keyed by
+ * chat JID + message ID. MiawClient keeps it in sync as messages are stored,
+ * evicted by retention and reloaded from the store.
+ */
+export class MessageSearchIndex {
+  // term -> doc key -> occurrences of the term in that message
+  private postings: Map<string, Map<string, number>> = new Map();
+  // doc key -> the message's terms, in order (for removal and phrase matching)
+  private docs: Map<string, string[]> = new Map();
+  // Sum of all messages' term counts (for the average message length)
+  private totalTerms = 0;
+
+  /**
+   * Lowercase a word and strip diacritics, so "Café" matches "cafe"
+   */
+  static normalizeTerm(word: string): string {
+    return word.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+  }
+
+  /**
+   * Split text into normalized terms
+   */
+  static tokenize(text: string): string[] {
+    return Array.from(text.matchAll(WORD_PATTERN), (m) => this.normalizeTerm(m[0]));
+  }
+
+  /**
+   * Everything a message can be found by, joined by newlines
+   */
+  static searchableText(message: MiawMessage): string {
+    return [
+      message.text,
+      message.media?.fileName,
+      message.location?.name,
+      message.location?.address,
+      message.poll?.name,
+      ...(message.poll?.options ?? []),
+      ...(message.contacts ?? []).map((c) => c.fullName),
+      message.product?.title,
+      message.order?.title,
+      message.event?.name,
+      message.event?.description,
+    ]
+      .filter((part): part is string => !!part)
+      .join("\n");
+  }
+
+  /**
+   * Index key of a message
+   */
+  static key(chatJid: string, messageId: string): string {
+    return `${chatJid}\n${messageId}`;
+  }
+
+  /**
+   * Number of indexed messages
+   */
+  get size(): number {
+    return this.docs.size;
+  }
+
+  /**
+   * Index a message (re-indexes it if already present). Messages without an
+   * ID or searchable text are skipped.
+   */
+  add(chatJid: string, message: MiawMessage): void {
+    if (!message.id) return;
+    const key = MessageSearchIndex.key(chatJid, message.id);
+    this.remove(chatJid, message.id);
+
+    const terms = MessageSearchIndex.tokenize(MessageSearchIndex.searchableText(message));
+    if (terms.length === 0) return;
+
+    this.docs.set(key, terms);
+    this.totalTerms += terms.length;
+    for (const term of terms) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(key, (posting.get(key) ?? 0) + 1);
+    }
+  }
+
+  /**
+   * Drop a message from the index
+   */
+  remove(chatJid: string, messageId: string): void {
+    const key = MessageSearchIndex.key(chatJid, messageId);
+    const terms = this.docs.get(key);
+    if (!terms) return;
+
+    this.docs.delete(key);
+    this.totalTerms -= terms.length;
+    for (const term of new Set(terms)) {
+      const posting = this.postings.get(term);
+      posting?.delete(key);
+      if (posting?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+  }
+
+  /**
+   * Empty the index
+   */
+  clear(): void {
+    this.postings.clear();
+    this.docs.clear();
+    this.totalTerms = 0;
+  }
+
+  /**
+   * Find the messages containing every query term (the last one also matches
+   * as a prefix, for search-as-you-type) and score them with BM25, so rare
+   * words and short messages rank higher. Messages containing the query as
+   * a phrase score double.
+   * @returns Doc key -> score
+   */
+  match(query: string): Map<string, number> {
+    const queryTerms = MessageSearchIndex.tokenize(query);
+    const scores = new Map<string, number>();
+    if (queryTerms.length === 0) return scores;
+
+    const total = this.docs.size;
+    const averageLength = this.totalTerms / total;
+    queryTerms.forEach((queryTerm, i) => {
+      const isLast = i === queryTerms.length - 1;
+      const termScores = new Map<string, number>();
+
+      for (const term of this.expandTerm(queryTerm, isLast)) {
+        const posting = this.postings.get(term)!;
+        const idf = Math.log(1 + (total - posting.size + 0.5) / (posting.size + 0.5));
+        for (const [key, count] of posting) {
+          const lengthNorm = 1 - BM25_B + (BM25_B * this.docs.get(key)!.length) / averageLength;
+          const score = (idf * count * (BM25_K1 + 1)) / (count + BM25_K1 * lengthNorm);
+          termScores.set(key, (termScores.get(key) ?? 0) + score);
+        }
+      }
+
+      if (i === 0) {
+        for (const [key, score] of termScores) scores.set(key, score);
+        return;
+      }
+      for (const [key, score] of scores) {
+        const termScore = termScores.get(key);
+        if (termScore === undefined) {
+          scores.delete(key);
+        } else {
+          scores.set(key, score + termScore);
+        }
+      }
+    });
+
+    if (queryTerms.length > 1) {
+      for (const [key, score] of scores) {
+        if (this.containsPhrase(this.docs.get(key)!, queryTerms)) {
+          scores.set(key, score * 2);
+        }
+      }
+    }
+    return scores;
+  }
+
+  /**
+   * Excerpt of `text` around the first match of `query`, with matched words
+   * wrapped in `pre` / `post`. Without a match, the start of the text.
+   */
+  static snippet(
+    text: string,
+    query: string,
+    pre: string = "**",
+    post: string = "**",
+    length: number = SNIPPET_LENGTH
+  ): string {
+    const queryTerms = this.tokenize(query);
+    const last = queryTerms[queryTerms.length - 1];
+    const matches = Array.from(text.matchAll(WORD_PATTERN)).filter((m) => {
+      const term = this.normalizeTerm(m[0]);
+      return queryTerms.includes(term) || (!!last && term.startsWith(last));
+    });
+
+    const firstIndex = matches[0]?.index ?? 0;
+    const start = Math.max(0, Math.min(firstIndex - SNIPPET_LEAD, text.length - length));
+    const end = Math.min(text.length, start + length);
+
+    let snippet = "";
+    let cursor = start;
+    for (const m of matches) {
+      const from = m.index!;
+      const to = from + m[0].length;
+      if (from < start || to > end) continue;
+      snippet += text.slice(cursor, from) + pre + m[0] + post;
+      cursor = to;
+    }
+    snippet += text.slice(cursor, end);
+
+    snippet = snippet.replace(/\s+/g, " ").trim();
+    return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
+  }
+
+  /**
+   * Indexed terms a query term matches: itself, plus (for the last query
+   * term) every term it is a prefix of
+   */
+  private expandTerm(queryTerm: string, prefix: boolean): string[] {
+    if (!prefix) {
+      return this.postings.has(queryTerm) ? [queryTerm] : [];
+    }
+    return [...this.postings.keys()].filter((term) => term.startsWith(queryTerm));
+  }
+
+  /**
+   * Whether `terms` contains the query terms consecutively (last one as a prefix)
+   */
+  private containsPhrase(terms: string[], queryTerms: string[]): boolean {
+    const lastIndex = queryTerms.length - 1;
+    for (let i = 0; i + lastIndex < terms.length; i++) {
+      if (
+        queryTerms.every((q, j) =>
+          j === lastIndex ? terms[i + j].startsWith(q) : terms[i + j] === q
+        )
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,330 @@
+import { randomUUID } from "node:crypto";
+import type { SendMessageResult } from "../types/index.js";
+import type {
+  ScheduleNewsletterPostOptions,
+  ScheduledPost,
+  ScheduledPostContent,
+} from "../types/newsletter-schedule.js";
+import { TIMEOUTS } from "../constants/timeouts.js";
+import { assertTimeZone, parseZonedTime, systemTimeZone } from "../utils/time-zone.js";
+import { getErrorMessage } from "../utils/type-guards.js";
+
+/** Longest delay setTimeout supports (~24.8 days); later posts re-arm on wake */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Callbacks connecting a NewsletterScheduler to its client
+ */
+export interface NewsletterSchedulerHooks {
+  /** Publish one post to its newsletter */
+  publish: (post: ScheduledPost) => Promise<SendMessageResult>;
+
+  /** Whether posts can go out now (client connected) */
+  isReady: () => boolean;
+
+  /** Called with a snapshot whenever a post changes */
+  onUpdate: (post: ScheduledPost) => void;
+
+  /** Called whenever the schedule changes (for persistence) */
+  onChange: () => void;
+
+  /**
+   * Read the persisted schedule (optional). It is merged in before publishing
+   * and polled while waiting, so posts added or cancelled by another process
+   * sharing the store are picked up.
+   */
+  load?: () => Promise<ScheduledPost[]>;
+}
+
+/**
+ * Publishes scheduled newsletter posts at their publish time, one at a time.
+ *
+ * Posts are only published while the client is ready; call resume() once it
+ * is ready again. A post whose time passed more than a grace period before it
+ * could go out (client offline, process not running) was missed and is
+ * published late or skipped per its `missedPolicy`. Posts whose publish
+ * failed because the connection dropped stay scheduled. With a `load` hook,
+ * edits other processes made to the persisted schedule are merged in.
+ */
+export class NewsletterScheduler {
+  private posts: Map<string, ScheduledPost> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private publishing = false;
+  private stopped = false;
+
+  constructor(
+    private hooks: NewsletterSchedulerHooks,
+    private missedGraceMs: number = TIMEOUTS.NEWSLETTER_MISSED_GRACE
+  ) {}
+
+  /**
+   * Validate options into a new "scheduled" post (without scheduling it)
+   * @throws If the newsletter ID, content, publish time or time zone is invalid
+   */
+  static createPost(options: ScheduleNewsletterPostOptions, now: number = Date.now()): ScheduledPost {
+    if (!options.newsletterId?.endsWith("@newsletter")) {
+      throw new Error("Invalid newsletter ID. Must end with @newsletter");
+    }
+    this.validateContent(options.content);
+
+    const timeZone = options.timeZone || systemTimeZone();
+    assertTimeZone(timeZone);
+    const publishAt =
+      typeof options.publishAt === "string"
+        ? parseZonedTime(options.publishAt, timeZone)
+        : new Date(options.publishAt).getTime();
+    if (!Number.isFinite(publishAt)) {
+      throw new Error("Invalid publish time");
+    }
+    if (publishAt < now - TIMEOUTS.NEWSLETTER_MISSED_GRACE) {
+      throw new Error(`Publish time is in the past: ${new Date(publishAt).toISOString()}`);
+    }
+
+    const missedPolicy = options.missedPolicy ?? "publish";
+    if (missedPolicy !== "publish" && missedPolicy !== "skip") {
+      throw new Error(`Invalid missed policy: ${String(missedPolicy)}`);
+    }
+
+    return {
+      id: options.id || randomUUID(),
+      newsletterId: options.newsletterId,
+      content: options.content,
+      status: "scheduled",
+      publishAt,
+      timeZone,
+      missedPolicy,
+      createdAt: now,
+    };
+  }
+
+  /**
+   * Schedule a post
+   * @throws If the options are invalid or the ID is taken
+   */
+  schedule(options: ScheduleNewsletterPostOptions): ScheduledPost {
+    const post = NewsletterScheduler.createPost(options);
+    if (this.posts.has(post.id)) {
+      throw new Error(`Scheduled post "${post.id}" already exists`);
+    }
+    this.posts.set(post.id, post);
+    this.changed(post);
+    this.arm();
+    return { ...post };
+  }
+
+  /**
+   * Snapshot of one post
+   */
+  get(id: string): ScheduledPost | undefined {
+    const post = this.posts.get(id);
+    return post && { ...post };
+  }
+
+  /**
+   * Snapshots of all posts (or one newsletter's), by publish time
+   */
+  list(newsletterId?: string): ScheduledPost[] {
+    return [...this.posts.values()]
+      .filter((post) => !newsletterId || post.newsletterId === newsletterId)
+      .sort((a, b) => a.publishAt - b.publishAt)
+      .map((post) => ({ ...post }));
+  }
+
+  /**
+   * Cancel a post that hasn't been published yet
+   * @returns true if the post was scheduled and is now cancelled
+   */
+  cancel(id: string): boolean {
+    const post = this.posts.get(id);
+    if (post?.status !== "scheduled") return false;
+    post.status = "cancelled";
+    post.updatedAt = Date.now();
+    this.changed(post);
+    this.arm();
+    return true;
+  }
+
+  /**
+   * Raw schedule for persistence
+   */
+  exportPosts(): ScheduledPost[] {
+    return [...this.posts.values()];
+  }
+
+  /**
+   * Load posts persisted by a previous run. Scheduled posts are published
+   * after the next resume().
+   */
+  restore(posts: ScheduledPost[]): void {
+    for (const post of posts) {
+      if (!NewsletterScheduler.isPost(post) || this.posts.has(post.id)) continue;
+      this.posts.set(post.id, post);
+    }
+    this.arm();
+  }
+
+  /**
+   * Merge in the persisted schedule as another process may have left it:
+   * new posts are added, and posts changed there more recently than here
+   * (e.g. cancelled) take that state. Doesn't trigger onChange.
+   */
+  merge(posts: ScheduledPost[]): void {
+    let merged = false;
+    for (const post of posts) {
+      if (!NewsletterScheduler.isPost(post)) continue;
+      const current = this.posts.get(post.id);
+      if (!current) {
+        this.posts.set(post.id, post);
+      } else if ((post.updatedAt ?? post.createdAt) > (current.updatedAt ?? current.createdAt)) {
+        // Update in place: publishDue() may hold this object
+        Object.assign(current, post);
+      } else {
+        continue;
+      }
+      merged = true;
+      this.hooks.onUpdate({ ...(current ?? post) });
+    }
+    if (merged && !this.publishing) {
+      this.arm();
+    }
+  }
+
+  /**
+   * Publish posts that are due (or were missed) and wait for the next one,
+   * e.g. once the client is ready again
+   */
+  resume(): void {
+    this.stopped = false;
+    void this.publishDue();
+  }
+
+  /**
+   * Stop publishing without changing post states (used on dispose)
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private static isPost(post: ScheduledPost | undefined): post is ScheduledPost {
+    return !!post?.id && !!post.content && typeof post.publishAt === "number";
+  }
+
+  /**
+   * @throws If the content is incomplete for its type
+   */
+  private static validateContent(content: ScheduledPostContent | undefined): void {
+    switch (content?.type) {
+      case "text":
+        if (!content.text?.trim()) throw new Error("Text post needs text");
+        return;
+      case "image":
+      case "video":
+        if (!content.source) throw new Error(`${content.type === "image" ? "Image" : "Video"} post needs a source`);
+        return;
+      case "poll":
+        if (!content.name?.trim()) throw new Error("Poll post needs a question");
+        if (!Array.isArray(content.options) || content.options.length < 2) {
+          throw new Error("A poll needs at least 2 options");
+        }
+        return;
+      default:
+        throw new Error(`Invalid post type: ${String((content as { type?: unknown } | undefined)?.type)}`);
+    }
+  }
+
+  /**
+   * Publish every due post in publish-time order, then wait for the next one
+   */
+  private async publishDue(): Promise<void> {
+    if (this.publishing) return;
+    this.publishing = true;
+
+    try {
+      while (!this.stopped && this.hooks.isReady()) {
+        await this.loadStored();
+        const now = Date.now();
+        const post = this.list().find((p) => p.status === "scheduled" && p.publishAt <= now);
+        if (!post) break;
+        const data = this.posts.get(post.id)!;
+
+        if (now - data.publishAt > this.missedGraceMs && data.missedPolicy === "skip") {
+          data.status = "skipped";
+          data.error = "Publish time missed while offline";
+          data.updatedAt = now;
+          this.changed(data);
+          continue;
+        }
+
+        let result: SendMessageResult;
+        try {
+          result = await this.hooks.publish({ ...data });
+        } catch (error) {
+          result = { success: false, error: getErrorMessage(error) };
+        }
+
+        // A post cancelled while it was being published still went out
+        if (result.success) {
+          data.status = "published";
+          data.messageId = result.messageId;
+          data.publishedAt = Date.now();
+          data.error = undefined;
+        } else if (!this.hooks.isReady()) {
+          // Connection dropped: retry once ready
+          break;
+        } else {
+          data.status = "failed";
+          data.error = result.error || "Publish failed";
+        }
+        data.updatedAt = Date.now();
+        this.changed(data);
+      }
+    } finally {
+      this.publishing = false;
+      this.arm();
+    }
+  }
+
+  /**
+   * Merge in the persisted schedule through the load hook, if any
+   */
+  private async loadStored(): Promise<void> {
+    if (!this.hooks.load) return;
+    try {
+      this.merge(await this.hooks.load());
+    } catch {
+      // Keep going with the schedule we have
+    }
+  }
+
+  /**
+   * Set the timer for the next scheduled post, or the next poll of the
+   * persisted schedule (while ready; resume() re-arms)
+   */
+  private arm(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.stopped || !this.hooks.isReady()) return;
+
+    const next = this.list().find((post) => post.status === "scheduled");
+    const poll = this.hooks.load ? TIMEOUTS.NEWSLETTER_SCHEDULE_POLL : Infinity;
+    if (!next && poll === Infinity) return;
+    const untilNext = next ? Math.max(next.publishAt - Date.now(), 0) : Infinity;
+    const delay = Math.min(untilNext, poll, MAX_TIMER_DELAY);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.publishDue();
+    }, delay);
+    this.timer.unref?.();
+  }
+
+  private changed(post: ScheduledPost): void {
+    this.hooks.onUpdate({ ...post });
+    this.hooks.onChange();
+  }
+}
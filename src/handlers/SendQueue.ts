@@ -0,0 +1,264 @@
+import { randomUUID } from "node:crypto";
+import type {
+  QueuedSend,
+  QueuedSendMethod,
+  SendMessageResult,
+  SendQueueOptions,
+} from "../types/index.js";
+import { TIMEOUTS, THRESHOLDS } from "../constants/timeouts.js";
+import { getErrorMessage } from "../utils/type-guards.js";
+
+/** Errors worth retrying: connection drops, timeouts and server-side rate limits */
+const TRANSIENT_ERROR =
+  /not connected|connection (state|closed|lost|failure)|timed? ?out|rate-overlimit|too many|ECONNRESET|ETIMEDOUT|EPIPE|socket hang up|stream errored/i;
+
+/**
+ * Callbacks connecting a SendQueue to its client
+ */
+export interface SendQueueHooks {
+  /** Perform the send, bypassing the queue */
+  execute: (item: QueuedSend) => Promise<SendMessageResult>;
+
+  /** Whether sends can go out now (client connected) */
+  isReady: () => boolean;
+
+  /** Called after a send went out */
+  onSent: (item: QueuedSend, result: SendMessageResult) => void;
+
+  /** Called when a send failed for good */
+  onFailed: (item: QueuedSend, error: string) => void;
+
+  /** Called whenever the pending items change (for persistence; read them with list()) */
+  onChange: () => void;
+}
+
+/**
+ * Rate-limited outbound send queue with retries (see SendQueueOptions).
+ *
+ * Items are sent one at a time in FIFO order, skipping items that are
+ * waiting for a retry backoff or for their recipient's spacing. Processing
+ * pauses while `isReady()` is false; call resume() once the client is ready.
+ */
+export class SendQueue {
+  private items: QueuedSend[] = [];
+  // Resolvers of enqueue() callers, by item ID (restored items have none)
+  private waiters: Map<string, (result: SendMessageResult) => void> = new Map();
+  private lastSentByRecipient: Map<string, number> = new Map();
+  private nextSlotAt = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private sending = false;
+  private stopped = false;
+
+  private interval: number;
+  private jitterMs: number;
+  private perRecipientDelayMs: number;
+  private maxRetries: number;
+  private retryBackoffMs: number;
+
+  constructor(
+    private hooks: SendQueueHooks,
+    options: SendQueueOptions = {}
+  ) {
+    this.interval =
+      60_000 / (options.messagesPerMinute ?? THRESHOLDS.SEND_QUEUE_MESSAGES_PER_MINUTE);
+    this.jitterMs = options.jitterMs ?? TIMEOUTS.SEND_QUEUE_JITTER;
+    this.perRecipientDelayMs = options.perRecipientDelayMs ?? TIMEOUTS.SEND_QUEUE_RECIPIENT_DELAY;
+    this.maxRetries = options.maxRetries ?? THRESHOLDS.SEND_QUEUE_MAX_RETRIES;
+    this.retryBackoffMs = options.retryBackoffMs ?? TIMEOUTS.SEND_QUEUE_RETRY_BACKOFF;
+  }
+
+  /**
+   * Queue a send
+   * @returns The new item and a promise resolving with the final send result
+   */
+  enqueue(
+    method: QueuedSendMethod,
+    args: unknown[]
+  ): { item: QueuedSend; result: Promise<SendMessageResult> } {
+    const now = Date.now();
+    const item: QueuedSend = {
+      id: randomUUID(),
+      method,
+      to: String(args[0]),
+      args,
+      attempts: 0,
+      queuedAt: now,
+      nextAttemptAt: now,
+    };
+    const result = new Promise<SendMessageResult>((resolve) => {
+      this.waiters.set(item.id, resolve);
+    });
+    this.items.push(item);
+    this.changed();
+    this.schedule();
+    return { item, result };
+  }
+
+  /**
+   * Re-add items persisted by a previous run (no caller awaits them)
+   */
+  restore(items: QueuedSend[]): void {
+    const known = new Set(this.items.map((i) => i.id));
+    const restored = items.filter((i) => i?.id && i.method && !known.has(i.id));
+    if (restored.length === 0) return;
+    this.items.push(...restored);
+    this.schedule();
+  }
+
+  /**
+   * Continue processing (e.g. after the client reconnected)
+   */
+  resume(): void {
+    this.stopped = false;
+    this.schedule();
+  }
+
+  /**
+   * Stop processing. Pending items are kept (and stay persisted). Callers
+   * still waiting on enqueue() results stay pending until resume(), or get
+   * `{ success: false, error: reason }` when a reason is given (no resume
+   * will follow, e.g. on dispose).
+   */
+  stop(reason?: string): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (reason) {
+      for (const item of this.items) {
+        this.settle(item, { success: false, error: reason });
+      }
+    }
+  }
+
+  /**
+   * Remove all pending items; their callers get `{ success: false }`
+   * @returns Number of removed items
+   */
+  clear(): number {
+    const count = this.items.length;
+    for (const item of this.items) {
+      this.settle(item, { success: false, error: "Send queue cleared" });
+    }
+    this.items = [];
+    this.changed();
+    return count;
+  }
+
+  /**
+   * Pending items, in queue order
+   */
+  list(): QueuedSend[] {
+    return this.items.map((item) => ({ ...item }));
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Arm the timer for the next eligible item, if not already armed
+   */
+  private schedule(): void {
+    if (this.timer || this.sending || this.stopped || !this.hooks.isReady()) return;
+
+    const next = this.pickNext();
+    if (!next) return;
+
+    const delay = Math.max(0, Math.max(next.at, this.nextSlotAt) - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.process();
+    }, delay);
+  }
+
+  /**
+   * The item that becomes eligible first (FIFO among equals)
+   */
+  private pickNext(): { item: QueuedSend; at: number } | null {
+    let best: { item: QueuedSend; at: number } | null = null;
+    for (const item of this.items) {
+      const lastSent = this.lastSentByRecipient.get(item.to) ?? 0;
+      const at = Math.max(item.nextAttemptAt, lastSent + this.perRecipientDelayMs);
+      if (!best || at < best.at) {
+        best = { item, at };
+      }
+    }
+    return best;
+  }
+
+  private async process(): Promise<void> {
+    if (this.stopped || !this.hooks.isReady()) return;
+
+    const next = this.pickNext();
+    if (!next || next.at > Date.now()) {
+      this.schedule();
+      return;
+    }
+
+    const { item } = next;
+    this.sending = true;
+    item.attempts++;
+
+    let result: SendMessageResult;
+    try {
+      result = await this.hooks.execute(item);
+    } catch (error) {
+      result = { success: false, error: getErrorMessage(error) };
+    }
+
+    const now = Date.now();
+    this.lastSentByRecipient.set(item.to, now);
+    this.nextSlotAt = now + this.interval + Math.random() * this.jitterMs;
+    this.sending = false;
+
+    // Skip items cleared while sending
+    if (this.items.includes(item)) {
+      this.handleResult(item, result, now);
+    }
+
+    this.schedule();
+  }
+
+  /**
+   * Complete, reschedule or fail an item after a send attempt
+   */
+  private handleResult(item: QueuedSend, result: SendMessageResult, now: number): void {
+    if (result.success) {
+      this.remove(item);
+      this.hooks.onSent(item, result);
+      this.settle(item, result);
+      return;
+    }
+
+    const error = result.error || "Send failed";
+    item.lastError = error;
+    if (!this.hooks.isReady()) {
+      // Connection dropped mid-send: not the item's fault, retry once ready
+      item.attempts--;
+      this.changed();
+    } else if (TRANSIENT_ERROR.test(error) && item.attempts <= this.maxRetries) {
+      item.nextAttemptAt = now + this.retryBackoffMs * 2 ** (item.attempts - 1);
+      this.changed();
+    } else {
+      this.remove(item);
+      this.hooks.onFailed(item, error);
+      this.settle(item, result);
+    }
+  }
+
+  private remove(item: QueuedSend): void {
+    this.items = this.items.filter((i) => i !== item);
+    this.changed();
+  }
+
+  private settle(item: QueuedSend, result: SendMessageResult): void {
+    this.waiters.get(item.id)?.(result);
+    this.waiters.delete(item.id);
+  }
+
+  private changed(): void {
+    this.hooks.onChange();
+  }
+}
@@ -0,0 +1,206 @@
+import {
+  BufferJSON,
+  initAuthCreds,
+  proto,
+  type AuthenticationCreds,
+  type SignalDataSet,
+  type SignalDataTypeMap,
+} from "@whiskeysockets/baileys";
+import { createRequire } from "node:module";
+import { dirname } from "node:path";
+import { existsSync, mkdirSync } from "node:fs";
+import type { AuthStateHandle, AuthStateProvider } from "../types/auth.js";
+
+/**
+ * Minimal synchronous SQLite API shared by `node:sqlite` (DatabaseSync) and
+ * `better-sqlite3`
+ */
+interface SqliteStatement {
+  run(...params: unknown[]): { changes: number | bigint };
+  get(...params: unknown[]): unknown;
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+const require = createRequire(import.meta.url);
+
+/** Row key used for the credentials entry */
+const CREDS_CATEGORY = "creds";
+
+/**
+ * Open a SQLite database with whichever driver is available:
+ * the built-in `node:sqlite` (Node.js >= 22.5) or the `better-sqlite3` package.
+ */
+function openDatabase(dbPath: string): SqliteDatabase {
+  try {
+    const { DatabaseSync } = require("node:sqlite");
+    return new DatabaseSync(dbPath);
+  } catch {
+    // node:sqlite unavailable (older Node.js or behind --experimental-sqlite)
+  }
+
+  try {
+    const Database = require("better-sqlite3");
+    return new Database(dbPath);
+  } catch {
+    // better-sqlite3 not installed
+  }
+
+  throw new Error(
+    "SqliteAuthHandler requires Node.js >= 22.5 (node:sqlite) or the better-sqlite3 package"
+  );
+}
+
+/**
+ * AuthStateProvider that keeps credentials and signal keys in a single SQLite
+ * file. Several instances can share one file; rows are keyed by instanceId.
+ * Key updates from Baileys are written in one transaction.
+ *
+ * @example
+ * const client = new MiawClient({
+ *   instanceId: "bot1",
+ *   authState: new SqliteAuthHandler("./data/auth.db", "bot1"),
+ * });
+ */
+export class SqliteAuthHandler implements AuthStateProvider {
+  private dbPath: string;
+  private instanceId: string;
+  private db: SqliteDatabase | null = null;
+
+  constructor(dbPath: string, instanceId: string) {
+    this.dbPath = dbPath;
+    this.instanceId = instanceId;
+  }
+
+  /**
+   * Load auth state from the database, creating fresh credentials if this
+   * instance has none yet
+   */
+  async initialize(): Promise<AuthStateHandle> {
+    const creds: AuthenticationCreds =
+      this.readData(CREDS_CATEGORY, "") || initAuthCreds();
+
+    return {
+      state: {
+        creds,
+        keys: {
+          get: async <T extends keyof SignalDataTypeMap>(type: T, ids: string[]) => {
+            const data: { [id: string]: SignalDataTypeMap[T] } = {};
+            for (const id of ids) {
+              let value = this.readData(type, id);
+              if (type === "app-state-sync-key" && value) {
+                value = proto.Message.AppStateSyncKeyData.fromObject(value);
+              }
+              data[id] = value;
+            }
+            return data;
+          },
+          set: async (data: SignalDataSet) => {
+            this.writeKeys(data);
+          },
+        },
+      },
+      saveCreds: async () => {
+        this.writeData(CREDS_CATEGORY, "", creds);
+      },
+    };
+  }
+
+  /**
+   * Get the path to the SQLite database file
+   */
+  getDatabasePath(): string {
+    return this.dbPath;
+  }
+
+  /**
+   * Delete this instance's credentials and keys (other instances sharing the
+   * file are untouched)
+   */
+  clear(): boolean {
+    const result = this.getDatabase()
+      .prepare("DELETE FROM auth_state WHERE instance_id = ?")
+      .run(this.instanceId);
+    return Number(result.changes) > 0;
+  }
+
+  /**
+   * Close the database handle. It is reopened on next use.
+   */
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  private getDatabase(): SqliteDatabase {
+    if (!this.db) {
+      const dir = dirname(this.dbPath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      this.db = openDatabase(this.dbPath);
+      this.db.exec(
+        `CREATE TABLE IF NOT EXISTS auth_state (
+          instance_id TEXT NOT NULL,
+          category TEXT NOT NULL,
+          id TEXT NOT NULL,
+          value TEXT NOT NULL,
+          PRIMARY KEY (instance_id, category, id)
+        )`
+      );
+    }
+    return this.db;
+  }
+
+  private readData(category: string, id: string): any {
+    const row = this.getDatabase()
+      .prepare("SELECT value FROM auth_state WHERE instance_id = ? AND category = ? AND id = ?")
+      .get(this.instanceId, category, id) as { value: string } | undefined;
+    return row ? JSON.parse(row.value, BufferJSON.reviver) : null;
+  }
+
+  private writeData(category: string, id: string, value: unknown): void {
+    this.getDatabase()
+      .prepare(
+        "INSERT OR REPLACE INTO auth_state (instance_id, category, id, value) VALUES (?, ?, ?, ?)"
+      )
+      .run(this.instanceId, category, id, JSON.stringify(value, BufferJSON.replacer));
+  }
+
+  private removeData(category: string, id: string): void {
+    this.getDatabase()
+      .prepare("DELETE FROM auth_state WHERE instance_id = ? AND category = ? AND id = ?")
+      .run(this.instanceId, category, id);
+  }
+
+  /**
+   * Apply a batch of key updates atomically (null values delete the key)
+   */
+  private writeKeys(data: SignalDataSet): void {
+    const db = this.getDatabase();
+    db.exec("BEGIN");
+    try {
+      for (const category in data) {
+        const entries = data[category as keyof SignalDataTypeMap] || {};
+        for (const id in entries) {
+          const value = entries[id];
+          if (value) {
+            this.writeData(category, id, value);
+          } else {
+            this.removeData(category, id);
+          }
+        }
+      }
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,396 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import type { MiawClient } from "../client/MiawClient.js";
+import type { MiawMessage } from "../types/index.js";
+import type {
+  WebhookDeadLetter,
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookMessage,
+  WebhookOptions,
+  WebhookPayload,
+} from "../types/webhook.js";
+import { TIMEOUTS, THRESHOLDS } from "../constants/timeouts.js";
+import { getErrorMessage } from "../utils/type-guards.js";
+
+/** All events a dispatcher can forward */
+export const WEBHOOK_EVENTS: readonly WebhookEvent[] = [
+  "message",
+  "message_edit",
+  "message_delete",
+  "message_pin",
+  "message_reaction",
+  "message_receipt",
+  "poll_vote",
+  "newsletter_message",
+  "live_location",
+  "order",
+  "product_inquiry",
+  "presence",
+  "connection",
+  "qr",
+  "pairing_code",
+];
+
+const MEDIA_TYPES = new Set(["image", "video", "audio", "document", "sticker"]);
+
+/** HTTP statuses worth retrying: timeouts, rate limits and server errors */
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+/**
+ * JSON.stringify that drops `raw` Baileys payloads at any depth, encodes
+ * Buffers as base64 and bigints as strings, and replaces circular references
+ */
+function safeStringify(value: unknown): string {
+  const ancestors: unknown[] = [];
+  return JSON.stringify(value, function (this: unknown, key, val: unknown) {
+    if (key === "raw") return undefined;
+    if (typeof val === "bigint") return val.toString();
+    if (typeof val !== "object" || val === null) return val;
+
+    // Buffer.toJSON() has already run: { type: "Buffer", data: [...] }
+    const buffer = val as { type?: unknown; data?: unknown };
+    if (buffer.type === "Buffer" && Array.isArray(buffer.data)) {
+      return Buffer.from(buffer.data as number[]).toString("base64");
+    }
+
+    // `this` is the object holding `key`; drop finished siblings from the path
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+      ancestors.pop();
+    }
+    if (ancestors.includes(val)) return "[Circular]";
+    ancestors.push(val);
+    return val;
+  });
+}
+
+/**
+ * POSTs client events as signed JSON to webhook URLs (see WebhookOptions).
+ *
+ * Each endpoint gets its own delivery with retries and exponential backoff.
+ * Deliveries that still fail go to a dead-letter queue, persisted as JSONL
+ * so they can be retried after a restart with retryDeadLetters().
+ *
+ * @example
+ * const webhooks = new WebhookDispatcher(client, {
+ *   endpoints: [{ url: "https://example.com/hook", secret: process.env.HOOK_SECRET, events: ["message"] }],
+ * });
+ */
+export class WebhookDispatcher {
+  private endpoints: WebhookEndpoint[];
+  private maxRetries: number;
+  private retryBackoffMs: number;
+  private timeoutMs: number;
+  private deadLetterFile: string | null;
+  private deadLetters: WebhookDeadLetter[] = [];
+  private listeners: { event: WebhookEvent; fn: (data: unknown) => void }[] = [];
+  private inFlight: Set<Promise<void>> = new Set();
+  private sleeps: Set<{ timer: NodeJS.Timeout; resolve: () => void }> = new Set();
+  private closed = false;
+
+  constructor(
+    private client: MiawClient,
+    private options: WebhookOptions
+  ) {
+    this.endpoints = [...options.endpoints];
+    this.maxRetries = options.maxRetries ?? THRESHOLDS.WEBHOOK_MAX_RETRIES;
+    this.retryBackoffMs = options.retryBackoffMs ?? TIMEOUTS.WEBHOOK_RETRY_BACKOFF;
+    this.timeoutMs = options.timeoutMs ?? TIMEOUTS.WEBHOOK_TIMEOUT;
+    this.deadLetterFile =
+      options.deadLetterFile === false
+        ? null
+        : (options.deadLetterFile ??
+          path.join(client.getSessionPath(), client.getInstanceId(), "webhook-dead-letters.jsonl"));
+
+    if (options.media === "url" && !options.mediaBaseUrl) {
+      throw new Error('WebhookOptions.mediaBaseUrl is required with media: "url"');
+    }
+
+    this.loadDeadLetters();
+
+    for (const event of WEBHOOK_EVENTS) {
+      const fn = (data: unknown) => this.track(this.dispatch(event, data));
+      client.on(event, fn);
+      this.listeners.push({ event, fn });
+    }
+  }
+
+  /**
+   * Deliver an event to all matching endpoints. Called for client events;
+   * can also be used to replay an event.
+   */
+  async dispatch(event: WebhookEvent, data: unknown): Promise<void> {
+    if (this.closed) return;
+
+    const endpoints = this.endpoints.filter(
+      (endpoint) =>
+        (!endpoint.events || endpoint.events.includes(event)) &&
+        (!endpoint.filter || endpoint.filter(event, data))
+    );
+    if (endpoints.length === 0) return;
+
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      event,
+      instanceId: this.client.getInstanceId(),
+      timestamp: Date.now(),
+      data: event === "message" ? await this.toWebhookMessage(data as MiawMessage) : data,
+    };
+    const body = safeStringify(payload);
+
+    await Promise.all(endpoints.map((endpoint) => this.deliver(endpoint, payload, body)));
+  }
+
+  /**
+   * Deliveries that failed for good, oldest first
+   */
+  getDeadLetters(): WebhookDeadLetter[] {
+    return [...this.deadLetters];
+  }
+
+  /**
+   * Re-deliver all dead letters whose URL is still configured. Letters that
+   * fail again go back to the queue.
+   * @returns Number of letters delivered successfully
+   */
+  async retryDeadLetters(): Promise<number> {
+    const letters = this.deadLetters;
+    const retrying = letters.filter((letter) => this.endpoints.some((e) => e.url === letter.url));
+    this.deadLetters = letters.filter((letter) => !retrying.includes(letter));
+    await this.saveDeadLetters();
+
+    let delivered = 0;
+    await Promise.all(
+      retrying.map(async (letter) => {
+        const endpoint = this.endpoints.find((e) => e.url === letter.url)!;
+        if (await this.deliver(endpoint, letter.payload, safeStringify(letter.payload))) {
+          delivered++;
+        }
+      })
+    );
+    return delivered;
+  }
+
+  /**
+   * Drop all dead letters (also from disk)
+   */
+  async clearDeadLetters(): Promise<void> {
+    this.deadLetters = [];
+    await this.saveDeadLetters();
+  }
+
+  /**
+   * Wait until all current deliveries (including retries) are finished
+   */
+  async flush(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(this.inFlight);
+    }
+  }
+
+  /**
+   * Stop listening to the client. Deliveries waiting for a retry are moved to
+   * the dead-letter queue instead of being dropped.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    for (const { event, fn } of this.listeners) {
+      this.client.removeListener(event, fn);
+    }
+    this.listeners = [];
+    for (const sleep of this.sleeps) {
+      clearTimeout(sleep.timer);
+      sleep.resolve();
+    }
+    this.sleeps.clear();
+    await this.flush();
+  }
+
+  /**
+   * HMAC-SHA256 signature of a request, as sent in `X-Miaw-Signature`
+   */
+  static sign(body: string, secret: string, timestamp: number | string): string {
+    return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+  }
+
+  /**
+   * Check a webhook request's signature on the receiving side
+   *
+   * @param body - Raw request body (before JSON parsing)
+   * @param signature - `X-Miaw-Signature` header
+   * @param timestamp - `X-Miaw-Timestamp` header
+   * @param toleranceMs - Reject requests older than this to limit replays (default: 5 minutes, 0 disables)
+   */
+  static verifySignature(
+    body: string,
+    secret: string,
+    signature: string,
+    timestamp: number | string,
+    toleranceMs = 5 * 60_000
+  ): boolean {
+    if (toleranceMs > 0 && Math.abs(Date.now() - Number(timestamp)) > toleranceMs) {
+      return false;
+    }
+    const expected = Buffer.from(WebhookDispatcher.sign(body, secret, timestamp));
+    const provided = Buffer.from(signature);
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  }
+
+  /**
+   * POST a payload with retries; dead-letters it when all attempts fail
+   * @returns Whether the endpoint accepted the payload
+   */
+  private async deliver(endpoint: WebhookEndpoint, payload: WebhookPayload, body: string): Promise<boolean> {
+    let error = "";
+    let attempts = 0;
+
+    while (attempts <= this.maxRetries) {
+      if (attempts > 0) {
+        await this.sleep(this.retryBackoffMs * 2 ** (attempts - 1));
+        if (this.closed) break;
+      }
+      attempts++;
+
+      const result = await this.post(endpoint, payload, body);
+      if (result.ok) return true;
+      error = result.error;
+      if (!result.retryable) break;
+    }
+
+    this.options.logger?.warn(`Webhook ${payload.event} to ${endpoint.url} failed after ${attempts} attempt(s): ${error}`);
+    await this.addDeadLetter({ url: endpoint.url, payload, attempts, error, failedAt: Date.now() });
+    return false;
+  }
+
+  private async post(
+    endpoint: WebhookEndpoint,
+    payload: WebhookPayload,
+    body: string
+  ): Promise<{ ok: true } | { ok: false; error: string; retryable: boolean }> {
+    const timestamp = Date.now();
+    const headers: Record<string, string> = {
+      ...endpoint.headers,
+      "Content-Type": "application/json",
+      "User-Agent": "miaw-core-webhook",
+      "X-Miaw-Event": payload.event,
+      "X-Miaw-Delivery": payload.id,
+      "X-Miaw-Timestamp": String(timestamp),
+    };
+    if (endpoint.secret) {
+      headers["X-Miaw-Signature"] = WebhookDispatcher.sign(body, endpoint.secret, timestamp);
+    }
+
+    try {
+      const response = await fetch(endpoint.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer().catch(() => undefined);
+      if (response.ok) return { ok: true };
+      return { ok: false, error: `HTTP ${response.status}`, retryable: isRetryableStatus(response.status) };
+    } catch (error) {
+      return { ok: false, error: getErrorMessage(error), retryable: true };
+    }
+  }
+
+  /**
+   * Message event data: no raw payload, plus media per the `media` option
+   */
+  private async toWebhookMessage(message: MiawMessage): Promise<WebhookMessage> {
+    const { raw: _raw, ...data } = message;
+    if (!MEDIA_TYPES.has(message.type)) return data;
+
+    if (this.options.media === "url") {
+      const base = this.options.mediaBaseUrl!.replace(/\/+$/, "");
+      const instanceId = encodeURIComponent(this.client.getInstanceId());
+      return {
+        ...data,
+        mediaUrl: `${base}/instances/${instanceId}/chats/${encodeURIComponent(message.from)}/messages/${encodeURIComponent(message.id)}/media`,
+      };
+    }
+
+    if (this.options.media === "base64") {
+      const maxBytes = this.options.maxMediaBytes ?? THRESHOLDS.WEBHOOK_MAX_MEDIA_BYTES;
+      if ((message.media?.fileSize ?? 0) > maxBytes) return data;
+      const buffer = await this.client.downloadMedia(message);
+      if (buffer && buffer.length <= maxBytes) {
+        return { ...data, mediaBase64: buffer.toString("base64") };
+      }
+    }
+    return data;
+  }
+
+  private async addDeadLetter(letter: WebhookDeadLetter): Promise<void> {
+    this.deadLetters.push(letter);
+    try {
+      this.options.onDeadLetter?.(letter);
+    } catch (error) {
+      this.options.logger?.warn("Webhook onDeadLetter callback failed:", error);
+    }
+    if (!this.deadLetterFile) return;
+    try {
+      await fs.promises.mkdir(path.dirname(this.deadLetterFile), { recursive: true });
+      await fs.promises.appendFile(this.deadLetterFile, `${safeStringify(letter)}\n`, "utf8");
+    } catch (error) {
+      this.options.logger?.warn("Failed to persist webhook dead letter:", error);
+    }
+  }
+
+  private async saveDeadLetters(): Promise<void> {
+    if (!this.deadLetterFile) return;
+    try {
+      const lines = this.deadLetters.map((letter) => `${safeStringify(letter)}\n`).join("");
+      await fs.promises.mkdir(path.dirname(this.deadLetterFile), { recursive: true });
+      await fs.promises.writeFile(this.deadLetterFile, lines, "utf8");
+    } catch (error) {
+      this.options.logger?.warn("Failed to persist webhook dead letters:", error);
+    }
+  }
+
+  private loadDeadLetters(): void {
+    if (!this.deadLetterFile || !fs.existsSync(this.deadLetterFile)) return;
+    try {
+      for (const line of fs.readFileSync(this.deadLetterFile, "utf8").split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          this.deadLetters.push(JSON.parse(line) as WebhookDeadLetter);
+        } catch {
+          // Skip a line torn by a crash mid-append
+        }
+      }
+    } catch (error) {
+      this.options.logger?.warn("Failed to load webhook dead letters:", error);
+    }
+  }
+
+  private track(promise: Promise<void>): void {
+    const tracked = promise
+      .catch((error) => this.options.logger?.error("Webhook dispatch failed:", error))
+      .finally(() => this.inFlight.delete(tracked));
+    this.inFlight.add(tracked);
+  }
+
+  /** Sleep that close() can cut short */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      // A response that arrived after close() must not start a full backoff
+      if (this.closed) {
+        resolve();
+        return;
+      }
+      const sleep = {
+        timer: setTimeout(() => {
+          this.sleeps.delete(sleep);
+          resolve();
+        }, ms),
+        resolve,
+      };
+      this.sleeps.add(sleep);
+    });
+  }
+}
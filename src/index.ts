@@ -9,11 +9,24 @@ export { MiawClient } from "./client/MiawClient.js";
 // Types - using 'export type' for type-only exports (required for ESM/tsx compatibility)
 export type {
   MiawClientOptions,
+  MessageRetentionOptions,
   MiawMessage,
+  QuotedMessage,
   MediaInfo,
+  LocationInfo,
+  PollInfo,
+  GroupInviteMessageInfo,
+  ProductMessageInfo,
+  OrderMessageInfo,
+  EventInfo,
+  InteractiveResponse,
   ConnectionState,
   SendTextOptions,
   SendMessageResult,
+  WaitForReplyOptions,
+  SendQueueOptions,
+  QueuedSend,
+  QueuedSendMethod,
   MiawClientEvents,
   MediaSource,
   SendImageOptions,
@@ -22,6 +35,8 @@ export type {
   SendAudioOptions,
   MessageEdit,
   MessageDelete,
+  MessagePin,
+  PinDuration,
   MessageReaction,
   MessageReceiptUpdate,
   CheckNumberResult,
@@ -41,8 +56,32 @@ export type {
   LinkedGroup,
   CreateCommunityResult,
   CommunityOperationResult,
+  // Group & community admin settings
+  GroupMemberAddMode,
+  GroupSettings,
+  GroupJoinRequest,
+  GroupJoinRequestUpdate,
   // v0.8.0 Profile Management
   ProfileOperationResult,
+  // Privacy & blocklist
+  PrivacyVisibility,
+  PrivacySettingValues,
+  PrivacySettingKey,
+  PrivacySettings,
+  PrivacyOperationResult,
+  BlocklistUpdate,
+  // Calls
+  CallStatus,
+  CallEvent,
+  RejectCallsOptions,
+  CallOperationResult,
+  CallLinkResult,
+  // Live location
+  SendLiveLocationOptions,
+  LiveLocationPosition,
+  LiveLocationShare,
+  SendLiveLocationResult,
+  LiveLocationUpdate,
   // v0.9.0 Labels
   Label,
   LabelOperationResult,
@@ -51,10 +90,17 @@ export type {
   ProductCatalog,
   ProductOperationResult,
   ProductOptions,
+  CatalogFeedItem,
+  CatalogSyncAction,
+  CatalogSyncOptions,
+  CatalogSyncEntry,
+  CatalogSyncResult,
   ProductCollection,
   // v0.9.0 Newsletter/Channel
   NewsletterMetadata,
+  NewsletterMessage,
   NewsletterMessagesResult,
+  NewsletterReactionCount,
   NewsletterOperationResult,
   NewsletterSubscriptionInfo,
   // v0.9.0 Contact Management
@@ -66,6 +112,9 @@ export type {
   FetchAllGroupsResult,
   FetchAllLabelsResult,
   FetchChatMessagesResult,
+  SearchMessagesOptions,
+  MessageSearchHit,
+  SearchMessagesResult,
   FetchAllChatsResult,
   ChatInfo,
   // v1.7.0 Chat management
@@ -76,6 +125,10 @@ export type {
   SendContactOptions,
   SendStickerOptions,
   SendPollOptions,
+  SendGroupInviteOptions,
+  SendEventOptions,
+  SendProductOptions,
+  SendCatalogLinkOptions,
   PollVoteUpdate,
   // v1.8.0 Status / Stories
   PostStatusOptions,
@@ -86,12 +139,102 @@ export type {
   CoverPhotoResult,
   OrderInfo,
   OrderProductInfo,
+  OrderEvent,
+  ProductInquiry,
+  OrderStatusUpdate,
   QuickReplyInput,
 } from "./types/index.js";
 
 // v1.2.0 Logger types (for custom logger implementations)
 export type { MiawLogger } from "./types/logger.js";
 
+// Storage backend (pluggable persistence for contacts/chats/messages/labels)
+export type { MiawStore, JsonFileStoreOptions } from "./types/store.js";
+export { JsonFileStore } from "./store/JsonFileStore.js";
+
+// Auth state backend (pluggable credentials/signal key storage)
+export type { AuthStateProvider, AuthStateHandle } from "./types/auth.js";
+export { AuthHandler } from "./handlers/AuthHandler.js";
+export { SqliteAuthHandler } from "./handlers/SqliteAuthHandler.js";
+
+// Message middleware & command router
+export type {
+  MessageContext,
+  MiawMiddleware,
+  CommandContext,
+  CommandHandler,
+  CommandOptions,
+  CommandInfo,
+} from "./types/middleware.js";
+export { CommandRouter } from "./handlers/CommandRouter.js";
+
+// Multi-step dialogs
+export type {
+  DialogSession,
+  DialogStore,
+  DialogControl,
+  DialogStepHandler,
+  DialogOptions,
+} from "./types/dialog.js";
+export { DialogManager } from "./handlers/DialogManager.js";
+export { MemoryDialogStore } from "./store/MemoryDialogStore.js";
+
+// Outbound send queue
+export { SendQueue } from "./handlers/SendQueue.js";
+export type { SendQueueHooks } from "./handlers/SendQueue.js";
+
+// Broadcast campaigns
+export type {
+  CampaignStatus,
+  CampaignRecipientStatus,
+  CampaignRecipientInput,
+  CampaignMedia,
+  CreateCampaignOptions,
+  CampaignRecipient,
+  CampaignData,
+  CampaignStats,
+  CampaignInfo,
+} from "./types/campaign.js";
+export { Campaign, CampaignManager } from "./handlers/CampaignManager.js";
+export type { CampaignHooks } from "./handlers/CampaignManager.js";
+
+// Scheduled newsletter posts
+export type {
+  ScheduledPostStatus,
+  MissedPostPolicy,
+  ScheduledPostContent,
+  ScheduleNewsletterPostOptions,
+  ScheduledPost,
+} from "./types/newsletter-schedule.js";
+export { NewsletterScheduler } from "./handlers/NewsletterScheduler.js";
+export type { NewsletterSchedulerHooks } from "./handlers/NewsletterScheduler.js";
+export { parseZonedTime, formatZonedTime } from "./utils/time-zone.js";
+
+// REST API server
+export type { MiawServerOptions, InstanceStatus, JsonSchema } from "./types/server.js";
+export { MiawServer, createMiawServer } from "./server/MiawServer.js";
+
+// Multi-instance manager
+export type {
+  ManagedClientOptions,
+  MiawManagerOptions,
+  InstanceHealth,
+  InstanceConnectResult,
+  MiawManagerEvents,
+} from "./types/manager.js";
+export { MiawManager } from "./client/MiawManager.js";
+
+// Webhooks
+export type {
+  WebhookEvent,
+  WebhookEndpoint,
+  WebhookOptions,
+  WebhookMessage,
+  WebhookPayload,
+  WebhookDeadLetter,
+} from "./types/webhook.js";
+export { WebhookDispatcher, WEBHOOK_EVENTS } from "./handlers/WebhookDispatcher.js";
+
 // v1.2.0 Baileys types (for advanced users working with raw Baileys data)
 export type {
   BaileysMessage,
@@ -104,6 +247,16 @@ export type {
 
 // Utility exports for advanced users
 export { MessageHandler } from "./handlers/MessageHandler.js";
+export { MessageSearchIndex } from "./handlers/MessageSearchIndex.js";
+
+// Catalog feed utilities (used by syncCatalog)
+export {
+  parseCatalogFeed,
+  validateCatalogFeed,
+  loadCatalogFeed,
+  planCatalogSync,
+} from "./utils/catalog-feed.js";
+export type { CatalogSyncStep } from "./utils/catalog-feed.js";
 
 // v1.2.0 Logger utilities
 export { createFilteredLogger } from "./utils/filtered-logger.js";
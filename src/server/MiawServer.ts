@@ -0,0 +1,317 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { timingSafeEqual } from "node:crypto";
+import type { MiawClient } from "../client/MiawClient.js";
+import type { InstanceStatus, MiawServerOptions } from "../types/server.js";
+import { BinaryResponse, HttpError, readJsonBody, sendBinary, sendJson } from "./http.js";
+import { ROUTES, type RouteDefinition } from "./routes.js";
+import { buildOpenApiDocument } from "./openapi.js";
+import { validateSchema } from "./schemas.js";
+import { getErrorMessage } from "../utils/type-guards.js";
+
+/** Default max request body size (16 MB) */
+const DEFAULT_BODY_LIMIT = 16 * 1024 * 1024;
+
+interface CompiledRoute {
+  route: RouteDefinition;
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+interface TrackedClient {
+  client: MiawClient;
+  qr?: string;
+  pairingCode?: string;
+  listeners: { event: "qr" | "pairing_code" | "ready"; fn: (...args: any[]) => void }[];
+}
+
+/**
+ * HTTP REST API over one or more MiawClient instances.
+ *
+ * Routes live under `/instances/{id}/...` (see GET /openapi.json for the full
+ * list). Requests need one of the configured API keys; responses are JSON,
+ * with `{ success: false, error }` and a 4xx/5xx status on failure.
+ *
+ * Use listen() for a standalone server, or mount `handler` in an existing
+ * `http` / Express app.
+ */
+export class MiawServer {
+  private clients: Map<string, TrackedClient> = new Map();
+  private routes: CompiledRoute[];
+  private apiKeys: Buffer[];
+  private basePath: string;
+  private bodyLimit: number;
+  private server: Server | null = null;
+
+  constructor(private options: MiawServerOptions = {}) {
+    this.apiKeys = [options.apiKey ?? []].flat().filter(Boolean).map((key) => Buffer.from(key));
+    this.basePath = (options.basePath ?? "").replace(/\/+$/, "");
+    this.bodyLimit = options.bodyLimit ?? DEFAULT_BODY_LIMIT;
+    this.routes = ROUTES.map((route) => MiawServer.compile(route));
+
+    const clients = options.clients ?? [];
+    if (Array.isArray(clients)) {
+      clients.forEach((client) => this.addClient(client));
+    } else {
+      Object.entries(clients).forEach(([id, client]) => this.addClient(client, id));
+    }
+  }
+
+  /**
+   * Expose a client under `/instances/{id}`
+   * @param id - Instance ID in URLs (default: client.getInstanceId())
+   * @throws If the ID is already in use
+   */
+  addClient(client: MiawClient, id = client.getInstanceId()): void {
+    if (this.clients.has(id)) {
+      throw new Error(`Instance "${id}" is already registered`);
+    }
+
+    const tracked: TrackedClient = { client, listeners: [] };
+    const listen = (event: TrackedClient["listeners"][number]["event"], fn: (...args: any[]) => void) => {
+      client.on(event, fn);
+      tracked.listeners.push({ event, fn });
+    };
+    // Remember login codes so API users can poll for them
+    listen("qr", (qr: string) => {
+      tracked.qr = qr;
+    });
+    listen("pairing_code", (code: string) => {
+      tracked.pairingCode = code;
+    });
+    listen("ready", () => {
+      tracked.qr = undefined;
+      tracked.pairingCode = undefined;
+    });
+
+    this.clients.set(id, tracked);
+  }
+
+  /**
+   * Stop exposing a client (it stays connected)
+   * @returns true if the instance was registered
+   */
+  removeClient(id: string): boolean {
+    const tracked = this.clients.get(id);
+    if (!tracked) return false;
+    for (const { event, fn } of tracked.listeners) {
+      tracked.client.removeListener(event, fn);
+    }
+    return this.clients.delete(id);
+  }
+
+  /**
+   * State of all registered instances
+   */
+  listInstances(): InstanceStatus[] {
+    return [...this.clients.keys()].map((id) => this.getInstanceStatus(id));
+  }
+
+  /**
+   * State of one instance, including a pending QR / pairing code
+   * @throws HttpError 404 if the instance is not registered
+   */
+  getInstanceStatus(id: string): InstanceStatus {
+    const tracked = this.clients.get(id);
+    if (!tracked) {
+      throw new HttpError(404, `Instance "${id}" not found`);
+    }
+    const state = tracked.client.getConnectionState();
+    return {
+      id,
+      state,
+      ...(state !== "connected" && tracked.qr && { qr: tracked.qr }),
+      ...(state !== "connected" && tracked.pairingCode && { pairingCode: tracked.pairingCode }),
+    };
+  }
+
+  /**
+   * OpenAPI 3.0 document of the API (also served at GET /openapi.json)
+   */
+  getOpenApiDocument(): Record<string, unknown> {
+    return buildOpenApiDocument(ROUTES, {
+      title: this.options.openapi?.title ?? "miaw-core REST API",
+      version: this.options.openapi?.version ?? "1.0.0",
+      basePath: this.basePath,
+      secured: this.apiKeys.length > 0,
+    });
+  }
+
+  /**
+   * Request listener, for mounting in an existing HTTP server or Express app
+   */
+  readonly handler = (req: IncomingMessage, res: ServerResponse): void => {
+    this.handle(req, res).catch((error) => {
+      this.options.logger?.error("Unhandled REST API error:", error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { success: false, error: "Internal server error" });
+      }
+    });
+  };
+
+  /**
+   * Start a standalone HTTP server
+   * @returns The address it listens on
+   */
+  async listen(): Promise<{ host: string; port: number }> {
+    if (this.server) {
+      throw new Error("Server is already listening");
+    }
+    const server = createServer(this.handler);
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port ?? 3000, this.options.host ?? "127.0.0.1", () => {
+        server.removeListener("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    const address = server.address() as AddressInfo;
+    return { host: address.address, port: address.port };
+  }
+
+  /**
+   * Stop the standalone server. Clients are left connected.
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    server.closeAllConnections?.();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (!url.pathname.startsWith(this.basePath)) {
+      sendJson(res, 404, { success: false, error: "Not found" });
+      return;
+    }
+    const path = url.pathname.slice(this.basePath.length) || "/";
+
+    try {
+      if (req.method === "GET" && path === "/health") {
+        sendJson(res, 200, { success: true });
+        return;
+      }
+      if (req.method === "GET" && path === "/openapi.json") {
+        sendJson(res, 200, this.getOpenApiDocument());
+        return;
+      }
+
+      if (!this.isAuthorized(req)) {
+        throw new HttpError(401, "Missing or invalid API key");
+      }
+
+      const match = this.match(req.method ?? "GET", path);
+      const client = match.params.id !== undefined ? this.getClient(match.params.id) : undefined;
+
+      let body: unknown;
+      if (match.route.body) {
+        body = await readJsonBody(req, this.bodyLimit);
+        const error = validateSchema(match.route.body, body ?? {});
+        if (error) {
+          throw new HttpError(400, error);
+        }
+      }
+
+      const result = await match.route.handler({
+        server: this,
+        client: client!,
+        params: match.params,
+        query: url.searchParams,
+        body,
+      });
+
+      if (result instanceof BinaryResponse) {
+        sendBinary(res, 200, result);
+        return;
+      }
+
+      const failed =
+        typeof result === "object" && result !== null && (result as { success?: unknown }).success === false;
+      sendJson(res, failed ? 400 : 200, result ?? { success: true });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { success: false, error: error.message });
+        return;
+      }
+      this.options.logger?.error(`REST API ${req.method} ${path} failed:`, error);
+      sendJson(res, 500, { success: false, error: getErrorMessage(error) });
+    }
+  }
+
+  /**
+   * Find the route for a request
+   * @throws HttpError 400 (malformed path parameter) / 404 / 405
+   */
+  private match(method: string, path: string): { route: RouteDefinition; params: Record<string, string> } {
+    let pathMatched = false;
+    for (const { route, pattern, paramNames } of this.routes) {
+      const match = pattern.exec(path);
+      if (!match) continue;
+      pathMatched = true;
+      if (route.method !== method) continue;
+
+      const params: Record<string, string> = {};
+      paramNames.forEach((name, i) => {
+        try {
+          params[name] = decodeURIComponent(match[i + 1]);
+        } catch {
+          throw new HttpError(400, "Malformed URL path");
+        }
+      });
+      return { route, params };
+    }
+    throw pathMatched ? new HttpError(405, `Method ${method} not allowed`) : new HttpError(404, "Not found");
+  }
+
+  private getClient(id: string): MiawClient {
+    const tracked = this.clients.get(id);
+    if (!tracked) {
+      throw new HttpError(404, `Instance "${id}" not found`);
+    }
+    return tracked.client;
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (this.apiKeys.length === 0) return true;
+
+    const header = req.headers["x-api-key"];
+    const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const provided = Buffer.from((Array.isArray(header) ? header[0] : header) ?? bearer ?? "");
+    return this.apiKeys.some(
+      (key) => key.length === provided.length && timingSafeEqual(key, provided)
+    );
+  }
+
+  /**
+   * Turn an OpenAPI-style path into a regex with one group per parameter
+   */
+  private static compile(route: RouteDefinition): CompiledRoute {
+    const paramNames: string[] = [];
+    const source = route.path
+      .split("/")
+      .map((segment) => {
+        const param = /^\{(\w+)\}$/.exec(segment);
+        if (!param) return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        paramNames.push(param[1]);
+        return "([^/]+)";
+      })
+      .join("/");
+    return { route, pattern: new RegExp(`^${source}/?$`), paramNames };
+  }
+}
+
+/**
+ * Create a REST API server for MiawClient instances
+ *
+ * @example
+ * const server = createMiawServer({ clients: [client], apiKey: process.env.MIAW_API_KEY });
+ * await server.listen(); // http://127.0.0.1:3000
+ *
+ * // POST /instances/default/messages/text  { "to": "6281234567890", "text": "Hi" }
+ */
+export function createMiawServer(options: MiawServerOptions = {}): MiawServer {
+  return new MiawServer(options);
+}
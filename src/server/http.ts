@@ -0,0 +1,74 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+/**
+ * Error with an HTTP status, turned into a `{ success: false, error }`
+ * response by the server
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Non-JSON route result, written as-is with its content type
+ */
+export class BinaryResponse {
+  constructor(
+    readonly data: Buffer,
+    readonly contentType: string
+  ) {}
+}
+
+/**
+ * Read and parse a JSON request body
+ * @throws HttpError 413 when the body exceeds `limit` bytes, 400 on invalid JSON
+ */
+export async function readJsonBody(req: IncomingMessage, limit: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > limit) {
+      throw new HttpError(413, `Request body exceeds ${limit} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  if (size === 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+/**
+ * Write a JSON response
+ */
+export function sendJson(res: ServerResponse, status: number, data: unknown): void {
+  const body = JSON.stringify(data, (_key, value) =>
+    typeof value === "bigint" ? value.toString() : value
+  );
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Content-Length": Buffer.byteLength(body),
+  });
+  res.end(body);
+}
+
+/**
+ * Write a binary response
+ */
+export function sendBinary(res: ServerResponse, status: number, { data, contentType }: BinaryResponse): void {
+  res.writeHead(status, {
+    "Content-Type": contentType,
+    "Content-Length": data.length,
+  });
+  res.end(data);
+}
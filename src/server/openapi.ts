@@ -0,0 +1,84 @@
+import type { RouteDefinition } from "./routes.js";
+import { DEFAULT_RESPONSE_SCHEMA } from "./routes.js";
+
+const errorSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean", enum: [false] },
+    error: { type: "string" },
+  },
+  required: ["success", "error"],
+};
+
+/**
+ * Build an OpenAPI 3.0 document describing the given routes
+ */
+export function buildOpenApiDocument(
+  routes: RouteDefinition[],
+  info: { title: string; version: string; basePath: string; secured: boolean }
+): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const route of routes) {
+    const pathParams = [...route.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+      description: name === "id" ? "Instance ID" : undefined,
+    }));
+    const queryParams = Object.entries(route.query ?? {}).map(([name, schema]) => ({
+      name,
+      in: "query",
+      required: false,
+      schema,
+    }));
+
+    const operation: Record<string, unknown> = {
+      summary: route.summary,
+      tags: [route.tag],
+      parameters: [...pathParams, ...queryParams],
+      responses: {
+        "200": {
+          description: "Success",
+          content: route.binary
+            ? { "application/octet-stream": { schema: { type: "string", format: "binary" } } }
+            : { "application/json": { schema: route.response ?? DEFAULT_RESPONSE_SCHEMA } },
+        },
+        "400": { $ref: "#/components/responses/Error" },
+        ...(info.secured && { "401": { $ref: "#/components/responses/Error" } }),
+        "404": { $ref: "#/components/responses/Error" },
+      },
+    };
+    if (route.body) {
+      operation.requestBody = {
+        required: true,
+        content: { "application/json": { schema: route.body } },
+      };
+    }
+
+    const path = `${info.basePath}${route.path}`;
+    paths[path] = { ...paths[path], [route.method.toLowerCase()]: operation };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: { title: info.title, version: info.version },
+    paths,
+    components: {
+      responses: {
+        Error: {
+          description: "Error",
+          content: { "application/json": { schema: errorSchema } },
+        },
+      },
+      ...(info.secured && {
+        securitySchemes: {
+          apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+          bearer: { type: "http", scheme: "bearer" },
+        },
+      }),
+    },
+    ...(info.secured && { security: [{ apiKey: [] }, { bearer: [] }] }),
+  };
+}
@@ -0,0 +1,354 @@
+import type { MiawClient } from "../client/MiawClient.js";
+import type { MediaSource, MiawMessage } from "../types/index.js";
+import type { JsonSchema } from "../types/server.js";
+import type { MiawServer } from "./MiawServer.js";
+import { BinaryResponse, HttpError } from "./http.js";
+import {
+  instanceStatusSchema,
+  newsletterTextBodySchema,
+  operationResultSchema,
+  sendAudioBodySchema,
+  sendDocumentBodySchema,
+  sendImageBodySchema,
+  sendLocationBodySchema,
+  sendMessageResultSchema,
+  sendPollBodySchema,
+  sendTextBodySchema,
+  sendVideoBodySchema,
+} from "./schemas.js";
+
+/**
+ * Request data passed to a route handler
+ */
+export interface RouteContext {
+  server: MiawServer;
+
+  /** The instance's client (routes under /instances/{id}) */
+  client: MiawClient;
+
+  /** Path parameters, URL-decoded */
+  params: Record<string, string>;
+
+  query: URLSearchParams;
+
+  /** Parsed JSON body, validated against the route's body schema */
+  body: any;
+}
+
+/**
+ * A REST route. Paths use OpenAPI `{param}` syntax; routes whose path starts
+ * with `/instances/{id}/` get the matching client in their context.
+ */
+export interface RouteDefinition {
+  method: "GET" | "POST";
+  path: string;
+  summary: string;
+  tag: string;
+  body?: JsonSchema;
+  query?: Record<string, JsonSchema>;
+  response?: JsonSchema;
+
+  /** Responds with a file (BinaryResponse) instead of JSON */
+  binary?: boolean;
+
+  handler: (ctx: RouteContext) => unknown;
+}
+
+/**
+ * Request body media to a MediaSource (URL or Buffer)
+ */
+function toMediaSource(media: { url?: string; base64?: string }): MediaSource {
+  return media.url ?? Buffer.from(media.base64 ?? "", "base64");
+}
+
+/**
+ * Replace a `quoted` message ID in send options with the stored message
+ * @throws HttpError 404 if the message is not in the chat's store
+ */
+async function resolveOptions(
+  client: MiawClient,
+  to: string,
+  options: Record<string, unknown> | undefined
+): Promise<any> {
+  if (typeof options?.quoted !== "string") {
+    return options;
+  }
+  const { messages = [] } = await client.getChatMessages(to);
+  const quoted = messages.find((m) => m.id === options.quoted);
+  if (!quoted) {
+    throw new HttpError(404, `Quoted message ${options.quoted} not found in chat ${to}`);
+  }
+  return { ...options, quoted };
+}
+
+/** Messages without their raw Baileys payload */
+function withoutRaw(messages: MiawMessage[]): Omit<MiawMessage, "raw">[] {
+  return messages.map(({ raw: _raw, ...message }) => message);
+}
+
+function intParam(query: URLSearchParams, name: string, fallback: number): number {
+  const value = query.get(name);
+  if (value === null) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new HttpError(400, `${name} must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+const limitQuery: JsonSchema = { type: "integer", minimum: 0, description: "Max number of items" };
+
+/**
+ * All REST routes, in OpenAPI document order
+ */
+export const ROUTES: RouteDefinition[] = [
+  // Instances
+  {
+    method: "GET",
+    path: "/instances",
+    summary: "List instances and their connection state",
+    tag: "Instances",
+    response: { type: "array", items: instanceStatusSchema },
+    handler: ({ server }) => server.listInstances(),
+  },
+  {
+    method: "GET",
+    path: "/instances/{id}",
+    summary: "Get an instance's connection state, QR code and pairing code",
+    tag: "Instances",
+    response: instanceStatusSchema,
+    handler: ({ server, params }) => server.getInstanceStatus(params.id),
+  },
+  {
+    method: "POST",
+    path: "/instances/{id}/connect",
+    summary: "Connect the instance (poll GET /instances/{id} for the QR code)",
+    tag: "Instances",
+    response: instanceStatusSchema,
+    handler: async ({ server, client, params }) => {
+      await client.connect();
+      return server.getInstanceStatus(params.id);
+    },
+  },
+  {
+    method: "POST",
+    path: "/instances/{id}/disconnect",
+    summary: "Disconnect the instance (the session is kept)",
+    tag: "Instances",
+    response: instanceStatusSchema,
+    handler: async ({ server, client, params }) => {
+      await client.disconnect();
+      return server.getInstanceStatus(params.id);
+    },
+  },
+
+  // Messages
+  {
+    method: "POST",
+    path: "/instances/{id}/messages/text",
+    summary: "Send a text message",
+    tag: "Messages",
+    body: sendTextBodySchema,
+    response: sendMessageResultSchema,
+    handler: async ({ client, body }) =>
+      client.sendText(body.to, body.text, await resolveOptions(client, body.to, body.options)),
+  },
+  {
+    method: "POST",
+    path: "/instances/{id}/messages/image",
+    summary: "Send an image",
+    tag: "Messages",
+    body: sendImageBodySchema,
+    response: sendMessageResultSchema,
+    handler: async ({ client, body }) =>
+      client.sendImage(body.to, toMediaSource(body.media), await resolveOptions(client, body.to, body.options)),
+  },
+  {
+    method: "POST",
+    path: "/instances/{id}/messages/document",
+    summary: "Send a document",
+    tag: "Messages",
+    body: sendDocumentBodySchema,
+    response: sendMessageResultSchema,
+    handler: async ({ client, body }) =>
+      client.sendDocument(body.to, toMediaSource(body.media), await resolveOptions(client, body.to, body.options)),
+  },
+  {
+    method: "POST",
+    path: "/instances/{id}/messages/video",
+    summary: "Send a video",
+    tag: "Messages",
+    body: sendVideoBodySchema,
+    response: sendMessageResultSchema,
+    handler: async ({ client, body }) =>
+      client.sendVideo(body.to, toMediaSource(body.media), await resolveOptions(client, body.to, body.options)),
+  },
+  {
+    method: "POST",
+    path: "/instances/{id}/messages/audio",
+    summary: "Send audio or a voice note",
+    tag: "Messages",
+    body: sendAudioBodySchema,
+    response: sendMessageResultSchema,
+    handler: async ({ client, body }) =>
+      client.sendAudio(body.to, toMediaSource(body.media), await resolveOptions(client, body.to, body.options)),
+  },
+  {
+    method: "POST",
+    path: "/instances/{id}/messages/location",
+    summary: "Send a location",
+    tag: "Messages",
+    body: sendLocationBodySchema,
+    response: sendMessageResultSchema,
+    handler: async ({ client, body }) =>
+      client.sendLocation(
+        body.to,
+        body.latitude,
+        body.longitude,
+        await resolveOptions(client, body.to, body.options)
+      ),
+  },
+  {
+    method: "POST",
+    path: "/instances/{id}/messages/poll",
+    summary: "Send a poll",
+    tag: "Messages",
+    body: sendPollBodySchema,
+    response: sendMessageResultSchema,
+    handler: async ({ client, body }) =>
+      client.sendPoll(
+        body.to,
+        body.question,
+        body.choices,
+        await resolveOptions(client, body.to, body.options)
+      ),
+  },
+
+  // Chats
+  {
+    method: "GET",
+    path: "/instances/{id}/chats",
+    summary: "List chats",
+    tag: "Chats",
+    handler: ({ client }) => client.fetchAllChats(),
+  },
+  {
+    method: "GET",
+    path: "/instances/{id}/chats/{jid}/messages",
+    summary: "List stored messages of a chat, newest last (without raw payloads)",
+    tag: "Chats",
+    query: { limit: limitQuery },
+    handler: async ({ client, params, query }) => {
+      const result = await client.getChatMessages(params.jid);
+      if (!result.success || !result.messages) return result;
+      const limit = intParam(query, "limit", 50);
+      return { success: true, messages: withoutRaw(result.messages.slice(-limit || undefined)) };
+    },
+  },
+  {
+    method: "GET",
+    path: "/instances/{id}/chats/{jid}/messages/{messageId}/media",
+    summary: "Download the media file of a stored message",
+    tag: "Chats",
+    binary: true,
+    handler: async ({ client, params }) => {
+      const { messages = [] } = await client.getChatMessages(params.jid);
+      const message = messages.find((m) => m.id === params.messageId);
+      if (!message) {
+        throw new HttpError(404, `Message ${params.messageId} not found in chat ${params.jid}`);
+      }
+      if (!message.media) {
+        throw new HttpError(404, `Message ${params.messageId} has no media`);
+      }
+      const data = await client.downloadMedia(message);
+      if (!data) {
+        throw new HttpError(404, `Media of message ${params.messageId} is no longer available`);
+      }
+      return new BinaryResponse(data, message.media.mimetype || "application/octet-stream");
+    },
+  },
+  {
+    method: "GET",
+    path: "/instances/{id}/contacts",
+    summary: "List contacts",
+    tag: "Chats",
+    handler: ({ client }) => client.fetchAllContacts(),
+  },
+
+  // Groups
+  {
+    method: "GET",
+    path: "/instances/{id}/groups",
+    summary: "List groups",
+    tag: "Groups",
+    handler: ({ client }) => client.fetchAllGroups(),
+  },
+  {
+    method: "GET",
+    path: "/instances/{id}/groups/{jid}",
+    summary: "Get group metadata and participants",
+    tag: "Groups",
+    handler: async ({ client, params }) => {
+      const group = await client.getGroupInfo(params.jid);
+      if (!group) {
+        throw new HttpError(404, `Group ${params.jid} not found`);
+      }
+      return group;
+    },
+  },
+
+  // Labels
+  {
+    method: "GET",
+    path: "/instances/{id}/labels",
+    summary: "List labels (WhatsApp Business)",
+    tag: "Labels",
+    handler: ({ client }) => client.fetchAllLabels(),
+  },
+
+  // Newsletters
+  {
+    method: "GET",
+    path: "/instances/{id}/newsletters/{newsletterId}",
+    summary: "Get newsletter (channel) metadata",
+    tag: "Newsletters",
+    handler: async ({ client, params }) => {
+      const metadata = await client.getNewsletterMetadata(params.newsletterId);
+      if (!metadata) {
+        throw new HttpError(404, `Newsletter ${params.newsletterId} not found`);
+      }
+      return metadata;
+    },
+  },
+  {
+    method: "GET",
+    path: "/instances/{id}/newsletters/{newsletterId}/messages",
+    summary: "Fetch newsletter posts, oldest first (without raw payloads)",
+    tag: "Newsletters",
+    query: {
+      limit: limitQuery,
+      cursor: { type: "string", description: "nextCursor of the previous page, for older posts" },
+    },
+    handler: async ({ client, params, query }) => {
+      const result = await client.fetchNewsletterMessages(
+        params.newsletterId,
+        intParam(query, "limit", 50),
+        query.get("cursor") ?? undefined
+      );
+      if (!result.success || !result.messages) return result;
+      return { ...result, messages: withoutRaw(result.messages) };
+    },
+  },
+  {
+    method: "POST",
+    path: "/instances/{id}/newsletters/{newsletterId}/messages",
+    summary: "Post a text update to a newsletter you admin",
+    tag: "Newsletters",
+    body: newsletterTextBodySchema,
+    response: sendMessageResultSchema,
+    handler: ({ client, params, body }) => client.sendNewsletterMessage(params.newsletterId, body.text),
+  },
+];
+
+/** Response schema for routes that do not declare one */
+export const DEFAULT_RESPONSE_SCHEMA = operationResultSchema;
@@ -0,0 +1,293 @@
+import type {
+  SendAudioOptions,
+  SendDocumentOptions,
+  SendImageOptions,
+  SendLocationOptions,
+  SendPollOptions,
+  SendTextOptions,
+  SendVideoOptions,
+} from "../types/index.js";
+import type { JsonSchema } from "../types/server.js";
+
+/**
+ * Schema of an options object whose properties mirror an option type key for
+ * key, so adding an option to the type fails compilation until its schema is
+ * added here. `quoted` (a MiawMessage in the TypeScript API) is the ID of a
+ * stored message over HTTP.
+ */
+function optionsSchema<T>(
+  description: string,
+  properties: { [K in keyof Required<T>]: JsonSchema }
+): JsonSchema {
+  return { type: "object", description, properties, additionalProperties: false };
+}
+
+const quoted: JsonSchema = {
+  type: "string",
+  description: "ID of a message in the same chat to reply to",
+};
+
+const mentions: JsonSchema = {
+  type: "array",
+  description: "Phone numbers / JIDs to @mention (groups only)",
+  items: { type: "string" },
+};
+
+const caption: JsonSchema = { type: "string", description: "Caption" };
+
+const viewOnce: JsonSchema = {
+  type: "boolean",
+  description: "Send as view-once message",
+};
+
+export const sendTextOptionsSchema = optionsSchema<SendTextOptions>("SendTextOptions", {
+  quoted,
+  mentions,
+});
+
+export const sendImageOptionsSchema = optionsSchema<SendImageOptions>("SendImageOptions", {
+  caption,
+  quoted,
+  viewOnce,
+  mentions,
+});
+
+export const sendDocumentOptionsSchema = optionsSchema<SendDocumentOptions>("SendDocumentOptions", {
+  caption,
+  fileName: { type: "string", description: "File name to display, e.g. report.pdf" },
+  mimetype: { type: "string", description: "MIME type (auto-detected from fileName if omitted)" },
+  quoted,
+});
+
+export const sendVideoOptionsSchema = optionsSchema<SendVideoOptions>("SendVideoOptions", {
+  caption,
+  quoted,
+  viewOnce,
+  gifPlayback: { type: "boolean", description: "Play as GIF (loops, no audio)" },
+  ptv: { type: "boolean", description: "Send as video note" },
+  mentions,
+});
+
+export const sendAudioOptionsSchema = optionsSchema<SendAudioOptions>("SendAudioOptions", {
+  quoted,
+  ptt: { type: "boolean", description: "Send as voice note" },
+  mimetype: { type: "string", description: "MIME type (auto-detected if omitted)" },
+});
+
+export const sendLocationOptionsSchema = optionsSchema<SendLocationOptions>("SendLocationOptions", {
+  name: { type: "string", description: "Location name" },
+  address: { type: "string", description: "Street address" },
+  quoted,
+});
+
+export const sendPollOptionsSchema = optionsSchema<SendPollOptions>("SendPollOptions", {
+  selectableCount: {
+    type: "integer",
+    minimum: 1,
+    description: "How many options a voter may select (default: 1)",
+  },
+  quoted,
+});
+
+/**
+ * Media in a request body. Local file paths are not accepted over HTTP.
+ */
+export const mediaSchema: JsonSchema = {
+  type: "object",
+  description: "Media to send: a public URL or base64-encoded content",
+  properties: {
+    url: { type: "string", pattern: "^https?://", description: "http(s) URL to fetch the media from" },
+    base64: { type: "string", minLength: 1, description: "Base64-encoded file content" },
+  },
+  oneOf: [{ required: ["url"] }, { required: ["base64"] }],
+  additionalProperties: false,
+};
+
+const to: JsonSchema = { type: "string", minLength: 1, description: "Phone number or JID" };
+
+function mediaBody(options: JsonSchema): JsonSchema {
+  return {
+    type: "object",
+    properties: { to, media: mediaSchema, options },
+    required: ["to", "media"],
+    additionalProperties: false,
+  };
+}
+
+export const sendTextBodySchema: JsonSchema = {
+  type: "object",
+  properties: {
+    to,
+    text: { type: "string", minLength: 1 },
+    options: sendTextOptionsSchema,
+  },
+  required: ["to", "text"],
+  additionalProperties: false,
+};
+
+export const sendImageBodySchema = mediaBody(sendImageOptionsSchema);
+export const sendDocumentBodySchema = mediaBody(sendDocumentOptionsSchema);
+export const sendVideoBodySchema = mediaBody(sendVideoOptionsSchema);
+export const sendAudioBodySchema = mediaBody(sendAudioOptionsSchema);
+
+export const sendLocationBodySchema: JsonSchema = {
+  type: "object",
+  properties: {
+    to,
+    latitude: { type: "number", minimum: -90, maximum: 90 },
+    longitude: { type: "number", minimum: -180, maximum: 180 },
+    options: sendLocationOptionsSchema,
+  },
+  required: ["to", "latitude", "longitude"],
+  additionalProperties: false,
+};
+
+export const sendPollBodySchema: JsonSchema = {
+  type: "object",
+  properties: {
+    to,
+    question: { type: "string", minLength: 1 },
+    choices: { type: "array", items: { type: "string", minLength: 1 }, minItems: 2, maxItems: 12 },
+    options: sendPollOptionsSchema,
+  },
+  required: ["to", "question", "choices"],
+  additionalProperties: false,
+};
+
+export const newsletterTextBodySchema: JsonSchema = {
+  type: "object",
+  properties: { text: { type: "string", minLength: 1 } },
+  required: ["text"],
+  additionalProperties: false,
+};
+
+/**
+ * Generic `{ success, error }` result returned by operations
+ */
+export const operationResultSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    error: { type: "string" },
+  },
+  required: ["success"],
+};
+
+export const sendMessageResultSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    messageId: { type: "string" },
+    error: { type: "string" },
+  },
+  required: ["success"],
+};
+
+export const instanceStatusSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    state: {
+      type: "string",
+      enum: ["disconnected", "connecting", "connected", "reconnecting", "qr_required"],
+    },
+    qr: { type: "string" },
+    pairingCode: { type: "string" },
+  },
+  required: ["id", "state"],
+};
+
+/**
+ * Validate a value against a schema
+ * @returns The first problem found (e.g. "body.to is required"), or null
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path = "body"): string | null {
+  if (schema.type && !matchesType(schema.type, value)) {
+    return `${path} must be ${schema.type === "array" || schema.type === "object" ? "an" : "a"} ${schema.type}`;
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return `${path} must be one of ${schema.enum.join(", ")}`;
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return `${path} must not be empty`;
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      return `${path} must match ${schema.pattern}`;
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return `${path} must be >= ${schema.minimum}`;
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return `${path} must be <= ${schema.maximum}`;
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return `${path} must have at least ${schema.minItems} items`;
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return `${path} must have at most ${schema.maxItems} items`;
+    }
+    if (schema.items) {
+      for (let i = 0; i < value.length; i++) {
+        const error = validateSchema(schema.items, value[i], `${path}[${i}]`);
+        if (error) return error;
+      }
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        return `${path}.${key} is required`;
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const property = schema.properties?.[key];
+      if (!property) {
+        if (schema.additionalProperties === false) {
+          return `${path}.${key} is not allowed`;
+        }
+        continue;
+      }
+      if (item === undefined) continue;
+      const error = validateSchema(property, item, `${path}.${key}`);
+      if (error) return error;
+    }
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((option) => validateSchema(option, value, path) === null);
+    if (matches.length !== 1) {
+      const alternatives = schema.oneOf.map((option) => option.required?.join("+")).filter(Boolean);
+      return `${path} must have exactly one of: ${alternatives.join(", ")}`;
+    }
+  }
+
+  return null;
+}
+
+function matchesType(type: NonNullable<JsonSchema["type"]>, value: unknown): boolean {
+  switch (type) {
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
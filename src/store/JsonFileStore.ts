@@ -0,0 +1,478 @@
+import * as path from "node:path";
+import * as fs from "node:fs";
+import type { JsonFileStoreOptions, MiawStore } from "../types/store.js";
+import type {
+  ChatInfo,
+  ContactInfo,
+  Label,
+  MiawMessage,
+  QueuedSend,
+} from "../types/index.js";
+import type { CampaignData } from "../types/campaign.js";
+import type { ScheduledPost } from "../types/newsletter-schedule.js";
+import type { MiawLogger } from "../types/logger.js";
+import { TIMEOUTS, THRESHOLDS } from "../constants/timeouts.js";
+
+/** File names used by the JSON store, relative to the instance directory */
+const STORE_FILES = {
+  contacts: "contacts.json",
+  chats: "chats.json",
+  /** Legacy full-snapshot file, migrated to the journal on first load */
+  messages: "messages.json",
+  labels: "labels.json",
+  lidMappings: "lid-mappings.json",
+  sendQueue: "send-queue.json",
+  campaigns: "campaigns.json",
+  optOuts: "opt-outs.json",
+  newsletterSchedule: "newsletter-schedule.json",
+} as const;
+
+/** Directory (relative to the instance directory) holding per-chat message journals */
+const MESSAGES_DIR = "messages";
+
+/** File extension of a per-chat message journal */
+const JOURNAL_EXT = ".jsonl";
+
+/**
+ * Default MiawStore backend, under `sessionPath/instanceId`:
+ * - contacts.json, chats.json, labels.json, lid-mappings.json: one
+ *   pretty-printed JSON file per store, rewritten on every save.
+ * - send-queue.json: pending outbound sends (Buffers stored as base64).
+ * - campaigns.json, opt-outs.json: campaigns with recipient progress and the
+ *   phone numbers that opted out of campaigns.
+ * - newsletter-schedule.json: scheduled newsletter posts and their outcome.
+ * - messages/<chat>.jsonl: an append-only journal per chat (one message per
+ *   line). New messages are buffered and appended asynchronously after a
+ *   short debounce; journals are compacted after many appends. A legacy
+ *   messages.json is migrated into journals on first load.
+ */
+export class JsonFileStore implements MiawStore {
+  private sessionPath: string;
+  private instanceId: string;
+  private logger?: MiawLogger;
+  private flushDelay: number;
+  private compactThreshold: number;
+  // Messages waiting for the next journal flush, keyed by chat JID
+  private pendingMessages: Map<string, MiawMessage[]> = new Map();
+  private flushTimer: NodeJS.Timeout | null = null;
+  // Serializes all async journal writes so appends, compactions and
+  // snapshots never interleave
+  private writeChain: Promise<void> = Promise.resolve();
+  // Appends per chat since its journal was last compacted
+  private appendCounts: Map<string, number> = new Map();
+
+  constructor(
+    sessionPath: string,
+    instanceId: string,
+    logger?: MiawLogger,
+    options: JsonFileStoreOptions = {}
+  ) {
+    this.sessionPath = sessionPath;
+    this.instanceId = instanceId;
+    this.logger = logger;
+    this.flushDelay = options.flushDelay ?? TIMEOUTS.STORE_FLUSH_DELAY;
+    this.compactThreshold = options.compactThreshold ?? THRESHOLDS.JOURNAL_COMPACT_APPENDS;
+  }
+
+  /**
+   * Get the directory holding this instance's store files
+   */
+  getStorePath(): string {
+    return path.join(this.sessionPath, this.instanceId);
+  }
+
+  async loadContacts(): Promise<ContactInfo[]> {
+    const data = this.readJson(STORE_FILES.contacts);
+    return Array.isArray(data) ? (data as ContactInfo[]) : [];
+  }
+
+  async saveContacts(contacts: ContactInfo[]): Promise<void> {
+    this.writeJson(STORE_FILES.contacts, contacts);
+    this.logger?.debug(`Saved ${contacts.length} contacts to ${this.filePath(STORE_FILES.contacts)}`);
+  }
+
+  async loadChats(): Promise<ChatInfo[]> {
+    const data = this.readJson(STORE_FILES.chats);
+    return Array.isArray(data) ? (data as ChatInfo[]) : [];
+  }
+
+  async saveChats(chats: ChatInfo[]): Promise<void> {
+    this.writeJson(STORE_FILES.chats, chats);
+    this.logger?.debug(`Saved ${chats.length} chats to ${this.filePath(STORE_FILES.chats)}`);
+  }
+
+  async loadSendQueue(): Promise<QueuedSend[]> {
+    const filePath = this.filePath(STORE_FILES.sendQueue);
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+    const data = JSON.parse(fs.readFileSync(filePath, "utf8"), (_key, value) =>
+      value?.type === "Buffer" && value.data !== undefined
+        ? Buffer.from(value.data, typeof value.data === "string" ? "base64" : undefined)
+        : value
+    );
+    return Array.isArray(data) ? (data as QueuedSend[]) : [];
+  }
+
+  async saveSendQueue(items: QueuedSend[]): Promise<void> {
+    if (items.length === 0) {
+      fs.rmSync(this.filePath(STORE_FILES.sendQueue), { force: true });
+      return;
+    }
+    // Compact JSON with base64 Buffers: media arguments would otherwise be
+    // written as one array element per byte
+    const content = JSON.stringify(items, (_key, value) =>
+      value?.type === "Buffer" && Array.isArray(value.data)
+        ? { type: "Buffer", data: Buffer.from(value.data).toString("base64") }
+        : value
+    );
+    this.ensureStoreDir();
+    fs.writeFileSync(this.filePath(STORE_FILES.sendQueue), content, "utf8");
+  }
+
+  async loadCampaigns(): Promise<CampaignData[]> {
+    const data = this.readJson(STORE_FILES.campaigns);
+    return Array.isArray(data) ? (data as CampaignData[]) : [];
+  }
+
+  async saveCampaigns(campaigns: CampaignData[]): Promise<void> {
+    this.writeJson(STORE_FILES.campaigns, campaigns);
+    this.logger?.debug(`Saved ${campaigns.length} campaigns to ${this.filePath(STORE_FILES.campaigns)}`);
+  }
+
+  async loadOptOuts(): Promise<string[]> {
+    const data = this.readJson(STORE_FILES.optOuts);
+    return Array.isArray(data) ? data.filter((p): p is string => typeof p === "string") : [];
+  }
+
+  async saveOptOuts(phones: string[]): Promise<void> {
+    this.writeJson(STORE_FILES.optOuts, phones);
+  }
+
+  async loadNewsletterSchedule(): Promise<ScheduledPost[]> {
+    const data = this.readJson(STORE_FILES.newsletterSchedule);
+    return Array.isArray(data) ? (data as ScheduledPost[]) : [];
+  }
+
+  async saveNewsletterSchedule(posts: ScheduledPost[]): Promise<void> {
+    this.writeJson(STORE_FILES.newsletterSchedule, posts);
+  }
+
+  /**
+   * Load all chats' messages from the journals, migrating a legacy
+   * messages.json into journals if present. Pending appends are flushed
+   * first so the result includes everything stored so far.
+   */
+  async loadMessages(): Promise<Record<string, MiawMessage[]>> {
+    await this.flush();
+
+    const result: Record<string, MiawMessage[]> = {};
+    const dirtyChats: string[] = [];
+    const dir = this.messagesDir();
+
+    if (fs.existsSync(dir)) {
+      for (const fileName of await fs.promises.readdir(dir)) {
+        if (!fileName.endsWith(JOURNAL_EXT)) continue;
+        const chatJid = decodeURIComponent(fileName.slice(0, -JOURNAL_EXT.length));
+        const content = await fs.promises.readFile(path.join(dir, fileName), "utf8");
+        const { messages, dirty } = this.parseJournal(content);
+        result[chatJid] = messages;
+        if (dirty) dirtyChats.push(chatJid);
+      }
+    }
+
+    // Migrate legacy full-snapshot file: merge it in, write journals, remove it
+    const legacy = this.readJson(STORE_FILES.messages);
+    if (legacy && typeof legacy === "object") {
+      for (const [jid, messages] of Object.entries(legacy)) {
+        if (!Array.isArray(messages)) continue;
+        result[jid] = this.dedupeById([...(messages as MiawMessage[]), ...(result[jid] || [])]);
+        dirtyChats.push(jid);
+      }
+    }
+
+    if (dirtyChats.length > 0 || legacy !== undefined) {
+      const rewrite = dirtyChats.map((jid) => [jid, result[jid]] as const);
+      await this.enqueueWrite(async () => {
+        for (const [jid, messages] of rewrite) {
+          await this.writeJournal(jid, messages);
+        }
+        if (legacy !== undefined) {
+          await fs.promises.rm(this.filePath(STORE_FILES.messages), { force: true });
+          this.logger?.info(`Migrated ${STORE_FILES.messages} to per-chat journals in ${dir}`);
+        }
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Replace all persisted messages with a full snapshot (compacts every
+   * journal and removes journals of chats no longer present)
+   */
+  async saveMessages(messages: Record<string, MiawMessage[]>): Promise<void> {
+    // The snapshot already contains anything still buffered
+    this.cancelScheduledFlush();
+    this.pendingMessages.clear();
+
+    await this.enqueueWrite(async () => {
+      const dir = this.messagesDir();
+      await fs.promises.mkdir(dir, { recursive: true });
+      const keep = new Set<string>();
+      let total = 0;
+      for (const [jid, chatMessages] of Object.entries(messages)) {
+        await this.writeJournal(jid, chatMessages);
+        keep.add(this.journalFileName(jid));
+        total += chatMessages.length;
+      }
+      for (const fileName of await fs.promises.readdir(dir)) {
+        if (fileName.endsWith(JOURNAL_EXT) && !keep.has(fileName)) {
+          await fs.promises.rm(path.join(dir, fileName), { force: true });
+        }
+      }
+      await fs.promises.rm(this.filePath(STORE_FILES.messages), { force: true });
+      this.logger?.debug(
+        `Saved ${total} messages across ${Object.keys(messages).length} chats to ${dir}`
+      );
+    });
+  }
+
+  /**
+   * Replace one chat's journal (or remove it when `messages` is empty)
+   */
+  async saveChatMessages(chatJid: string, messages: MiawMessage[]): Promise<void> {
+    // The snapshot already contains anything still buffered for this chat
+    this.pendingMessages.delete(chatJid);
+
+    await this.enqueueWrite(async () => {
+      if (messages.length === 0) {
+        await fs.promises.rm(this.journalPath(chatJid), { force: true });
+        this.appendCounts.delete(chatJid);
+        return;
+      }
+      await this.writeJournal(chatJid, messages);
+      this.logger?.debug(`Saved ${messages.length} messages for ${chatJid} to ${this.messagesDir()}`);
+    });
+  }
+
+  /**
+   * Buffer a new message; it is appended to the chat's journal on the next
+   * (debounced) flush
+   */
+  async appendMessage(chatJid: string, message: MiawMessage): Promise<void> {
+    const bucket = this.pendingMessages.get(chatJid);
+    if (bucket) {
+      bucket.push(message);
+    } else {
+      this.pendingMessages.set(chatJid, [message]);
+    }
+    this.scheduleFlush();
+  }
+
+  /**
+   * Append all buffered messages to their journals and wait for every
+   * in-flight write to finish
+   */
+  async flush(): Promise<void> {
+    this.cancelScheduledFlush();
+
+    if (this.pendingMessages.size === 0) {
+      return this.writeChain.catch(() => {});
+    }
+
+    const batch = this.pendingMessages;
+    this.pendingMessages = new Map();
+    return this.enqueueWrite(() => this.appendBatch(batch));
+  }
+
+  async loadLabels(): Promise<Label[]> {
+    const data = this.readJson(STORE_FILES.labels);
+    return Array.isArray(data) ? (data as Label[]) : [];
+  }
+
+  async saveLabels(labels: Label[]): Promise<void> {
+    this.writeJson(STORE_FILES.labels, labels);
+    this.logger?.debug(`Saved ${labels.length} labels to ${this.filePath(STORE_FILES.labels)}`);
+  }
+
+  async loadLidMappings(): Promise<Record<string, string>> {
+    const data = this.readJson(STORE_FILES.lidMappings);
+    const result: Record<string, string> = {};
+    if (typeof data === "object" && data !== null) {
+      for (const [lid, jid] of Object.entries(data)) {
+        if (typeof jid === "string") {
+          result[lid] = jid;
+        }
+      }
+    }
+    return result;
+  }
+
+  async saveLidMappings(mappings: Record<string, string>): Promise<void> {
+    const count = Object.keys(mappings).length;
+    // Never overwrite a populated file with an empty table
+    if (count === 0) {
+      return;
+    }
+    this.writeJson(STORE_FILES.lidMappings, mappings);
+    this.logger?.debug(`Saved ${count} LID mappings to ${this.filePath(STORE_FILES.lidMappings)}`);
+  }
+
+  async clear(): Promise<void> {
+    this.cancelScheduledFlush();
+    this.pendingMessages.clear();
+    this.appendCounts.clear();
+    await this.writeChain.catch(() => {});
+
+    for (const fileName of Object.values(STORE_FILES)) {
+      fs.rmSync(this.filePath(fileName), { force: true });
+    }
+    fs.rmSync(this.messagesDir(), { recursive: true, force: true });
+  }
+
+  private messagesDir(): string {
+    return path.join(this.getStorePath(), MESSAGES_DIR);
+  }
+
+  private journalFileName(chatJid: string): string {
+    return encodeURIComponent(chatJid) + JOURNAL_EXT;
+  }
+
+  private journalPath(chatJid: string): string {
+    return path.join(this.messagesDir(), this.journalFileName(chatJid));
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch((error) => {
+        this.logger?.warn("Failed to flush messages:", error);
+      });
+    }, this.flushDelay);
+    // Don't keep the process alive just for a pending flush
+    this.flushTimer.unref?.();
+  }
+
+  private cancelScheduledFlush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  /**
+   * Run a write after all previously queued writes. A failed write doesn't
+   * block the ones after it.
+   */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const run = this.writeChain.catch(() => {}).then(write);
+    this.writeChain = run;
+    return run;
+  }
+
+  private async appendBatch(batch: Map<string, MiawMessage[]>): Promise<void> {
+    await fs.promises.mkdir(this.messagesDir(), { recursive: true });
+
+    let total = 0;
+    for (const [chatJid, messages] of batch) {
+      const lines = messages.map((m) => JSON.stringify(m) + "\n").join("");
+      await fs.promises.appendFile(this.journalPath(chatJid), lines, "utf8");
+      total += messages.length;
+
+      const count = (this.appendCounts.get(chatJid) || 0) + messages.length;
+      if (count >= this.compactThreshold) {
+        await this.compactJournal(chatJid);
+        this.appendCounts.delete(chatJid);
+      } else {
+        this.appendCounts.set(chatJid, count);
+      }
+    }
+    this.logger?.debug(`Appended ${total} messages across ${batch.size} chats to ${this.messagesDir()}`);
+  }
+
+  /**
+   * Rewrite a chat journal without duplicate or malformed lines
+   */
+  private async compactJournal(chatJid: string): Promise<void> {
+    const content = await fs.promises.readFile(this.journalPath(chatJid), "utf8");
+    const { messages, dirty } = this.parseJournal(content);
+    if (dirty) {
+      await this.writeJournal(chatJid, messages);
+      this.logger?.debug(`Compacted message journal for ${chatJid}`);
+    }
+  }
+
+  /**
+   * Atomically replace a chat journal (write to a temp file, then rename)
+   */
+  private async writeJournal(chatJid: string, messages: MiawMessage[]): Promise<void> {
+    await fs.promises.mkdir(this.messagesDir(), { recursive: true });
+    const target = this.journalPath(chatJid);
+    const temp = `${target}.tmp`;
+    const lines = messages.map((m) => JSON.stringify(m) + "\n").join("");
+    await fs.promises.writeFile(temp, lines, "utf8");
+    await fs.promises.rename(temp, target);
+    this.appendCounts.delete(chatJid);
+  }
+
+  /**
+   * Parse a JSONL journal. Malformed lines (e.g. a partial write cut off by a
+   * crash) are skipped and duplicate ids keep their first occurrence; either
+   * marks the journal dirty so it gets rewritten.
+   */
+  private parseJournal(content: string): { messages: MiawMessage[]; dirty: boolean } {
+    const parsed: MiawMessage[] = [];
+    let dirty = false;
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        parsed.push(JSON.parse(line) as MiawMessage);
+      } catch {
+        dirty = true;
+      }
+    }
+    const messages = this.dedupeById(parsed);
+    return { messages, dirty: dirty || messages.length !== parsed.length };
+  }
+
+  private dedupeById(messages: MiawMessage[]): MiawMessage[] {
+    const seen = new Set<string>();
+    return messages.filter((m) => {
+      // Messages without an id can't be deduped
+      if (!m.id) return true;
+      if (seen.has(m.id)) return false;
+      seen.add(m.id);
+      return true;
+    });
+  }
+
+  private filePath(fileName: string): string {
+    return path.join(this.getStorePath(), fileName);
+  }
+
+  /**
+   * Read and parse a store file. Returns undefined when the file is missing;
+   * parse errors propagate so the client can log them.
+   */
+  private readJson(fileName: string): unknown {
+    const filePath = this.filePath(fileName);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+    return JSON.parse(fs.readFileSync(filePath, "utf8"));
+  }
+
+  private writeJson(fileName: string, data: unknown): void {
+    this.ensureStoreDir();
+    fs.writeFileSync(this.filePath(fileName), JSON.stringify(data, null, 2), "utf8");
+  }
+
+  private ensureStoreDir(): void {
+    const dir = this.getStorePath();
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import type { DialogSession, DialogStore } from "../types/dialog.js";
+
+/**
+ * Default in-memory DialogStore. Sessions are lost on restart.
+ */
+export class MemoryDialogStore<T = Record<string, unknown>> implements DialogStore<T> {
+  private sessions: Map<string, DialogSession<T>> = new Map();
+
+  get(key: string): DialogSession<T> | undefined {
+    return this.sessions.get(key);
+  }
+
+  set(key: string, session: DialogSession<T>): void {
+    this.sessions.set(key, session);
+  }
+
+  delete(key: string): void {
+    this.sessions.delete(key);
+  }
+
+  /** Number of stored sessions */
+  get size(): number {
+    return this.sessions.size;
+  }
+}
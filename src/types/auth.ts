@@ -0,0 +1,39 @@
+import type { AuthenticationState } from "@whiskeysockets/baileys";
+
+/**
+ * Loaded auth state handed to Baileys: the credentials + signal key store,
+ * and a callback to persist credentials whenever Baileys updates them.
+ */
+export interface AuthStateHandle {
+  /** Credentials and signal keys for the Baileys socket */
+  state: AuthenticationState;
+
+  /** Persist the (mutated) credentials. Called on every `creds.update` */
+  saveCreds: () => Promise<void>;
+}
+
+/**
+ * Storage backend for WhatsApp authentication state (creds + signal keys).
+ *
+ * The default is the file-based AuthHandler (Baileys' useMultiFileAuthState
+ * under `sessionPath/instanceId`). SqliteAuthHandler keeps everything in a
+ * single SQLite file. Pass a custom implementation via
+ * `MiawClientOptions.authState` to store auth elsewhere.
+ */
+export interface AuthStateProvider {
+  /**
+   * Load the auth state, creating fresh credentials when none exist.
+   * Called on every connect() (and by logout() when disconnected).
+   */
+  initialize(): Promise<AuthStateHandle>;
+
+  /**
+   * Delete all persisted credentials and keys so the next connect() starts a
+   * fresh QR / pairing-code login.
+   * @returns true if anything was removed, false if no session existed
+   */
+  clear(): boolean;
+
+  /** Release any open handles (optional). Called by MiawClient.dispose() */
+  close?(): void;
+}
@@ -81,6 +81,148 @@ export interface BaileyStickerMessage {
   height?: number;
 }
 
+/**
+ * Location message (static or the initial live-location share)
+ */
+export interface BaileysLocationMessage {
+  degreesLatitude?: number | null;
+  degreesLongitude?: number | null;
+  name?: string | null;
+  address?: string | null;
+  url?: string | null;
+  isLive?: boolean | null;
+  accuracyInMeters?: number | null;
+  speedInMps?: number | null;
+  degreesClockwiseFromMagneticNorth?: number | null;
+  comment?: string | null;
+}
+
+/**
+ * Live location update message
+ */
+export interface BaileysLiveLocationMessage {
+  degreesLatitude?: number | null;
+  degreesLongitude?: number | null;
+  accuracyInMeters?: number | null;
+  speedInMps?: number | null;
+  degreesClockwiseFromMagneticNorth?: number | null;
+  caption?: string | null;
+  sequenceNumber?: number | Long | null;
+}
+
+/**
+ * Contact card message (vCard)
+ */
+export interface BaileysContactMessage {
+  displayName?: string | null;
+  vcard?: string | null;
+}
+
+/**
+ * Poll creation message (V1/V2/V3 share this shape)
+ */
+export interface BaileysPollCreationMessage {
+  name?: string | null;
+  options?: Array<{ optionName?: string | null }> | null;
+  selectableOptionsCount?: number | null;
+}
+
+/**
+ * Group invite message
+ */
+export interface BaileysGroupInviteMessage {
+  groupJid?: string | null;
+  inviteCode?: string | null;
+  inviteExpiration?: number | Long | null;
+  groupName?: string | null;
+  caption?: string | null;
+}
+
+/**
+ * Shared catalog product message
+ */
+export interface BaileysProductMessage {
+  product?: {
+    productId?: string | null;
+    title?: string | null;
+    description?: string | null;
+    currencyCode?: string | null;
+    priceAmount1000?: number | Long | null;
+    salePriceAmount1000?: number | Long | null;
+    retailerId?: string | null;
+    url?: string | null;
+  } | null;
+  businessOwnerJid?: string | null;
+  body?: string | null;
+}
+
+/**
+ * Order (cart) message
+ */
+export interface BaileysOrderMessage {
+  orderId?: string | null;
+  token?: string | null;
+  orderTitle?: string | null;
+  itemCount?: number | null;
+  /** 1 = INQUIRY, 2 = ACCEPTED, 3 = DECLINED */
+  status?: number | null;
+  message?: string | null;
+  sellerJid?: string | null;
+  totalAmount1000?: number | Long | null;
+  totalCurrencyCode?: string | null;
+}
+
+/**
+ * Event message
+ */
+export interface BaileysEventMessage {
+  isCanceled?: boolean | null;
+  name?: string | null;
+  description?: string | null;
+  location?: BaileysLocationMessage | null;
+  joinLink?: string | null;
+  startTime?: number | Long | null;
+  endTime?: number | Long | null;
+  isScheduleCall?: boolean | null;
+}
+
+/**
+ * Scheduled call message
+ */
+export interface BaileysScheduledCallMessage {
+  title?: string | null;
+  scheduledTimestampMs?: number | Long | null;
+  /** 1 = voice, 2 = video */
+  callType?: number | null;
+}
+
+/**
+ * Pin-in-chat message (type 1 = pin for all, 2 = unpin for all)
+ */
+export interface BaileysPinInChatMessage {
+  key?: BaileysMessageKey | null;
+  type?: number | null;
+  senderTimestampMs?: number | Long | null;
+}
+
+/**
+ * Reply / mention / forward context attached to message content
+ */
+export interface BaileysContextInfo {
+  /** ID of the quoted message */
+  stanzaId?: string | null;
+  /** Author of the quoted message */
+  participant?: string | null;
+  /** Chat of the quoted message, when different from the reply's chat */
+  remoteJid?: string | null;
+  quotedMessage?: BaileysMessageContent | null;
+  mentionedJid?: string[] | null;
+  isForwarded?: boolean | null;
+  forwardingScore?: number | null;
+  /** Disappearing-messages timer of the chat, in seconds */
+  expiration?: number | null;
+}
+
 /**
  * Message content types from Baileys
  */
@@ -94,6 +236,51 @@ export interface BaileysMessageContent {
   documentMessage?: BaileysDocumentMessage;
   audioMessage?: BaileysAudioMessage;
   stickerMessage?: BaileyStickerMessage;
+  locationMessage?: BaileysLocationMessage;
+  liveLocationMessage?: BaileysLiveLocationMessage;
+  contactMessage?: BaileysContactMessage;
+  contactsArrayMessage?: {
+    displayName?: string | null;
+    contacts?: BaileysContactMessage[] | null;
+  };
+  pollCreationMessage?: BaileysPollCreationMessage;
+  pollCreationMessageV2?: BaileysPollCreationMessage;
+  pollCreationMessageV3?: BaileysPollCreationMessage;
+  groupInviteMessage?: BaileysGroupInviteMessage;
+  productMessage?: BaileysProductMessage;
+  orderMessage?: BaileysOrderMessage;
+  eventMessage?: BaileysEventMessage;
+  scheduledCallCreationMessage?: BaileysScheduledCallMessage;
+  pinInChatMessage?: BaileysPinInChatMessage;
+  messageContextInfo?: {
+    /** How long a pin lasts, in seconds */
+    messageAddOnDurationInSecs?: number | null;
+  } | null;
+  buttonsResponseMessage?: {
+    selectedButtonId?: string | null;
+    selectedDisplayText?: string | null;
+  };
+  templateButtonReplyMessage?: {
+    selectedId?: string | null;
+    selectedDisplayText?: string | null;
+  };
+  listResponseMessage?: {
+    title?: string | null;
+    description?: string | null;
+    singleSelectReply?: { selectedRowId?: string | null } | null;
+  };
+  interactiveResponseMessage?: {
+    body?: { text?: string | null } | null;
+    nativeFlowResponseMessage?: { name?: string | null; paramsJson?: string | null } | null;
+  };
+  protocolMessage?: {
+    type?: number | null;
+    /** Chat's new disappearing-messages timer (EPHEMERAL_SETTING), in seconds */
+    ephemeralExpiration?: number | null;
+    /** New content of an edited message (MESSAGE_EDIT) */
+    editedMessage?: BaileysMessageContent | null;
+  };
+  ephemeralMessage?: { message?: BaileysMessageContent };
   viewOnceMessage?: { message?: BaileysMessageContent };
   viewOnceMessageV2?: { message?: BaileysMessageContent };
   viewOnceMessageV2Extension?: { message?: BaileysMessageContent };
@@ -110,6 +297,15 @@ export interface BaileysMessage {
   message?: BaileysMessageContent | null;
 }
 
+/**
+ * Node of a raw WhatsApp query response (Baileys BinaryNode)
+ */
+export interface BaileysBinaryNode {
+  tag: string;
+  attrs: { [key: string]: string };
+  content?: BaileysBinaryNode[] | string | Uint8Array;
+}
+
 /**
  * Baileys message upsert event
  */
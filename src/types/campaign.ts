@@ -0,0 +1,157 @@
+/**
+ * Campaign lifecycle state
+ */
+export type CampaignStatus = "draft" | "running" | "paused" | "completed" | "cancelled";
+
+/**
+ * Delivery state of one campaign recipient. Advances with the recipient's
+ * message receipts: sent -> delivered -> read / played.
+ */
+export type CampaignRecipientStatus =
+  | "pending"
+  | "sent"
+  | "delivered"
+  | "read"
+  | "played"
+  | "failed"
+  | "opted_out";
+
+/**
+ * A recipient with its own template variables
+ */
+export interface CampaignRecipientInput {
+  /** Phone number or JID */
+  phone: string;
+
+  /** Template variables for this recipient (override campaign variables) */
+  variables?: Record<string, string>;
+}
+
+/**
+ * Media attached to every campaign message (the rendered template becomes the
+ * caption). Referenced by path or URL so a persisted campaign can resume.
+ */
+export interface CampaignMedia {
+  type: "image" | "video" | "document";
+
+  /** File path or URL */
+  source: string;
+
+  /** File name shown for documents */
+  fileName?: string;
+
+  /** MIME type for documents (auto-detected from fileName if omitted) */
+  mimetype?: string;
+}
+
+/**
+ * Options for MiawClient.createCampaign()
+ */
+export interface CreateCampaignOptions {
+  /** Campaign ID (default: random UUID) */
+  id?: string;
+
+  /** Display name (default: the ID) */
+  name?: string;
+
+  /** Phone numbers / JIDs, or recipients with their own variables */
+  recipients: (string | CampaignRecipientInput)[];
+
+  /**
+   * Message text with `{{variable}}` placeholders. Built-in variables:
+   * `{{name}}` (contact name from the contact store, falls back to the phone),
+   * `{{firstName}}` and `{{phone}}`. Unknown variables render empty.
+   */
+  template: string;
+
+  /** Media sent with the text as caption */
+  media?: CampaignMedia;
+
+  /** Template variables shared by all recipients */
+  variables?: Record<string, string>;
+
+  /**
+   * Replies that opt a recipient out of this and all future campaigns,
+   * matched case-insensitively against the whole message (default: STOP, UNSUBSCRIBE)
+   */
+  optOutKeywords?: string[];
+
+  /** Confirmation sent to recipients who opt out (default: none) */
+  optOutReply?: string;
+
+  /**
+   * Delay between two campaign messages in ms (default: 3000, or 0 when the
+   * client's send queue is enabled since it already paces sends)
+   */
+  delayMs?: number;
+}
+
+/**
+ * A campaign recipient and its delivery state
+ */
+export interface CampaignRecipient {
+  /** Recipient JID */
+  jid: string;
+
+  /** Recipient phone number */
+  phone: string;
+
+  status: CampaignRecipientStatus;
+
+  /** Recipient-specific template variables */
+  variables?: Record<string, string>;
+
+  /** ID of the sent message (used to match receipts) */
+  messageId?: string;
+
+  /** Send error (status "failed") */
+  error?: string;
+
+  /** Last status change (Unix ms) */
+  updatedAt?: number;
+}
+
+/**
+ * Persisted campaign state (MiawStore.saveCampaigns)
+ */
+export interface CampaignData {
+  id: string;
+  name: string;
+  status: CampaignStatus;
+  template: string;
+  media?: CampaignMedia;
+  variables?: Record<string, string>;
+  optOutKeywords: string[];
+  optOutReply?: string;
+  delayMs?: number;
+  recipients: CampaignRecipient[];
+
+  /** PID of the process that last started sending the campaign */
+  ownerPid?: number;
+
+  /** Unix ms */
+  createdAt: number;
+  startedAt?: number;
+  completedAt?: number;
+}
+
+/**
+ * Recipient counts by current status
+ */
+export interface CampaignStats {
+  total: number;
+  pending: number;
+  sent: number;
+  delivered: number;
+  /** Read or played */
+  read: number;
+  failed: number;
+  optedOut: number;
+}
+
+/**
+ * Campaign snapshot with stats (MiawClient.getCampaigns, `campaign_update` event)
+ */
+export interface CampaignInfo extends CampaignData {
+  stats: CampaignStats;
+}
@@ -0,0 +1,79 @@
+import type { MessageContext } from "./middleware.js";
+
+/**
+ * Persisted state of one user's dialog in one chat
+ */
+export interface DialogSession<T = Record<string, unknown>> {
+  /** Current step name */
+  step: string;
+
+  /** Data collected so far */
+  data: T;
+
+  /** Unix ms after which the session is considered abandoned */
+  expiresAt: number;
+}
+
+/**
+ * Storage for dialog sessions, keyed by chat + participant.
+ *
+ * The default is the in-memory {@link MemoryDialogStore}. Implement this to
+ * keep dialogs in Redis, a database, etc. so they survive restarts. All
+ * methods may be async.
+ */
+export interface DialogStore<T = Record<string, unknown>> {
+  /** Load a session, or undefined if none exists */
+  get(key: string): DialogSession<T> | undefined | Promise<DialogSession<T> | undefined>;
+
+  /** Create or replace a session */
+  set(key: string, session: DialogSession<T>): void | Promise<void>;
+
+  /** Remove a session */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Controls for the active dialog, passed to step handlers
+ */
+export interface DialogControl<T = Record<string, unknown>> {
+  /** Session key (chat + participant) */
+  key: string;
+
+  /** Current step name */
+  step: string;
+
+  /** Collected data. Mutations are saved after the step handler returns */
+  data: T;
+
+  /** Move to another step (takes effect for the next message) */
+  goto(step: string): void;
+
+  /** Finish the dialog and delete its session */
+  end(): void;
+}
+
+/**
+ * Handler for one dialog step, run for each message the user sends while the
+ * dialog is on that step
+ */
+export type DialogStepHandler<T = Record<string, unknown>> = (
+  ctx: MessageContext,
+  dialog: DialogControl<T>
+) => void | Promise<void>;
+
+/**
+ * Options for DialogManager
+ */
+export interface DialogOptions<T = Record<string, unknown>> {
+  /** Session storage (default: in-memory MemoryDialogStore) */
+  store?: DialogStore<T>;
+
+  /** Inactivity timeout in ms before a session is dropped (default: 300000) */
+  timeoutMs?: number;
+
+  /**
+   * Called when a session times out (from an in-process timer, so only for
+   * sessions started or advanced by this process)
+   */
+  onTimeout?: (key: string, session: DialogSession<T>) => void | Promise<void>;
+}
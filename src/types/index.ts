@@ -1,5 +1,9 @@
 import type { Agent } from "node:https";
 import type { MiawLogger } from "./logger.js";
+import type { MiawStore } from "./store.js";
+import type { AuthStateProvider } from "./auth.js";
+import type { CampaignInfo } from "./campaign.js";
+import type { ScheduledPost } from "./newsletter-schedule.js";
 
 /**
  * Proxy configuration for WhatsApp connections.
@@ -120,6 +124,155 @@ export interface MiawClientOptions {
    * used when `usePairingCode` is true.
    */
   phoneNumber?: string;
+
+  /**
+   * Storage backend for contacts, chats, messages, labels and LID mappings.
+   * Default: JsonFileStore (JSON files under `sessionPath/instanceId`).
+   * Implement MiawStore to persist to SQLite, Redis, etc.
+   */
+  store?: MiawStore;
+
+  /**
+   * Auth state backend (credentials + signal keys).
+   * Default: AuthHandler (Baileys multi-file auth under `sessionPath/instanceId`).
+   * Use SqliteAuthHandler to keep auth in a single SQLite file.
+   */
+  authState?: AuthStateProvider;
+
+  /**
+   * Bounds for the in-memory message store (default: unbounded).
+   * @see MessageRetentionOptions
+   */
+  retention?: MessageRetentionOptions;
+
+  /**
+   * Route sendText/sendImage/... through a rate-limited outbound queue that
+   * retries transient failures and buffers sends while reconnecting.
+   * Pass `true` for defaults (default: disabled, sends go out immediately).
+   * @see SendQueueOptions
+   */
+  sendQueue?: SendQueueOptions | boolean;
+
+  /**
+   * Continue campaigns that were running when the previous process stopped
+   * (restored from the store) once the client is ready.
+   * Default: false, so short-lived clients (e.g. one-shot CLI commands) never
+   * start a broadcast; resume one explicitly with `getCampaign(id)?.resume()`.
+   */
+  resumeCampaigns?: boolean;
+
+  /**
+   * Automatically reject incoming calls, optionally replying with a text.
+   * Pass `true` to reject every call (default: disabled).
+   * @see RejectCallsOptions
+   */
+  rejectCalls?: RejectCallsOptions | boolean;
+}
+
+/**
+ * Retention policy for the in-memory message store (and its persisted copy).
+ *
+ * Eviction removes the oldest messages first. Poll-creation messages keep
+ * their raw data and are exempt from count/memory eviction so poll votes can
+ * still be decrypted. Slimmed messages keep `raw.key` / `raw.messageTimestamp`,
+ * so reactions, edits, deletes, read receipts, replies and loadMoreMessages()
+ * keep working; only forwardMessage() needs the full raw message.
+ */
+export interface MessageRetentionOptions {
+  /** Max messages kept per chat (default: unlimited) */
+  maxMessagesPerChat?: number;
+
+  /** Max message age in ms; older messages are evicted (default: unlimited) */
+  maxAge?: number;
+
+  /**
+   * Approximate memory budget in MB for all stored messages, measured by
+   * serialized size. When exceeded, raw content of the oldest messages is
+   * dropped first, then the oldest messages are evicted (default: unlimited)
+   */
+  maxMemoryMB?: number;
+
+  /**
+   * Drop raw Baileys content from messages older than this many ms, keeping
+   * only `raw.key` and `raw.messageTimestamp` (default: never)
+   */
+  dropRawAfter?: number;
+}
+
+/**
+ * Outbound send queue settings (MiawClientOptions.sendQueue).
+ *
+ * Queued sends go out one at a time, at most `messagesPerMinute`, with a random
+ * `jitterMs` added to each gap and at least `perRecipientDelayMs` between two
+ * sends to the same recipient. Transient failures (connection drops, timeouts,
+ * rate limits) are retried with exponential backoff; while the client is not
+ * connected the queue holds its items and flushes them once it is ready again.
+ */
+export interface SendQueueOptions {
+  /** Max sends per minute across all recipients (default: 20) */
+  messagesPerMinute?: number;
+
+  /** Max random delay in ms added between sends (default: 1000) */
+  jitterMs?: number;
+
+  /** Min delay in ms between two sends to the same recipient (default: 3000) */
+  perRecipientDelayMs?: number;
+
+  /** Retries after a transient failure (default: 3) */
+  maxRetries?: number;
+
+  /** Backoff before the first retry in ms, doubled per retry (default: 2000) */
+  retryBackoffMs?: number;
+
+  /** Persist pending sends in the store so they survive restarts (default: true) */
+  persist?: boolean;
+}
+
+/**
+ * Client send methods that go through the send queue
+ */
+export type QueuedSendMethod =
+  | "sendText"
+  | "sendImage"
+  | "sendDocument"
+  | "sendVideo"
+  | "sendAudio"
+  | "sendLocation"
+  | "sendContact"
+  | "sendSticker"
+  | "sendPoll"
+  | "sendGroupInvite"
+  | "sendEvent"
+  | "sendProduct"
+  | "sendCatalogLink";
+
+/**
+ * A pending send in the outbound queue
+ */
+export interface QueuedSend {
+  /** Queue item ID */
+  id: string;
+
+  /** Send method to call */
+  method: QueuedSendMethod;
+
+  /** Recipient (first argument of the send method) */
+  to: string;
+
+  /** Arguments for the send method */
+  args: unknown[];
+
+  /** Send attempts made so far */
+  attempts: number;
+
+  /** When the send was queued (Unix ms) */
+  queuedAt: number;
+
+  /** Earliest time of the next attempt (Unix ms) */
+  nextAttemptAt: number;
+
+  /** Error of the last failed attempt */
+  lastError?: string;
 }
 
 /**
@@ -154,6 +307,176 @@ export interface MediaInfo {
   viewOnce?: boolean;
 }
 
+/**
+ * Location payload of a `location` / `live_location` message
+ */
+export interface LocationInfo {
+  /** Latitude in degrees */
+  latitude: number;
+
+  /** Longitude in degrees */
+  longitude: number;
+
+  /** Location name/title */
+  name?: string;
+
+  /** Street address */
+  address?: string;
+
+  /** Link attached to the location */
+  url?: string;
+
+  /** Accuracy radius in meters */
+  accuracy?: number;
+
+  /** Speed in meters per second (live location) */
+  speed?: number;
+
+  /** Heading in degrees clockwise from magnetic north (live location) */
+  heading?: number;
+
+  /** Whether this is a live location share */
+  live: boolean;
+
+  /** Update sequence number (live location) */
+  sequenceNumber?: number;
+}
+
+/**
+ * Poll payload of a `poll` message
+ */
+export interface PollInfo {
+  /** Poll question */
+  name: string;
+
+  /** Option labels, in order */
+  options: string[];
+
+  /** How many options a voter may select (0 = any number) */
+  selectableCount: number;
+}
+
+/**
+ * Group invite payload of a `group_invite` message
+ */
+export interface GroupInviteMessageInfo {
+  /** Group JID */
+  groupJid: string;
+
+  /** Group name */
+  groupName?: string;
+
+  /** Invite code (use with acceptGroupInvite) */
+  inviteCode: string;
+
+  /** Invite expiration (Unix timestamp in seconds) */
+  inviteExpiration?: number;
+}
+
+/**
+ * Product payload of a `product` message (a shared catalog product)
+ */
+export interface ProductMessageInfo {
+  /** Product ID */
+  productId: string;
+
+  /** Product title */
+  title?: string;
+
+  /** Product description */
+  description?: string;
+
+  /** Price (in currency units, not 1000ths) */
+  price?: number;
+
+  /** Sale price (in currency units) */
+  salePrice?: number;
+
+  /** Currency code (e.g. 'IDR') */
+  currency?: string;
+
+  /** Merchant's own product ID / SKU */
+  retailerId?: string;
+
+  /** Product URL */
+  url?: string;
+
+  /** JID of the business that owns the catalog */
+  businessOwnerJid?: string;
+}
+
+/**
+ * Order payload of an `order` message (a cart sent to a business)
+ */
+export interface OrderMessageInfo {
+  /** Order ID (use with getOrderDetails together with token) */
+  orderId: string;
+
+  /** Order token (use with getOrderDetails) */
+  token?: string;
+
+  /** Order title */
+  title?: string;
+
+  /** Number of items in the order */
+  itemCount?: number;
+
+  /** Order status */
+  status?: "inquiry" | "accepted" | "declined";
+
+  /** JID of the seller */
+  sellerJid?: string;
+
+  /** Order total (in currency units) */
+  total?: number;
+
+  /** Currency code of the total */
+  currency?: string;
+}
+
+/**
+ * Event payload of an `event` message (a WhatsApp group/chat event)
+ */
+export interface EventInfo {
+  /** Event name */
+  name: string;
+
+  /** Event description */
+  description?: string;
+
+  /** Event location */
+  location?: LocationInfo;
+
+  /** Call link to join the event */
+  joinLink?: string;
+
+  /** Start time (Unix timestamp in seconds) */
+  startTime?: number;
+
+  /** End time (Unix timestamp in seconds) */
+  endTime?: number;
+
+  /** Whether the event was canceled */
+  isCanceled: boolean;
+
+  /** Whether this is a scheduled call rather than an event */
+  isScheduledCall?: boolean;
+}
+
+/**
+ * Selection payload of a `button_response` / `list_response` message
+ */
+export interface InteractiveResponse {
+  /** ID of the selected button / list row */
+  id: string;
+
+  /** Display text of the selection */
+  text?: string;
+
+  /** List row description (list responses) */
+  description?: string;
+}
+
 /**
  * Normalized message structure - simplified from Baileys
  */
@@ -203,15 +526,92 @@ export interface MiawMessage {
     | "audio"
     | "document"
     | "sticker"
+    | "location"
+    | "live_location"
+    | "contact"
+    | "poll"
+    | "group_invite"
+    | "product"
+    | "order"
+    | "event"
+    | "button_response"
+    | "list_response"
     | "unknown";
 
   /** Media metadata (only present for media messages: image, video, audio, document, sticker) */
   media?: MediaInfo;
 
+  /** Location (type 'location' and 'live_location') */
+  location?: LocationInfo;
+
+  /** Shared contact cards (type 'contact'; one or more) */
+  contacts?: ContactCard[];
+
+  /** Poll definition (type 'poll') */
+  poll?: PollInfo;
+
+  /** Group invite (type 'group_invite') */
+  groupInvite?: GroupInviteMessageInfo;
+
+  /** Shared product (type 'product') */
+  product?: ProductMessageInfo;
+
+  /** Order (type 'order') */
+  order?: OrderMessageInfo;
+
+  /** Event (type 'event') */
+  event?: EventInfo;
+
+  /** Selected button / list row (type 'button_response' and 'list_response') */
+  response?: InteractiveResponse;
+
+  /** The message this one replies to (only set on replies) */
+  quoted?: QuotedMessage;
+
+  /** JIDs @mentioned in this message (LID-resolved) */
+  mentions?: string[];
+
+  /** Whether this message was forwarded */
+  isForwarded?: boolean;
+
+  /** How many times this message has been forwarded (4+ shows "Forwarded many times") */
+  forwardingScore?: number;
+
+  /**
+   * Disappearing-messages timer the message was sent with, in seconds. The
+   * message expires `ephemeralExpiration` seconds after `timestamp`.
+   */
+  ephemeralExpiration?: number;
+
   /** Original raw message from Baileys (for advanced use) */
   raw?: any;
 }
 
+/**
+ * The message a reply quotes, normalized from the reply's context. Only what
+ * WhatsApp embeds in the reply is available (no timestamp or raw message);
+ * look up the full message by `id` with getChatMessages() if needed.
+ */
+export type QuotedMessage = Pick<
+  MiawMessage,
+  | "id"
+  | "from"
+  | "participant"
+  | "senderPhone"
+  | "fromMe"
+  | "text"
+  | "type"
+  | "media"
+  | "location"
+  | "contacts"
+  | "poll"
+  | "groupInvite"
+  | "product"
+  | "order"
+  | "event"
+  | "response"
+>;
+
 /**
  * Connection states
  */
@@ -262,6 +662,41 @@ export interface MessageDelete {
   raw?: any;
 }
 
+/**
+ * A pin-in-chat change, emitted via the `message_pin` event when a message is
+ * pinned or unpinned (from any of your devices or by another participant)
+ */
+export interface MessagePin {
+  /** ID of the pinned/unpinned message */
+  messageId: string;
+
+  /** The chat/conversation JID */
+  chatId: string;
+
+  /** Whether the message was pinned or unpinned */
+  action: "pin" | "unpin";
+
+  /** How long the pin lasts in seconds (pins only) */
+  duration?: PinDuration;
+
+  /** JID of who pinned/unpinned the message (LID-resolved) */
+  pinnedBy: string;
+
+  /** Whether you pinned/unpinned it */
+  fromMe: boolean;
+
+  /** When the change was made (Unix timestamp in milliseconds) */
+  timestamp: number;
+
+  /** Original raw Baileys message for advanced use */
+  raw?: any;
+}
+
+/**
+ * How long a pinned message stays pinned: 24 hours, 7 days or 30 days (seconds)
+ */
+export type PinDuration = 86400 | 604800 | 2592000;
+
 /**
  * Reaction to a message
  */
@@ -331,6 +766,9 @@ export interface MiawClientEvents {
   /** Emitted when a message is deleted/revoked */
   message_delete: (deletion: MessageDelete) => void;
 
+  /** Emitted when a message is pinned or unpinned in a chat */
+  message_pin: (pin: MessagePin) => void;
+
   /** Emitted when a message receives a reaction */
   message_reaction: (reaction: MessageReaction) => void;
 
@@ -340,12 +778,33 @@ export interface MiawClientEvents {
   /** Emitted when someone votes on a poll (carries the aggregated tally) */
   poll_vote: (vote: PollVoteUpdate) => void;
 
+  /** Emitted when a followed newsletter publishes a post (see subscribeNewsletterUpdates) */
+  newsletter_message: (message: NewsletterMessage) => void;
+
+  /** Emitted when a contact starts sharing their live location and on each position update */
+  live_location: (update: LiveLocationUpdate) => void;
+
+  /** Emitted when a customer sends an order (WhatsApp Business), with its details fetched */
+  order: (order: OrderEvent) => void;
+
+  /** Emitted when a customer shares a catalog product (WhatsApp Business) */
+  product_inquiry: (inquiry: ProductInquiry) => void;
+
   /** Emitted when a pairing code is generated (pairing-code auth) */
   pairing_code: (code: string) => void;
 
   /** Emitted when a contact's presence changes (online/offline/typing) */
   presence: (update: PresenceUpdate) => void;
 
+  /** Emitted when someone requests to join a group you admin, or a request is revoked/rejected */
+  group_join_request: (update: GroupJoinRequestUpdate) => void;
+
+  /** Emitted when contacts are blocked or unblocked */
+  blocklist_update: (update: BlocklistUpdate) => void;
+
+  /** Emitted for incoming calls and their status changes (missed, rejected, ...) */
+  call: (call: CallEvent) => void;
+
   /** Emitted when connection state changes */
   connection: (state: ConnectionState) => void;
 
@@ -360,6 +819,39 @@ export interface MiawClientEvents {
 
   /** Emitted when session is saved */
   session_saved: () => void;
+
+  /** Emitted when a send is added to the outbound queue */
+  send_queued: (item: QueuedSend) => void;
+
+  /** Emitted when a queued send went out */
+  send_sent: (item: QueuedSend, result: SendMessageResult) => void;
+
+  /** Emitted when a queued send failed permanently (retries exhausted or non-transient error) */
+  send_failed: (item: QueuedSend, error: string) => void;
+
+  /** Emitted when a campaign's state or a recipient's status changes */
+  campaign_update: (campaign: CampaignInfo) => void;
+
+  /** Emitted when a scheduled newsletter post is scheduled, published, failed, skipped or cancelled */
+  newsletter_schedule_update: (post: ScheduledPost) => void;
+}
+
+/**
+ * Options for MiawClient.waitForReply()
+ */
+export interface WaitForReplyOptions {
+  /**
+   * Only accept messages from this sender (phone number, phone JID or @lid).
+   * Needed in groups to wait for a specific participant; in DMs the chat is
+   * the sender.
+   */
+  from?: string;
+
+  /** Give up after this many ms and resolve null (default: 60000) */
+  timeoutMs?: number;
+
+  /** Extra predicate a message must pass (e.g. only numbers, only images) */
+  filter?: (message: MiawMessage) => boolean;
 }
 
 /**
@@ -481,6 +973,9 @@ export interface ContactCard {
 
   /** Optional organization / company name */
   organization?: string;
+
+  /** Raw vCard text (set on received contact cards) */
+  vcard?: string;
 }
 
 /**
@@ -524,6 +1019,82 @@ export interface SendPollOptions {
   quoted?: MiawMessage;
 }
 
+/**
+ * Options for sending a group invite
+ */
+export interface SendGroupInviteOptions {
+  /** Text shown with the invite (default: "Invitation to join my WhatsApp group") */
+  caption?: string;
+
+  /** Quote/reply to a specific message */
+  quoted?: MiawMessage;
+}
+
+/**
+ * Options for sending an event
+ */
+export interface SendEventOptions {
+  /** Event description */
+  description?: string;
+
+  /** End time */
+  endTime?: Date;
+
+  /** Where the event takes place */
+  location?: {
+    latitude: number;
+    longitude: number;
+    name?: string;
+    address?: string;
+  };
+
+  /** Attach a WhatsApp call link of this type to the event */
+  call?: "audio" | "video";
+
+  /** Send as a scheduled call (WhatsApp shows it as a call, not an event) */
+  scheduledCall?: boolean;
+
+  /** Whether guests may bring others */
+  extraGuestsAllowed?: boolean;
+
+  /** Quote/reply to a specific message */
+  quoted?: MiawMessage;
+}
+
+/**
+ * Options for sending a catalog product
+ */
+export interface SendProductOptions {
+  /** Business whose catalog the product is in (default: your own) */
+  businessJid?: string;
+
+  /** Text shown with the product */
+  body?: string;
+
+  /** Footer text */
+  footer?: string;
+
+  /** Product image (default: the product's catalog image) */
+  image?: MediaSource;
+
+  /** Quote/reply to a specific message */
+  quoted?: MiawMessage;
+}
+
+/**
+ * Options for sending a catalog link
+ */
+export interface SendCatalogLinkOptions {
+  /** Business whose catalog to link (default: your own) */
+  businessJid?: string;
+
+  /** Text sent before the link */
+  text?: string;
+
+  /** Quote/reply to a specific message */
+  quoted?: MiawMessage;
+}
+
 /**
  * A poll vote update, emitted via the `poll_vote` event when someone votes.
  * Carries the current aggregated tally for the poll.
@@ -677,6 +1248,84 @@ export interface OrderInfo {
   products: OrderProductInfo[];
 }
 
+/**
+ * An order received from a customer (`order` event)
+ */
+export interface OrderEvent {
+  /** ID of the order message (pass the whole event to updateOrderStatus) */
+  messageId: string;
+
+  /** Chat the order was sent in */
+  chatId: string;
+
+  /** Customer JID */
+  sender: string;
+
+  /** Customer phone number (if available) */
+  senderPhone?: string;
+
+  /** Customer push name (if available) */
+  senderName?: string;
+
+  /** Order summary carried by the message (ID, token, title, item count, total) */
+  order: OrderMessageInfo;
+
+  /**
+   * Order lines, fetched with the message's token. Undefined when the order
+   * carries no token or the details couldn't be fetched.
+   */
+  details?: OrderInfo;
+
+  /** Customer's note sent with the order */
+  note?: string;
+
+  /** When the order was sent (Unix seconds) */
+  timestamp: number;
+
+  /** The normalized order message */
+  message: MiawMessage;
+}
+
+/**
+ * A catalog product shared by a customer (`product_inquiry` event)
+ */
+export interface ProductInquiry {
+  /** ID of the product message */
+  messageId: string;
+
+  /** Chat the product was shared in */
+  chatId: string;
+
+  /** Customer JID */
+  sender: string;
+
+  /** Customer phone number (if available) */
+  senderPhone?: string;
+
+  /** Customer push name (if available) */
+  senderName?: string;
+
+  /** The shared product */
+  product: ProductMessageInfo;
+
+  /** Whether the product is from your own catalog */
+  isOwnProduct: boolean;
+
+  /** Text sent with the product */
+  text?: string;
+
+  /** When the product was shared (Unix seconds) */
+  timestamp: number;
+
+  /** The normalized product message */
+  message: MiawMessage;
+}
+
+/**
+ * Order statuses a business can reply with
+ */
+export type OrderStatusUpdate = "accepted" | "declined";
+
 /**
  * Input for a business quick reply (v1.8.0).
  */
@@ -711,10 +1360,73 @@ export interface GroupParticipant {
   role: "admin" | "superadmin" | "member";
 }
 
+/** Who can add members to a group or community */
+export type GroupMemberAddMode = "admin_add" | "all_member_add";
+
+/**
+ * Admin settings shared by groups and communities
+ */
+export interface GroupSettings {
+  /** Whether only admins can send messages */
+  announce?: boolean;
+
+  /** Whether only admins can edit group info */
+  restrict?: boolean;
+
+  /** Who can add members */
+  memberAddMode?: GroupMemberAddMode;
+
+  /** Whether admins must approve new members */
+  joinApproval?: boolean;
+
+  /** Disappearing-messages timer in seconds (undefined when off) */
+  ephemeralDuration?: number;
+}
+
+/**
+ * A pending request to join a group or community (join approval on)
+ */
+export interface GroupJoinRequest {
+  /** Requester's JID (LIDs resolved to phone JIDs when known) */
+  jid: string;
+
+  /** Requester's phone number, if known */
+  phone?: string;
+
+  /** How the request was made, e.g. "invite_link" or "linked_group_join" */
+  method?: string;
+
+  /** When the request was made (Unix seconds) */
+  requestedAt?: number;
+}
+
+/**
+ * A join request was created, revoked by the requester or rejected.
+ * Emitted on the `group_join_request` event.
+ */
+export interface GroupJoinRequestUpdate {
+  /** Group or community JID */
+  groupJid: string;
+
+  /** Requester's JID (LIDs resolved to phone JIDs when known) */
+  participant: string;
+
+  /** Requester's phone number, if known */
+  phone?: string;
+
+  action: "created" | "revoked" | "rejected";
+
+  /** How the request was made */
+  method?: "invite_link" | "linked_group_join" | "non_admin_add";
+
+  /** Who performed the action (e.g. the admin who rejected it) */
+  author?: string;
+}
+
 /**
  * Group metadata information
  */
-export interface GroupInfo {
+export interface GroupInfo extends GroupSettings {
   /** Group JID */
   jid: string;
 
@@ -735,12 +1447,6 @@ export interface GroupInfo {
 
   /** List of participants */
   participants: GroupParticipant[];
-
-  /** Whether only admins can send messages */
-  announce?: boolean;
-
-  /** Whether only admins can edit group info */
-  restrict?: boolean;
 }
 
 /**
@@ -842,7 +1548,7 @@ export interface GroupInviteInfo {
  * Community metadata. A community is a hub that links multiple groups.
  * Mirrors {@link GroupInfo} (Baileys returns the same metadata shape).
  */
-export interface CommunityInfo {
+export interface CommunityInfo extends GroupSettings {
   /** Community JID */
   jid: string;
   /** Community name/subject */
@@ -857,10 +1563,6 @@ export interface CommunityInfo {
   participantCount: number;
   /** List of participants */
   participants: GroupParticipant[];
-  /** Whether only admins can send messages */
-  announce?: boolean;
-  /** Whether only admins can edit community info */
-  restrict?: boolean;
 }
 
 /**
@@ -918,6 +1620,288 @@ export interface ProfileOperationResult {
   error?: string;
 }
 
+// ============================================
+// Privacy & Blocklist Types
+// ============================================
+
+/** Who can see a piece of profile info ("contact_blacklist" = my contacts except...) */
+export type PrivacyVisibility = "all" | "contacts" | "contact_blacklist" | "none";
+
+/**
+ * Privacy settings and their allowed values
+ */
+export interface PrivacySettingValues {
+  /** Who can see your last seen */
+  lastSeen: PrivacyVisibility;
+  /** Who can see when you're online ("match_last_seen" = same as lastSeen) */
+  online: "all" | "match_last_seen";
+  /** Who can see your profile photo */
+  profilePicture: PrivacyVisibility;
+  /** Who can see your status updates */
+  status: PrivacyVisibility;
+  /** Whether read receipts are sent */
+  readReceipts: "all" | "none";
+  /** Who can add you to groups */
+  groupsAdd: "all" | "contacts" | "contact_blacklist";
+  /** Who can call you ("known" = contacts and chats) */
+  calls: "all" | "known";
+  /** Who can message you */
+  messages: "all" | "contacts";
+  /** Disappearing-messages timer for new chats, in seconds (0 = off) */
+  defaultDisappearingMode: number;
+}
+
+/** Name of a privacy setting */
+export type PrivacySettingKey = keyof PrivacySettingValues;
+
+/**
+ * Current privacy settings (settings the server didn't report are omitted)
+ */
+export type PrivacySettings = Partial<PrivacySettingValues>;
+
+/**
+ * Result of a privacy or block operation
+ */
+export interface PrivacyOperationResult {
+  /** Whether the operation was successful */
+  success: boolean;
+
+  /** Error message if failed */
+  error?: string;
+}
+
+/**
+ * Contacts were blocked or unblocked (on this or another device).
+ * Emitted on the `blocklist_update` event.
+ */
+export interface BlocklistUpdate {
+  /** JIDs of the affected contacts (phone JIDs when the LID mapping is known) */
+  jids: string[];
+
+  action: "block" | "unblock";
+}
+
+// ============================================
+// Call Types
+// ============================================
+
+/** Stage of a call, as reported by WhatsApp */
+export type CallStatus =
+  | "offer"
+  | "ringing"
+  | "preaccept"
+  | "transport"
+  | "relaylatency"
+  | "timeout"
+  | "reject"
+  | "accept"
+  | "terminate";
+
+/**
+ * An incoming call or a change in its status. Emitted on the `call` event.
+ */
+export interface CallEvent {
+  /** Call ID (pass to rejectCall()) */
+  id: string;
+
+  /** Caller JID (phone JID when the LID mapping is known) */
+  from: string;
+
+  /** Caller phone number (if available) */
+  phone?: string;
+
+  /** Chat the call belongs to */
+  chatId: string;
+
+  /** Video call (false = voice call) */
+  isVideo: boolean;
+
+  /** Group call */
+  isGroup: boolean;
+
+  /** Group JID (group calls only) */
+  groupJid?: string;
+
+  /** "offer" = incoming call; "timeout" = missed; "reject" / "accept" / "terminate" = ended */
+  status: CallStatus;
+
+  /** The call was received while offline and is being replayed */
+  offline: boolean;
+
+  /** When the call update happened (Unix seconds) */
+  timestamp: number;
+
+  /** The call was rejected by the `rejectCalls` policy */
+  autoRejected: boolean;
+}
+
+/**
+ * Auto-reject policy for incoming calls (MiawClientOptions.rejectCalls).
+ * Only live "offer" updates are rejected; calls replayed after being offline
+ * are reported but left alone.
+ */
+export interface RejectCallsOptions {
+  /** Text sent to the caller after rejecting (default: none) */
+  reply?: string;
+
+  /** Phone numbers or JIDs whose calls are never rejected */
+  allow?: string[];
+
+  /** Also reject group calls (default: true) */
+  groupCalls?: boolean;
+
+  /**
+   * Return false to let a call ring (checked after `allow` / `groupCalls`).
+   * A filter that throws lets the call ring too.
+   */
+  filter?: (call: CallEvent) => boolean;
+}
+
+/**
+ * Result of a call operation
+ */
+export interface CallOperationResult {
+  /** Whether the operation was successful */
+  success: boolean;
+
+  /** Error message if failed */
+  error?: string;
+}
+
+/**
+ * Result of createCallLink()
+ */
+export interface CallLinkResult {
+  /** Whether the link was created */
+  success: boolean;
+
+  /** Shareable link (e.g., 'https://call.whatsapp.com/video/AbCd...') */
+  link?: string;
+
+  /** Link token */
+  token?: string;
+
+  /** Error message if failed */
+  error?: string;
+}
+
+// ============================================
+// Live Location Types
+// ============================================
+
+/**
+ * Options for sendLiveLocation()
+ */
+export interface SendLiveLocationOptions {
+  /** Latitude in degrees */
+  lat: number;
+
+  /** Longitude in degrees */
+  lng: number;
+
+  /** Accuracy radius in meters */
+  accuracy?: number;
+
+  /**
+   * How long to share, in seconds (default: 3600, max: 28800). update() is
+   * refused afterwards. The duration is not sent to recipients: the live
+   * location message has no field for it.
+   */
+  durationSec?: number;
+
+  /** Comment shown with the shared location */
+  caption?: string;
+}
+
+/**
+ * A new position for an ongoing share (LiveLocationShare.update())
+ */
+export interface LiveLocationPosition {
+  /** Latitude in degrees */
+  lat: number;
+
+  /** Longitude in degrees */
+  lng: number;
+
+  /** Accuracy radius in meters */
+  accuracy?: number;
+
+  /** Speed in meters per second */
+  speed?: number;
+
+  /** Heading in degrees clockwise from magnetic north */
+  heading?: number;
+}
+
+/**
+ * Handle to a live location share started with sendLiveLocation().
+ * Updates are refused once the share is stopped or its duration has passed.
+ * Recipients are not told either way: WhatsApp's live location message has
+ * no duration or stop signal, so they keep showing the last position as live
+ * until their app times the share out.
+ */
+export interface LiveLocationShare {
+  /** ID of the message that started the share */
+  readonly messageId: string;
+
+  /** Chat the location is shared in */
+  readonly chatId: string;
+
+  /** When sharing started (Unix ms) */
+  readonly startedAt: number;
+
+  /** When sharing ends (Unix ms) */
+  readonly expiresAt: number;
+
+  /** Whether updates can still be sent */
+  readonly active: boolean;
+
+  /** Send a new position to the chat */
+  update(position: LiveLocationPosition): Promise<SendMessageResult>;
+
+  /**
+   * Stop sharing: no further updates are sent. Nothing is sent to recipients
+   * either (there is no stop message), so they see the last position as live
+   * until it goes stale on their side.
+   */
+  stop(): void;
+}
+
+/**
+ * Result of sendLiveLocation()
+ */
+export interface SendLiveLocationResult extends SendMessageResult {
+  /** Handle for pushing positions and stopping the share (when successful) */
+  share?: LiveLocationShare;
+}
+
+/**
+ * A contact's live location position. Emitted on the `live_location` event
+ * for the message that starts a share and for every update after it.
+ */
+export interface LiveLocationUpdate {
+  /** ID of the message that started the share (the same for all its updates) */
+  messageId: string;
+
+  /** Chat the location is shared in */
+  chatId: string;
+
+  /** Sharer JID (phone JID when the LID mapping is known) */
+  sender: string;
+
+  /** Sharer phone number (if available) */
+  senderPhone?: string;
+
+  /** Current position */
+  location: LocationInfo;
+
+  /** Comment shown with the shared location */
+  caption?: string;
+
+  /** When this position was sent (Unix seconds) */
+  timestamp: number;
+}
+
 // ============================================
 // Label Types (v0.9.0) - WhatsApp Business only
 // ============================================
@@ -1095,6 +2079,75 @@ export interface ProductOptions {
   originCountryCode?: string;
 }
 
+/**
+ * A product in a catalog feed for syncCatalog(), matched to the catalog by
+ * `retailerId`
+ */
+export interface CatalogFeedItem extends Omit<ProductOptions, "retailerId" | "description"> {
+  /** Your SKU; identifies the product across syncs */
+  retailerId: string;
+  /** Product description (default: empty) */
+  description?: string;
+}
+
+/** What syncCatalog() does with a product */
+export type CatalogSyncAction = "create" | "update" | "hide" | "delete" | "unchanged";
+
+/**
+ * Options for syncCatalog()
+ */
+export interface CatalogSyncOptions {
+  /** Only compute the plan; don't change the catalog */
+  dryRun?: boolean;
+  /**
+   * What to do with catalog products whose retailerId isn't in the feed
+   * (default: "hide"). Products without a retailerId are never touched.
+   */
+  onMissing?: "hide" | "delete" | "keep";
+  /** Delay between catalog writes in ms (default: 1000) */
+  delayMs?: number;
+  /** Format of a feed file (default: from the file extension) */
+  format?: "csv" | "json";
+  /** Products per page when reading the current catalog (default: 100) */
+  pageSize?: number;
+}
+
+/**
+ * Outcome for one product of a catalog sync
+ */
+export interface CatalogSyncEntry {
+  /** Product retailer ID (SKU) */
+  retailerId: string;
+  /** Product name (from the feed, or the catalog for hidden/deleted products) */
+  name?: string;
+  /** Planned action */
+  action: CatalogSyncAction;
+  /** Catalog product ID (new products: set once created) */
+  productId?: string;
+  /** Fields that differ from the catalog (update only) */
+  changes?: string[];
+  /** Whether the action was applied (or needed nothing); always true on dry runs */
+  success: boolean;
+  /** Error message if the action failed */
+  error?: string;
+}
+
+/**
+ * Result of syncCatalog()
+ */
+export interface CatalogSyncResult {
+  /** Whether the feed and catalog were read and every change was applied */
+  success: boolean;
+  /** Whether this was a dry run */
+  dryRun: boolean;
+  /** One entry per product, in feed order (missing products last) */
+  report: CatalogSyncEntry[];
+  /** Products per action, plus failed changes */
+  summary: Record<CatalogSyncAction, number> & { failed: number };
+  /** Error message if failed */
+  error?: string;
+}
+
 // ============================================
 // Newsletter/Channel Types (v0.9.0)
 // ============================================
@@ -1126,20 +2179,36 @@ export interface NewsletterMetadata {
 }
 
 /**
- * Newsletter message
+ * Reaction count on a newsletter post
  */
-export interface NewsletterMessage {
-  /** Message ID */
-  id: string;
-  /** Newsletter JID */
+export interface NewsletterReactionCount {
+  /** Reaction emoji */
+  emoji: string;
+  /** Number of followers who reacted with it */
+  count: number;
+}
+
+/**
+ * Newsletter post, normalized like a chat message: `type`, `text`, `media`,
+ * `poll` etc. as on MiawMessage, and `raw` so media can be passed to
+ * downloadMedia()
+ */
+export interface NewsletterMessage extends MiawMessage {
+  /** Newsletter JID (same as `from`) */
   newsletterId: string;
-  /** Message content (text or media) */
+  /** Server ID of the post (use with reactToNewsletterMessage) */
+  serverId: string;
+  /** View count (fetched posts only) */
+  views?: number;
+  /** Reaction counts per emoji (fetched posts only; empty for live posts) */
+  reactions: NewsletterReactionCount[];
+  /** Whether the post was edited */
+  isEdited: boolean;
+  /** @deprecated Use `text` */
   content?: string;
-  /** Message timestamp */
-  timestamp: number;
-  /** Media URL (if applicable) */
+  /** @deprecated Use `media` and downloadMedia() */
   mediaUrl?: string;
-  /** Media type */
+  /** @deprecated Use `type` */
   mediaType?: string;
 }
 
@@ -1149,9 +2218,9 @@ export interface NewsletterMessage {
 export interface NewsletterMessagesResult {
   /** Whether the request was successful */
   success: boolean;
-  /** Messages fetched */
+  /** Posts fetched, oldest first */
   messages?: NewsletterMessage[];
-  /** Next pagination cursor */
+  /** Cursor for the next (older) page; undefined once there are no more posts */
   nextCursor?: string;
   /** Error message if failed */
   error?: string;
@@ -1272,6 +2341,62 @@ export interface FetchChatMessagesResult {
   error?: string;
 }
 
+/**
+ * Query for searchMessages(). All filters are optional and combine with AND.
+ */
+export interface SearchMessagesOptions {
+  /** Words to find (all must match; the last one also matches as a prefix) */
+  query?: string;
+  /** Only this chat (JID or phone number) */
+  chat?: string;
+  /** Only messages from this sender (JID or phone number) */
+  from?: string;
+  /** Only these message types */
+  type?: MiawMessage["type"] | MiawMessage["type"][];
+  /** Only sent (true) or received (false) messages */
+  fromMe?: boolean;
+  /** Only messages sent before this time */
+  before?: Date;
+  /** Only messages sent after this time */
+  after?: Date;
+  /** Only messages with (true) or without (false) media */
+  hasMedia?: boolean;
+  /** Maximum hits per page (default: 20) */
+  limit?: number;
+  /** `nextCursor` of the previous page */
+  cursor?: string;
+  /** Markers wrapped around matched words in snippets (default: `**`) */
+  highlight?: { pre: string; post: string };
+}
+
+/**
+ * A message found by searchMessages()
+ */
+export interface MessageSearchHit {
+  /** The matching message */
+  message: MiawMessage;
+  /** Relevance (higher is better; 0 when searching without a query) */
+  score: number;
+  /** Excerpt around the first match, matched words highlighted (only with a query) */
+  snippet?: string;
+}
+
+/**
+ * Result of searchMessages()
+ */
+export interface SearchMessagesResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Hits on this page, best match first (newest first without a query) */
+  hits?: MessageSearchHit[];
+  /** Number of matching messages across all pages */
+  total?: number;
+  /** Pass as `cursor` to get the next page (absent on the last page) */
+  nextCursor?: string;
+  /** Error message if failed */
+  error?: string;
+}
+
 /**
  * Chat information
  */
@@ -1294,6 +2419,8 @@ export interface ChatInfo {
   isPinned?: boolean;
   /** Whether chat is muted */
   isMuted?: boolean;
+  /** Disappearing-messages timer in seconds (unset when off) */
+  ephemeralExpiration?: number;
 }
 
 /**
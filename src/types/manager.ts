@@ -0,0 +1,80 @@
+import type { ConnectionState, MiawClientEvents, MiawClientOptions } from "./index.js";
+
+/**
+ * Client options shared by all instances of a MiawManager
+ * (instanceId and sessionPath are set by the manager)
+ */
+export type ManagedClientOptions = Omit<MiawClientOptions, "instanceId" | "sessionPath">;
+
+/**
+ * Options for MiawManager
+ */
+export interface MiawManagerOptions {
+  /** Directory holding one session directory per instance (default: './sessions') */
+  sessionPath?: string;
+
+  /**
+   * Options for each created client. Use a function for per-instance values,
+   * e.g. a different proxy, store or authState per instance.
+   */
+  clientOptions?: ManagedClientOptions | ((instanceId: string) => ManagedClientOptions);
+
+  /**
+   * Max instances connecting at the same time (default: 3). A connect holds
+   * its slot until the instance is connected, shows a QR / pairing code,
+   * fails, or `connectTimeoutMs` passes.
+   */
+  maxConcurrentConnects?: number;
+
+  /** Min delay between starting two connects (default: 1000ms) */
+  connectDelayMs?: number;
+
+  /** Max time a connect holds its slot (default: 120000ms) */
+  connectTimeoutMs?: number;
+}
+
+/**
+ * Health of a managed instance
+ */
+export interface InstanceHealth {
+  instanceId: string;
+
+  /** Current connection state */
+  state: ConnectionState;
+
+  /** Reconnect attempts since the instance was last ready */
+  reconnectAttempts: number;
+
+  /** When the instance last became ready (Unix ms) */
+  lastConnectedAt?: number;
+
+  /** When the last message was received (Unix ms) */
+  lastMessageAt?: number;
+
+  /** Reason of the last disconnect (Baileys DisconnectReason name) */
+  lastDisconnectReason?: string;
+
+  /** Last error emitted by the client or thrown by connect() */
+  lastError?: string;
+}
+
+/**
+ * Result of connecting one instance with MiawManager.connectAll()
+ */
+export interface InstanceConnectResult {
+  instanceId: string;
+  success: boolean;
+
+  /** Connection state once the connect slot was released */
+  state: ConnectionState;
+
+  error?: string;
+}
+
+/**
+ * Events emitted by MiawManager: every client event, with the emitting
+ * instance's ID as first argument
+ */
+export type MiawManagerEvents = {
+  [K in keyof MiawClientEvents]: (instanceId: string, ...args: Parameters<MiawClientEvents[K]>) => void;
+};
@@ -0,0 +1,117 @@
+import type { MiawClient } from "../client/MiawClient.js";
+import type {
+  MiawMessage,
+  SendMessageResult,
+  SendTextOptions,
+  WaitForReplyOptions,
+} from "./index.js";
+
+/**
+ * Per-message context passed through the middleware pipeline and to command
+ * handlers
+ */
+export interface MessageContext {
+  /** The normalized incoming message */
+  message: MiawMessage;
+
+  /** The client that received the message */
+  client: MiawClient;
+
+  /**
+   * Scratch space shared by all middleware and the command handler for this
+   * message (e.g. a session loaded by an earlier middleware)
+   */
+  state: Record<string, unknown>;
+
+  /** Reply in the same chat, quoting the incoming message */
+  reply(text: string, options?: Omit<SendTextOptions, "quoted">): Promise<SendMessageResult>;
+
+  /** React to the incoming message (empty string removes the reaction) */
+  react(emoji: string): Promise<SendMessageResult>;
+
+  /**
+   * Wait for the sender's next message in this chat (see
+   * MiawClient.waitForReply). Resolves null on timeout.
+   */
+  waitForReply(options?: WaitForReplyOptions): Promise<MiawMessage | null>;
+}
+
+/**
+ * Message middleware. Call `next()` to pass the message on to the next
+ * middleware (and finally the command router); return without calling it to
+ * stop processing. Errors thrown here are emitted on the client's `error`
+ * event.
+ */
+export type MiawMiddleware = (
+  ctx: MessageContext,
+  next: () => Promise<void>
+) => void | Promise<void>;
+
+/**
+ * Context passed to a command handler
+ */
+export interface CommandContext extends MessageContext {
+  /** Canonical command name as registered (e.g. "/help") */
+  command: string;
+
+  /** The trigger actually used (the name or one of its aliases, with prefix) */
+  trigger: string;
+
+  /** Parsed arguments. Quoted strings ("like this") count as one argument */
+  args: string[];
+
+  /** Raw text after the command, trimmed */
+  argText: string;
+}
+
+/**
+ * Command handler registered via MiawClient.command()
+ */
+export type CommandHandler = (ctx: CommandContext) => void | Promise<void>;
+
+/**
+ * Options for MiawClient.command()
+ */
+export interface CommandOptions {
+  /**
+   * Prefix(es) prepended to the name and aliases (e.g. `["/", "!"]` with name
+   * "help" matches "/help" and "!help"). Default: none — the name is matched
+   * as written.
+   */
+  prefix?: string | string[];
+
+  /** Alternative names for the command */
+  aliases?: string[];
+
+  /** Match the command case-sensitively (default: false) */
+  caseSensitive?: boolean;
+
+  /** Only run in group chats */
+  groupOnly?: boolean;
+
+  /** Only run in direct messages */
+  dmOnly?: boolean;
+
+  /** Only run for group admins (implies groupOnly) */
+  adminOnly?: boolean;
+
+  /** Reply sent when a guard rejects the message (default: ignore silently) */
+  deniedMessage?: string;
+
+  /** Short description, listed by MiawClient.getCommands() */
+  description?: string;
+}
+
+/**
+ * A registered command, as returned by MiawClient.getCommands()
+ */
+export interface CommandInfo {
+  /** Command name as registered */
+  name: string;
+
+  /** Every trigger that runs the command (prefixes applied) */
+  triggers: string[];
+
+  /** Description from CommandOptions */
+  description?: string;
+}
@@ -0,0 +1,76 @@
+/**
+ * Scheduled newsletter post lifecycle state
+ */
+export type ScheduledPostStatus = "scheduled" | "published" | "failed" | "skipped" | "cancelled";
+
+/**
+ * What to do with a post whose publish time passed while the client was
+ * offline: publish it late ("publish") or drop it ("skip")
+ */
+export type MissedPostPolicy = "publish" | "skip";
+
+/**
+ * Content of a scheduled post. Media is referenced by path or URL so a
+ * persisted schedule can publish after a restart.
+ */
+export type ScheduledPostContent =
+  | { type: "text"; text: string }
+  | { type: "image"; source: string; caption?: string }
+  | { type: "video"; source: string; caption?: string }
+  | { type: "poll"; name: string; options: string[] };
+
+/**
+ * Options for MiawClient.scheduleNewsletterPost()
+ */
+export interface ScheduleNewsletterPostOptions {
+  /** Post ID (default: random UUID) */
+  id?: string;
+
+  /** Newsletter JID (e.g., '1234567890@newsletter') */
+  newsletterId: string;
+
+  content: ScheduledPostContent;
+
+  /**
+   * When to publish. A Date or Unix ms timestamp, or an ISO 8601 string.
+   * Strings without a UTC offset (e.g. "2026-11-01T09:00") are wall-clock
+   * times in `timeZone`.
+   */
+  publishAt: Date | number | string;
+
+  /** IANA time zone, e.g. "Asia/Jakarta" (default: the system time zone) */
+  timeZone?: string;
+
+  /** Policy for a publish time missed while offline (default: "publish") */
+  missedPolicy?: MissedPostPolicy;
+}
+
+/**
+ * A scheduled newsletter post (persisted via MiawStore.saveNewsletterSchedule,
+ * `newsletter_schedule_update` event)
+ */
+export interface ScheduledPost {
+  id: string;
+  newsletterId: string;
+  content: ScheduledPostContent;
+  status: ScheduledPostStatus;
+
+  /** Publish time (Unix ms) */
+  publishAt: number;
+
+  /** Time zone the post was scheduled in (for display) */
+  timeZone: string;
+
+  missedPolicy: MissedPostPolicy;
+
+  /** ID of the published message */
+  messageId?: string;
+
+  /** Publish error (status "failed") or why the post was skipped */
+  error?: string;
+
+  /** Unix ms */
+  createdAt: number;
+  publishedAt?: number;
+  updatedAt?: number;
+}
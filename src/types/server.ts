@@ -0,0 +1,79 @@
+import type { MiawClient } from "../client/MiawClient.js";
+import type { ConnectionState } from "./index.js";
+import type { MiawLogger } from "./logger.js";
+
+/**
+ * Options for createMiawServer()
+ */
+export interface MiawServerOptions {
+  /**
+   * Clients to expose, keyed by instance ID (arrays use each client's
+   * getInstanceId()). More can be added later with MiawServer.addClient().
+   */
+  clients?: MiawClient[] | Record<string, MiawClient>;
+
+  /**
+   * API key(s) accepted in the `X-API-Key` header or as
+   * `Authorization: Bearer <key>`. Without a key every request is allowed,
+   * so only omit it when the server is not reachable by others.
+   */
+  apiKey?: string | string[];
+
+  /** Interface to listen on (default: "127.0.0.1") */
+  host?: string;
+
+  /** Port to listen on (default: 3000, 0 picks a free port) */
+  port?: number;
+
+  /** Path prefix for all routes, e.g. "/api" (default: none) */
+  basePath?: string;
+
+  /** Max request body size in bytes (default: 16 MB, enough for base64 media) */
+  bodyLimit?: number;
+
+  /** Title and version of the generated OpenAPI document */
+  openapi?: { title?: string; version?: string };
+
+  /** Logger for request errors (default: no logging) */
+  logger?: MiawLogger;
+}
+
+/**
+ * Connection and login state of one instance, as returned by
+ * `GET /instances/{id}`
+ */
+export interface InstanceStatus {
+  /** Instance ID */
+  id: string;
+
+  /** Current connection state */
+  state: ConnectionState;
+
+  /** Latest QR code to scan (until the instance is connected) */
+  qr?: string;
+
+  /** Latest pairing code (until the instance is connected) */
+  pairingCode?: string;
+}
+
+/**
+ * The subset of JSON Schema used for request validation and the OpenAPI
+ * document
+ */
+export interface JsonSchema {
+  type?: "string" | "number" | "integer" | "boolean" | "object" | "array";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  enum?: (string | number)[];
+  oneOf?: JsonSchema[];
+}
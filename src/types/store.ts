@@ -0,0 +1,125 @@
+import type {
+  ChatInfo,
+  ContactInfo,
+  Label,
+  MiawMessage,
+  QueuedSend,
+} from "./index.js";
+import type { CampaignData } from "./campaign.js";
+import type { ScheduledPost } from "./newsletter-schedule.js";
+
+/**
+ * Storage backend for MiawClient's local stores (contacts, chats, messages,
+ * labels and LID mappings).
+ *
+ * MiawClient keeps these stores in memory and hands them to the backend to
+ * persist; on connect() it loads them back. The default backend is
+ * {@link JsonFileStore} (JSON files under `sessionPath/instanceId`). Pass a
+ * custom implementation via `MiawClientOptions.store` to use SQLite, Redis or
+ * any other storage.
+ *
+ * All methods may be async. Save calls are fire-and-forget from the client's
+ * point of view: failures are logged, never thrown to the caller.
+ */
+export interface MiawStore {
+  /** Load all persisted contacts */
+  loadContacts(): Promise<ContactInfo[]>;
+
+  /** Persist the full (deduplicated) contact list */
+  saveContacts(contacts: ContactInfo[]): Promise<void>;
+
+  /** Load all persisted chats */
+  loadChats(): Promise<ChatInfo[]>;
+
+  /** Persist the full (deduplicated) chat list */
+  saveChats(chats: ChatInfo[]): Promise<void>;
+
+  /** Load all persisted messages, keyed by chat JID */
+  loadMessages(): Promise<Record<string, MiawMessage[]>>;
+
+  /** Persist every chat's messages (full snapshot), keyed by chat JID */
+  saveMessages(messages: Record<string, MiawMessage[]>): Promise<void>;
+
+  /**
+   * Persist a single newly-stored message (optional). When implemented, the
+   * client calls this instead of {@link saveMessages} for each new message,
+   * so backends can write incrementally rather than rewriting everything.
+   */
+  appendMessage?(chatJid: string, message: MiawMessage): Promise<void>;
+
+  /**
+   * Replace one chat's persisted messages (optional; an empty list removes
+   * the chat). When implemented, the client calls this instead of
+   * {@link saveMessages} after retention evicts or slims messages, rewriting
+   * only the chats that changed.
+   */
+  saveChatMessages?(chatJid: string, messages: MiawMessage[]): Promise<void>;
+
+  /** Load all persisted labels */
+  loadLabels(): Promise<Label[]>;
+
+  /** Persist the full label list */
+  saveLabels(labels: Label[]): Promise<void>;
+
+  /** Load persisted LID → phone JID mappings */
+  loadLidMappings(): Promise<Record<string, string>>;
+
+  /** Persist the full LID → phone JID mapping table */
+  saveLidMappings(mappings: Record<string, string>): Promise<void>;
+
+  /** Load pending outbound sends persisted by the send queue (optional) */
+  loadSendQueue?(): Promise<QueuedSend[]>;
+
+  /**
+   * Persist the full list of pending outbound sends (optional). Without it the
+   * send queue is memory-only. Arguments may contain Buffers (media).
+   */
+  saveSendQueue?(items: QueuedSend[]): Promise<void>;
+
+  /** Load persisted campaigns (optional) */
+  loadCampaigns?(): Promise<CampaignData[]>;
+
+  /**
+   * Persist all campaigns with their recipient progress (optional). Without it
+   * campaigns are memory-only and cannot resume after a restart.
+   */
+  saveCampaigns?(campaigns: CampaignData[]): Promise<void>;
+
+  /** Load phone numbers that opted out of campaigns (optional) */
+  loadOptOuts?(): Promise<string[]>;
+
+  /** Persist the full campaign opt-out list (optional) */
+  saveOptOuts?(phones: string[]): Promise<void>;
+
+  /** Load scheduled newsletter posts (optional) */
+  loadNewsletterSchedule?(): Promise<ScheduledPost[]>;
+
+  /**
+   * Persist all scheduled newsletter posts, including published ones with
+   * their message IDs (optional). Without it the schedule is memory-only.
+   */
+  saveNewsletterSchedule?(posts: ScheduledPost[]): Promise<void>;
+
+  /**
+   * Delete all persisted data for this instance (optional). Called by
+   * clearSession() and on logout alongside the auth state.
+   */
+  clear?(): Promise<void>;
+
+  /**
+   * Write out any buffered data (optional). Called by dispose() and
+   * disconnect() so nothing is lost on shutdown.
+   */
+  flush?(): Promise<void>;
+}
+
+/**
+ * Options for the default JsonFileStore
+ */
+export interface JsonFileStoreOptions {
+  /** Debounce before buffered messages are appended to disk in ms (default: 1000) */
+  flushDelay?: number;
+
+  /** Appends to a chat journal before it is compacted (default: 1000) */
+  compactThreshold?: number;
+}
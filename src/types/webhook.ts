@@ -0,0 +1,152 @@
+import type { MiawClientEvents, MiawMessage } from "./index.js";
+import type { MiawLogger } from "./logger.js";
+
+/**
+ * Client events that can be forwarded to webhooks
+ */
+export type WebhookEvent = Extract<
+  keyof MiawClientEvents,
+  | "message"
+  | "message_edit"
+  | "message_delete"
+  | "message_pin"
+  | "message_reaction"
+  | "message_receipt"
+  | "poll_vote"
+  | "newsletter_message"
+  | "live_location"
+  | "order"
+  | "product_inquiry"
+  | "presence"
+  | "connection"
+  | "qr"
+  | "pairing_code"
+>;
+
+/**
+ * A URL that receives webhook POSTs
+ */
+export interface WebhookEndpoint {
+  /** URL to POST JSON payloads to */
+  url: string;
+
+  /**
+   * Shared secret for HMAC-SHA256 signing. When set, each request carries
+   * `X-Miaw-Signature: sha256=<hex>` over `${X-Miaw-Timestamp}.${body}`
+   * (check it with WebhookDispatcher.verifySignature()).
+   */
+  secret?: string;
+
+  /** Events to deliver to this URL (default: all webhook events) */
+  events?: WebhookEvent[];
+
+  /**
+   * Finer filter on the event data, e.g. only group messages.
+   * Return false to skip the delivery.
+   */
+  filter?: (event: WebhookEvent, data: unknown) => boolean;
+
+  /** Extra request headers, e.g. an Authorization header for the receiver */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Options for a WebhookDispatcher
+ */
+export interface WebhookOptions {
+  /** Endpoints to deliver events to */
+  endpoints: WebhookEndpoint[];
+
+  /**
+   * Retries after a failed delivery (network error, timeout, 408, 429 or 5xx).
+   * Other 4xx responses are not retried. Default: 5
+   */
+  maxRetries?: number;
+
+  /** Delay before the first retry, doubled for each further retry (default: 1000ms) */
+  retryBackoffMs?: number;
+
+  /** Per-request timeout (default: 10000ms) */
+  timeoutMs?: number;
+
+  /**
+   * How media of `message` events is included:
+   * - "none" (default): only the media metadata in `message.media`
+   * - "base64": the downloaded file inline as `mediaBase64`
+   * - "url": a `mediaUrl` to download it from the REST API server (requires `mediaBaseUrl`)
+   */
+  media?: "none" | "base64" | "url";
+
+  /** Largest file inlined with media: "base64"; bigger files are left out (default: 5 MB) */
+  maxMediaBytes?: number;
+
+  /**
+   * Base URL of the REST API server (including its basePath) used to build
+   * `mediaUrl`, e.g. "https://bot.example.com/api"
+   */
+  mediaBaseUrl?: string;
+
+  /**
+   * JSONL file that keeps deliveries which failed for good, so they survive
+   * restarts (default: `<sessionPath>/<instanceId>/webhook-dead-letters.jsonl`).
+   * `false` keeps dead letters in memory only.
+   */
+  deadLetterFile?: string | false;
+
+  /** Called when a delivery is moved to the dead-letter queue */
+  onDeadLetter?: (letter: WebhookDeadLetter) => void;
+
+  /** Logger for delivery failures (default: no logging) */
+  logger?: MiawLogger;
+}
+
+/**
+ * `message` event data as sent to webhooks: the message without its raw
+ * Baileys payload, plus the media when enabled
+ */
+export type WebhookMessage = Omit<MiawMessage, "raw"> & {
+  /** Media file as base64 (media: "base64") */
+  mediaBase64?: string;
+
+  /** Download URL for the media file (media: "url") */
+  mediaUrl?: string;
+};
+
+/**
+ * JSON body of a webhook request
+ */
+export interface WebhookPayload {
+  /** Unique delivery ID, also sent as `X-Miaw-Delivery` (use it to deduplicate retries) */
+  id: string;
+
+  /** Client event name, also sent as `X-Miaw-Event` */
+  event: WebhookEvent;
+
+  /** Instance that emitted the event */
+  instanceId: string;
+
+  /** When the event was emitted (Unix ms) */
+  timestamp: number;
+
+  /** Event data (the event's listener argument; WebhookMessage for `message`) */
+  data: unknown;
+}
+
+/**
+ * A delivery that failed after all retries
+ */
+export interface WebhookDeadLetter {
+  /** Endpoint URL */
+  url: string;
+
+  payload: WebhookPayload;
+
+  /** Number of attempts made */
+  attempts: number;
+
+  /** Last error (HTTP status or network error) */
+  error: string;
+
+  /** When the delivery was given up (Unix ms) */
+  failedAt: number;
+}
@@ -0,0 +1,301 @@
+/**
+ * Catalog feed utilities for syncCatalog()
+ * Parses product feeds (CSV or JSON) and diffs them against a catalog
+ */
+
+import { readFile } from "node:fs/promises";
+import * as path from "node:path";
+import type {
+  CatalogFeedItem,
+  CatalogSyncAction,
+  CatalogSyncOptions,
+  Product,
+} from "../types/index.js";
+
+/**
+ * One planned change of a catalog sync
+ */
+export interface CatalogSyncStep {
+  /** What to do */
+  action: CatalogSyncAction;
+  /** Product retailer ID (SKU) */
+  retailerId: string;
+  /** Desired state (create / update / unchanged) */
+  item?: CatalogFeedItem;
+  /** Current catalog product (update / hide / delete / unchanged) */
+  product?: Product;
+  /** Fields that differ (update) */
+  changes?: string[];
+}
+
+/**
+ * Feed column / key (lowercased, without separators) -> feed item field.
+ * Covers our own field names plus the common Commerce Manager feed columns
+ * (id, title, link, image_link, availability).
+ */
+const FIELD_ALIASES: Record<string, string> = {
+  retailerid: "retailerId",
+  sku: "retailerId",
+  id: "retailerId",
+  name: "name",
+  title: "name",
+  description: "description",
+  price: "price",
+  currency: "currency",
+  imageurls: "imageUrls",
+  imageurl: "imageUrls",
+  images: "imageUrls",
+  image: "imageUrls",
+  imagelink: "imageUrls",
+  additionalimagelink: "imageUrls",
+  url: "url",
+  link: "url",
+  ishidden: "isHidden",
+  hidden: "isHidden",
+  availability: "availability",
+  origincountrycode: "originCountryCode",
+  origincountry: "originCountryCode",
+};
+
+/** Availability values that hide a product */
+const UNAVAILABLE = new Set(["out of stock", "discontinued", "unavailable"]);
+
+/**
+ * Parse a product feed
+ * @param content - File content
+ * @param format - "csv" (header row required) or "json" (array, or `{ products: [...] }`)
+ * @throws Error naming the offending row/product for invalid feeds
+ */
+export function parseCatalogFeed(content: string, format: "csv" | "json"): CatalogFeedItem[] {
+  let records: Record<string, unknown>[];
+  if (format === "csv") {
+    const [header, ...rows] = parseCsv(content).filter((row) => row.some((cell) => cell.trim()));
+    if (!header) {
+      return [];
+    }
+    records = rows.map((row) =>
+      Object.fromEntries(header.map((column, i) => [column, row[i] ?? ""]))
+    );
+  } else {
+    const data = JSON.parse(content) as unknown;
+    const list = Array.isArray(data) ? data : (data as { products?: unknown })?.products;
+    if (!Array.isArray(list)) {
+      throw new Error("JSON feed must be an array of products or { products: [...] }");
+    }
+    records = list as Record<string, unknown>[];
+  }
+
+  return validateCatalogFeed(records, format);
+}
+
+/**
+ * Validate and normalize feed products: required fields, prices, currencies
+ * and unique retailerIds. Accepts CatalogFeedItem objects as well as raw feed
+ * records (any supported key spelling).
+ * @param records - Feed products
+ * @param format - Source format, for error labels (CSV rows are numbered as in a spreadsheet)
+ * @throws Error naming the offending row/product for invalid feeds
+ */
+export function validateCatalogFeed(
+  records: readonly object[],
+  format: "csv" | "json" = "json"
+): CatalogFeedItem[] {
+  const items: CatalogFeedItem[] = [];
+  const seen = new Map<string, string>();
+  records.forEach((record, i) => {
+    // CSV rows are numbered as in a spreadsheet (header = row 1)
+    const label = format === "csv" ? `Row ${i + 2}` : `Product ${i + 1}`;
+    const item = toFeedItem(record as Record<string, unknown>, label);
+    const previous = seen.get(item.retailerId);
+    if (previous !== undefined) {
+      throw new Error(`${label}: duplicate retailerId "${item.retailerId}" (also in ${previous})`);
+    }
+    seen.set(item.retailerId, label.toLowerCase());
+    items.push(item);
+  });
+  return items;
+}
+
+/**
+ * Read and parse a product feed file
+ * @param filePath - Path to a .csv or .json file
+ * @param format - Overrides the format implied by the extension
+ */
+export async function loadCatalogFeed(
+  filePath: string,
+  format?: CatalogSyncOptions["format"]
+): Promise<CatalogFeedItem[]> {
+  const resolved = format ?? (path.extname(filePath).toLowerCase() === ".csv" ? "csv" : "json");
+  return parseCatalogFeed(await readFile(filePath, "utf8"), resolved);
+}
+
+/**
+ * Diff a feed against the current catalog. Feed products are created,
+ * updated or left unchanged; catalog products missing from the feed are
+ * hidden, deleted or kept per `onMissing`. Products without a retailerId
+ * aren't managed by the feed and are left out.
+ * @returns Steps in feed order, missing products last
+ */
+export function planCatalogSync(
+  feed: CatalogFeedItem[],
+  products: Product[],
+  onMissing: NonNullable<CatalogSyncOptions["onMissing"]> = "hide"
+): CatalogSyncStep[] {
+  const current = new Map<string, Product>();
+  for (const product of products) {
+    if (product.retailerId) {
+      current.set(product.retailerId, product);
+    }
+  }
+
+  const steps: CatalogSyncStep[] = feed.map((item) => {
+    const product = current.get(item.retailerId);
+    if (!product) {
+      return { action: "create", retailerId: item.retailerId, item };
+    }
+    current.delete(item.retailerId);
+    const changes = diffProduct(item, product);
+    return changes.length > 0
+      ? { action: "update", retailerId: item.retailerId, item, product, changes }
+      : { action: "unchanged", retailerId: item.retailerId, item, product };
+  });
+
+  if (onMissing !== "keep") {
+    for (const [retailerId, product] of current) {
+      if (onMissing === "hide" && product.isHidden) continue;
+      steps.push({ action: onMissing, retailerId, product });
+    }
+  }
+  return steps;
+}
+
+/**
+ * Fields of a catalog product that differ from its feed item. Images aren't
+ * compared (the catalog only reports WhatsApp CDN URLs); the URL is only
+ * compared when the feed sets it.
+ */
+function diffProduct(item: CatalogFeedItem, product: Product): string[] {
+  const changes: string[] = [];
+  if (item.name !== product.name) changes.push("name");
+  if ((item.description ?? "") !== (product.description ?? "")) changes.push("description");
+  if (item.price !== product.price) changes.push("price");
+  if (item.currency.toUpperCase() !== (product.currency ?? "").toUpperCase()) changes.push("currency");
+  if (item.url !== undefined && item.url !== (product.url ?? undefined)) changes.push("url");
+  if ((item.isHidden ?? false) !== (product.isHidden ?? false)) changes.push("isHidden");
+  return changes;
+}
+
+/**
+ * Map a feed record (any supported key spelling) to a validated feed item
+ */
+function toFeedItem(record: Record<string, unknown>, label: string): CatalogFeedItem {
+  const fields: Record<string, unknown> = {};
+  const images: string[] = [];
+  // Our own field names win over aliases (e.g. retailerId over id): apply them last
+  const isOwnName = (alias: string) => FIELD_ALIASES[alias]?.toLowerCase() === alias;
+  const entries = Object.entries(record)
+    .map(([key, value]) => ({ alias: key.toLowerCase().replace(/[^a-z0-9]/g, ""), value }))
+    .sort((a, b) => Number(isOwnName(a.alias)) - Number(isOwnName(b.alias)));
+  for (const { alias, value } of entries) {
+    const field = FIELD_ALIASES[alias];
+    if (!field || value === undefined || value === null || value === "") continue;
+    if (field === "imageUrls") {
+      images.push(...(Array.isArray(value) ? value.map(String) : String(value).split(/[\s|,]+/)));
+    } else {
+      fields[field] = value;
+    }
+  }
+
+  const retailerId = fields.retailerId !== undefined ? String(fields.retailerId).trim() : "";
+  if (!retailerId) {
+    throw new Error(`${label}: missing retailerId`);
+  }
+  const name = fields.name !== undefined ? String(fields.name).trim() : "";
+  if (!name) {
+    throw new Error(`${label}: missing name`);
+  }
+
+  // "9.99" or "9.99 USD" (Commerce Manager style)
+  const priceMatch = /^([\d.,]+)\s*([A-Za-z]{3})?$/.exec(String(fields.price ?? "").trim());
+  const price = priceMatch ? Number(priceMatch[1].replace(/,/g, "")) : NaN;
+  if (!Number.isFinite(price) || price < 0) {
+    throw new Error(`${label}: invalid price "${String(fields.price ?? "")}"`);
+  }
+  const currency = String(fields.currency ?? priceMatch?.[2] ?? "").trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    throw new Error(`${label}: missing or invalid currency`);
+  }
+
+  let isHidden = fields.isHidden !== undefined ? parseBoolean(fields.isHidden, label) : undefined;
+  if (fields.availability !== undefined && UNAVAILABLE.has(String(fields.availability).trim().toLowerCase())) {
+    isHidden = true;
+  }
+
+  const urls = images.map((url) => url.trim()).filter(Boolean);
+  return {
+    retailerId,
+    name,
+    description: fields.description !== undefined ? String(fields.description) : undefined,
+    price,
+    currency,
+    imageUrls: urls.length > 0 ? urls : undefined,
+    url: fields.url !== undefined ? String(fields.url).trim() : undefined,
+    isHidden,
+    originCountryCode: fields.originCountryCode !== undefined ? String(fields.originCountryCode).trim() : undefined,
+  };
+}
+
+/**
+ * Parse a feed boolean (true/false, yes/no, 1/0)
+ */
+function parseBoolean(value: unknown, label: string): boolean {
+  if (typeof value === "boolean") return value;
+  const text = String(value).trim().toLowerCase();
+  if (["true", "yes", "y", "1"].includes(text)) return true;
+  if (["false", "no", "n", "0"].includes(text)) return false;
+  throw new Error(`${label}: invalid boolean "${String(value)}"`);
+}
+
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields (with "" escapes and line
+ * breaks), CRLF or LF line endings, optional UTF-8 BOM
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
@@ -0,0 +1,90 @@
+/**
+ * Time zone helpers for scheduling
+ * Wall-clock times in IANA time zones, using Intl (no tz database dependency)
+ */
+
+/** ISO 8601 date / date-time without a UTC offset: YYYY-MM-DD[(T| )HH:mm[:ss]] */
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * The system's IANA time zone
+ */
+export function systemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * @throws Error for time zones Intl doesn't know
+ */
+export function assertTimeZone(timeZone: string): void {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new Error(`Invalid time zone: ${timeZone}`);
+  }
+}
+
+/**
+ * Parse a date-time. Strings with a UTC offset (or "Z") are absolute;
+ * "2026-11-01T09:00" and "2026-11-01 09:00" are wall-clock times in `timeZone`.
+ * @returns Unix ms
+ * @throws Error for unparseable values or unknown time zones
+ */
+export function parseZonedTime(value: string, timeZone: string): number {
+  const match = LOCAL_DATE_TIME.exec(value.trim());
+  if (!match) {
+    const timestamp = Date.parse(value);
+    if (Number.isNaN(timestamp)) {
+      throw new Error(`Invalid date/time: ${value}`);
+    }
+    return timestamp;
+  }
+
+  assertTimeZone(timeZone);
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  const wall = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  // Date.UTC rolls over out-of-range fields (month 13, Feb 30), so read them back
+  const date = new Date(wall);
+  if (date.getUTCMonth() !== +month - 1 || date.getUTCDate() !== +day || +hour > 23 || +minute > 59 || +second > 59) {
+    throw new Error(`Invalid date/time: ${value}`);
+  }
+
+  // The zone's offset at the wall time read as UTC is a first guess; it is
+  // re-read at the result, which differs when a DST change lies in between
+  const guess = wall - zoneOffset(wall, timeZone);
+  return wall - zoneOffset(guess, timeZone);
+}
+
+/**
+ * Format a timestamp as wall-clock time in a time zone ("2026-11-01 09:00")
+ */
+export function formatZonedTime(timestamp: number, timeZone: string): string {
+  const parts = zoneParts(timestamp, timeZone);
+  return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}`;
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in ms
+ */
+function zoneOffset(timestamp: number, timeZone: string): number {
+  const parts = zoneParts(timestamp, timeZone);
+  const wall = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return wall - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Zero-padded wall-clock fields of an instant in a time zone
+ */
+function zoneParts(timestamp: number, timeZone: string): Record<string, string> {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  return Object.fromEntries(formatter.formatToParts(new Date(timestamp)).map((p) => [p.type, p.value]));
+}
@@ -281,14 +281,18 @@ describe('Newsletter/Channel Features (v0.9.0)', () => {
 
       await sleep(1000);
 
-      const result = await client.fetchNewsletterMessages(
-        testNewsletterId,
-        5,
-        Date.now(),
-        0
-      );
+      const first = await client.fetchNewsletterMessages(testNewsletterId, 5);
+      expect(first.success).toBe(true);
+      if (!first.nextCursor) {
+        console.log('⏭️  Skipping: Newsletter has a single page of posts');
+        return;
+      }
+
+      const result = await client.fetchNewsletterMessages(testNewsletterId, 5, first.nextCursor);
 
       expect(result.success).toBe(true);
+      const oldest = Number(first.messages![0].serverId);
+      expect(result.messages!.every((m) => Number(m.serverId) < oldest)).toBe(true);
       console.log('✅ Paginated newsletter messages fetched');
     });
 
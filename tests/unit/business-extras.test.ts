@@ -23,6 +23,7 @@ jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
   downloadMediaMessage: jest.fn(),
   jidNormalizedUser: jest.fn((jid: string) => jid),
   getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
 }));
 
 const { MiawClient } = await import("../../src/client/MiawClient.js");
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for the call event, the rejectCalls policy, rejectCall() and
+ * createCallLink(). Fake socket; no real connection.
+ */
+
+import { jest, describe, beforeEach, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1] }),
+  fetchLatestWaWebVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1], isLatest: true }),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+
+const socketMocks = {
+  rejectCall: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  createCallLink: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+};
+
+const DATE = new Date("2026-01-01T00:00:00Z");
+
+function makeConnectedClient(rejectCalls?: unknown): any {
+  const client: any = new MiawClient({ instanceId: "test-calls", rejectCalls: rejectCalls as any });
+  client.connectionState = "connected";
+  client.socket = socketMocks;
+  client.sendText = jest.fn(async () => ({ success: true }));
+  client.addLidMapping = (lid: string, jid: string) => client.lidToJidMap.set(lid, jid);
+  return client;
+}
+
+function offer(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "CALL1",
+    chatId: "111@lid",
+    from: "111@lid",
+    callerPn: "6281@s.whatsapp.net",
+    date: DATE,
+    isVideo: true,
+    status: "offer",
+    offline: false,
+    ...overrides,
+  };
+}
+
+/** Let the fire-and-forget auto-reject finish */
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("calls", () => {
+  beforeEach(() => {
+    Object.values(socketMocks).forEach((m) => m.mockReset().mockResolvedValue(undefined));
+  });
+
+  it("emits call events with the caller resolved through the LID map", () => {
+    const client = makeConnectedClient();
+    const events: any[] = [];
+    client.on("call", (c: any) => events.push(c));
+
+    client.handleCall(offer());
+    client.handleCall(offer({ callerPn: undefined, status: "timeout" }));
+
+    expect(events[0]).toEqual({
+      id: "CALL1",
+      from: "6281@s.whatsapp.net",
+      phone: "6281",
+      chatId: "6281@s.whatsapp.net",
+      isVideo: true,
+      isGroup: false,
+      groupJid: undefined,
+      status: "offer",
+      offline: false,
+      timestamp: DATE.getTime() / 1000,
+      autoRejected: false,
+    });
+    expect(events[1]).toMatchObject({ from: "6281@s.whatsapp.net", status: "timeout" });
+    expect(socketMocks.rejectCall).not.toHaveBeenCalled();
+  });
+
+  it("auto-rejects live offers with the raw caller JID and replies", async () => {
+    const client = makeConnectedClient({ reply: "No calls, please text us" });
+    const events: any[] = [];
+    client.on("call", (c: any) => events.push(c));
+
+    client.handleCall(offer());
+    client.handleCall(offer({ id: "CALL2", offline: true }));
+    await tick();
+
+    expect(events.map((e) => e.autoRejected)).toEqual([true, false]);
+    expect(socketMocks.rejectCall).toHaveBeenCalledTimes(1);
+    expect(socketMocks.rejectCall).toHaveBeenCalledWith("CALL1", "111@lid");
+    expect(client.sendText).toHaveBeenCalledWith("6281@s.whatsapp.net", "No calls, please text us");
+  });
+
+  it("lets allowed callers, group calls and filtered calls ring", async () => {
+    const client = makeConnectedClient({
+      allow: ["6281"],
+      groupCalls: false,
+      filter: (call: any) => call.isVideo,
+    });
+
+    client.handleCall(offer());
+    client.handleCall(offer({ id: "G", callerPn: "6282@s.whatsapp.net", isGroup: true, groupJid: "1@g.us" }));
+    client.handleCall(offer({ id: "V", callerPn: "6283@s.whatsapp.net", isVideo: false }));
+    client.handleCall(offer({ id: "R", callerPn: "6284@s.whatsapp.net" }));
+    await tick();
+
+    expect(socketMocks.rejectCall.mock.calls.map((c) => c[0])).toEqual(["R"]);
+    expect(client.sendText).not.toHaveBeenCalled();
+  });
+
+  it("lets the call ring and still emits it when the filter throws", async () => {
+    const client = makeConnectedClient({
+      filter: () => {
+        throw new Error("filter bug");
+      },
+    });
+    const events: any[] = [];
+    client.on("call", (c: any) => events.push(c));
+    const logError = jest.spyOn(client.logger, "error").mockImplementation(() => {});
+
+    expect(() => client.handleCall(offer())).not.toThrow();
+    await tick();
+
+    expect(events).toHaveLength(1);
+    expect(events[0].autoRejected).toBe(false);
+    expect(socketMocks.rejectCall).not.toHaveBeenCalled();
+    expect(logError).toHaveBeenCalledWith("rejectCalls filter failed:", expect.any(Error));
+  });
+
+  it("rejectCall needs the caller for calls it hasn't seen", async () => {
+    const client = makeConnectedClient();
+
+    const unknown = await client.rejectCall("CALLX");
+    expect(unknown.success).toBe(false);
+    expect(unknown.error).toMatch(/Unknown call ID/);
+
+    expect(await client.rejectCall("CALLX", "6285")).toEqual({ success: true });
+    expect(socketMocks.rejectCall).toHaveBeenCalledWith("CALLX", "6285@s.whatsapp.net");
+  });
+
+  it("createCallLink returns a shareable link", async () => {
+    socketMocks.createCallLink.mockResolvedValue("TOKEN123");
+    const client = makeConnectedClient();
+
+    expect(await client.createCallLink("audio", DATE)).toEqual({
+      success: true,
+      token: "TOKEN123",
+      link: "https://call.whatsapp.com/voice/TOKEN123",
+    });
+    expect(socketMocks.createCallLink).toHaveBeenCalledWith("audio", { startTime: DATE.getTime() / 1000 });
+
+    socketMocks.createCallLink.mockResolvedValue(undefined);
+    expect((await client.createCallLink()).success).toBe(false);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Unit tests for broadcast campaigns.
+ *
+ *  - CampaignManager: template rendering, sequential sends with delay,
+ *    receipt-driven recipient status, opt-outs, pause/resume and resuming a
+ *    restored campaign after a restart.
+ *  - MiawClient createCampaign(): sends through the client, tracks
+ *    `message_receipt` updates and persists progress to the store.
+ */
+
+import { jest, describe, beforeEach, afterEach, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest.fn(),
+  fetchLatestWaWebVersion: jest.fn(),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+const { CampaignManager } = await import("../../src/handlers/CampaignManager.js");
+
+const A = "6281111111111@s.whatsapp.net";
+const B = "6282222222222@s.whatsapp.net";
+
+function makeManager(ready = { value: true }) {
+  let counter = 0;
+  const hooks = {
+    send: jest.fn(async (_jid: string, _text: string, _media?: any) => ({
+      success: true,
+      messageId: `M${++counter}`,
+    })) as any,
+    isReady: () => ready.value,
+    resolveName: (jid: string) => (jid === A ? "Alice Smith" : undefined),
+    defaultDelayMs: () => 1000,
+    onUpdate: jest.fn(),
+    onChange: jest.fn(),
+  };
+  return { manager: new CampaignManager(hooks), hooks, ready };
+}
+
+function incoming(from: string, text: string): any {
+  return { id: "IN", from, senderPhone: from.split("@")[0], text, fromMe: false, isGroup: false };
+}
+
+describe("CampaignManager", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("renders the template per recipient and sends one at a time", async () => {
+    const { manager, hooks } = makeManager();
+    const campaign = manager.create({
+      id: "c1",
+      recipients: ["+62 811-1111-1111", { phone: "6282222222222", variables: { code: "VIP" } }, A],
+      template: "Hi {{firstName}} ({{ phone }}), code {{code}}{{missing}}",
+      variables: { code: "ALL" },
+    });
+    expect(campaign.getInfo().stats.total).toBe(2); // duplicate A dropped
+
+    campaign.start();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(hooks.send).toHaveBeenCalledTimes(1);
+    expect(hooks.send).toHaveBeenCalledWith(A, "Hi Alice (6281111111111), code ALL", undefined);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(hooks.send).toHaveBeenLastCalledWith(B, "Hi 6282222222222 (6282222222222), code VIP", undefined);
+
+    const info = await campaign.waitForCompletion();
+    expect(info.status).toBe("completed");
+    expect(info.stats).toMatchObject({ total: 2, sent: 2, pending: 0 });
+    expect(info.recipients.map((r) => r.messageId)).toEqual(["M1", "M2"]);
+  });
+
+  it("advances recipient status from receipts, never backwards", async () => {
+    const { manager } = makeManager();
+    const campaign = manager.create({ id: "c1", recipients: [A], template: "hi" });
+    campaign.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    const receipt = (type: string, fromMe = true) =>
+      manager.handleReceipt({ messageId: "M1", chatId: A, recipientId: A, type: type as any, fromMe });
+
+    receipt("read", false);
+    expect(campaign.getInfo().recipients[0].status).toBe("sent");
+    receipt("read");
+    receipt("delivery");
+    expect(campaign.getInfo().recipients[0].status).toBe("read");
+    expect(campaign.getInfo().stats.read).toBe(1);
+  });
+
+  it("opts out recipients who reply with a keyword and skips them in later campaigns", async () => {
+    const { manager, hooks } = makeManager();
+    const first = manager.create({
+      id: "c1",
+      recipients: [A, B],
+      template: "hi",
+      optOutReply: "You will not hear from us again",
+    });
+    first.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(await manager.handleIncoming(incoming("6289999999999@s.whatsapp.net", "STOP"))).toBe(false);
+    expect(await manager.handleIncoming(incoming(B, " stop "))).toBe(true);
+    expect(hooks.send).toHaveBeenLastCalledWith(B, "You will not hear from us again");
+    expect(manager.isOptedOut("6282222222222")).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    const info = await first.waitForCompletion();
+    expect(info.stats).toMatchObject({ sent: 1, optedOut: 1 });
+
+    hooks.send.mockClear();
+    const second = manager.create({ id: "c2", recipients: [B], template: "again" });
+    second.start();
+    expect((await second.waitForCompletion()).recipients[0].status).toBe("opted_out");
+    expect(hooks.send).not.toHaveBeenCalled();
+  });
+
+  it("pauses and resumes", async () => {
+    const { manager, hooks } = makeManager();
+    const campaign = manager.create({ id: "c1", recipients: [A, B], template: "hi" });
+    campaign.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    campaign.pause();
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(hooks.send).toHaveBeenCalledTimes(1);
+    expect(campaign.getInfo().status).toBe("paused");
+
+    campaign.resume();
+    expect((await campaign.waitForCompletion()).stats.sent).toBe(2);
+  });
+
+  it("keeps recipients pending when the connection drops and continues on resumeAll()", async () => {
+    const { manager, hooks, ready } = makeManager();
+    hooks.send.mockImplementationOnce(async () => {
+      ready.value = false;
+      return { success: false, error: "Not connected" };
+    });
+    const campaign = manager.create({ id: "c1", recipients: [A], template: "hi" });
+    campaign.start();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(campaign.getInfo().recipients[0].status).toBe("pending");
+
+    ready.value = true;
+    manager.resumeAll();
+    expect((await campaign.waitForCompletion()).stats.sent).toBe(1);
+  });
+
+  it("resumes a restored running campaign where it stopped", async () => {
+    const { manager: before } = makeManager();
+    before.create({ id: "c1", recipients: [A, B], template: "hi" }).start();
+    await jest.advanceTimersByTimeAsync(0);
+    before.stop();
+    const saved = JSON.parse(JSON.stringify(before.exportCampaigns()));
+
+    expect(saved[0].ownerPid).toBe(process.pid);
+
+    const { manager: after, hooks } = makeManager();
+    saved[0].ownerPid = -1;
+    after.restore(saved, []);
+    // Not resumed automatically: another process may be running it
+    after.resumeAll();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(hooks.send).not.toHaveBeenCalled();
+    expect(after.get("c1")!.isActive()).toBe(false);
+
+    // Resuming takes the campaign over
+    after.get("c1")!.resume();
+    expect(after.get("c1")!.isActive()).toBe(true);
+    expect(after.getInfo("c1")!.ownerPid).toBe(process.pid);
+    const info = await after.get("c1")!.waitForCompletion();
+
+    expect(hooks.send).toHaveBeenCalledTimes(1);
+    expect(hooks.send).toHaveBeenCalledWith(B, "hi", undefined);
+    expect(info.stats.sent).toBe(2);
+
+    // Receipts still match messages sent before the restart
+    after.handleReceipt({ messageId: "M1", chatId: A, recipientId: A, type: "delivery", fromMe: true });
+    expect(after.getInfo("c1")!.recipients[0].status).toBe("delivered");
+  });
+
+  it("resumes restored running campaigns on resumeAll() with resumeRunning", async () => {
+    const { manager: before } = makeManager({ value: false });
+    before.create({ id: "c1", recipients: [A], template: "hi" }).start();
+    before.stop();
+    const saved = JSON.parse(JSON.stringify(before.exportCampaigns()));
+
+    const { manager: after, hooks } = makeManager();
+    after.restore(saved, [], true);
+    after.resumeAll();
+    expect((await after.get("c1")!.waitForCompletion()).stats.sent).toBe(1);
+    expect(hooks.send).toHaveBeenCalledWith(A, "hi", undefined);
+  });
+
+  it("rejects campaigns without recipients or template", () => {
+    const { manager } = makeManager();
+    expect(() => manager.create({ recipients: [], template: "hi" })).toThrow("recipient");
+    expect(() => manager.create({ recipients: [A], template: " " })).toThrow("template");
+  });
+});
+
+describe("MiawClient campaigns", () => {
+  it("sends through the client, tracks receipts and persists progress", async () => {
+    const store = {
+      saveCampaigns: jest.fn(async () => {}),
+      saveOptOuts: jest.fn(async () => {}),
+    };
+    const client: any = new MiawClient({ instanceId: "test-campaign", store: store as any });
+    const sendMessage = jest.fn(async () => ({ key: { id: "SENT1" } }));
+    client.socket = { sendMessage };
+    client.connectionState = "connected";
+    const updates: string[] = [];
+    client.on("campaign_update", (info: any) => updates.push(info.recipients[0].status));
+
+    const campaign = client.createCampaign({ id: "promo", recipients: [A], template: "Hello {{name}}" });
+    campaign.start();
+    await campaign.waitForCompletion();
+    expect(sendMessage).toHaveBeenCalledWith(A, { text: "Hello 6281111111111" }, undefined);
+
+    client.handleReceiptUpdate({ id: "SENT1", remoteJid: A, fromMe: true }, { readTimestamp: 1 });
+    expect(client.getCampaign("promo").getInfo().recipients[0].status).toBe("read");
+    expect(updates).toEqual(expect.arrayContaining(["sent", "read"]));
+
+    client.socket = null;
+    await client.dispose();
+    expect(store.saveCampaigns).toHaveBeenCalledWith([
+      expect.objectContaining({ id: "promo", status: "completed" }),
+    ]);
+  });
+});
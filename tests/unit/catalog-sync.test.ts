@@ -0,0 +1,208 @@
+/**
+ * Unit tests for catalog feed parsing, sync planning and syncCatalog().
+ * Fake socket; no real connection.
+ */
+
+import { jest, describe, beforeEach, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest.fn(),
+  fetchLatestWaWebVersion: jest.fn(),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+const { parseCatalogFeed, planCatalogSync } = await import("../../src/utils/catalog-feed.js");
+
+const socketMocks = {
+  getCatalog: jest.fn<(...a: unknown[]) => Promise<any>>(),
+  productCreate: jest.fn<(...a: unknown[]) => Promise<any>>(),
+  productUpdate: jest.fn<(...a: unknown[]) => Promise<any>>(),
+  productDelete: jest.fn<(...a: unknown[]) => Promise<any>>(),
+};
+
+function makeConnectedClient(): any {
+  const client: any = new MiawClient({ instanceId: "test-catalog-sync" });
+  client.connectionState = "connected";
+  client.socket = socketMocks;
+  return client;
+}
+
+function product(retailerId: string, extra: Record<string, unknown> = {}): any {
+  return {
+    id: `P-${retailerId}`,
+    retailerId,
+    name: `Product ${retailerId}`,
+    description: "",
+    price: 10,
+    currency: "USD",
+    isHidden: false,
+    ...extra,
+  };
+}
+
+describe("parseCatalogFeed", () => {
+  it("parses CSV with quoting, Commerce Manager columns and prices with currency", () => {
+    const csv = [
+      "\uFEFFid,title,description,price,image_link,availability,link",
+      'SKU-1,"Tote, canvas","Says ""hi""\nTwo lines",9.99 USD,https://x/1.jpg|https://x/2.jpg,in stock,https://shop/1',
+      "SKU-2,Mug,,1200 IDR,,out of stock,",
+      "",
+    ].join("\r\n");
+
+    expect(parseCatalogFeed(csv, "csv")).toEqual([
+      {
+        retailerId: "SKU-1",
+        name: "Tote, canvas",
+        description: 'Says "hi"\nTwo lines',
+        price: 9.99,
+        currency: "USD",
+        imageUrls: ["https://x/1.jpg", "https://x/2.jpg"],
+        url: "https://shop/1",
+        isHidden: undefined,
+        originCountryCode: undefined,
+      },
+      expect.objectContaining({ retailerId: "SKU-2", price: 1200, currency: "IDR", isHidden: true }),
+    ]);
+  });
+
+  it("parses JSON feeds and prefers our own field names over aliases", () => {
+    const json = JSON.stringify({
+      products: [{ id: "fb-1", retailerId: "SKU-1", name: "Tote", price: 5, currency: "eur", isHidden: "no" }],
+    });
+    expect(parseCatalogFeed(json, "json")).toEqual([
+      expect.objectContaining({ retailerId: "SKU-1", currency: "EUR", isHidden: false }),
+    ]);
+  });
+
+  it("names the offending row in errors", () => {
+    expect(() => parseCatalogFeed("id,name,price,currency\nA,Tote,abc,USD", "csv")).toThrow(
+      'Row 2: invalid price "abc"'
+    );
+    expect(() => parseCatalogFeed("id,name,price\nA,Tote,5", "csv")).toThrow("Row 2: missing or invalid currency");
+    expect(() =>
+      parseCatalogFeed('[{"id":"A","name":"x","price":1,"currency":"USD"},{"id":"A","name":"y","price":1,"currency":"USD"}]', "json")
+    ).toThrow('Product 2: duplicate retailerId "A" (also in product 1)');
+    expect(() => parseCatalogFeed('{"items":[]}', "json")).toThrow(/must be an array/);
+  });
+});
+
+describe("planCatalogSync", () => {
+  const feed = [
+    { retailerId: "A", name: "Product A", price: 10, currency: "USD" },
+    { retailerId: "B", name: "Product B", price: 12, currency: "usd" },
+    { retailerId: "C", name: "Product C", price: 10, currency: "USD" },
+  ];
+
+  it("diffs the feed against the catalog", () => {
+    const catalog = [
+      product("A"),
+      product("B"),
+      product("X"),
+      product("Y", { isHidden: true }),
+      { ...product("Z"), retailerId: undefined },
+    ];
+
+    const steps = planCatalogSync(feed, catalog);
+    expect(steps.map((s) => [s.action, s.retailerId, s.changes])).toEqual([
+      ["unchanged", "A", undefined],
+      ["update", "B", ["price"]],
+      ["create", "C", undefined],
+      ["hide", "X", undefined],
+    ]);
+
+    expect(planCatalogSync(feed, catalog, "delete").slice(3).map((s) => s.retailerId)).toEqual(["X", "Y"]);
+    expect(planCatalogSync(feed, catalog, "keep")).toHaveLength(3);
+  });
+});
+
+describe("syncCatalog", () => {
+  const feed = [
+    { retailerId: "A", name: "Product A", price: 10, currency: "USD" },
+    { retailerId: "B", name: "Product B", price: 12, currency: "USD" },
+    { retailerId: "C", name: "Product C", price: 10, currency: "USD" },
+  ];
+
+  beforeEach(() => {
+    socketMocks.getCatalog
+      .mockReset()
+      .mockResolvedValueOnce({ products: [product("A"), product("B")], nextPageCursor: "page2" })
+      .mockResolvedValueOnce({ products: [product("X")] });
+    socketMocks.productCreate.mockReset().mockResolvedValue({ id: "P-C" });
+    socketMocks.productUpdate.mockReset().mockResolvedValue({});
+    socketMocks.productDelete.mockReset().mockResolvedValue({ deleted: 1 });
+  });
+
+  it("plans without writing on a dry run, reading every catalog page", async () => {
+    const client = makeConnectedClient();
+
+    const result = await client.syncCatalog(feed, { dryRun: true, pageSize: 2 });
+    expect(result).toMatchObject({
+      success: true,
+      dryRun: true,
+      summary: { create: 1, update: 1, hide: 1, delete: 0, unchanged: 1, failed: 0 },
+    });
+    expect(socketMocks.getCatalog.mock.calls.map((c: any[]) => c[0].cursor)).toEqual([undefined, "page2"]);
+    expect(socketMocks.productCreate).not.toHaveBeenCalled();
+    expect(socketMocks.productUpdate).not.toHaveBeenCalled();
+  });
+
+  it("applies the plan and reports per-product failures", async () => {
+    const client = makeConnectedClient();
+    socketMocks.productUpdate.mockResolvedValueOnce({}).mockRejectedValueOnce(new Error("rate-overlimit"));
+
+    const result = await client.syncCatalog(feed, { delayMs: 0 });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("1 of 3 catalog changes failed");
+    expect(result.summary.failed).toBe(1);
+    expect(result.report).toEqual([
+      expect.objectContaining({ retailerId: "A", action: "unchanged", success: true }),
+      expect.objectContaining({ retailerId: "B", action: "update", changes: ["price"], success: true }),
+      expect.objectContaining({ retailerId: "C", action: "create", productId: "P-C", success: true }),
+      expect.objectContaining({ retailerId: "X", action: "hide", success: false, error: "rate-overlimit" }),
+    ]);
+    expect(socketMocks.productUpdate.mock.calls[1][0]).toBe("P-X");
+    expect(socketMocks.productUpdate.mock.calls[1][1]).toMatchObject({ retailerId: "X", isHidden: true });
+  });
+
+  it("deletes missing products in one batch", async () => {
+    const client = makeConnectedClient();
+
+    const result = await client.syncCatalog(feed, { delayMs: 0, onMissing: "delete" });
+    expect(result.success).toBe(true);
+    expect(socketMocks.productDelete).toHaveBeenCalledTimes(1);
+    expect(socketMocks.productDelete).toHaveBeenCalledWith(["P-X"]);
+  });
+
+  it("fails without changes when the catalog can't be read", async () => {
+    const client = makeConnectedClient();
+    socketMocks.getCatalog.mockReset().mockRejectedValue(new Error("not a business account"));
+
+    const result = await client.syncCatalog(feed);
+    expect(result).toMatchObject({ success: false, report: [] });
+    expect(result.error).toMatch(/not a business account/);
+    expect(socketMocks.productCreate).not.toHaveBeenCalled();
+  });
+
+  it("validates in-memory feeds like feed files", async () => {
+    const client = makeConnectedClient();
+
+    const duplicate = await client.syncCatalog([...feed, { ...feed[0], name: "Again" }]);
+    expect(duplicate).toMatchObject({ success: false, report: [] });
+    expect(duplicate.error).toBe('Product 4: duplicate retailerId "A" (also in product 1)');
+
+    const noPrice = await client.syncCatalog([{ retailerId: "D", name: "Product D", currency: "USD" } as any]);
+    expect(noPrice.error).toBe('Product 1: invalid price ""');
+    expect(socketMocks.getCatalog).not.toHaveBeenCalled();
+  });
+});
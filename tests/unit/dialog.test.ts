@@ -0,0 +1,258 @@
+/**
+ * Unit tests for waitForReply() and DialogManager.
+ *
+ * Incoming messages are fed through the real `messages.upsert` handler of a
+ * client with a fake socket; sendText is stubbed.
+ */
+
+import { jest, describe, beforeEach, afterEach, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1] }),
+  fetchLatestWaWebVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1], isLatest: true }),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+const { DialogManager } = await import("../../src/handlers/DialogManager.js");
+const { MemoryDialogStore } = await import("../../src/store/MemoryDialogStore.js");
+
+const USER = "6281111111111@s.whatsapp.net";
+const USER_LID = "111111111111111@lid";
+const OTHER = "6282222222222@s.whatsapp.net";
+const GROUP = "120363000000000000@g.us";
+
+let seq = 0;
+
+/** Build a synthetic inbound text message from `sender` (in a DM, or in GROUP when inGroup). */
+function textMsg(text: string, sender = USER, inGroup = false): any {
+  return {
+    key: {
+      id: `D${++seq}`,
+      remoteJid: inGroup ? GROUP : sender,
+      fromMe: false,
+      participant: inGroup ? sender : undefined,
+    },
+    message: { conversation: text },
+    pushName: "Sender",
+    messageTimestamp: 1000,
+  };
+}
+
+/** Let the fire-and-forget pipeline settle. */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+function makeClient(): { client: any; receive: (msg: any) => Promise<void> } {
+  const client: any = new MiawClient({ instanceId: "test-dialog" });
+  jest.spyOn(client, "saveMessageToStore").mockImplementation(() => {});
+  jest.spyOn(client, "saveLidMappingsToStore").mockImplementation(() => {});
+  jest.spyOn(client, "sendText").mockResolvedValue({ success: true } as never);
+  client.messagesStore.clear();
+
+  const handlers: Record<string, (arg: any) => any> = {};
+  client.socket = {
+    ev: {
+      on: (event: string, handler: (arg: any) => any) => {
+        handlers[event] = handler;
+      },
+    },
+  };
+  client.registerSocketEvents(async () => {});
+
+  return {
+    client,
+    receive: async (msg) => {
+      await handlers["messages.upsert"]({ type: "notify", messages: [msg] });
+      await settle();
+    },
+  };
+}
+
+describe("waitForReply", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("resolves with the next message in the chat", async () => {
+    const { client, receive } = makeClient();
+    const pending = client.waitForReply("6281111111111");
+
+    await receive(textMsg("not this chat", OTHER));
+    await receive(textMsg("42"));
+
+    const reply = await pending;
+    expect(reply?.text).toBe("42");
+    expect(client.listenerCount("message")).toBe(0);
+  });
+
+  it("matches only the given participant in a group", async () => {
+    const { client, receive } = makeClient();
+    const pending = client.waitForReply(GROUP, { from: "6281111111111" });
+
+    await receive(textMsg("from someone else", OTHER, true));
+    await receive(textMsg("from the user", USER, true));
+
+    expect((await pending)?.text).toBe("from the user");
+  });
+
+  it("matches a sender arriving as @lid against the phone JID", async () => {
+    const { client, receive } = makeClient();
+    client.registerLidMapping(USER_LID, USER);
+    const pending = client.waitForReply(GROUP, { from: USER });
+
+    await receive(textMsg("via lid", USER_LID, true));
+
+    expect((await pending)?.text).toBe("via lid");
+  });
+
+  it("applies the filter", async () => {
+    const { client, receive } = makeClient();
+    const pending = client.waitForReply(USER, {
+      filter: (m: any) => /^\d+$/.test(m.text ?? ""),
+    });
+
+    await receive(textMsg("abc"));
+    await receive(textMsg("7"));
+
+    expect((await pending)?.text).toBe("7");
+  });
+
+  it("resolves null on timeout and stops listening", async () => {
+    const { client } = makeClient();
+    const reply = await client.waitForReply(USER, { timeoutMs: 10 });
+
+    expect(reply).toBeNull();
+    expect(client.listenerCount("message")).toBe(0);
+  });
+
+  it("is available on the middleware context for the same sender", async () => {
+    const { client, receive } = makeClient();
+    let answer: any;
+    client.command("/name", async (ctx: any) => {
+      answer = await ctx.waitForReply({ timeoutMs: 1000 });
+    });
+
+    await receive(textMsg("/name", USER, true));
+    await receive(textMsg("Bob", OTHER, true));
+    await receive(textMsg("Alice", USER, true));
+    await settle();
+
+    expect(answer?.text).toBe("Alice");
+  });
+});
+
+describe("DialogManager", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function makeDialog(client: any, options = {}) {
+    const collected: Record<string, unknown>[] = [];
+    const dialog = new DialogManager<{ name?: string; email?: string }>(client, options)
+      .step("name", async (ctx: any, d: any) => {
+        d.data.name = ctx.message.text;
+        d.goto("email");
+      })
+      .step("email", async (ctx: any, d: any) => {
+        d.data.email = ctx.message.text;
+        collected.push({ ...d.data });
+        d.end();
+      });
+    client.use(dialog.middleware());
+    return { dialog, collected };
+  }
+
+  it("walks the user through the steps and ends the session", async () => {
+    const { client, receive } = makeClient();
+    const { dialog, collected } = makeDialog(client);
+    const fallthrough = jest.fn();
+    client.use(fallthrough);
+
+    const first = textMsg("/signup");
+    await receive(first);
+    const [stored] = client.messagesStore.get(USER);
+    await dialog.start(stored, "name");
+    fallthrough.mockClear();
+
+    await receive(textMsg("Alice"));
+    expect((await dialog.get(stored))?.step).toBe("email");
+
+    await receive(textMsg("alice@example.com"));
+    expect(collected).toEqual([{ name: "Alice", email: "alice@example.com" }]);
+    expect(await dialog.get(stored)).toBeUndefined();
+    // Dialog messages are consumed, not passed down the pipeline
+    expect(fallthrough).not.toHaveBeenCalled();
+
+    await receive(textMsg("hello again"));
+    expect(fallthrough).toHaveBeenCalledTimes(1);
+  });
+
+  it("keys sessions by chat and participant, resolving @lid", async () => {
+    const { client } = makeClient();
+    const { dialog } = makeDialog(client);
+    client.registerLidMapping(USER_LID, USER);
+
+    const viaPhone = { from: GROUP, participant: `6281111111111:5@s.whatsapp.net`, isGroup: true } as any;
+    const viaLid = { from: GROUP, participant: USER_LID, isGroup: true } as any;
+    const other = { from: GROUP, participant: OTHER, isGroup: true } as any;
+
+    expect(await dialog.keyFor(viaPhone)).toBe(`${GROUP}|${USER}`);
+    expect(await dialog.keyFor(viaLid)).toBe(`${GROUP}|${USER}`);
+    expect(await dialog.keyFor(other)).not.toBe(await dialog.keyFor(viaLid));
+  });
+
+  it("uses a custom store", async () => {
+    const { client } = makeClient();
+    const store = new MemoryDialogStore<any>();
+    const dialog = new DialogManager(client, { store }).step("start", () => {});
+
+    await dialog.start({ from: USER, isGroup: false } as any, "start", { n: 1 });
+
+    expect(store.size).toBe(1);
+    expect(store.get(`${USER}|${USER}`)).toMatchObject({ step: "start", data: { n: 1 } });
+    dialog.dispose();
+  });
+
+  it("rejects unknown steps", async () => {
+    const { client } = makeClient();
+    const dialog = new DialogManager(client);
+    await expect(dialog.start({ from: USER, isGroup: false } as any, "missing")).rejects.toThrow(
+      'Unknown dialog step "missing"'
+    );
+  });
+
+  it("drops the session and calls onTimeout after inactivity", async () => {
+    jest.useFakeTimers({ doNotFake: ["setImmediate"] });
+    const { client } = makeClient();
+    const onTimeout = jest.fn();
+    const { dialog } = makeDialog(client, { timeoutMs: 1000, onTimeout });
+    const message = { from: USER, isGroup: false } as any;
+
+    await dialog.start(message, "name", { name: "x" });
+    await jest.advanceTimersByTimeAsync(1001);
+
+    expect(onTimeout).toHaveBeenCalledWith(
+      `${USER}|${USER}`,
+      expect.objectContaining({ step: "name", data: { name: "x" } })
+    );
+    expect(await dialog.get(message)).toBeUndefined();
+  });
+});
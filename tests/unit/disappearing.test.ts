@@ -0,0 +1,101 @@
+/**
+ * Unit tests for disappearing messages: setChatEphemeral(), per-chat timer
+ * tracking and sends carrying the timer. Fake socket; no real connection.
+ */
+
+import { jest, describe, beforeEach, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1] }),
+  fetchLatestWaWebVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1], isLatest: true }),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+
+const JID = "6281234567890@s.whatsapp.net";
+const GJID = "120363000000000001@g.us";
+
+const socketMocks = {
+  sendMessage: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  groupToggleEphemeral: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+};
+
+function makeConnectedClient(): any {
+  const client: any = new MiawClient({ instanceId: "test-disappearing" });
+  client.connectionState = "connected";
+  client.socket = socketMocks;
+  client.saveChatsToStore = () => {};
+  return client;
+}
+
+describe("disappearing messages", () => {
+  beforeEach(() => {
+    Object.values(socketMocks).forEach((m) => m.mockReset().mockResolvedValue(undefined));
+    socketMocks.sendMessage.mockResolvedValue({ key: { id: "SENT1" } });
+  });
+
+  it("setChatEphemeral uses the DM or group setting and records the timer", async () => {
+    const client = makeConnectedClient();
+
+    expect(await client.setChatEphemeral("6281234567890", 604800)).toEqual({ success: true });
+    await client.setChatEphemeral(GJID, 0);
+
+    expect(socketMocks.sendMessage).toHaveBeenCalledWith(JID, { disappearingMessagesInChat: 604800 });
+    expect(socketMocks.groupToggleEphemeral).toHaveBeenCalledWith(GJID, 0);
+    expect(client.chatsStore.get(JID)).toMatchObject({ jid: JID, ephemeralExpiration: 604800 });
+    expect(client.chatsStore.get(GJID)?.ephemeralExpiration).toBeUndefined();
+
+    const invalid = await client.setChatEphemeral(JID, 1.5);
+    expect(invalid.success).toBe(false);
+    expect(socketMocks.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends to a chat with a timer carry the expiration", async () => {
+    const client = makeConnectedClient();
+    client.chatsStore.set(JID, { jid: JID, ephemeralExpiration: 86400 });
+
+    await client.sendText(JID, "hello");
+    await client.sendText("6289999999999", "no timer here");
+
+    expect(socketMocks.sendMessage.mock.calls[0][2]).toEqual({ ephemeralExpiration: 86400 });
+    expect(socketMocks.sendMessage.mock.calls[1][2]).toBeUndefined();
+  });
+
+  it("tracks timer changes from settings messages, group updates and chat sync", () => {
+    const client = makeConnectedClient();
+
+    client.handleProtocolMessage(
+      { key: { remoteJid: JID } },
+      { type: 3, ephemeralExpiration: 7776000 }
+    );
+    expect(client.getChatEphemeral(JID)).toBe(7776000);
+
+    client.updateChatsStore([{ id: JID, unreadCount: 2 }]);
+    expect(client.getChatEphemeral(JID)).toBe(7776000);
+    client.updateChatsStore([{ id: JID, ephemeralExpiration: null }]);
+    expect(client.getChatEphemeral(JID)).toBe(0);
+
+    client.updateChatEphemeral(GJID, 86400);
+    expect(client.chatsStore.get(GJID)).toEqual({
+      jid: GJID,
+      phone: undefined,
+      isGroup: true,
+      ephemeralExpiration: 86400,
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for group & community admin settings, join requests and the
+ * group_join_request event. Fake socket; no real connection.
+ */
+
+import { jest, describe, beforeEach, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1] }),
+  fetchLatestWaWebVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1], isLatest: true }),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+
+const GJID = "120363000000000001@g.us";
+
+const socketMocks = {
+  groupMetadata: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  groupSettingUpdate: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  groupMemberAddMode: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  groupJoinApprovalMode: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  groupToggleEphemeral: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  groupRequestParticipantsList: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  groupRequestParticipantsUpdate: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  communitySettingUpdate: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  communityToggleEphemeral: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  communityRequestParticipantsList: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  communityRequestParticipantsUpdate: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+};
+
+function makeConnectedClient(): any {
+  const client: any = new MiawClient({ instanceId: "test-group-admin" });
+  client.connectionState = "connected";
+  client.socket = socketMocks;
+  return client;
+}
+
+describe("group & community admin", () => {
+  beforeEach(() => {
+    Object.values(socketMocks).forEach((m) => m.mockReset().mockResolvedValue(undefined));
+  });
+
+  it("surfaces the admin settings in GroupInfo", async () => {
+    socketMocks.groupMetadata.mockResolvedValue({
+      id: GJID,
+      subject: "Team",
+      participants: [],
+      announce: true,
+      restrict: false,
+      memberAddMode: false,
+      joinApprovalMode: true,
+      ephemeralDuration: 604800,
+    });
+    const client = makeConnectedClient();
+
+    expect(await client.getGroupInfo(GJID)).toMatchObject({
+      announce: true,
+      restrict: false,
+      memberAddMode: "admin_add",
+      joinApproval: true,
+      ephemeralDuration: 604800,
+    });
+  });
+
+  it("maps group setters to Baileys settings", async () => {
+    const client = makeConnectedClient();
+
+    expect(await client.setGroupAnnounceOnly(GJID, true)).toEqual({ success: true });
+    await client.setGroupRestrictInfo(GJID, false);
+    await client.setGroupMemberAddMode(GJID, "all_member_add");
+    await client.setGroupJoinApproval(GJID, false);
+    await client.setGroupEphemeral(GJID, 86400);
+
+    expect(socketMocks.groupSettingUpdate).toHaveBeenNthCalledWith(1, GJID, "announcement");
+    expect(socketMocks.groupSettingUpdate).toHaveBeenNthCalledWith(2, GJID, "unlocked");
+    expect(socketMocks.groupMemberAddMode).toHaveBeenCalledWith(GJID, "all_member_add");
+    expect(socketMocks.groupJoinApprovalMode).toHaveBeenCalledWith(GJID, "off");
+    expect(socketMocks.groupToggleEphemeral).toHaveBeenCalledWith(GJID, 86400);
+  });
+
+  it("uses the community variants and validates input", async () => {
+    const client = makeConnectedClient();
+
+    await client.setCommunityAnnounceOnly(GJID, false);
+    await client.setCommunityEphemeral(GJID, 0);
+    expect(socketMocks.communitySettingUpdate).toHaveBeenCalledWith(GJID, "not_announcement");
+    expect(socketMocks.communityToggleEphemeral).toHaveBeenCalledWith(GJID, 0);
+
+    const invalidTimer = await client.setGroupEphemeral(GJID, -1);
+    expect(invalidTimer.success).toBe(false);
+    const invalidJid = await client.setGroupAnnounceOnly("6281@s.whatsapp.net", true);
+    expect(invalidJid.error).toMatch(/Invalid group JID/);
+    expect(socketMocks.groupSettingUpdate).not.toHaveBeenCalled();
+  });
+
+  it("lists and updates join requests", async () => {
+    socketMocks.groupRequestParticipantsList.mockResolvedValue([
+      {
+        jid: "1234@lid",
+        phone_number: "6281@s.whatsapp.net",
+        request_method: "invite_link",
+        request_time: "1700000000",
+      },
+    ]);
+    socketMocks.communityRequestParticipantsUpdate.mockResolvedValue([
+      { jid: "6281@s.whatsapp.net", status: "200" },
+      { jid: "6282@s.whatsapp.net", status: "404" },
+    ]);
+    const client = makeConnectedClient();
+
+    expect(await client.getGroupJoinRequests(GJID)).toEqual([
+      { jid: "6281@s.whatsapp.net", phone: "6281", method: "invite_link", requestedAt: 1700000000 },
+    ]);
+
+    const results = await client.rejectCommunityJoinRequest(GJID, ["6281", "6282"]);
+    expect(socketMocks.communityRequestParticipantsUpdate).toHaveBeenCalledWith(
+      GJID,
+      ["6281@s.whatsapp.net", "6282@s.whatsapp.net"],
+      "reject"
+    );
+    expect(results.map((r: any) => r.success)).toEqual([true, false]);
+  });
+
+  it("returns null / failed results when disconnected", async () => {
+    const client: any = new MiawClient({ instanceId: "test-group-admin-offline" });
+
+    expect(await client.getCommunityJoinRequests(GJID)).toBeNull();
+    expect(await client.approveGroupJoinRequest(GJID, ["6281"])).toEqual([
+      { jid: "6281@s.whatsapp.net", status: "error", success: false },
+    ]);
+  });
+
+  it("emits group_join_request with the phone JID when known", () => {
+    const client = makeConnectedClient();
+    const events: any[] = [];
+    client.on("group_join_request", (u: any) => events.push(u));
+
+    client.handleJoinRequest({
+      id: GJID,
+      author: "999@lid",
+      authorPn: "6289@s.whatsapp.net",
+      participant: "1234@lid",
+      participantPn: "6281@s.whatsapp.net",
+      action: "created",
+      method: "invite_link",
+    });
+
+    expect(events).toEqual([
+      {
+        groupJid: GJID,
+        participant: "6281@s.whatsapp.net",
+        phone: "6281",
+        action: "created",
+        method: "invite_link",
+        author: "6289@s.whatsapp.net",
+      },
+    ]);
+  });
+});
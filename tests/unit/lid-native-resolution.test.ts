@@ -39,6 +39,7 @@ jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
     return `${user}@${jid.slice(at + 1)}`;
   }),
   getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
 }));
 
 // Dynamic import after mocking
@@ -53,7 +54,7 @@ const PN = "6281234567890@s.whatsapp.net";
  */
 function makeClientWithStore(lidMapping: Record<string, unknown>): any {
   const client: any = new MiawClient({ instanceId: "test-lid-native" });
-  jest.spyOn(client, "saveLidMappingsToFile").mockImplementation(() => {});
+  jest.spyOn(client, "saveLidMappingsToStore").mockImplementation(() => {});
   client.socket = { signalRepository: { lidMapping } };
   return client;
 }
@@ -136,7 +137,7 @@ describe("MiawClient native LID resolution (rc13)", () => {
   describe("without a connected socket", () => {
     it("resolveLidToJidAsync returns the original LID (no native store available)", async () => {
       const client: any = new MiawClient({ instanceId: "test-lid-nosocket" });
-      jest.spyOn(client, "saveLidMappingsToFile").mockImplementation(() => {});
+      jest.spyOn(client, "saveLidMappingsToStore").mockImplementation(() => {});
 
       expect(await client.resolveLidToJidAsync(LID)).toBe(LID);
     });
@@ -226,7 +227,7 @@ describe("MiawClient native LID resolution (rc13)", () => {
 
     it("returns null without a connected socket", async () => {
       const client: any = new MiawClient({ instanceId: "test-lid-rev-nosocket" });
-      jest.spyOn(client, "saveLidMappingsToFile").mockImplementation(() => {});
+      jest.spyOn(client, "saveLidMappingsToStore").mockImplementation(() => {});
 
       expect(await client.getLidForPhone("6281234567890")).toBeNull();
     });
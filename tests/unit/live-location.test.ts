@@ -0,0 +1,184 @@
+/**
+ * Unit tests for sendLiveLocation(), its share handle, the live_location
+ * event and getLiveLocations(). Fake socket; no real connection.
+ */
+
+import { jest, describe, beforeEach, afterEach, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1] }),
+  fetchLatestWaWebVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1], isLatest: true }),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+
+const socketMocks = {
+  relayMessage: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+};
+
+const NOW = new Date("2026-01-01T00:00:00Z").getTime();
+const GJID = "120363000000000001@g.us";
+
+function makeConnectedClient(): any {
+  const client: any = new MiawClient({ instanceId: "test-live-location" });
+  client.connectionState = "connected";
+  client.socket = socketMocks;
+  return client;
+}
+
+function liveMessage(overrides: Record<string, unknown> = {}): any {
+  return {
+    id: "LIVE1",
+    from: GJID,
+    participant: "6281@s.whatsapp.net",
+    senderPhone: "6281",
+    isGroup: true,
+    fromMe: false,
+    type: "live_location",
+    text: "On my way",
+    timestamp: NOW / 1000,
+    location: { latitude: -6.2, longitude: 106.8, live: true, sequenceNumber: 1 },
+    ...overrides,
+  };
+}
+
+describe("live location", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    socketMocks.relayMessage.mockReset().mockResolvedValue("MSG1");
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("starts a share and pushes updates with increasing sequence numbers", async () => {
+    const client = makeConnectedClient();
+
+    const result = await client.sendLiveLocation("6281", { lat: -6.2, lng: 106.8, accuracy: 10, durationSec: 600 });
+    expect(result).toMatchObject({ success: true, messageId: "MSG1" });
+    expect(result.share).toMatchObject({
+      messageId: "MSG1",
+      chatId: "6281@s.whatsapp.net",
+      startedAt: NOW,
+      expiresAt: NOW + 600_000,
+      active: true,
+    });
+    expect(socketMocks.relayMessage).toHaveBeenCalledWith(
+      "6281@s.whatsapp.net",
+      {
+        liveLocationMessage: expect.objectContaining({
+          degreesLatitude: -6.2,
+          degreesLongitude: 106.8,
+          accuracyInMeters: 10,
+          sequenceNumber: 0,
+          timeOffset: 0,
+        }),
+      },
+      {}
+    );
+
+    socketMocks.relayMessage.mockResolvedValue("MSG2");
+    jest.advanceTimersByTime(30_000);
+    expect(await result.share.update({ lat: -6.21, lng: 106.81, speed: 8, heading: 90 })).toEqual({
+      success: true,
+      messageId: "MSG2",
+    });
+    expect(socketMocks.relayMessage.mock.calls[1][1]).toEqual({
+      liveLocationMessage: expect.objectContaining({
+        degreesLatitude: -6.21,
+        speedInMps: 8,
+        degreesClockwiseFromMagneticNorth: 90,
+        sequenceNumber: 1,
+        timeOffset: 30,
+      }),
+    });
+  });
+
+  it("refuses updates after stop() or once the duration has passed", async () => {
+    const client = makeConnectedClient();
+
+    const stopped = (await client.sendLiveLocation("6281", { lat: 1, lng: 2 })).share;
+    stopped.stop();
+    expect(stopped.active).toBe(false);
+    expect((await stopped.update({ lat: 1, lng: 2 })).error).toMatch(/share has ended/);
+
+    const expired = (await client.sendLiveLocation("6281", { lat: 1, lng: 2, durationSec: 60 })).share;
+    jest.advanceTimersByTime(60_000);
+    expect(expired.active).toBe(false);
+    expect((await expired.update({ lat: 1, lng: 2 })).success).toBe(false);
+    expect(socketMocks.relayMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it("validates coordinates and duration", async () => {
+    const client = makeConnectedClient();
+
+    expect((await client.sendLiveLocation("6281", { lat: 91, lng: 0 })).error).toBe("Invalid coordinates");
+    expect((await client.sendLiveLocation("6281", { lat: 0, lng: 0, durationSec: 28801 })).error).toMatch(
+      /durationSec must be between 1 and 28800/
+    );
+    expect(socketMocks.relayMessage).not.toHaveBeenCalled();
+  });
+
+  it("tracks contacts' positions keyed by the message that started the share", () => {
+    const client = makeConnectedClient();
+    const events: any[] = [];
+    client.on("live_location", (u: any) => events.push(u));
+
+    expect(client.trackLiveLocation(liveMessage())).toBe(false);
+    expect(
+      client.trackLiveLocation(
+        liveMessage({ id: "LIVE2", location: { latitude: -6.3, longitude: 106.9, live: true, sequenceNumber: 2 } })
+      )
+    ).toBe(true);
+    // A lower sequence number means a new share
+    expect(
+      client.trackLiveLocation(
+        liveMessage({ id: "LIVE3", location: { latitude: -6.4, longitude: 107, live: true, sequenceNumber: 0 } })
+      )
+    ).toBe(false);
+
+    expect(events.map((e) => e.messageId)).toEqual(["LIVE1", "LIVE1", "LIVE3"]);
+    expect(events[1]).toEqual({
+      messageId: "LIVE1",
+      chatId: GJID,
+      sender: "6281@s.whatsapp.net",
+      senderPhone: "6281",
+      location: { latitude: -6.3, longitude: 106.9, live: true, sequenceNumber: 2 },
+      caption: "On my way",
+      timestamp: NOW / 1000,
+    });
+
+    expect(client.getLiveLocations(GJID)).toEqual([expect.objectContaining({ messageId: "LIVE3" })]);
+  });
+
+  it("drops positions not updated for 8 hours and ignores own shares", () => {
+    const client = makeConnectedClient();
+    const events: any[] = [];
+    client.on("live_location", (u: any) => events.push(u));
+
+    client.trackLiveLocation(liveMessage());
+    client.trackLiveLocation(liveMessage({ id: "OWN", fromMe: true }));
+    expect(client.getLiveLocations(GJID)).toHaveLength(1);
+
+    jest.advanceTimersByTime(8 * 60 * 60 * 1000);
+    expect(client.getLiveLocations(GJID)).toEqual([]);
+    expect(client.trackLiveLocation(liveMessage({ id: "OLD" }))).toBe(false);
+    expect(events).toHaveLength(1);
+  });
+});
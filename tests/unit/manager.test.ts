@@ -0,0 +1,205 @@
+/**
+ * Unit tests for MiawManager: session discovery, lazy clients, bounded
+ * concurrent connects, event aggregation and per-instance health.
+ * MiawClient is replaced by an EventEmitter stub.
+ */
+
+import { EventEmitter } from "node:events";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { jest, describe, beforeEach, afterEach, it, expect } from "@jest/globals";
+
+class FakeClient extends EventEmitter {
+  state = "disconnected";
+  connect = jest.fn(async () => {
+    this.state = "connecting";
+  });
+  disconnect = jest.fn(async () => {
+    this.state = "disconnected";
+  });
+  dispose = jest.fn(async () => {
+    this.removeAllListeners();
+  });
+
+  constructor(readonly options: any) {
+    super();
+  }
+
+  getConnectionState() {
+    return this.state;
+  }
+
+  getInstanceId() {
+    return this.options.instanceId;
+  }
+
+  /** Simulate a successful login */
+  becomeReady() {
+    this.state = "connected";
+    this.emit("ready");
+  }
+}
+
+jest.unstable_mockModule("../../src/client/MiawClient.js", () => ({ MiawClient: FakeClient }));
+
+const { MiawManager } = await import("../../src/client/MiawManager.js");
+
+/** Let queued connects run */
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("MiawManager", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "miaw-manager-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("discovers instances with saved credentials", () => {
+    for (const id of ["sales", "support"]) {
+      fs.mkdirSync(path.join(dir, id));
+      fs.writeFileSync(path.join(dir, id, "creds.json"), "{}");
+    }
+    fs.mkdirSync(path.join(dir, "empty"));
+
+    const manager = new MiawManager({ sessionPath: dir });
+    expect(manager.discover().sort()).toEqual(["sales", "support"]);
+    expect(MiawManager.listSessions(path.join(dir, "missing"))).toEqual([]);
+    expect(manager.getInstanceIds()).toEqual([]);
+  });
+
+  it("creates clients lazily with shared or per-instance options", () => {
+    const manager = new MiawManager({
+      sessionPath: dir,
+      clientOptions: (instanceId) => ({ proxy: `socks5://${instanceId}.proxy:1080` }),
+    });
+
+    const client = manager.get("sales") as unknown as FakeClient;
+    expect(manager.get("sales")).toBe(client);
+    expect(client.options).toEqual({ instanceId: "sales", sessionPath: dir, proxy: "socks5://sales.proxy:1080" });
+    expect(client.connect).not.toHaveBeenCalled();
+  });
+
+  it("limits how many instances connect at once", async () => {
+    const manager = new MiawManager({ sessionPath: dir, maxConcurrentConnects: 2, connectDelayMs: 0 });
+    const ids = ["a", "b", "c", "d"];
+    const clients = ids.map((id) => manager.get(id) as unknown as FakeClient);
+
+    const all = manager.connectAll(ids);
+    await tick();
+    expect(clients.map((c) => c.connect.mock.calls.length)).toEqual([1, 1, 0, 0]);
+
+    // A QR code frees the slot as well as a successful login
+    clients[0].state = "qr_required";
+    clients[0].emit("qr", "QR");
+    await tick();
+    expect(clients[2].connect).toHaveBeenCalled();
+    expect(clients[3].connect).not.toHaveBeenCalled();
+
+    clients[1].becomeReady();
+    clients[2].becomeReady();
+    await tick();
+    clients[3].emit("disconnected", "connectionClosed");
+
+    expect(await all).toEqual([
+      { instanceId: "a", success: true, state: "qr_required" },
+      { instanceId: "b", success: true, state: "connected" },
+      { instanceId: "c", success: true, state: "connected" },
+      { instanceId: "d", success: false, state: "connecting" },
+    ]);
+  });
+
+  it("spaces out connect starts and frees slots on timeout", async () => {
+    jest.useFakeTimers();
+    try {
+      const manager = new MiawManager({
+        sessionPath: dir,
+        maxConcurrentConnects: 2,
+        connectDelayMs: 1000,
+        connectTimeoutMs: 5000,
+      });
+      const [a, b, c] = ["a", "b", "c"].map((id) => manager.get(id) as unknown as FakeClient);
+
+      const done = manager.connectAll(["a", "b", "c"]);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(a.connect).toHaveBeenCalled();
+      expect(b.connect).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(b.connect).toHaveBeenCalled();
+
+      // "a" never settles: its slot is freed after connectTimeoutMs
+      await jest.advanceTimersByTimeAsync(3999);
+      expect(c.connect).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(1);
+      expect(c.connect).toHaveBeenCalled();
+
+      c.becomeReady();
+      await jest.advanceTimersByTimeAsync(1000);
+      expect((await done).map((r) => r.state)).toEqual(["connecting", "connecting", "connected"]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("reports connect() failures", async () => {
+    const manager = new MiawManager({ sessionPath: dir, connectDelayMs: 0 });
+    const client = manager.get("broken") as unknown as FakeClient;
+    client.connect.mockRejectedValueOnce(new Error("auth state unreadable"));
+
+    expect(await manager.connectAll(["broken"])).toEqual([
+      { instanceId: "broken", success: false, state: "disconnected", error: "auth state unreadable" },
+    ]);
+    expect(manager.getHealth("broken")?.lastError).toBe("auth state unreadable");
+  });
+
+  it("re-emits client events tagged with the instance ID and tracks health", () => {
+    const manager = new MiawManager({ sessionPath: dir });
+    const client = manager.get("sales") as unknown as FakeClient;
+    const onMessage = jest.fn();
+    manager.on("message", onMessage);
+
+    const message = { id: "M1", text: "hi" };
+    client.emit("message", message);
+    expect(onMessage).toHaveBeenCalledWith("sales", message);
+
+    client.emit("disconnected", "connectionLost", 408);
+    client.emit("reconnecting", 2);
+    // No "error" listener on the manager: recorded, not thrown
+    expect(() => client.emit("error", new Error("boom"))).not.toThrow();
+
+    expect(manager.getHealth("sales")).toEqual({
+      instanceId: "sales",
+      state: "disconnected",
+      reconnectAttempts: 2,
+      lastMessageAt: expect.any(Number),
+      lastDisconnectReason: "connectionLost",
+      lastError: "boom",
+    });
+
+    client.becomeReady();
+    expect(manager.getAllHealth()).toEqual([
+      expect.objectContaining({ instanceId: "sales", state: "connected", reconnectAttempts: 0 }),
+    ]);
+    expect(manager.getHealth("other")).toBeNull();
+  });
+
+  it("disposes removed instances", async () => {
+    const manager = new MiawManager({ sessionPath: dir });
+    const a = manager.get("a") as unknown as FakeClient;
+    const b = manager.get("b") as unknown as FakeClient;
+
+    expect(await manager.remove("a")).toBe(true);
+    expect(await manager.remove("a")).toBe(false);
+    expect(a.dispose).toHaveBeenCalled();
+    expect(manager.has("a")).toBe(false);
+
+    await manager.dispose();
+    expect(b.dispose).toHaveBeenCalled();
+    expect(manager.getInstanceIds()).toEqual([]);
+  });
+});
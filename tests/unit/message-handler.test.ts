@@ -607,4 +607,378 @@ describe("MessageHandler", () => {
       expect(result?.from).toBe("");
     });
   });
+
+  describe("normalize non-media types", () => {
+    const wrap = (message: Record<string, unknown>) => ({
+      messages: [
+        {
+          key: { id: "msg200", remoteJid: "1234567890@s.whatsapp.net", fromMe: false },
+          message,
+          messageTimestamp: 1234567890,
+        },
+      ],
+      type: "notify" as const,
+    });
+
+    it("should normalize location message", () => {
+      const result = MessageHandler.normalize(
+        wrap({
+          locationMessage: {
+            degreesLatitude: -6.2,
+            degreesLongitude: 106.8,
+            name: "Monas",
+            address: "Jakarta",
+          },
+        })
+      );
+      expect(result?.type).toBe("location");
+      expect(result?.location).toEqual(
+        expect.objectContaining({ latitude: -6.2, longitude: 106.8, name: "Monas", address: "Jakarta", live: false })
+      );
+    });
+
+    it("should normalize live location message", () => {
+      const result = MessageHandler.normalize(
+        wrap({
+          liveLocationMessage: {
+            degreesLatitude: 1,
+            degreesLongitude: 2,
+            caption: "On my way",
+            sequenceNumber: 3,
+          },
+        })
+      );
+      expect(result?.type).toBe("live_location");
+      expect(result?.text).toBe("On my way");
+      expect(result?.location).toEqual(
+        expect.objectContaining({ latitude: 1, longitude: 2, live: true, sequenceNumber: 3 })
+      );
+    });
+
+    it("should parse contact cards from vCards", () => {
+      const vcard = [
+        "BEGIN:VCARD",
+        "VERSION:3.0",
+        "FN:Jane Doe",
+        "ORG:Acme;",
+        "TEL;type=CELL;type=VOICE;waid=6281234567890:+62 812-3456-7890",
+        "END:VCARD",
+      ].join("\n");
+
+      const single = MessageHandler.normalize(wrap({ contactMessage: { displayName: "Jane", vcard } }));
+      expect(single?.type).toBe("contact");
+      expect(single?.contacts).toEqual([
+        { fullName: "Jane Doe", phone: "6281234567890", organization: "Acme", vcard },
+      ]);
+
+      const multiple = MessageHandler.normalize(
+        wrap({
+          contactsArrayMessage: {
+            contacts: [{ vcard }, { displayName: "No Card", vcard: "BEGIN:VCARD\nTEL:+1 555 0100\nEND:VCARD" }],
+          },
+        })
+      );
+      expect(multiple?.type).toBe("contact");
+      expect(multiple?.contacts?.[1]).toEqual(expect.objectContaining({ fullName: "No Card", phone: "15550100" }));
+    });
+
+    it("should normalize poll creation messages (all versions)", () => {
+      for (const key of ["pollCreationMessage", "pollCreationMessageV2", "pollCreationMessageV3"]) {
+        const result = MessageHandler.normalize(
+          wrap({
+            [key]: {
+              name: "Lunch?",
+              options: [{ optionName: "Pizza" }, { optionName: "Sushi" }],
+              selectableOptionsCount: 1,
+            },
+          })
+        );
+        expect(result?.type).toBe("poll");
+        expect(result?.poll).toEqual({ name: "Lunch?", options: ["Pizza", "Sushi"], selectableCount: 1 });
+      }
+    });
+
+    it("should normalize group invite message", () => {
+      const result = MessageHandler.normalize(
+        wrap({
+          groupInviteMessage: {
+            groupJid: "123@g.us",
+            groupName: "Friends",
+            inviteCode: "AbCd",
+            inviteExpiration: 1700000000,
+            caption: "Join us",
+          },
+        })
+      );
+      expect(result?.type).toBe("group_invite");
+      expect(result?.text).toBe("Join us");
+      expect(result?.groupInvite).toEqual({
+        groupJid: "123@g.us",
+        groupName: "Friends",
+        inviteCode: "AbCd",
+        inviteExpiration: 1700000000,
+      });
+    });
+
+    it("should normalize product message with prices in currency units", () => {
+      const result = MessageHandler.normalize(
+        wrap({
+          productMessage: {
+            product: { productId: "p1", title: "Shirt", currencyCode: "IDR", priceAmount1000: 150000000 },
+            businessOwnerJid: "999@s.whatsapp.net",
+          },
+        })
+      );
+      expect(result?.type).toBe("product");
+      expect(result?.product).toEqual(
+        expect.objectContaining({ productId: "p1", title: "Shirt", currency: "IDR", price: 150000, businessOwnerJid: "999@s.whatsapp.net" })
+      );
+    });
+
+    it("should normalize order message", () => {
+      const result = MessageHandler.normalize(
+        wrap({
+          orderMessage: {
+            orderId: "o1",
+            token: "tok",
+            itemCount: 2,
+            status: 1,
+            message: "Please deliver",
+            totalAmount1000: 25000,
+            totalCurrencyCode: "USD",
+          },
+        })
+      );
+      expect(result?.type).toBe("order");
+      expect(result?.text).toBe("Please deliver");
+      expect(result?.order).toEqual(
+        expect.objectContaining({ orderId: "o1", token: "tok", itemCount: 2, status: "inquiry", total: 25, currency: "USD" })
+      );
+    });
+
+    it("should normalize event message", () => {
+      const result = MessageHandler.normalize(
+        wrap({
+          eventMessage: {
+            name: "Meetup",
+            description: "Monthly",
+            startTime: 1700000000,
+            location: { degreesLatitude: 1, degreesLongitude: 2, name: "Cafe" },
+          },
+        })
+      );
+      expect(result?.type).toBe("event");
+      expect(result?.event).toEqual(
+        expect.objectContaining({ name: "Meetup", description: "Monthly", startTime: 1700000000, isCanceled: false })
+      );
+      expect(result?.event?.location?.name).toBe("Cafe");
+    });
+
+    it("should normalize button and list responses", () => {
+      const button = MessageHandler.normalize(
+        wrap({ buttonsResponseMessage: { selectedButtonId: "yes", selectedDisplayText: "Yes" } })
+      );
+      expect(button?.type).toBe("button_response");
+      expect(button?.text).toBe("Yes");
+      expect(button?.response).toEqual({ id: "yes", text: "Yes" });
+
+      const template = MessageHandler.normalize(
+        wrap({ templateButtonReplyMessage: { selectedId: "t1", selectedDisplayText: "Track" } })
+      );
+      expect(template?.response).toEqual({ id: "t1", text: "Track" });
+
+      const nativeFlow = MessageHandler.normalize(
+        wrap({
+          interactiveResponseMessage: {
+            body: { text: "Option A" },
+            nativeFlowResponseMessage: { name: "quick_reply", paramsJson: '{"id":"opt-a"}' },
+          },
+        })
+      );
+      expect(nativeFlow?.type).toBe("button_response");
+      expect(nativeFlow?.response).toEqual({ id: "opt-a", text: "Option A" });
+
+      const list = MessageHandler.normalize(
+        wrap({
+          listResponseMessage: {
+            title: "Large",
+            description: "12 inch",
+            singleSelectReply: { selectedRowId: "size-l" },
+          },
+        })
+      );
+      expect(list?.type).toBe("list_response");
+      expect(list?.response).toEqual({ id: "size-l", text: "Large", description: "12 inch" });
+    });
+  });
+
+  describe("normalize reply and mention context", () => {
+    const wrap = (message: Record<string, unknown>) => ({
+      messages: [
+        {
+          key: { id: "msg300", remoteJid: "120363000000000000@g.us", fromMe: false, participant: "1234567890@s.whatsapp.net" },
+          message,
+          messageTimestamp: 1234567890,
+        },
+      ],
+      type: "notify" as const,
+    });
+
+    it("should extract the quoted message, mentions and forward flags", () => {
+      const result = MessageHandler.normalize(
+        wrap({
+          extendedTextMessage: {
+            text: "@6281111111111 agreed",
+            contextInfo: {
+              stanzaId: "QUOTED1",
+              participant: "6282222222222@s.whatsapp.net",
+              quotedMessage: { conversation: "Meet at 5?" },
+              mentionedJid: ["6281111111111@s.whatsapp.net"],
+              isForwarded: true,
+              forwardingScore: 2,
+            },
+          },
+        })
+      );
+
+      expect(result?.text).toBe("@6281111111111 agreed");
+      expect(result?.quoted).toEqual(
+        expect.objectContaining({
+          id: "QUOTED1",
+          from: "120363000000000000@g.us",
+          participant: "6282222222222@s.whatsapp.net",
+          senderPhone: "6282222222222",
+          type: "text",
+          text: "Meet at 5?",
+        })
+      );
+      expect(result?.mentions).toEqual(["6281111111111@s.whatsapp.net"]);
+      expect(result?.isForwarded).toBe(true);
+      expect(result?.forwardingScore).toBe(2);
+    });
+
+    it("should normalize a quoted media message", () => {
+      const result = MessageHandler.normalize(
+        wrap({
+          imageMessage: {
+            caption: "see this",
+            mimetype: "image/jpeg",
+            contextInfo: {
+              stanzaId: "QUOTED2",
+              participant: "6282222222222@s.whatsapp.net",
+              quotedMessage: {
+                locationMessage: { degreesLatitude: -6.2, degreesLongitude: 106.8 },
+              },
+            },
+          },
+        })
+      );
+
+      expect(result?.type).toBe("image");
+      expect(result?.quoted?.type).toBe("location");
+      expect(result?.quoted?.location).toEqual(
+        expect.objectContaining({ latitude: -6.2, longitude: 106.8 })
+      );
+    });
+
+    it("should leave context fields undefined for a plain message", () => {
+      const result = MessageHandler.normalize(wrap({ conversation: "hi" }));
+
+      expect(result?.quoted).toBeUndefined();
+      expect(result?.mentions).toBeUndefined();
+      expect(result?.isForwarded).toBeUndefined();
+      expect(result?.forwardingScore).toBeUndefined();
+      expect(result?.ephemeralExpiration).toBeUndefined();
+    });
+  });
+
+  describe("normalize disappearing messages", () => {
+    const wrap = (message: Record<string, unknown>) => ({
+      messages: [
+        {
+          key: { id: "msg400", remoteJid: "6281234567890@s.whatsapp.net", fromMe: false },
+          message,
+          messageTimestamp: 1234567890,
+        },
+      ],
+      type: "notify" as const,
+    });
+
+    it("should unwrap ephemeral messages and expose the timer", () => {
+      const result = MessageHandler.normalize(
+        wrap({
+          ephemeralMessage: {
+            message: {
+              extendedTextMessage: {
+                text: "gone in a day",
+                contextInfo: {
+                  expiration: 86400,
+                  stanzaId: "QUOTED3",
+                  quotedMessage: { conversation: "hi" },
+                },
+              },
+            },
+          },
+        })
+      );
+
+      expect(result?.type).toBe("text");
+      expect(result?.text).toBe("gone in a day");
+      expect(result?.ephemeralExpiration).toBe(86400);
+      expect(result?.quoted?.id).toBe("QUOTED3");
+    });
+
+    it("should unwrap view-once media inside an ephemeral wrapper", () => {
+      const result = MessageHandler.normalize(
+        wrap({
+          ephemeralMessage: {
+            message: {
+              viewOnceMessageV2: {
+                message: {
+                  imageMessage: {
+                    mimetype: "image/jpeg",
+                    caption: "once",
+                    contextInfo: { expiration: 604800 },
+                  },
+                },
+              },
+            },
+          },
+        })
+      );
+
+      expect(result?.type).toBe("image");
+      expect(result?.media?.viewOnce).toBe(true);
+      expect(result?.ephemeralExpiration).toBe(604800);
+    });
+  });
+
+  describe("normalize scheduled calls", () => {
+    it("should normalize a scheduled call as an event", () => {
+      const result = MessageHandler.normalize({
+        messages: [
+          {
+            key: { id: "msg500", remoteJid: "6281234567890@s.whatsapp.net", fromMe: false },
+            message: {
+              scheduledCallCreationMessage: {
+                title: "Catch-up",
+                scheduledTimestampMs: 1769871600000,
+                callType: 2,
+              },
+            },
+            messageTimestamp: 1234567890,
+          },
+        ],
+        type: "notify",
+      });
+
+      expect(result?.type).toBe("event");
+      expect(result?.event).toEqual({
+        name: "Catch-up",
+        startTime: 1769871600,
+        isCanceled: false,
+        isScheduledCall: true,
+      });
+    });
+  });
 });
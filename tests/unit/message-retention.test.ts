@@ -0,0 +1,212 @@
+/**
+ * Unit tests for message retention (MiawClientOptions.retention).
+ *
+ *  - maxMessagesPerChat / maxAge / maxMemoryMB evict the oldest messages.
+ *  - dropRawAfter slims raw to { key, messageTimestamp } on a copy, so key
+ *    based features and replies keep working.
+ *  - Poll-creation messages keep raw and survive count/memory eviction.
+ *  - Evicted messages leave a loadMoreMessages cursor behind.
+ *
+ * Persistence is stubbed; no disk writes or real connection.
+ */
+
+import { jest, describe, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest.fn(),
+  fetchLatestWaWebVersion: jest.fn(),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+
+const CHAT = "6281111111111@s.whatsapp.net";
+const NOW = 1_700_000_000_000;
+const NOW_S = NOW / 1000;
+
+function makeClient(retention: Record<string, number>): any {
+  const client: any = new MiawClient({ instanceId: "test-retention", retention });
+  jest.spyOn(client, "saveMessageToStore").mockImplementation(() => {});
+  jest.spyOn(client, "saveMessagesToStore").mockImplementation(() => {});
+  jest.spyOn(client.store, "saveChatMessages").mockImplementation(async () => {});
+  clearInterval(client.retentionSweepTimer);
+  return client;
+}
+
+function msg(id: string, ageSeconds: number, extra: Record<string, unknown> = {}): any {
+  const timestamp = NOW_S - ageSeconds;
+  return {
+    id,
+    from: CHAT,
+    fromMe: false,
+    isGroup: false,
+    type: "text",
+    text: `text ${id}`,
+    timestamp,
+    raw: {
+      key: { id, remoteJid: CHAT, fromMe: false },
+      messageTimestamp: timestamp,
+      message: { conversation: `text ${id}` },
+    },
+    ...extra,
+  };
+}
+
+function storedIds(client: any): string[] {
+  return (client.messagesStore.get(CHAT) || []).map((m: any) => m.id);
+}
+
+describe("message retention", () => {
+  it("keeps only the newest maxMessagesPerChat messages", () => {
+    const client = makeClient({ maxMessagesPerChat: 2 });
+    client.storeMessage(msg("new", 10));
+    client.storeMessage(msg("old", 30));
+    client.storeMessage(msg("mid", 20));
+
+    expect(client.applyRetention(NOW)).toEqual({ evicted: 1, slimmed: 0 });
+    expect(storedIds(client)).toEqual(["new", "mid"]);
+    expect(client.store.saveChatMessages).not.toHaveBeenCalled();
+
+    client.persistRetention();
+    client.persistRetention();
+    expect(client.store.saveChatMessages).toHaveBeenCalledTimes(1);
+    expect(client.store.saveChatMessages).toHaveBeenCalledWith(CHAT, client.messagesStore.get(CHAT));
+    expect(client.saveMessagesToStore).not.toHaveBeenCalled();
+  });
+
+  it("persists only the chats retention changed", () => {
+    const other = "6282222222222@s.whatsapp.net";
+    const client = makeClient({ maxMessagesPerChat: 1 });
+    client.storeMessage(msg("A", 10));
+    client.storeMessage(msg("B", 20));
+    client.storeMessage(msg("C", 10, { from: other }));
+
+    client.applyRetention(NOW);
+    client.persistRetention();
+    expect(client.store.saveChatMessages).toHaveBeenCalledTimes(1);
+    expect(client.store.saveChatMessages).toHaveBeenCalledWith(CHAT, [expect.objectContaining({ id: "A" })]);
+  });
+
+  it("falls back to a full snapshot without saveChatMessages", () => {
+    const client = makeClient({ maxMessagesPerChat: 1 });
+    client.store.saveChatMessages = undefined;
+    client.storeMessage(msg("A", 10));
+    client.storeMessage(msg("B", 20));
+
+    client.applyRetention(NOW);
+    client.persistRetention();
+    expect(client.saveMessagesToStore).toHaveBeenCalledTimes(1);
+  });
+
+  it("evicts messages older than maxAge", () => {
+    const client = makeClient({ maxAge: 60_000 });
+    client.storeMessage(msg("fresh", 30));
+    client.storeMessage(msg("stale", 120));
+
+    client.applyRetention(NOW);
+    expect(storedIds(client)).toEqual(["fresh"]);
+  });
+
+  it("slims raw on a copy after dropRawAfter, keeping the key", () => {
+    const client = makeClient({ dropRawAfter: 60_000 });
+    const original = msg("A", 120);
+    client.storeMessage(original);
+
+    expect(client.applyRetention(NOW)).toEqual({ evicted: 0, slimmed: 1 });
+    const stored = client.messagesStore.get(CHAT)[0];
+    expect(stored.raw).toEqual({ key: original.raw.key, messageTimestamp: original.raw.messageTimestamp });
+    expect(original.raw.message).toBeDefined(); // caller's reference untouched
+  });
+
+  it("rebuilds a minimal quote for slimmed messages", () => {
+    const client = makeClient({ dropRawAfter: 1 });
+    client.storeMessage(msg("A", 120));
+    client.applyRetention(NOW);
+
+    const quoted = client.getQuotedRaw(client.messagesStore.get(CHAT)[0]);
+    expect(quoted.key.id).toBe("A");
+    expect(quoted.message).toEqual({ conversation: "text A" });
+  });
+
+  it("never slims or count-evicts poll creation messages", () => {
+    const client = makeClient({ maxMessagesPerChat: 1, dropRawAfter: 1 });
+    const poll = msg("poll", 300);
+    poll.raw.message = { pollCreationMessageV3: { name: "Lunch?" } };
+    client.storeMessage(poll);
+    client.storeMessage(msg("B", 200));
+    client.storeMessage(msg("C", 100));
+
+    client.applyRetention(NOW);
+    const stored = client.messagesStore.get(CHAT);
+    expect(stored.map((m: any) => m.id)).toEqual(["poll", "C"]);
+    expect(stored[0].raw.message.pollCreationMessageV3).toBeDefined();
+  });
+
+  it("pins polls sent in disappearing chats (ephemeral-wrapped)", () => {
+    const client = makeClient({ maxMessagesPerChat: 1, dropRawAfter: 1 });
+    const poll = msg("poll", 300);
+    poll.raw.message = {
+      ephemeralMessage: { message: { pollCreationMessageV3: { name: "Lunch?" } } },
+    };
+    client.storeMessage(poll);
+    client.storeMessage(msg("B", 200));
+    client.storeMessage(msg("C", 100));
+
+    client.applyRetention(NOW);
+    const stored = client.messagesStore.get(CHAT);
+    expect(stored.map((m: any) => m.id)).toEqual(["poll", "C"]);
+    expect(stored[0].raw.message.ephemeralMessage.message.pollCreationMessageV3).toBeDefined();
+  });
+
+  it("slims then evicts the oldest messages to fit maxMemoryMB", () => {
+    const client = makeClient({ maxMemoryMB: 0.001 }); // ~1 KB
+    for (let i = 0; i < 10; i++) {
+      client.storeMessage(msg(`M${i}`, 100 - i));
+    }
+
+    const { evicted, slimmed } = client.applyRetention(NOW);
+    expect(slimmed).toBeGreaterThan(0);
+    expect(evicted).toBeGreaterThan(0);
+    expect(storedIds(client)).toContain("M9");
+    expect(storedIds(client)).not.toContain("M0");
+  });
+
+  it("records the oldest evicted key as the loadMoreMessages cursor", () => {
+    const client = makeClient({ maxMessagesPerChat: 1 });
+    client.storeMessage(msg("old", 30));
+    client.storeMessage(msg("older", 40));
+    client.storeMessage(msg("new", 10));
+
+    client.applyRetention(NOW);
+    expect(client.historyCursors.get(CHAT).key.id).toBe("older");
+  });
+
+  it("does nothing without a retention policy", () => {
+    const client = makeClient({});
+    client.storeMessage(msg("A", 10_000_000));
+    expect(client.applyRetention(NOW)).toEqual({ evicted: 0, slimmed: 0 });
+    expect(client.retentionTimer).toBeNull();
+  });
+
+  it("purges expired disappearing messages with or without a policy", () => {
+    const client = makeClient({});
+    client.storeMessage(msg("expired", 90_000, { ephemeralExpiration: 86_400 }));
+    client.storeMessage(msg("live", 3_600, { ephemeralExpiration: 86_400 }));
+    client.storeMessage(msg("plain", 90_000));
+    expect(client.retentionSweepTimer).not.toBeNull();
+    clearInterval(client.retentionSweepTimer);
+
+    expect(client.applyRetention(NOW)).toEqual({ evicted: 1, slimmed: 0 });
+    expect(storedIds(client)).toEqual(["live", "plain"]);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for MessageSearchIndex and searchMessages(): tokenizing,
+ * ranking, snippets, filters, pagination and keeping the index in sync with
+ * the message store. Persistence is stubbed; no real connection.
+ */
+
+import { jest, describe, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest.fn(),
+  fetchLatestWaWebVersion: jest.fn(),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+const { MessageSearchIndex } = await import("../../src/handlers/MessageSearchIndex.js");
+
+const ALICE = "6281111111111@s.whatsapp.net";
+const GROUP = "120363000000000001@g.us";
+const BOB = "6282222222222@s.whatsapp.net";
+
+function msg(id: string, text: string | undefined, extra: Record<string, unknown> = {}): any {
+  return {
+    id,
+    from: ALICE,
+    senderPhone: "6281111111111",
+    fromMe: false,
+    isGroup: false,
+    type: "text",
+    text,
+    timestamp: 1_700_000_000,
+    ...extra,
+  };
+}
+
+function makeClient(retention?: Record<string, number>): any {
+  const client: any = new MiawClient({ instanceId: "test-search", retention });
+  jest.spyOn(client, "saveMessageToStore").mockImplementation(() => {});
+  jest.spyOn(client, "saveMessagesToStore").mockImplementation(() => {});
+  clearInterval(client.retentionSweepTimer);
+  return client;
+}
+
+describe("MessageSearchIndex", () => {
+  it("tokenizes case- and accent-insensitively", () => {
+    expect(MessageSearchIndex.tokenize("Café INV-2024/0042, ¿Qué?")).toEqual([
+      "cafe",
+      "inv",
+      "2024",
+      "0042",
+      "que",
+    ]);
+  });
+
+  it("requires every term, prefix-matches the last and ranks phrases higher", () => {
+    const index = new MessageSearchIndex();
+    index.add(ALICE, msg("a", "Your order 1042 has shipped"));
+    index.add(ALICE, msg("b", "order status: 1042 is still pending, order again?"));
+    index.add(ALICE, msg("c", "order 7"));
+    index.add(ALICE, msg("d", undefined, { type: "document", media: { fileName: "invoice-1042.pdf" } }));
+
+    const scores = index.match("order 10");
+    expect([...scores.keys()].sort()).toEqual([MessageSearchIndex.key(ALICE, "a"), MessageSearchIndex.key(ALICE, "b")]);
+    expect(scores.get(MessageSearchIndex.key(ALICE, "a"))!).toBeGreaterThan(
+      scores.get(MessageSearchIndex.key(ALICE, "b"))! / 2
+    );
+
+    expect([...index.match("invoice 1042").keys()]).toEqual([MessageSearchIndex.key(ALICE, "d")]);
+    expect(index.match("!!!").size).toBe(0);
+
+    index.remove(ALICE, "d");
+    expect(index.match("invoice").size).toBe(0);
+    expect(index.size).toBe(3);
+  });
+
+  it("builds snippets around the first match", () => {
+    const text = `${"x ".repeat(40)}Hi, your invoice INV-2024-0042 is ready. ${"y ".repeat(60)}`;
+    const snippet = MessageSearchIndex.snippet(text, "inv 2024 0042");
+
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+    expect(snippet).toContain("invoice **INV**-**2024**-**0042** is ready.");
+    expect(MessageSearchIndex.snippet("short text", "nothing", "[", "]")).toBe("short text");
+  });
+});
+
+describe("searchMessages", () => {
+  it("ranks hits and returns highlighted snippets", async () => {
+    const client = makeClient();
+    client.storeMessage(msg("1", "order 1042 shipped", { timestamp: 1 }));
+    client.storeMessage(msg("2", "Where is order 1042? I ordered on Monday", { timestamp: 2 }));
+    client.storeMessage(msg("3", "no match here"));
+
+    const result = await client.searchMessages({ query: "order 1042" });
+    expect(result.success).toBe(true);
+    expect(result.total).toBe(2);
+    expect(result.hits.map((h: any) => h.message.id)).toEqual(["1", "2"]);
+    expect(result.hits[0].snippet).toBe("**order** **1042** shipped");
+    expect(result.nextCursor).toBeUndefined();
+  });
+
+  it("applies filters with and without a query", async () => {
+    const client = makeClient();
+    client.storeMessage(msg("dm", "invoice attached", { timestamp: 10 }));
+    client.storeMessage(msg("mine", "invoice sent", { fromMe: true, timestamp: 20 }));
+    client.storeMessage(
+      msg("grp", "invoice in group", {
+        from: GROUP,
+        isGroup: true,
+        participant: BOB,
+        senderPhone: "6282222222222",
+        type: "document",
+        media: { fileName: "inv.pdf" },
+        timestamp: 30,
+      })
+    );
+
+    const ids = async (options: any) =>
+      ((await client.searchMessages(options)).hits as any[]).map((h) => h.message.id);
+
+    expect(await ids({ query: "invoice", chat: "6281111111111" })).toEqual(["mine", "dm"]);
+    expect(await ids({ query: "invoice", from: "6282222222222" })).toEqual(["grp"]);
+    expect(await ids({ query: "invoice", from: ALICE })).toEqual(["dm"]);
+    expect(await ids({ query: "invoice", fromMe: true })).toEqual(["mine"]);
+    expect(await ids({ hasMedia: true })).toEqual(["grp"]);
+    expect(await ids({ type: ["text"], before: new Date(20_000) })).toEqual(["dm"]);
+    expect(await ids({ after: new Date(10_000) })).toEqual(["grp", "mine"]);
+  });
+
+  it("pages with a cursor and rejects bad ones", async () => {
+    const client = makeClient();
+    for (let i = 1; i <= 5; i++) {
+      client.storeMessage(msg(`m${i}`, "hello", { timestamp: i }));
+    }
+
+    const first = await client.searchMessages({ query: "hello", limit: 2 });
+    expect(first.hits.map((h: any) => h.message.id)).toEqual(["m5", "m4"]);
+    expect(first.nextCursor).toBe("2");
+
+    const last = await client.searchMessages({ query: "hello", limit: 2, cursor: "4" });
+    expect(last.hits.map((h: any) => h.message.id)).toEqual(["m1"]);
+    expect(last.nextCursor).toBeUndefined();
+
+    expect((await client.searchMessages({ query: "hello", cursor: "abc" })).success).toBe(false);
+  });
+
+  it("keeps the index in sync with retention and store reloads", async () => {
+    const client = makeClient({ maxMessagesPerChat: 1 });
+    client.storeMessage(msg("old", "receipt one", { timestamp: 1 }));
+    client.storeMessage(msg("new", "receipt two", { timestamp: 2 }));
+
+    client.applyRetention();
+    expect((await client.searchMessages({ query: "receipt" })).hits.map((h: any) => h.message.id)).toEqual(["new"]);
+    expect(client.searchIndex.size).toBe(1);
+
+    client.store = { loadMessages: async () => ({ [GROUP]: [msg("loaded", "receipt three", { from: GROUP })] }) };
+    await client.loadMessagesFromStore();
+    expect((await client.searchMessages({ query: "receipt" })).hits.map((h: any) => h.message.id)).toEqual([
+      "loaded",
+    ]);
+  });
+});
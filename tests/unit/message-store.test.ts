@@ -36,6 +36,7 @@ jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
   downloadMediaMessage: jest.fn(),
   jidNormalizedUser: jest.fn((jid: string) => jid),
   getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
 }));
 
 const { MiawClient } = await import("../../src/client/MiawClient.js");
@@ -72,8 +73,8 @@ function makeClient(): {
   emitted: any[];
 } {
   const client: any = new MiawClient({ instanceId: "test-msg-store" });
-  jest.spyOn(client, "saveMessagesToFile").mockImplementation(() => {});
-  jest.spyOn(client, "saveLidMappingsToFile").mockImplementation(() => {});
+  jest.spyOn(client, "saveMessageToStore").mockImplementation(() => {});
+  jest.spyOn(client, "saveLidMappingsToStore").mockImplementation(() => {});
   client.messagesStore.clear();
 
   const handlers: Record<string, (arg: any) => any> = {};
@@ -201,3 +202,59 @@ describe("messages.upsert capture", () => {
     expect(emitted).toHaveLength(1);
   });
 });
+
+describe("reply and mention context", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const GROUP = "120363000000000000@g.us";
+  const MY_LID = "99999999999999@lid";
+  const OTHER_LID = "88888888888888@lid";
+
+  /** A group reply quoting `quotedParticipant` and mentioning `mention`. */
+  function replyMsg(id: string, quotedParticipant: string, mention: string): any {
+    return {
+      key: { id, remoteJid: GROUP, fromMe: false, participant: CHAT_A },
+      message: {
+        extendedTextMessage: {
+          text: "replying",
+          contextInfo: {
+            stanzaId: "Q1",
+            participant: quotedParticipant,
+            quotedMessage: { conversation: "original" },
+            mentionedJid: [mention],
+          },
+        },
+      },
+      pushName: "Sender",
+      messageTimestamp: 1000,
+    };
+  }
+
+  it("flags quotes of our own messages (by LID) and resolves LIDs to phone JIDs", async () => {
+    const { client, emitUpsert, emitted } = makeClient();
+    client.socket.user = { id: "6289999999999:3@s.whatsapp.net", lid: "99999999999999:3@lid" };
+    client.registerLidMapping(OTHER_LID, CHAT_B);
+
+    await emitUpsert("notify", replyMsg("R1", MY_LID, OTHER_LID));
+
+    expect(emitted).toHaveLength(1);
+    expect(emitted[0].quoted).toMatchObject({ id: "Q1", fromMe: true, text: "original" });
+    expect(emitted[0].mentions).toEqual([CHAT_B]);
+  });
+
+  it("resolves a quoted participant's LID and fills its phone", async () => {
+    const { client, emitUpsert, emitted } = makeClient();
+    client.socket.user = { id: "6289999999999:3@s.whatsapp.net" };
+    client.registerLidMapping(OTHER_LID, CHAT_B);
+
+    await emitUpsert("notify", replyMsg("R2", OTHER_LID, CHAT_A));
+
+    expect(emitted[0].quoted).toMatchObject({
+      fromMe: false,
+      participant: CHAT_B,
+      senderPhone: "6282222222222",
+    });
+  });
+});
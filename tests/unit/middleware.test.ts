@@ -0,0 +1,254 @@
+/**
+ * Unit tests for the message middleware pipeline and command router.
+ *
+ * Incoming messages are fed through the real `messages.upsert` handler of a
+ * client with a fake socket; sendText / sendReaction / getGroupParticipants
+ * are stubbed.
+ */
+
+import { jest, describe, beforeEach, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1] }),
+  fetchLatestWaWebVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1], isLatest: true }),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+const { CommandRouter } = await import("../../src/handlers/CommandRouter.js");
+
+const DM = "6281111111111@s.whatsapp.net";
+const GROUP = "120363000000000000@g.us";
+const ADMIN = "6282222222222@s.whatsapp.net";
+
+let seq = 0;
+
+/** Build a synthetic inbound text message (DM, or group when participant is set). */
+function textMsg(text: string, participant?: string): any {
+  return {
+    key: {
+      id: `M${++seq}`,
+      remoteJid: participant ? GROUP : DM,
+      fromMe: false,
+      participant,
+    },
+    message: { conversation: text },
+    pushName: "Sender",
+    messageTimestamp: 1000,
+  };
+}
+
+/** Let the fire-and-forget pipeline settle. */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+function makeClient(): { client: any; receive: (msg: any) => Promise<void> } {
+  const client: any = new MiawClient({ instanceId: "test-middleware" });
+  jest.spyOn(client, "saveMessageToStore").mockImplementation(() => {});
+  jest.spyOn(client, "saveLidMappingsToStore").mockImplementation(() => {});
+  jest.spyOn(client, "sendText").mockResolvedValue({ success: true } as never);
+  jest.spyOn(client, "sendReaction").mockResolvedValue({ success: true } as never);
+  jest
+    .spyOn(client, "getGroupParticipants")
+    .mockResolvedValue([{ jid: ADMIN, role: "admin" }] as never);
+  client.messagesStore.clear();
+
+  const handlers: Record<string, (arg: any) => any> = {};
+  client.socket = {
+    ev: {
+      on: (event: string, handler: (arg: any) => any) => {
+        handlers[event] = handler;
+      },
+    },
+  };
+  client.registerSocketEvents(async () => {});
+
+  return {
+    client,
+    receive: async (msg) => {
+      await handlers["messages.upsert"]({ type: "notify", messages: [msg] });
+      await settle();
+    },
+  };
+}
+
+describe("message middleware", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("runs middleware in order and shares ctx.state", async () => {
+    const { client, receive } = makeClient();
+    const calls: string[] = [];
+
+    client
+      .use(async (ctx: any, next: () => Promise<void>) => {
+        calls.push("first:before");
+        ctx.state.user = "alice";
+        await next();
+        calls.push("first:after");
+      })
+      .use((ctx: any) => {
+        calls.push(`second:${ctx.state.user}:${ctx.message.text}`);
+      });
+
+    await receive(textMsg("hello"));
+
+    expect(calls).toEqual(["first:before", "second:alice:hello", "first:after"]);
+  });
+
+  it("stops the pipeline when next() is not called", async () => {
+    const { client, receive } = makeClient();
+    const handler = jest.fn();
+
+    client.use(() => {});
+    client.command("/help", handler);
+
+    await receive(textMsg("/help"));
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("routes middleware errors to the error event", async () => {
+    const { client, receive } = makeClient();
+    const errors: Error[] = [];
+    client.on("error", (e: Error) => errors.push(e));
+
+    client.use(() => {
+      throw new Error("boom");
+    });
+
+    await receive(textMsg("hi"));
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toBe("boom");
+  });
+
+  it("does not throw when no error listener is registered", async () => {
+    const { client, receive } = makeClient();
+    client.use(async () => {
+      throw new Error("boom");
+    });
+
+    await expect(receive(textMsg("hi"))).resolves.toBeUndefined();
+  });
+
+  it("reply() quotes the incoming message and react() reacts to it", async () => {
+    const { client, receive } = makeClient();
+    client.use(async (ctx: any) => {
+      await ctx.reply("pong");
+      await ctx.react("👍");
+    });
+
+    await receive(textMsg("ping"));
+
+    expect(client.sendText).toHaveBeenCalledWith(
+      DM,
+      "pong",
+      expect.objectContaining({ quoted: expect.objectContaining({ text: "ping" }) })
+    );
+    expect(client.sendReaction).toHaveBeenCalledWith(
+      expect.objectContaining({ text: "ping" }),
+      "👍"
+    );
+  });
+});
+
+describe("command router", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("parses arguments and matches aliases and prefixes case-insensitively", async () => {
+    const { client, receive } = makeClient();
+    const handler = jest.fn();
+    client.command("add", handler, { prefix: ["/", "!"], aliases: ["new"] });
+
+    await receive(textMsg('!NEW "John Doe" 42'));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({
+        command: "add",
+        trigger: "!new",
+        args: ["John Doe", "42"],
+        argText: '"John Doe" 42',
+      })
+    );
+  });
+
+  it("ignores messages whose first word is not a command", async () => {
+    const { client, receive } = makeClient();
+    const handler = jest.fn();
+    client.command("/help", handler);
+
+    await receive(textMsg("please /help"));
+    await receive(textMsg("/helpme"));
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("enforces groupOnly and dmOnly guards", async () => {
+    const { client, receive } = makeClient();
+    const groupHandler = jest.fn();
+    const dmHandler = jest.fn();
+    client.command("/group", groupHandler, { groupOnly: true });
+    client.command("/dm", dmHandler, { dmOnly: true });
+
+    await receive(textMsg("/group"));
+    await receive(textMsg("/dm", ADMIN));
+    expect(groupHandler).not.toHaveBeenCalled();
+    expect(dmHandler).not.toHaveBeenCalled();
+
+    await receive(textMsg("/group", ADMIN));
+    await receive(textMsg("/dm"));
+    expect(groupHandler).toHaveBeenCalledTimes(1);
+    expect(dmHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs adminOnly commands for group admins and replies deniedMessage otherwise", async () => {
+    const { client, receive } = makeClient();
+    const handler = jest.fn();
+    client.command("/kick", handler, { adminOnly: true, deniedMessage: "Admins only." });
+
+    await receive(textMsg("/kick 628333", "6283333333333@s.whatsapp.net"));
+    expect(handler).not.toHaveBeenCalled();
+    expect(client.sendText).toHaveBeenCalledWith(GROUP, "Admins only.", expect.anything());
+
+    await receive(textMsg("/kick 628333", ADMIN));
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(client.getGroupParticipants).toHaveBeenCalledWith(GROUP);
+  });
+
+  it("lists registered commands with their triggers", () => {
+    const { client } = makeClient();
+    client.command("help", jest.fn(), { prefix: "/", aliases: ["h"], description: "Show help" });
+
+    expect(client.getCommands()).toEqual([
+      { name: "help", triggers: ["/help", "/h"], description: "Show help" },
+    ]);
+  });
+
+  it("rejects triggers containing whitespace", () => {
+    const { client } = makeClient();
+    expect(() => client.command("/two words", jest.fn())).toThrow("single words");
+  });
+
+  it("parseArgs keeps quoted strings together", () => {
+    expect(CommandRouter.parseArgs(`a "b c" 'd e' f`)).toEqual(["a", "b c", "d e", "f"]);
+    expect(CommandRouter.parseArgs("")).toEqual([]);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for newsletter posts: fetchNewsletterMessages() parsing and
+ * cursor paging, and the live `newsletter_message` event. Fake socket; no
+ * real connection. Serialized posts are JSON in these tests.
+ */
+
+import { jest, describe, beforeEach, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest.fn(),
+  fetchLatestWaWebVersion: jest.fn(),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: { Message: { decode: (bytes: Uint8Array) => JSON.parse(Buffer.from(bytes).toString()) } },
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+
+const NEWSLETTER = "120363000000000001@newsletter";
+
+const socketMocks = {
+  query: jest.fn<(...a: unknown[]) => Promise<any>>(),
+};
+
+function makeConnectedClient(): any {
+  const client: any = new MiawClient({ instanceId: "test-newsletter-messages" });
+  client.connectionState = "connected";
+  client.socket = socketMocks;
+  return client;
+}
+
+/** A `<message>` node of a newsletter `messages` response */
+function post(attrs: Record<string, string>, content: unknown, children: any[] = []): any {
+  const plaintext = typeof content === "string" ? content : JSON.stringify(content);
+  return {
+    tag: "message",
+    attrs,
+    content: [{ tag: "plaintext", attrs: {}, content: Buffer.from(plaintext) }, ...children],
+  };
+}
+
+function response(posts: any[]): any {
+  return { tag: "iq", attrs: {}, content: [{ tag: "messages", attrs: {}, content: posts }] };
+}
+
+describe("fetchNewsletterMessages", () => {
+  beforeEach(() => {
+    socketMocks.query.mockReset().mockResolvedValue(
+      response([
+        post({ id: "A13", server_id: "13", t: "1700000013", edit: "1" }, {
+          protocolMessage: { type: 14, editedMessage: { conversation: "Sale ends Friday" } },
+        }),
+        post({ id: "A12", server_id: "12", t: "1700000012" }, { conversation: "Hello followers" }, [
+          { tag: "views_count", attrs: { count: "340" } },
+          {
+            tag: "reactions",
+            attrs: {},
+            content: [
+              { tag: "reaction", attrs: { code: "👍", count: "5" } },
+              { tag: "reaction", attrs: { code: "❤️", count: "2" } },
+            ],
+          },
+        ]),
+        post({ id: "A11", server_id: "11", t: "1700000011" }, {
+          imageMessage: { url: "https://mmg/img", directPath: "/v/img", mimetype: "image/jpeg", caption: "New menu" },
+        }),
+        post({ id: "A10", server_id: "10", t: "1700000010" }, "not a message"),
+      ])
+    );
+  });
+
+  it("normalizes posts with their counts, oldest first", async () => {
+    const client = makeConnectedClient();
+
+    const result = await client.fetchNewsletterMessages(NEWSLETTER, 3);
+    expect(result.success).toBe(true);
+    expect(result.messages.map((m: any) => [m.serverId, m.type, m.text, m.isEdited])).toEqual([
+      ["11", "image", "New menu", false],
+      ["12", "text", "Hello followers", false],
+      ["13", "text", "Sale ends Friday", true],
+    ]);
+    expect(result.messages[1]).toMatchObject({
+      id: "A12",
+      from: NEWSLETTER,
+      newsletterId: NEWSLETTER,
+      timestamp: 1_700_000_012,
+      views: 340,
+      reactions: [
+        { emoji: "👍", count: 5 },
+        { emoji: "❤️", count: 2 },
+      ],
+    });
+    expect(result.messages[0]).toMatchObject({
+      media: { mimetype: "image/jpeg" },
+      mediaUrl: "https://mmg/img",
+      mediaType: "image",
+      reactions: [],
+    });
+    expect(result.nextCursor).toBe("11");
+  });
+
+  it("pages back with the cursor", async () => {
+    const client = makeConnectedClient();
+
+    await client.fetchNewsletterMessages(NEWSLETTER, 3);
+    await client.fetchNewsletterMessages(NEWSLETTER, 3, "11");
+    expect(socketMocks.query.mock.calls.map((c: any[]) => c[0].content[0].attrs)).toEqual([
+      { type: "jid", jid: NEWSLETTER, count: "3" },
+      { type: "jid", jid: NEWSLETTER, count: "3", before: "11" },
+    ]);
+
+    socketMocks.query.mockResolvedValue(response([post({ id: "A1", server_id: "1" }, { conversation: "First" })]));
+    expect((await client.fetchNewsletterMessages(NEWSLETTER, 3, "2")).nextCursor).toBeUndefined();
+  });
+
+  it("rejects invalid cursors and newsletter IDs", async () => {
+    const client = makeConnectedClient();
+
+    expect((await client.fetchNewsletterMessages(NEWSLETTER, 3, "abc")).error).toBe("Invalid cursor: abc");
+    expect((await client.fetchNewsletterMessages("123@g.us")).success).toBe(false);
+    expect(socketMocks.query).not.toHaveBeenCalled();
+  });
+});
+
+describe("newsletter_message event", () => {
+  it("emits live newsletter posts", async () => {
+    const client: any = new MiawClient({ instanceId: "test-newsletter-live" });
+    jest.spyOn(client, "saveMessageToStore").mockImplementation(() => {});
+    client.messagesStore.clear();
+    const handlers: Record<string, (arg: any) => any> = {};
+    client.socket = { ev: { on: (event: string, handler: (arg: any) => any) => (handlers[event] = handler) } };
+    client.registerSocketEvents(async () => {});
+
+    const posts: any[] = [];
+    const messages: any[] = [];
+    client.on("newsletter_message", (p: any) => posts.push(p));
+    client.on("message", (m: any) => messages.push(m));
+
+    await handlers["messages.upsert"]({
+      type: "notify",
+      messages: [
+        {
+          key: { id: "LIVE1", remoteJid: NEWSLETTER, fromMe: false, server_id: "42" },
+          message: { conversation: "Breaking news" },
+          messageTimestamp: 1_700_000_100,
+        },
+        {
+          key: { id: "DM1", remoteJid: "6281111111111@s.whatsapp.net", fromMe: false },
+          message: { conversation: "hi" },
+          messageTimestamp: 1_700_000_100,
+        },
+      ],
+    });
+
+    expect(messages).toHaveLength(2);
+    expect(posts).toHaveLength(1);
+    expect(posts[0]).toMatchObject({
+      id: "LIVE1",
+      newsletterId: NEWSLETTER,
+      serverId: "42",
+      text: "Breaking news",
+      reactions: [],
+      isEdited: false,
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Unit tests for scheduled newsletter posts.
+ *
+ *  - parseZonedTime(): wall-clock times in IANA time zones, across DST.
+ *  - NewsletterScheduler: validation, publishing at the publish time, the
+ *    missed-post policy, connection drops, restoring a persisted schedule and
+ *    merging edits other processes made to it.
+ *  - MiawClient scheduleNewsletterPost(): publishes through the client and
+ *    persists the outcome to the store.
+ */
+
+import { jest, describe, beforeEach, afterEach, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest.fn(),
+  fetchLatestWaWebVersion: jest.fn(),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+const { NewsletterScheduler } = await import("../../src/handlers/NewsletterScheduler.js");
+const { parseZonedTime } = await import("../../src/utils/time-zone.js");
+
+const NEWSLETTER = "120363000000000001@newsletter";
+const NOW = Date.UTC(2026, 9, 19, 0, 0);
+const MINUTE = 60_000;
+
+function makeScheduler(ready = { value: true }, load?: () => Promise<any[]>) {
+  let counter = 0;
+  const hooks = {
+    publish: jest.fn(async (_post: any) => ({ success: true, messageId: `M${++counter}` })) as any,
+    isReady: () => ready.value,
+    onUpdate: jest.fn(),
+    onChange: jest.fn(),
+    load,
+  };
+  return { scheduler: new NewsletterScheduler(hooks), hooks, ready };
+}
+
+function text(id: string, publishAt: number, extra: Record<string, unknown> = {}): any {
+  return { id, newsletterId: NEWSLETTER, content: { type: "text", text: id }, publishAt, ...extra };
+}
+
+describe("parseZonedTime", () => {
+  it("reads offset-less times as wall-clock time in the zone", () => {
+    expect(parseZonedTime("2026-11-01T09:00", "Asia/Jakarta")).toBe(Date.UTC(2026, 10, 1, 2, 0));
+    expect(parseZonedTime("2026-11-01 09:00:30", "UTC")).toBe(Date.UTC(2026, 10, 1, 9, 0, 30));
+    // New York: EST (-5) before the March DST change, EDT (-4) after
+    expect(parseZonedTime("2026-03-07 09:00", "America/New_York")).toBe(Date.UTC(2026, 2, 7, 14, 0));
+    expect(parseZonedTime("2026-03-09 09:00", "America/New_York")).toBe(Date.UTC(2026, 2, 9, 13, 0));
+    expect(parseZonedTime("2026-11-01T09:00:00+07:00", "America/New_York")).toBe(Date.UTC(2026, 10, 1, 2, 0));
+  });
+
+  it("rejects invalid times and zones", () => {
+    expect(() => parseZonedTime("2026-02-30 09:00", "UTC")).toThrow("Invalid date/time: 2026-02-30 09:00");
+    expect(() => parseZonedTime("2026-13-01 09:00", "UTC")).toThrow("Invalid date/time: 2026-13-01 09:00");
+    expect(() => parseZonedTime("2026-00-15", "UTC")).toThrow("Invalid date/time: 2026-00-15");
+    expect(() => parseZonedTime("soon", "UTC")).toThrow("Invalid date/time: soon");
+    expect(() => parseZonedTime("2026-11-01 09:00", "Mars/Olympus")).toThrow("Invalid time zone: Mars/Olympus");
+  });
+});
+
+describe("NewsletterScheduler", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("validates posts", () => {
+    const { scheduler } = makeScheduler();
+    expect(() => scheduler.schedule(text("a", NOW + MINUTE, { newsletterId: "123@g.us" }))).toThrow(
+      /Invalid newsletter ID/
+    );
+    expect(() =>
+      scheduler.schedule({ newsletterId: NEWSLETTER, content: { type: "poll", name: "Q?", options: ["A"] }, publishAt: NOW })
+    ).toThrow("A poll needs at least 2 options");
+    expect(() => scheduler.schedule(text("a", NOW - 60 * MINUTE))).toThrow(/in the past/);
+
+    scheduler.schedule(text("a", NOW + MINUTE));
+    expect(() => scheduler.schedule(text("a", NOW + MINUTE))).toThrow('Scheduled post "a" already exists');
+  });
+
+  it("publishes posts at their publish time and records the message ID", async () => {
+    const { scheduler, hooks } = makeScheduler();
+    scheduler.schedule(text("later", NOW + 10 * MINUTE));
+    scheduler.schedule(text("soon", NOW + MINUTE));
+    scheduler.resume();
+
+    await jest.advanceTimersByTimeAsync(MINUTE - 1);
+    expect(hooks.publish).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(hooks.publish).toHaveBeenCalledWith(expect.objectContaining({ id: "soon" }));
+
+    await jest.advanceTimersByTimeAsync(9 * MINUTE);
+    expect(scheduler.list().map((p) => [p.id, p.status, p.messageId])).toEqual([
+      ["soon", "published", "M1"],
+      ["later", "published", "M2"],
+    ]);
+  });
+
+  it("publishes or skips posts missed while offline, per policy", async () => {
+    const { scheduler, hooks, ready } = makeScheduler({ value: false });
+    scheduler.schedule(text("catch-up", NOW + MINUTE));
+    scheduler.schedule(text("drop", NOW + 2 * MINUTE, { missedPolicy: "skip" }));
+    scheduler.schedule(text("on-time", NOW + 60 * MINUTE, { missedPolicy: "skip" }));
+
+    await jest.advanceTimersByTimeAsync(30 * MINUTE);
+    expect(hooks.publish).not.toHaveBeenCalled();
+
+    ready.value = true;
+    scheduler.resume();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(scheduler.list().map((p) => [p.id, p.status])).toEqual([
+      ["catch-up", "published"],
+      ["drop", "skipped"],
+      ["on-time", "scheduled"],
+    ]);
+
+    await jest.advanceTimersByTimeAsync(30 * MINUTE);
+    expect(scheduler.get("on-time")?.status).toBe("published");
+  });
+
+  it("keeps posts scheduled when the connection drops, and fails other errors", async () => {
+    const { scheduler, hooks, ready } = makeScheduler();
+    hooks.publish
+      .mockImplementationOnce(async () => {
+        ready.value = false;
+        return { success: false, error: "Connection closed" };
+      })
+      .mockResolvedValueOnce({ success: false, error: "not an admin" });
+    scheduler.schedule(text("a", NOW + MINUTE));
+    scheduler.resume();
+
+    await jest.advanceTimersByTimeAsync(MINUTE);
+    expect(scheduler.get("a")?.status).toBe("scheduled");
+
+    ready.value = true;
+    scheduler.resume();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(scheduler.get("a")).toMatchObject({ status: "failed", error: "not an admin" });
+  });
+
+  it("cancels posts and restores a persisted schedule", async () => {
+    const first = makeScheduler();
+    first.scheduler.schedule(text("a", NOW + MINUTE));
+    first.scheduler.schedule(text("b", NOW + 2 * MINUTE));
+    expect(first.scheduler.cancel("b")).toBe(true);
+    expect(first.scheduler.cancel("b")).toBe(false);
+    first.scheduler.stop();
+
+    const second = makeScheduler();
+    second.scheduler.restore(JSON.parse(JSON.stringify(first.scheduler.exportPosts())));
+    second.scheduler.resume();
+    await jest.advanceTimersByTimeAsync(5 * MINUTE);
+    expect(first.hooks.publish).not.toHaveBeenCalled();
+    expect(second.hooks.publish).toHaveBeenCalledTimes(1);
+    expect(second.scheduler.list().map((p) => p.status)).toEqual(["published", "cancelled"]);
+  });
+
+  it("picks up posts added or cancelled by another process", async () => {
+    const stored: any[] = [];
+    const { scheduler, hooks } = makeScheduler({ value: true }, async () => JSON.parse(JSON.stringify(stored)));
+    const a = scheduler.schedule(text("a", NOW + 10 * MINUTE));
+    scheduler.resume();
+
+    // Another process cancels "a" and adds "b" in the store
+    stored.push(
+      { ...a, status: "cancelled", updatedAt: NOW + 1 },
+      NewsletterScheduler.createPost(text("b", NOW + 2 * MINUTE))
+    );
+    await jest.advanceTimersByTimeAsync(MINUTE);
+    expect(scheduler.list().map((p) => [p.id, p.status])).toEqual([
+      ["b", "scheduled"],
+      ["a", "cancelled"],
+    ]);
+
+    await jest.advanceTimersByTimeAsync(9 * MINUTE);
+    expect(hooks.publish).toHaveBeenCalledTimes(1);
+    expect(hooks.publish).toHaveBeenCalledWith(expect.objectContaining({ id: "b" }));
+    scheduler.stop();
+  });
+});
+
+describe("MiawClient scheduled newsletter posts", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("publishes through the client and persists the outcome", async () => {
+    jest.useFakeTimers({ now: NOW });
+    const store = { saveNewsletterSchedule: jest.fn(async (_posts: any[]) => {}) };
+    const client: any = new MiawClient({ instanceId: "test-newsletter-schedule", store: store as any });
+    const sendMessage = jest.fn(async () => ({ key: { id: "POST1" } }));
+    client.socket = { sendMessage };
+    client.connectionState = "connected";
+
+    client.scheduleNewsletterPost({
+      id: "poll",
+      newsletterId: NEWSLETTER,
+      content: { type: "poll", name: "Next topic?", options: ["Pricing", "Roadmap"] },
+      publishAt: "2026-10-19 07:05",
+      timeZone: "Asia/Jakarta",
+    });
+    await jest.advanceTimersByTimeAsync(5 * MINUTE);
+
+    expect(sendMessage).toHaveBeenCalledWith(NEWSLETTER, {
+      poll: { name: "Next topic?", values: ["Pricing", "Roadmap"], selectableCount: 1 },
+    });
+    expect(client.getScheduledNewsletterPosts()[0]).toMatchObject({ status: "published", messageId: "POST1" });
+    expect(store.saveNewsletterSchedule).toHaveBeenLastCalledWith([
+      expect.objectContaining({ id: "poll", status: "published", messageId: "POST1" }),
+    ]);
+  });
+
+  it("keeps posts another process stored when saving", async () => {
+    jest.useFakeTimers({ now: NOW });
+    const external = NewsletterScheduler.createPost(text("cli", NOW + 60 * MINUTE));
+    const store = {
+      loadNewsletterSchedule: jest.fn(async () => [external]),
+      saveNewsletterSchedule: jest.fn(async (_posts: any[]) => {}),
+    };
+    const client: any = new MiawClient({ instanceId: "test-newsletter-schedule", store: store as any });
+
+    client.scheduleNewsletterPost(text("app", NOW + 30 * MINUTE));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(store.saveNewsletterSchedule.mock.calls.at(-1)?.[0].map((p: any) => p.id).sort()).toEqual(["app", "cli"]);
+    expect(client.getScheduledNewsletterPosts().map((p: any) => p.id)).toEqual(["app", "cli"]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for the order / product_inquiry events and updateOrderStatus().
+ * Fake socket; no real connection.
+ */
+
+import { jest, describe, beforeEach, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest.fn(),
+  fetchLatestWaWebVersion: jest.fn(),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+
+const socketMocks = {
+  user: { id: "6280000000000:5@s.whatsapp.net", lid: "99999@lid" },
+  getOrderDetails: jest.fn<(...a: unknown[]) => Promise<any>>(),
+  relayMessage: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+};
+
+const CUSTOMER = "6281111111111@s.whatsapp.net";
+
+function makeConnectedClient(): any {
+  const client: any = new MiawClient({ instanceId: "test-order-events" });
+  client.connectionState = "connected";
+  client.socket = socketMocks;
+  return client;
+}
+
+function orderMessage(order: Record<string, unknown> = {}): any {
+  return {
+    id: "ORDER1",
+    from: CUSTOMER,
+    senderPhone: "6281111111111",
+    senderName: "Budi",
+    isGroup: false,
+    fromMe: false,
+    type: "order",
+    text: "Please deliver after 5pm",
+    timestamp: 1_700_000_000,
+    order: { orderId: "9001", token: "dG9rZW4=", title: "Cart", itemCount: 2, status: "inquiry", total: 25.5, currency: "USD", ...order },
+  };
+}
+
+function productMessage(businessOwnerJid: string): any {
+  return {
+    id: "PROD1",
+    from: CUSTOMER,
+    senderPhone: "6281111111111",
+    isGroup: false,
+    fromMe: false,
+    type: "product",
+    text: "Is this available?",
+    timestamp: 1_700_000_000,
+    product: { productId: "P1", title: "Tote", price: 10, currency: "USD", businessOwnerJid },
+  };
+}
+
+function nextEvent(client: any, event: string): Promise<any> {
+  return new Promise((resolve) => client.once(event, resolve));
+}
+
+describe("order events", () => {
+  beforeEach(() => {
+    socketMocks.getOrderDetails.mockReset().mockResolvedValue({
+      price: { total: 25.5, currency: "USD" },
+      products: [{ id: "P1", name: "Tote", quantity: 2, price: 12.75, currency: "USD" }],
+    });
+    socketMocks.relayMessage.mockReset().mockResolvedValue("STATUS1");
+  });
+
+  it("emits order with details fetched using the message's token", async () => {
+    const client = makeConnectedClient();
+    const received = nextEvent(client, "order");
+
+    client.handleCommerceMessage(orderMessage());
+    const order = await received;
+
+    expect(socketMocks.getOrderDetails).toHaveBeenCalledWith("9001", "dG9rZW4=");
+    expect(order).toMatchObject({
+      messageId: "ORDER1",
+      chatId: CUSTOMER,
+      sender: CUSTOMER,
+      senderPhone: "6281111111111",
+      senderName: "Budi",
+      order: { orderId: "9001", itemCount: 2 },
+      details: { total: 25.5, currency: "USD", products: [{ name: "Tote", quantity: 2 }] },
+      note: "Please deliver after 5pm",
+    });
+  });
+
+  it("still emits order when the details can't be fetched", async () => {
+    const client = makeConnectedClient();
+    socketMocks.getOrderDetails.mockRejectedValue(new Error("item-not-found"));
+    const received = nextEvent(client, "order");
+
+    client.handleCommerceMessage(orderMessage());
+    expect((await received).details).toBeUndefined();
+  });
+
+  it("ignores sellers' status replies", () => {
+    const client = makeConnectedClient();
+    const events: any[] = [];
+    client.on("order", (o: any) => events.push(o));
+
+    client.handleCommerceMessage(orderMessage({ status: "accepted" }));
+    expect(socketMocks.getOrderDetails).not.toHaveBeenCalled();
+    expect(events).toHaveLength(0);
+  });
+
+  it("emits product_inquiry, flagging products from our own catalog", () => {
+    const client = makeConnectedClient();
+    const inquiries: any[] = [];
+    client.on("product_inquiry", (i: any) => inquiries.push(i));
+
+    client.handleCommerceMessage(productMessage("6280000000000@s.whatsapp.net"));
+    client.handleCommerceMessage(productMessage("6287777777777@s.whatsapp.net"));
+
+    expect(inquiries.map((i) => i.isOwnProduct)).toEqual([true, false]);
+    expect(inquiries[0]).toMatchObject({
+      messageId: "PROD1",
+      chatId: CUSTOMER,
+      product: { productId: "P1", title: "Tote" },
+      text: "Is this available?",
+    });
+  });
+
+  it("replies with an order status referencing the order", async () => {
+    const client = makeConnectedClient();
+    const received = nextEvent(client, "order");
+    client.handleCommerceMessage(orderMessage());
+    const order = await received;
+
+    const result = await client.updateOrderStatus(order, "accepted", "Shipping tomorrow");
+    expect(result).toEqual({ success: true, messageId: "STATUS1" });
+    expect(socketMocks.relayMessage).toHaveBeenCalledWith(
+      CUSTOMER,
+      {
+        orderMessage: expect.objectContaining({
+          orderId: "9001",
+          token: "dG9rZW4=",
+          status: 2,
+          totalAmount1000: 25_500,
+          totalCurrencyCode: "USD",
+          message: "Shipping tomorrow",
+          orderRequestMessageId: { remoteJid: CUSTOMER, fromMe: false, id: "ORDER1", participant: undefined },
+        }),
+      },
+      {}
+    );
+
+    client.connectionState = "disconnected";
+    expect((await client.updateOrderStatus(order, "declined")).success).toBe(false);
+  });
+});
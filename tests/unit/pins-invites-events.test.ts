@@ -0,0 +1,154 @@
+/**
+ * Unit tests for pinMessage/unpinMessage and the message_pin event,
+ * sendGroupInvite() and sendEvent(). Fake socket; no real connection.
+ */
+
+import { jest, describe, beforeEach, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1] }),
+  fetchLatestWaWebVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1], isLatest: true }),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+
+const JID = "6281234567890@s.whatsapp.net";
+const GJID = "120363000000000001@g.us";
+
+const socketMocks = {
+  sendMessage: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  groupInviteCode: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  groupMetadata: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+};
+
+function makeConnectedClient(): any {
+  const client: any = new MiawClient({ instanceId: "test-pins" });
+  client.connectionState = "connected";
+  client.socket = { ...socketMocks, user: { id: "628999@s.whatsapp.net" } };
+  return client;
+}
+
+const KEY = { id: "MSG1", remoteJid: GJID, fromMe: false, participant: "6282@s.whatsapp.net" };
+const message = { id: "MSG1", from: GJID, raw: { key: KEY } };
+
+describe("pins, group invites & events", () => {
+  beforeEach(() => {
+    Object.values(socketMocks).forEach((m) => m.mockReset().mockResolvedValue(undefined));
+    socketMocks.sendMessage.mockResolvedValue({ key: { id: "SENT1" } });
+  });
+
+  it("pins and unpins messages", async () => {
+    const client = makeConnectedClient();
+
+    expect(await client.pinMessage(message)).toEqual({ success: true, messageId: "SENT1" });
+    await client.pinMessage(message, 2592000);
+    await client.unpinMessage(message);
+
+    expect(socketMocks.sendMessage).toHaveBeenNthCalledWith(1, GJID, { pin: KEY, type: 1, time: 86400 });
+    expect(socketMocks.sendMessage).toHaveBeenNthCalledWith(2, GJID, { pin: KEY, type: 1, time: 2592000 });
+    expect(socketMocks.sendMessage).toHaveBeenNthCalledWith(3, GJID, { pin: KEY, type: 2 });
+
+    const invalid = await client.pinMessage(message, 3600);
+    expect(invalid.error).toMatch(/Pin duration/);
+    expect((await client.unpinMessage({ id: "X" })).success).toBe(false);
+  });
+
+  it("emits message_pin for pin changes", () => {
+    const client = makeConnectedClient();
+    client.lidToJidMap.set("999@lid", "6289@s.whatsapp.net");
+    const events: any[] = [];
+    client.on("message_pin", (p: any) => events.push(p));
+
+    const msg = { key: { remoteJid: GJID, participant: "999@lid", fromMe: false }, messageTimestamp: 1700000000 };
+    client.handlePinMessage(msg, {
+      pinInChatMessage: { key: KEY, type: 1, senderTimestampMs: 1700000000123 },
+      messageContextInfo: { messageAddOnDurationInSecs: 604800 },
+    });
+    client.handlePinMessage(
+      { key: { remoteJid: JID, fromMe: true }, messageTimestamp: 1700000001 },
+      { pinInChatMessage: { key: { id: "MSG2", remoteJid: JID }, type: 2 } }
+    );
+
+    expect(events[0]).toEqual({
+      messageId: "MSG1",
+      chatId: GJID,
+      action: "pin",
+      duration: 604800,
+      pinnedBy: "6289@s.whatsapp.net",
+      fromMe: false,
+      timestamp: 1700000000123,
+      raw: msg,
+    });
+    expect(events[1]).toMatchObject({
+      messageId: "MSG2",
+      action: "unpin",
+      duration: undefined,
+      pinnedBy: "628999@s.whatsapp.net",
+      fromMe: true,
+      timestamp: 1700000001000,
+    });
+  });
+
+  it("sends a group invite with the group's code", async () => {
+    socketMocks.groupInviteCode.mockResolvedValue("AbCdEf");
+    socketMocks.groupMetadata.mockResolvedValue({ id: GJID, subject: "Team", participants: [] });
+    const client = makeConnectedClient();
+
+    expect((await client.sendGroupInvite("6281234567890", GJID)).success).toBe(true);
+    const [jid, content] = socketMocks.sendMessage.mock.calls[0] as any[];
+    expect(jid).toBe(JID);
+    expect(content.groupInvite).toMatchObject({
+      jid: GJID,
+      subject: "Team",
+      inviteCode: "AbCdEf",
+      text: "Invitation to join my WhatsApp group",
+    });
+    expect(content.groupInvite.inviteExpiration).toBeGreaterThan(Date.now() / 1000);
+
+    expect((await client.sendGroupInvite(JID, "6281@s.whatsapp.net")).error).toMatch(/Invalid group JID/);
+  });
+
+  it("sends events and validates their times", async () => {
+    const client = makeConnectedClient();
+    const start = new Date("2026-01-31T15:00:00Z");
+    const end = new Date("2026-01-31T16:00:00Z");
+
+    await client.sendEvent(GJID, "Team sync", start, {
+      endTime: end,
+      location: { latitude: -6.2, longitude: 106.8, name: "Office" },
+      call: "video",
+    });
+    expect(socketMocks.sendMessage.mock.calls[0][1]).toEqual({
+      event: {
+        name: "Team sync",
+        description: undefined,
+        startDate: start,
+        endDate: end,
+        location: { degreesLatitude: -6.2, degreesLongitude: 106.8, name: "Office", address: undefined },
+        call: "video",
+        isScheduleCall: undefined,
+        extraGuestsAllowed: undefined,
+      },
+    });
+
+    expect((await client.sendEvent(GJID, "Late", end, { endTime: start })).error).toMatch(/before its start/);
+    expect((await client.sendEvent(GJID, "Call", start, { scheduledCall: true })).error).toMatch(/call type/);
+    expect((await client.sendEvent(GJID, "Bad", new Date("nope"))).success).toBe(false);
+    expect(socketMocks.sendMessage).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for privacy settings, blocking and the blocklist_update event.
+ * Fake socket; no real connection.
+ */
+
+import { jest, describe, beforeEach, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1] }),
+  fetchLatestWaWebVersion: jest
+    .fn<() => Promise<unknown>>()
+    .mockResolvedValue({ version: [2, 2413, 1], isLatest: true }),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+
+const socketMocks = {
+  fetchPrivacySettings: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  updateLastSeenPrivacy: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  updateCallPrivacy: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  updateDefaultDisappearingMode: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  updateBlockStatus: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  fetchBlocklist: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+};
+
+function makeConnectedClient(): any {
+  const client: any = new MiawClient({ instanceId: "test-privacy" });
+  client.connectionState = "connected";
+  client.socket = socketMocks;
+  return client;
+}
+
+describe("privacy & blocklist", () => {
+  beforeEach(() => {
+    Object.values(socketMocks).forEach((m) => m.mockReset().mockResolvedValue(undefined));
+  });
+
+  it("maps WhatsApp privacy categories to named settings", async () => {
+    socketMocks.fetchPrivacySettings.mockResolvedValue({
+      last: "contacts",
+      online: "match_last_seen",
+      readreceipts: "none",
+      calladd: "known",
+    });
+    const client = makeConnectedClient();
+    client.authState = {
+      creds: { accountSettings: { defaultDisappearingMode: { ephemeralExpiration: 604800 } } },
+    };
+
+    expect(await client.getPrivacySettings()).toEqual({
+      lastSeen: "contacts",
+      online: "match_last_seen",
+      readReceipts: "none",
+      calls: "known",
+      defaultDisappearingMode: 604800,
+    });
+    expect(socketMocks.fetchPrivacySettings).toHaveBeenCalledWith(true);
+  });
+
+  it("routes each setting to its Baileys setter", async () => {
+    const client = makeConnectedClient();
+
+    expect(await client.updatePrivacySetting("lastSeen", "none")).toEqual({ success: true });
+    await client.updatePrivacySetting("calls", "known");
+    await client.updatePrivacySetting("defaultDisappearingMode", 86400);
+
+    expect(socketMocks.updateLastSeenPrivacy).toHaveBeenCalledWith("none");
+    expect(socketMocks.updateCallPrivacy).toHaveBeenCalledWith("known");
+    expect(socketMocks.updateDefaultDisappearingMode).toHaveBeenCalledWith(86400);
+  });
+
+  it("rejects unknown settings and invalid values", async () => {
+    const client = makeConnectedClient();
+
+    const badValue = await client.updatePrivacySetting("calls", "contacts");
+    expect(badValue.success).toBe(false);
+    expect(badValue.error).toMatch(/allowed: all, known/);
+    expect((await client.updatePrivacySetting("wallpaper", "all")).error).toMatch(/Unknown privacy setting/);
+    expect((await client.updatePrivacySetting("defaultDisappearingMode", -5)).success).toBe(false);
+    expect(socketMocks.updateCallPrivacy).not.toHaveBeenCalled();
+  });
+
+  it("blocks and unblocks contacts by phone", async () => {
+    const client = makeConnectedClient();
+
+    await client.blockContact("+62 812-3456");
+    await client.unblockContact("6281@s.whatsapp.net");
+    expect(socketMocks.updateBlockStatus).toHaveBeenNthCalledWith(1, "628123456@s.whatsapp.net", "block");
+    expect(socketMocks.updateBlockStatus).toHaveBeenNthCalledWith(2, "6281@s.whatsapp.net", "unblock");
+
+    const group = await client.blockContact("123@g.us");
+    expect(group).toEqual({ success: false, error: "Only contacts can be blocked" });
+  });
+
+  it("returns the blocklist with LIDs resolved", async () => {
+    socketMocks.fetchBlocklist.mockResolvedValue(["6281@s.whatsapp.net", undefined, "999@lid"]);
+    const client = makeConnectedClient();
+    client.lidToJidMap.set("999@lid", "6289@s.whatsapp.net");
+
+    expect(await client.getBlocklist()).toEqual(["6281@s.whatsapp.net", "6289@s.whatsapp.net"]);
+  });
+
+  it("returns null when disconnected", async () => {
+    const client: any = new MiawClient({ instanceId: "test-privacy-offline" });
+    expect(await client.getPrivacySettings()).toBeNull();
+    expect(await client.getBlocklist()).toBeNull();
+    expect((await client.blockContact("6281")).success).toBe(false);
+  });
+});
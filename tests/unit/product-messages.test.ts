@@ -0,0 +1,140 @@
+/**
+ * Unit tests for sendProduct() and sendCatalogLink(). Fake socket; no real
+ * connection.
+ */
+
+import { jest, describe, beforeEach, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest.fn(),
+  fetchLatestWaWebVersion: jest.fn(),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid.replace(/:\d+@/, "@")),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+
+const socketMocks = {
+  user: { id: "6280000000000:5@s.whatsapp.net" },
+  sendMessage: jest.fn<(...a: unknown[]) => Promise<unknown>>(),
+  getCatalog: jest.fn<(...a: unknown[]) => Promise<any>>(),
+};
+
+const TO = "6281234567890";
+const JID = "6281234567890@s.whatsapp.net";
+
+const WIDGET = {
+  id: "P1",
+  retailerId: "SKU-001",
+  name: "Widget",
+  description: "A widget",
+  price: 19.99,
+  currency: "USD",
+  url: "https://shop/widget",
+  imageUrls: { requested: "https://cdn/req.jpg", original: "https://cdn/orig.jpg" },
+};
+
+function makeConnectedClient(): any {
+  const client: any = new MiawClient({ instanceId: "test-product-messages" });
+  client.connectionState = "connected";
+  client.socket = socketMocks;
+  return client;
+}
+
+describe("product messages", () => {
+  beforeEach(() => {
+    socketMocks.sendMessage.mockReset().mockResolvedValue({ key: { id: "MID" } });
+    socketMocks.getCatalog
+      .mockReset()
+      .mockResolvedValueOnce({ products: [{ ...WIDGET, id: "P0", retailerId: "SKU-000" }], nextPageCursor: "c2" })
+      .mockResolvedValueOnce({ products: [WIDGET] });
+  });
+
+  it("sends a Product with its catalog image", async () => {
+    const client = makeConnectedClient();
+
+    const result = await client.sendProduct(TO, WIDGET, { body: "Back in stock", footer: "Free shipping" });
+    expect(result).toEqual({ success: true, messageId: "MID" });
+    expect(socketMocks.getCatalog).not.toHaveBeenCalled();
+    expect(socketMocks.sendMessage.mock.calls[0][0]).toBe(JID);
+    expect(socketMocks.sendMessage.mock.calls[0][1]).toEqual({
+      product: {
+        productId: "P1",
+        title: "Widget",
+        description: "A widget",
+        currencyCode: "USD",
+        priceAmount1000: 19_990,
+        retailerId: "SKU-001",
+        url: "https://shop/widget",
+        productImageCount: 1,
+        productImage: { url: "https://cdn/orig.jpg" },
+      },
+      businessOwnerJid: "6280000000000@s.whatsapp.net",
+      body: "Back in stock",
+      footer: "Free shipping",
+    });
+  });
+
+  it("resolves a retailer ID through the catalog pages", async () => {
+    const client = makeConnectedClient();
+    const image = Buffer.from("jpeg");
+
+    const result = await client.sendProduct(TO, "SKU-001", { businessJid: "6289999", image });
+    expect(result.success).toBe(true);
+    expect(socketMocks.getCatalog.mock.calls.map((c: any[]) => [c[0].jid, c[0].cursor])).toEqual([
+      ["6289999@s.whatsapp.net", undefined],
+      ["6289999@s.whatsapp.net", "c2"],
+    ]);
+    expect(socketMocks.sendMessage.mock.calls[0][1]).toMatchObject({
+      product: { productId: "P1", productImage: image },
+      businessOwnerJid: "6289999@s.whatsapp.net",
+    });
+  });
+
+  it("reuses the catalog read for lookups within a minute", async () => {
+    jest.useFakeTimers({ now: 1_700_000_000_000 });
+    try {
+      const client = makeConnectedClient();
+      const image = Buffer.from("jpeg");
+
+      expect((await client.sendProduct(TO, "SKU-001", { image })).success).toBe(true);
+      expect((await client.sendProduct(TO, "SKU-000", { image })).success).toBe(true);
+      expect(socketMocks.getCatalog).toHaveBeenCalledTimes(2);
+
+      socketMocks.getCatalog.mockResolvedValueOnce({ products: [WIDGET] });
+      jest.advanceTimersByTime(60_000);
+      expect((await client.sendProduct(TO, "SKU-001", { image })).success).toBe(true);
+      expect(socketMocks.getCatalog).toHaveBeenCalledTimes(3);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("fails for unknown products and products without an image", async () => {
+    const client = makeConnectedClient();
+
+    expect((await client.sendProduct(TO, "SKU-404")).error).toBe("Product not found in catalog: SKU-404");
+    expect((await client.sendProduct(TO, { ...WIDGET, imageUrls: {} })).error).toMatch(/no image/);
+    expect(socketMocks.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it("sends a catalog link for our own or another business's catalog", async () => {
+    const client = makeConnectedClient();
+
+    await client.sendCatalogLink(TO, { text: "Browse our products:" });
+    await client.sendCatalogLink(TO, { businessJid: "6289999" });
+    expect(socketMocks.sendMessage.mock.calls.map((c: any[]) => c[1])).toEqual([
+      { text: "Browse our products:\nhttps://wa.me/c/6280000000000" },
+      { text: "https://wa.me/c/6289999" },
+    ]);
+  });
+});
@@ -28,6 +28,7 @@ jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
   downloadMediaMessage: jest.fn(),
   jidNormalizedUser: jest.fn((jid: string) => jid),
   getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
 }));
 
 // Dynamic import after mocking
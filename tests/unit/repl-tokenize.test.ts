@@ -29,6 +29,9 @@ jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
   downloadMediaMessage: jest.fn(),
   jidNormalizedUser: jest.fn((jid: string) => jid),
   getAggregateVotesInPollMessage: jest.fn(),
+  BufferJSON: { replacer: jest.fn(), reviver: jest.fn() },
+  initAuthCreds: jest.fn(),
+  proto: { Message: { AppStateSyncKeyData: { fromObject: jest.fn() } } },
 }));
 
 const { tokenizeCommand } = await import("../../src/cli/repl.js");
@@ -28,6 +28,7 @@ jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
   downloadMediaMessage: jest.fn(),
   jidNormalizedUser: jest.fn((jid: string) => jid),
   getAggregateVotesInPollMessage: aggregateMock,
+  proto: {},
 }));
 
 const { MiawClient } = await import("../../src/client/MiawClient.js");
@@ -0,0 +1,262 @@
+/**
+ * Unit tests for the outbound send queue.
+ *
+ *  - SendQueue: rate limiting, per-recipient spacing, retries with backoff on
+ *    transient errors, pausing while not ready.
+ *  - MiawClient `sendQueue` option: send methods are queued, buffered while
+ *    disconnected and flushed on ready, with send_* events and persistence.
+ */
+
+import { jest, describe, beforeEach, afterEach, it, expect } from "@jest/globals";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest.fn(),
+  fetchLatestWaWebVersion: jest.fn(),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+const { SendQueue } = await import("../../src/handlers/SendQueue.js");
+
+const A = "6281111111111@s.whatsapp.net";
+const B = "6282222222222@s.whatsapp.net";
+
+type Result = { success: boolean; messageId?: string; error?: string };
+
+function makeQueue(
+  execute: (item: any) => Promise<Result>,
+  options: Record<string, unknown> = {},
+  ready = { value: true }
+) {
+  const hooks = {
+    execute: jest.fn(execute),
+    isReady: () => ready.value,
+    onSent: jest.fn(),
+    onFailed: jest.fn(),
+    onChange: jest.fn(),
+  };
+  const queue = new SendQueue(hooks, {
+    messagesPerMinute: 60, // 1s between sends
+    jitterMs: 0,
+    perRecipientDelayMs: 0,
+    retryBackoffMs: 100,
+    ...options,
+  });
+  return { queue, hooks, ready };
+}
+
+describe("SendQueue", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("sends in order, spaced by messagesPerMinute", async () => {
+    const { queue, hooks } = makeQueue(async () => ({ success: true, messageId: "x" }));
+
+    const first = queue.enqueue("sendText", [A, "1"]);
+    queue.enqueue("sendText", [B, "2"]);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(hooks.execute).toHaveBeenCalledTimes(1);
+    expect(await first.result).toEqual({ success: true, messageId: "x" });
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(hooks.execute).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(hooks.execute).toHaveBeenCalledTimes(2);
+    expect(hooks.execute.mock.calls.map(([item]) => item.args[1])).toEqual(["1", "2"]);
+    expect(hooks.onSent).toHaveBeenCalledTimes(2);
+    expect(queue.size).toBe(0);
+  });
+
+  it("spaces sends to the same recipient but lets others go first", async () => {
+    const { queue, hooks } = makeQueue(async () => ({ success: true }), {
+      messagesPerMinute: 600, // 100ms between sends
+      perRecipientDelayMs: 1000,
+    });
+
+    queue.enqueue("sendText", [A, "a1"]);
+    queue.enqueue("sendText", [A, "a2"]);
+    queue.enqueue("sendText", [B, "b1"]);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(hooks.execute.mock.calls.map(([item]) => item.args[1])).toEqual(["a1", "b1"]);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(hooks.execute.mock.calls.map(([item]) => item.args[1])).toEqual(["a1", "b1", "a2"]);
+  });
+
+  it("retries transient errors with exponential backoff", async () => {
+    let calls = 0;
+    const { queue, hooks } = makeQueue(
+      async () => (++calls < 3 ? { success: false, error: "Timed Out" } : { success: true }),
+      { messagesPerMinute: 6000 }
+    );
+
+    const { result } = queue.enqueue("sendText", [A, "hi"]);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(hooks.execute).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(100); // 1st backoff
+    expect(hooks.execute).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(150);
+    expect(hooks.execute).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(50); // 2nd backoff (200ms)
+    expect(hooks.execute).toHaveBeenCalledTimes(3);
+
+    expect((await result).success).toBe(true);
+    expect(hooks.onFailed).not.toHaveBeenCalled();
+  });
+
+  it("fails permanently on non-transient errors or after maxRetries", async () => {
+    const { queue, hooks } = makeQueue(
+      async (item) =>
+        item.args[1] === "bad"
+          ? { success: false, error: "Invalid phone number" }
+          : { success: false, error: "rate-overlimit" },
+      { messagesPerMinute: 6000, maxRetries: 1 }
+    );
+
+    const bad = queue.enqueue("sendText", [A, "bad"]);
+    const limited = queue.enqueue("sendText", [B, "limited"]);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(await bad.result).toEqual({ success: false, error: "Invalid phone number" });
+    expect((await limited.result).error).toBe("rate-overlimit");
+    expect(hooks.execute).toHaveBeenCalledTimes(3); // bad once, limited twice
+    expect(hooks.onFailed).toHaveBeenCalledTimes(2);
+  });
+
+  it("holds items while not ready and sends them on resume()", async () => {
+    const ready = { value: false };
+    const { queue, hooks } = makeQueue(async () => ({ success: true }), {}, ready);
+
+    queue.enqueue("sendText", [A, "hi"]);
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(hooks.execute).not.toHaveBeenCalled();
+
+    ready.value = true;
+    queue.resume();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(hooks.execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("restores persisted items and clear() settles waiting callers", async () => {
+    const ready = { value: false };
+    const { queue } = makeQueue(async () => ({ success: true }), {}, ready);
+
+    queue.restore([
+      { id: "old", method: "sendText", to: A, args: [A, "old"], attempts: 0, queuedAt: 0, nextAttemptAt: 0 },
+    ]);
+    const { result } = queue.enqueue("sendText", [B, "new"]);
+    expect(queue.list().map((i) => i.id)[0]).toBe("old");
+
+    expect(queue.clear()).toBe(2);
+    expect(await result).toEqual({ success: false, error: "Send queue cleared" });
+  });
+});
+
+describe("MiawClient sendQueue option", () => {
+  /** Client with a fast queue; persistence only when a custom store is given. */
+  function makeClient(store?: any) {
+    const client: any = new MiawClient({
+      instanceId: "test-send-queue",
+      sendQueue: { messagesPerMinute: 6000, jitterMs: 0, perRecipientDelayMs: 0, persist: !!store },
+      store,
+    });
+    const sendMessage = jest.fn(async () => ({ key: { id: "SENT1" } }));
+    client.socket = { sendMessage };
+    return { client, sendMessage };
+  }
+
+  it("buffers sends while disconnected and flushes them on ready", async () => {
+    const { client, sendMessage } = makeClient();
+    const events: string[] = [];
+    client.on("send_queued", () => events.push("queued"));
+    client.on("send_sent", (_item: any, result: any) => events.push(`sent:${result.messageId}`));
+
+    client.connectionState = "reconnecting";
+    const pending = client.sendText("6281111111111", "hello");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(sendMessage).not.toHaveBeenCalled();
+    expect(client.getQueuedSends()).toHaveLength(1);
+
+    client.connectionState = "connected";
+    client.sendQueue.resume();
+
+    expect(await pending).toEqual({ success: true, messageId: "SENT1" });
+    expect(sendMessage).toHaveBeenCalledWith(A, { text: "hello" }, undefined);
+    expect(events).toEqual(["queued", "sent:SENT1"]);
+    expect(client.getQueuedSends()).toHaveLength(0);
+  });
+
+  it("reports permanent failures via send_failed", async () => {
+    const { client, sendMessage } = makeClient();
+    const failed: string[] = [];
+    client.on("send_failed", (_item: any, error: string) => failed.push(error));
+    client.connectionState = "connected";
+
+    const result = await client.sendText("not-a-number", "hello");
+
+    expect(result.success).toBe(false);
+    expect(failed).toEqual([result.error]);
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+
+  it("persists pending sends and restores them on connect", async () => {
+    const saved: any[][] = [];
+    const store = {
+      saveSendQueue: jest.fn(async (items: any[]) => {
+        saved.push(items);
+      }),
+      loadSendQueue: jest.fn(async () => [
+        { id: "old", method: "sendText", to: B, args: [B, "old"], attempts: 0, queuedAt: 0, nextAttemptAt: 0 },
+      ]),
+    };
+    const { client } = makeClient(store);
+    client.connectionState = "disconnected";
+    jest.useFakeTimers();
+
+    void client.sendText(A, "first");
+    void client.sendText(A, "second");
+    expect(store.saveSendQueue).not.toHaveBeenCalled();
+
+    // Saves are debounced into one write of all pending items
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(store.saveSendQueue).toHaveBeenCalledTimes(1);
+    expect(saved.at(-1)?.map((i: any) => i.args[1])).toEqual(["first", "second"]);
+
+    await client.loadSendQueueFromStore();
+    expect(client.getQueuedSends().map((i: any) => i.id)).toContain("old");
+    client.clearSendQueue();
+    jest.useRealTimers();
+  });
+
+  it("settles waiting callers on dispose and keeps their items persisted", async () => {
+    const store = { saveSendQueue: jest.fn(async (_items: any[]) => {}) };
+    const { client, sendMessage } = makeClient(store);
+    client.connectionState = "disconnected";
+
+    const pending = client.sendText(A, "bye");
+    client.socket = null;
+    await client.dispose();
+
+    expect(await pending).toEqual({ success: false, error: "Client disposed" });
+    expect(sendMessage).not.toHaveBeenCalled();
+    expect(store.saveSendQueue.mock.calls.at(-1)?.[0].map((i: any) => i.args[1])).toEqual(["bye"]);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Unit tests for the REST API server: routing, API-key auth, body validation
+ * against the option schemas, QR/pairing state and the OpenAPI document.
+ * Runs a real HTTP server on a free port against a stub client.
+ */
+
+import { EventEmitter } from "node:events";
+import { jest, describe, beforeEach, afterEach, it, expect } from "@jest/globals";
+import { createMiawServer } from "../../src/server/MiawServer.js";
+import { validateSchema, sendImageBodySchema } from "../../src/server/schemas.js";
+
+const CHAT = "6281234567890@s.whatsapp.net";
+
+function makeClient(id = "main") {
+  const client: any = new EventEmitter();
+  client.getInstanceId = () => id;
+  client.state = "connected";
+  client.getConnectionState = () => client.state;
+  client.sendText = jest.fn(async () => ({ success: true, messageId: "M1" }));
+  client.sendImage = jest.fn(async () => ({ success: true, messageId: "M2" }));
+  client.getChatMessages = jest.fn(async () => ({
+    success: true,
+    messages: [
+      { id: "A", from: CHAT, text: "first", raw: { big: true } },
+      { id: "B", from: CHAT, text: "second", raw: { big: true } },
+    ],
+  }));
+  client.fetchAllLabels = jest.fn(async () => ({ success: false, error: "Not a business account" }));
+  return client;
+}
+
+describe("MiawServer", () => {
+  let client: any;
+  let server: ReturnType<typeof createMiawServer>;
+  let base: string;
+
+  const request = async (method: string, path: string, body?: unknown, key: string | null = "secret") => {
+    const res = await fetch(`${base}${path}`, {
+      method,
+      headers: {
+        ...(key && { "X-API-Key": key }),
+        ...(body !== undefined && { "Content-Type": "application/json" }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: (await res.json()) as any };
+  };
+
+  beforeEach(async () => {
+    client = makeClient();
+    server = createMiawServer({ clients: [client], apiKey: "secret", port: 0, basePath: "/api/" });
+    const { port } = await server.listen();
+    base = `http://127.0.0.1:${port}/api`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("requires an API key, via X-API-Key or a bearer token", async () => {
+    expect((await request("GET", "/instances", undefined, null)).status).toBe(401);
+    expect((await request("GET", "/instances", undefined, "wrong")).status).toBe(401);
+
+    const ok = await request("GET", "/instances");
+    expect(ok).toEqual({ status: 200, body: [{ id: "main", state: "connected" }] });
+
+    const bearer = await fetch(`${base}/instances`, { headers: { Authorization: "Bearer secret" } });
+    expect(bearer.status).toBe(200);
+
+    // Health and API description are public
+    expect((await request("GET", "/health", undefined, null)).status).toBe(200);
+    expect((await request("GET", "/openapi.json", undefined, null)).status).toBe(200);
+  });
+
+  it("sends text, resolving a quoted message ID from the chat", async () => {
+    const res = await request("POST", "/instances/main/messages/text", {
+      to: CHAT,
+      text: "hello",
+      options: { quoted: "B", mentions: ["6289999999999"] },
+    });
+
+    expect(res).toEqual({ status: 200, body: { success: true, messageId: "M1" } });
+    expect(client.sendText).toHaveBeenCalledWith(CHAT, "hello", {
+      quoted: expect.objectContaining({ id: "B" }),
+      mentions: ["6289999999999"],
+    });
+
+    const missing = await request("POST", "/instances/main/messages/text", {
+      to: CHAT,
+      text: "hello",
+      options: { quoted: "nope" },
+    });
+    expect(missing.status).toBe(404);
+  });
+
+  it("validates request bodies against the option schemas", async () => {
+    const cases: [unknown, string][] = [
+      [{ text: "hi" }, "body.to is required"],
+      [{ to: CHAT, text: "hi", options: { viewOnce: true } }, "body.options.viewOnce is not allowed"],
+      [{ to: CHAT, text: 42 }, "body.text must be a string"],
+    ];
+    for (const [body, error] of cases) {
+      expect(await request("POST", "/instances/main/messages/text", body)).toEqual({
+        status: 400,
+        body: { success: false, error },
+      });
+    }
+    expect(client.sendText).not.toHaveBeenCalled();
+
+    const invalidJson = await fetch(`${base}/instances/main/messages/text`, {
+      method: "POST",
+      headers: { "X-API-Key": "secret" },
+      body: "{",
+    });
+    expect(invalidJson.status).toBe(400);
+  });
+
+  it("accepts media as base64 or an http(s) URL, never a local path", async () => {
+    await request("POST", "/instances/main/messages/image", {
+      to: CHAT,
+      media: { base64: Buffer.from("png").toString("base64") },
+      options: { caption: "pic" },
+    });
+    const [, media, options] = client.sendImage.mock.calls[0];
+    expect(Buffer.isBuffer(media) && media.toString()).toBe("png");
+    expect(options).toEqual({ caption: "pic" });
+
+    await request("POST", "/instances/main/messages/image", { to: CHAT, media: { url: "https://x.test/a.png" } });
+    expect(client.sendImage.mock.calls[1][1]).toBe("https://x.test/a.png");
+
+    const local = await request("POST", "/instances/main/messages/image", { to: CHAT, media: { url: "/etc/passwd" } });
+    expect(local.status).toBe(400);
+    expect(client.sendImage).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports QR and pairing codes until the instance is ready", async () => {
+    client.state = "qr_required";
+    client.emit("qr", "QR-DATA");
+    client.emit("pairing_code", "ABCD-1234");
+    expect((await request("GET", "/instances/main")).body).toEqual({
+      id: "main",
+      state: "qr_required",
+      qr: "QR-DATA",
+      pairingCode: "ABCD-1234",
+    });
+
+    client.state = "connected";
+    client.emit("ready");
+    expect((await request("GET", "/instances/main")).body).toEqual({ id: "main", state: "connected" });
+  });
+
+  it("maps failures to HTTP statuses", async () => {
+    expect((await request("GET", "/instances/other/chats")).status).toBe(404);
+    expect((await request("GET", "/nothing")).status).toBe(404);
+    expect((await request("DELETE", "/instances/main/labels")).status).toBe(405);
+    expect(await request("GET", "/instances/%E0/chats")).toEqual({
+      status: 400,
+      body: { success: false, error: "Malformed URL path" },
+    });
+    expect(await request("GET", "/instances/main/labels")).toEqual({
+      status: 400,
+      body: { success: false, error: "Not a business account" },
+    });
+  });
+
+  it("lists chat messages without raw payloads", async () => {
+    const res = await request("GET", `/instances/main/chats/${encodeURIComponent(CHAT)}/messages?limit=1`);
+    expect(client.getChatMessages).toHaveBeenCalledWith(CHAT);
+    expect(res.body).toEqual({ success: true, messages: [{ id: "B", from: CHAT, text: "second" }] });
+  });
+
+  it("downloads message media as a binary response", async () => {
+    client.getChatMessages.mockResolvedValue({
+      success: true,
+      messages: [{ id: "IMG", from: CHAT, type: "image", media: { mimetype: "image/png" }, raw: {} }],
+    });
+    client.downloadMedia = jest.fn(async () => Buffer.from("png-bytes"));
+
+    const res = await fetch(`${base}/instances/main/chats/${encodeURIComponent(CHAT)}/messages/IMG/media`, {
+      headers: { "X-API-Key": "secret" },
+    });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("image/png");
+    expect(Buffer.from(await res.arrayBuffer()).toString()).toBe("png-bytes");
+
+    expect((await request("GET", `/instances/main/chats/${encodeURIComponent(CHAT)}/messages/nope/media`)).status).toBe(
+      404
+    );
+  });
+
+  it("describes every route in the OpenAPI document", () => {
+    const doc: any = server.getOpenApiDocument();
+    expect(doc.openapi).toBe("3.0.3");
+    expect(doc.paths["/api/instances/{id}/messages/text"].post.requestBody.content["application/json"].schema)
+      .toMatchObject({ required: ["to", "text"] });
+    expect(doc.components.securitySchemes.apiKey).toEqual({ type: "apiKey", in: "header", name: "X-API-Key" });
+  });
+
+  it("adds and removes clients at runtime", async () => {
+    server.addClient(makeClient("second"));
+    expect(() => server.addClient(makeClient("second"))).toThrow("already registered");
+    expect((await request("GET", "/instances")).body.map((i: any) => i.id)).toEqual(["main", "second"]);
+
+    expect(server.removeClient("main")).toBe(true);
+    expect(client.listenerCount("qr")).toBe(0);
+  });
+});
+
+describe("validateSchema", () => {
+  it("requires exactly one media source", () => {
+    expect(validateSchema(sendImageBodySchema, { to: CHAT, media: {} })).toBe(
+      "body.media must have exactly one of: url, base64"
+    );
+    expect(validateSchema(sendImageBodySchema, { to: CHAT, media: { url: "https://a", base64: "x" } })).toBe(
+      "body.media must have exactly one of: url, base64"
+    );
+    expect(validateSchema(sendImageBodySchema, { to: CHAT, media: { url: "https://a" } })).toBeNull();
+  });
+});
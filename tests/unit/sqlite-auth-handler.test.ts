@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the pluggable auth state (AuthStateProvider).
+ *
+ *  - MiawClient uses a custom `authState` provider for connect/clearSession.
+ *  - SqliteAuthHandler round-trips creds and signal keys through one SQLite
+ *    file (skipped when neither node:sqlite nor better-sqlite3 is available).
+ */
+
+import { jest, describe, afterAll, it, expect } from "@jest/globals";
+import { createRequire } from "node:module";
+import { rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+const { SqliteAuthHandler } = await import("../../src/handlers/SqliteAuthHandler.js");
+
+const TEST_DIR = "./test-sessions-sqlite-auth";
+const DB_PATH = join(TEST_DIR, "auth.db");
+
+function hasSqliteDriver(): boolean {
+  const require = createRequire(import.meta.url);
+  for (const name of ["node:sqlite", "better-sqlite3"]) {
+    try {
+      require(name);
+      return true;
+    } catch {
+      // try next driver
+    }
+  }
+  return false;
+}
+
+afterAll(() => {
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  }
+});
+
+describe("MiawClient with a custom authState", () => {
+  it("clears the provider on clearSession()", () => {
+    const authState = {
+      initialize: jest.fn<() => Promise<any>>(),
+      clear: jest.fn(() => true),
+    };
+    const client = new MiawClient({ instanceId: "custom-auth", sessionPath: TEST_DIR, authState });
+
+    expect(client.clearSession()).toBe(true);
+    expect(authState.clear).toHaveBeenCalledTimes(1);
+  });
+
+  it("closes the provider on dispose()", async () => {
+    const authState = {
+      initialize: jest.fn<() => Promise<any>>(),
+      clear: jest.fn(() => false),
+      close: jest.fn(),
+    };
+    const client = new MiawClient({ instanceId: "custom-auth", sessionPath: TEST_DIR, authState });
+
+    await client.dispose();
+    expect(authState.close).toHaveBeenCalledTimes(1);
+  });
+});
+
+(hasSqliteDriver() ? describe : describe.skip)("SqliteAuthHandler", () => {
+  it("creates fresh creds and persists them with saveCreds()", async () => {
+    const handler = new SqliteAuthHandler(DB_PATH, "bot-1");
+    const { state, saveCreds } = await handler.initialize();
+    expect(state.creds.registrationId).toBeDefined();
+
+    await saveCreds();
+    handler.close();
+
+    const reopened = new SqliteAuthHandler(DB_PATH, "bot-1");
+    const { state: loaded } = await reopened.initialize();
+    expect(loaded.creds.registrationId).toBe(state.creds.registrationId);
+    expect(Buffer.from(loaded.creds.noiseKey.private)).toEqual(
+      Buffer.from(state.creds.noiseKey.private)
+    );
+    reopened.close();
+  });
+
+  it("stores, reads and deletes signal keys", async () => {
+    const handler = new SqliteAuthHandler(DB_PATH, "bot-2");
+    const { state } = await handler.initialize();
+
+    await state.keys.set({ session: { "a.0": Buffer.from("hello") } });
+    const read = await state.keys.get("session", ["a.0", "missing"]);
+    expect(Buffer.from(read["a.0"]).toString()).toBe("hello");
+    expect(read["missing"]).toBeNull();
+
+    await state.keys.set({ session: { "a.0": null } });
+    expect((await state.keys.get("session", ["a.0"]))["a.0"]).toBeNull();
+    handler.close();
+  });
+
+  it("clear() removes only its own instance", async () => {
+    const one = new SqliteAuthHandler(DB_PATH, "bot-3");
+    const two = new SqliteAuthHandler(DB_PATH, "bot-4");
+    await (await one.initialize()).saveCreds();
+    await (await two.initialize()).saveCreds();
+
+    expect(one.clear()).toBe(true);
+    expect(one.clear()).toBe(false);
+    expect(two.clear()).toBe(true);
+    one.close();
+    two.close();
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Unit tests for the pluggable storage backend (MiawStore).
+ *
+ *  - JsonFileStore round-trips every store through JSON files under
+ *    sessionPath/instanceId and clear() removes them.
+ *  - Messages go to per-chat JSONL journals: appends are buffered and
+ *    flushed, legacy messages.json is migrated, broken lines are compacted.
+ *  - MiawClient loads from / saves to a custom `store` option instead of disk.
+ */
+
+import { jest, describe, afterAll, it, expect } from "@jest/globals";
+import { rmSync, existsSync, mkdirSync, writeFileSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+jest.unstable_mockModule("@whiskeysockets/baileys", () => ({
+  default: jest.fn(),
+  makeWASocket: jest.fn(),
+  DisconnectReason: { loggedOut: 401 },
+  fetchLatestBaileysVersion: jest.fn(),
+  fetchLatestWaWebVersion: jest.fn(),
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 2413, 1] },
+  makeCacheableSignalKeyStore: jest.fn(),
+  Browsers: { macOS: jest.fn(() => ["macOS", "Chrome", "1.0"]) },
+  useMultiFileAuthState: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  jidNormalizedUser: jest.fn((jid: string) => jid),
+  getAggregateVotesInPollMessage: jest.fn(),
+  proto: {},
+}));
+
+const { MiawClient } = await import("../../src/client/MiawClient.js");
+const { JsonFileStore } = await import("../../src/store/JsonFileStore.js");
+
+const SESSION_PATH = "./test-sessions-store";
+const CHAT = "6281111111111@s.whatsapp.net";
+
+/** In-memory MiawStore that records calls. */
+function makeMemoryStore(): any {
+  return {
+    loadContacts: jest.fn(async () => [{ jid: CHAT, name: "Alice" }]),
+    saveContacts: jest.fn(async () => {}),
+    loadChats: jest.fn(async () => [{ jid: CHAT, name: "Alice" }]),
+    saveChats: jest.fn(async () => {}),
+    loadMessages: jest.fn(async () => ({})),
+    saveMessages: jest.fn(async () => {}),
+    appendMessage: jest.fn(async () => {}),
+    loadLabels: jest.fn(async () => []),
+    saveLabels: jest.fn(async () => {}),
+    loadLidMappings: jest.fn(async () => ({ "123@lid": CHAT })),
+    saveLidMappings: jest.fn(async () => {}),
+    clear: jest.fn(async () => {}),
+  };
+}
+
+afterAll(() => {
+  if (existsSync(SESSION_PATH)) {
+    rmSync(SESSION_PATH, { recursive: true, force: true });
+  }
+});
+
+describe("JsonFileStore", () => {
+  it("round-trips all stores and clears them", async () => {
+    const store = new JsonFileStore(SESSION_PATH, "round-trip");
+    const message: any = { id: "A", from: CHAT, fromMe: false, type: "text", text: "hi", timestamp: 1, isGroup: false };
+
+    await store.saveContacts([{ jid: CHAT, name: "Alice" }]);
+    await store.saveChats([{ jid: CHAT, isGroup: false }]);
+    await store.saveMessages({ [CHAT]: [message] });
+    await store.saveLabels([{ id: "1", name: "New", color: 0 } as any]);
+    await store.saveLidMappings({ "123@lid": CHAT });
+
+    expect(await store.loadContacts()).toEqual([{ jid: CHAT, name: "Alice" }]);
+    expect(await store.loadChats()).toEqual([{ jid: CHAT, isGroup: false }]);
+    expect(await store.loadMessages()).toEqual({ [CHAT]: [message] });
+    expect(await store.loadLabels()).toHaveLength(1);
+    expect(await store.loadLidMappings()).toEqual({ "123@lid": CHAT });
+    expect(existsSync(join(SESSION_PATH, "round-trip", "messages"))).toBe(true);
+
+    await store.clear();
+    expect(await store.loadContacts()).toEqual([]);
+    expect(await store.loadMessages()).toEqual({});
+    expect(existsSync(join(SESSION_PATH, "round-trip", "messages"))).toBe(false);
+  });
+
+  it("returns empty results when nothing has been saved", async () => {
+    const store = new JsonFileStore(SESSION_PATH, "empty");
+    expect(await store.loadChats()).toEqual([]);
+    expect(await store.loadLidMappings()).toEqual({});
+  });
+
+  it("does not write an empty LID mapping table", async () => {
+    const store = new JsonFileStore(SESSION_PATH, "empty-lid");
+    await store.saveLidMappings({});
+    expect(existsSync(join(SESSION_PATH, "empty-lid", "lid-mappings.json"))).toBe(false);
+  });
+
+  it("round-trips the send queue with Buffer arguments and removes it when empty", async () => {
+    const store = new JsonFileStore(SESSION_PATH, "send-queue");
+    const item: any = {
+      id: "q1", method: "sendImage", to: CHAT, args: [CHAT, Buffer.from("png-bytes"), { caption: "hi" }],
+      attempts: 1, queuedAt: 1, nextAttemptAt: 2,
+    };
+
+    await store.saveSendQueue([item]);
+    const raw = readFileSync(join(SESSION_PATH, "send-queue", "send-queue.json"), "utf8");
+    expect(raw).toContain(Buffer.from("png-bytes").toString("base64"));
+
+    const [loaded] = await store.loadSendQueue();
+    expect(Buffer.isBuffer(loaded.args[1])).toBe(true);
+    expect((loaded.args[1] as Buffer).toString()).toBe("png-bytes");
+    expect(loaded.args[2]).toEqual({ caption: "hi" });
+
+    await store.saveSendQueue([]);
+    expect(existsSync(join(SESSION_PATH, "send-queue", "send-queue.json"))).toBe(false);
+  });
+
+  it("round-trips campaigns and opt-outs", async () => {
+    const store = new JsonFileStore(SESSION_PATH, "campaigns");
+    const campaign: any = {
+      id: "c1", name: "Promo", status: "running", template: "Hi {{name}}", optOutKeywords: ["STOP"],
+      recipients: [{ jid: CHAT, phone: "6281234567890", status: "sent", messageId: "M1" }],
+      createdAt: 1,
+    };
+
+    expect(await store.loadCampaigns()).toEqual([]);
+    await store.saveCampaigns([campaign]);
+    await store.saveOptOuts(["6289999999999"]);
+
+    expect(await store.loadCampaigns()).toEqual([campaign]);
+    expect(await store.loadOptOuts()).toEqual(["6289999999999"]);
+  });
+});
+
+describe("JsonFileStore message journal", () => {
+  const msg = (id: string, text = "hi"): any => ({
+    id, from: CHAT, fromMe: false, type: "text", text, timestamp: 1, isGroup: false,
+  });
+  const journalPath = (instanceId: string) =>
+    join(SESSION_PATH, instanceId, "messages", `${encodeURIComponent(CHAT)}.jsonl`);
+
+  it("buffers appends until flush() and writes one line per message", async () => {
+    const store = new JsonFileStore(SESSION_PATH, "journal-append", undefined, { flushDelay: 60_000 });
+    await store.appendMessage(CHAT, msg("A"));
+    await store.appendMessage(CHAT, msg("B"));
+    expect(existsSync(journalPath("journal-append"))).toBe(false);
+
+    await store.flush();
+    const lines = readFileSync(journalPath("journal-append"), "utf8").trim().split("\n");
+    expect(lines.map((l) => JSON.parse(l).id)).toEqual(["A", "B"]);
+  });
+
+  it("flushes automatically after the debounce delay", async () => {
+    const store = new JsonFileStore(SESSION_PATH, "journal-debounce", undefined, { flushDelay: 10 });
+    await store.appendMessage(CHAT, msg("A"));
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(existsSync(journalPath("journal-debounce"))).toBe(true);
+  });
+
+  it("includes unflushed appends in loadMessages()", async () => {
+    const store = new JsonFileStore(SESSION_PATH, "journal-load", undefined, { flushDelay: 60_000 });
+    await store.appendMessage(CHAT, msg("A"));
+    expect((await store.loadMessages())[CHAT].map((m) => m.id)).toEqual(["A"]);
+  });
+
+  it("migrates a legacy messages.json into journals", async () => {
+    const dir = join(SESSION_PATH, "journal-migrate");
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "messages.json"), JSON.stringify({ [CHAT]: [msg("OLD")] }));
+
+    const store = new JsonFileStore(SESSION_PATH, "journal-migrate");
+    expect((await store.loadMessages())[CHAT].map((m) => m.id)).toEqual(["OLD"]);
+    expect(existsSync(join(dir, "messages.json"))).toBe(false);
+    expect(existsSync(journalPath("journal-migrate"))).toBe(true);
+  });
+
+  it("skips malformed lines and duplicates, then compacts the journal", async () => {
+    const file = journalPath("journal-compact");
+    mkdirSync(join(SESSION_PATH, "journal-compact", "messages"), { recursive: true });
+    writeFileSync(
+      file,
+      [JSON.stringify(msg("A")), JSON.stringify(msg("A", "again")), JSON.stringify(msg("B")), "{\"id\":\"C\",\"fr"].join("\n")
+    );
+
+    const store = new JsonFileStore(SESSION_PATH, "journal-compact");
+    const loaded = await store.loadMessages();
+    expect(loaded[CHAT].map((m) => m.id)).toEqual(["A", "B"]);
+    expect(loaded[CHAT][0].text).toBe("hi");
+    expect(readFileSync(file, "utf8").trim().split("\n")).toHaveLength(2);
+  });
+
+  it("saveMessages() replaces journals with the snapshot", async () => {
+    const store = new JsonFileStore(SESSION_PATH, "journal-snapshot", undefined, { flushDelay: 60_000 });
+    await store.appendMessage("other@s.whatsapp.net", msg("X"));
+    await store.flush();
+    await store.saveMessages({ [CHAT]: [msg("A")] });
+
+    expect(await store.loadMessages()).toEqual({ [CHAT]: [msg("A")] });
+  });
+
+  it("saveChatMessages() rewrites or removes one chat's journal", async () => {
+    const other = "other@s.whatsapp.net";
+    const store = new JsonFileStore(SESSION_PATH, "journal-chat", undefined, { flushDelay: 60_000 });
+    await store.appendMessage(CHAT, msg("A"));
+    await store.appendMessage(CHAT, msg("B"));
+    await store.appendMessage(other, msg("X"));
+    await store.flush();
+
+    await store.saveChatMessages(CHAT, [msg("B")]);
+    expect(await store.loadMessages()).toEqual({ [CHAT]: [msg("B")], [other]: [msg("X")] });
+
+    await store.saveChatMessages(other, []);
+    expect(await store.loadMessages()).toEqual({ [CHAT]: [msg("B")] });
+  });
+});
+
+describe("MiawClient with a custom store", () => {
+  it("loads persisted stores from the backend", async () => {
+    const store = makeMemoryStore();
+    const client: any = new MiawClient({ instanceId: "custom-store", sessionPath: SESSION_PATH, store });
+
+    await client.loadLidMappingsFromStore();
+    await client.loadContactsFromStore();
+    await client.loadChatsFromStore();
+
+    expect(store.loadLidMappings).toHaveBeenCalledTimes(1);
+    expect(client.resolveLidToJid("123@lid")).toBe(CHAT);
+    expect(client.contactsStore.get(CHAT)).toMatchObject({ name: "Alice" });
+    expect(client.chatsStore.has(CHAT)).toBe(true);
+  });
+
+  it("uses appendMessage for new messages instead of rewriting every chat", () => {
+    const store = makeMemoryStore();
+    const client: any = new MiawClient({ instanceId: "custom-store", sessionPath: SESSION_PATH, store });
+    const message = { id: "A", from: CHAT, fromMe: false, type: "text", text: "hi", timestamp: 1, isGroup: false };
+
+    expect(client.storeMessage(message)).toBe(true);
+    expect(client.storeMessage(message)).toBe(false);
+
+    expect(store.appendMessage).toHaveBeenCalledTimes(1);
+    expect(store.appendMessage).toHaveBeenCalledWith(CHAT, message);
+    expect(store.saveMessages).not.toHaveBeenCalled();
+  });
+
+  it("falls back to saveMessages when appendMessage is not implemented", () => {
+    const store = makeMemoryStore();
+    delete store.appendMessage;
+    const client: any = new MiawClient({ instanceId: "custom-store", sessionPath: SESSION_PATH, store });
+
+    client.storeMessage({ id: "A", from: CHAT, fromMe: false, type: "text", timestamp: 1, isGroup: false });
+
+    expect(store.saveMessages).toHaveBeenCalledWith({ [CHAT]: [expect.objectContaining({ id: "A" })] });
+  });
+
+  it("flushes the backend on dispose()", async () => {
+    const store = { ...makeMemoryStore(), flush: jest.fn(async () => {}) };
+    const client = new MiawClient({ instanceId: "custom-store", sessionPath: SESSION_PATH, store });
+
+    await client.dispose();
+
+    expect(store.flush).toHaveBeenCalledTimes(1);
+  });
+
+  it("clears the backend on clearSession()", () => {
+    const store = makeMemoryStore();
+    const client = new MiawClient({ instanceId: "custom-store", sessionPath: SESSION_PATH, store });
+
+    client.clearSession();
+
+    expect(store.clear).toHaveBeenCalledTimes(1);
+  });
+});
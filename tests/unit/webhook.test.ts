@@ -0,0 +1,199 @@
+/**
+ * Unit tests for WebhookDispatcher: signing, event filtering, retries with
+ * backoff, the persisted dead-letter queue and message serialization.
+ * Delivers to a real local HTTP receiver.
+ */
+
+import { EventEmitter } from "node:events";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { jest, describe, beforeEach, afterEach, it, expect } from "@jest/globals";
+import { WebhookDispatcher } from "../../src/handlers/WebhookDispatcher.js";
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+const CHAT = "6281234567890@s.whatsapp.net";
+
+function makeClient() {
+  const client: any = new EventEmitter();
+  client.getInstanceId = () => "main";
+  client.downloadMedia = jest.fn(async () => Buffer.from("jpeg-bytes"));
+  return client;
+}
+
+describe("WebhookDispatcher", () => {
+  let receiver: Server;
+  let url: string;
+  let received: Received[];
+  let statuses: number[];
+  let dir: string;
+  let client: any;
+  let dispatcher: WebhookDispatcher | null;
+
+  const create = (options: Partial<ConstructorParameters<typeof WebhookDispatcher>[1]> = {}) => {
+    dispatcher = new WebhookDispatcher(client, {
+      endpoints: [{ url, secret: "s3cret" }],
+      retryBackoffMs: 5,
+      deadLetterFile: path.join(dir, "dead.jsonl"),
+      ...options,
+    });
+    return dispatcher;
+  };
+
+  beforeEach(async () => {
+    received = [];
+    statuses = [];
+    receiver = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(statuses.shift() ?? 200).end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "miaw-webhook-"));
+    client = makeClient();
+    dispatcher = null;
+  });
+
+  afterEach(async () => {
+    await dispatcher?.close();
+    receiver.closeAllConnections();
+    await new Promise<void>((resolve) => receiver.close(() => resolve()));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("POSTs signed payloads without the raw message", async () => {
+    create();
+    client.emit("message", { id: "M1", from: CHAT, text: "hi", type: "text", raw: { key: "x" } });
+    await dispatcher!.flush();
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    const payload = JSON.parse(body);
+    expect(payload).toMatchObject({ event: "message", instanceId: "main", data: { id: "M1", text: "hi" } });
+    expect(payload.data.raw).toBeUndefined();
+    expect(headers["x-miaw-event"]).toBe("message");
+    expect(headers["x-miaw-delivery"]).toBe(payload.id);
+    expect(
+      WebhookDispatcher.verifySignature(
+        body,
+        "s3cret",
+        headers["x-miaw-signature"] as string,
+        headers["x-miaw-timestamp"] as string
+      )
+    ).toBe(true);
+    expect(WebhookDispatcher.verifySignature(body, "wrong", headers["x-miaw-signature"] as string, Date.now())).toBe(
+      false
+    );
+  });
+
+  it("filters events per endpoint", async () => {
+    create({
+      endpoints: [
+        { url: `${url}?a`, events: ["connection"] },
+        { url: `${url}?b`, events: ["message"], filter: (_event, data: any) => data.isGroup },
+      ],
+    });
+    client.emit("connection", "connected");
+    client.emit("message", { id: "M1", from: CHAT, type: "text", isGroup: false });
+    client.emit("message", { id: "M2", from: "123@g.us", type: "text", isGroup: true });
+    client.emit("ready");
+    await dispatcher!.flush();
+
+    expect(received.map((r) => JSON.parse(r.body).event).sort()).toEqual(["connection", "message"]);
+    expect(JSON.parse(received.find((r) => r.headers["x-miaw-event"] === "message")!.body).data.id).toBe("M2");
+  });
+
+  it("retries server errors with the same delivery ID", async () => {
+    statuses = [503, 500];
+    create();
+    client.emit("qr", "QR-DATA");
+    await dispatcher!.flush();
+
+    expect(received).toHaveLength(3);
+    expect(new Set(received.map((r) => r.headers["x-miaw-delivery"])).size).toBe(1);
+    expect(dispatcher!.getDeadLetters()).toEqual([]);
+  });
+
+  it("dead-letters failed deliveries to disk and retries them after a restart", async () => {
+    statuses = [400];
+    const onDeadLetter = jest.fn();
+    create({ onDeadLetter });
+    client.emit("pairing_code", "ABCD-1234");
+    await dispatcher!.flush();
+
+    // Client errors are not retried
+    expect(received).toHaveLength(1);
+    expect(onDeadLetter).toHaveBeenCalledWith(expect.objectContaining({ url, attempts: 1, error: "HTTP 400" }));
+    await dispatcher!.close();
+
+    const restarted = create();
+    expect(restarted.getDeadLetters()).toHaveLength(1);
+    expect(await restarted.retryDeadLetters()).toBe(1);
+    expect(JSON.parse(received[1].body).data).toBe("ABCD-1234");
+    expect(restarted.getDeadLetters()).toEqual([]);
+    expect(fs.readFileSync(path.join(dir, "dead.jsonl"), "utf8")).toBe("");
+  });
+
+  it("moves deliveries waiting for a retry to the dead-letter queue on close", async () => {
+    statuses = [503];
+    create({ retryBackoffMs: 60_000, maxRetries: 1 });
+    client.emit("connection", "connecting");
+    while (received.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    await dispatcher!.close();
+    expect(dispatcher!.getDeadLetters()).toEqual([expect.objectContaining({ attempts: 1, error: "HTTP 503" })]);
+    expect(client.listenerCount("connection")).toBe(0);
+  });
+
+  it("inlines media as base64 or links it through the REST API", async () => {
+    const image = { id: "IMG", from: CHAT, type: "image", media: { mimetype: "image/jpeg", fileSize: 10 }, raw: {} };
+
+    create({ media: "base64" });
+    client.emit("message", image);
+    await dispatcher!.flush();
+    expect(Buffer.from(JSON.parse(received[0].body).data.mediaBase64, "base64").toString()).toBe("jpeg-bytes");
+    await dispatcher!.close();
+
+    create({ media: "base64", maxMediaBytes: 5 });
+    client.emit("message", image);
+    await dispatcher!.flush();
+    expect(JSON.parse(received[1].body).data.mediaBase64).toBeUndefined();
+    await dispatcher!.close();
+
+    create({ media: "url", mediaBaseUrl: "https://bot.test/api/" });
+    client.emit("message", image);
+    await dispatcher!.flush();
+    expect(JSON.parse(received[2].body).data.mediaUrl).toBe(
+      `https://bot.test/api/instances/main/chats/${encodeURIComponent(CHAT)}/messages/IMG/media`
+    );
+    expect(client.downloadMedia).toHaveBeenCalledTimes(1);
+  });
+
+  it("serializes buffers, bigints and circular references", async () => {
+    create();
+    const data: any = { size: 10n, thumb: Buffer.from("abc"), shared: { a: 1 } };
+    data.self = data;
+    data.again = data.shared;
+    await dispatcher!.dispatch("presence", data);
+
+    expect(JSON.parse(received[0].body).data).toEqual({
+      size: "10",
+      thumb: Buffer.from("abc").toString("base64"),
+      shared: { a: 1 },
+      self: "[Circular]",
+      again: { a: 1 },
+    });
+  });
+});